@@ -1,6 +1,7 @@
 import type { PantryItem } from "@shared/schema";
 
 import { CulturalCuisine, CulturalRecipe, CulturalTechnique } from "@shared/schema";
+import { ingredientLines, toRecipeIngredients } from "@shared/ingredients";
 import { generateContent, model, safeJsonParse } from "./gemini-client";
 
 // Remove the old queue management since it's now handled in gemini-client
@@ -145,9 +146,7 @@ export async function analyzeCulturalCuisine(cuisine: CulturalCuisine): Promise<
 }
 
 export async function getRecipeAuthenticityScore(recipe: CulturalRecipe, substitutions: any[]): Promise<RecipeAuthenticityAnalysis> {
-  const ingredients = Array.isArray(recipe.authenticIngredients) 
-    ? recipe.authenticIngredients 
-    : [];
+  const ingredients = ingredientLines(recipe.authenticIngredients);
 
   return {
     authenticityScore: 100 - (substitutions.filter(s => s.flavorImpact === 'significant').length * 20),
@@ -259,7 +258,7 @@ export async function getPairings(recipe: CulturalRecipe, cuisine: CulturalCuisi
   const prompt = `Suggest specific food pairings for this ${cuisine.name} recipe:
     Recipe: ${JSON.stringify({
       name: recipe.name,
-      ingredients: recipe.authenticIngredients
+      ingredients: ingredientLines(recipe.authenticIngredients)
     })}
     
     Return JSON with these categories:
@@ -327,9 +326,8 @@ export async function getEtiquette(recipe: CulturalRecipe, cuisine: CulturalCuis
 }
 
 export async function getSubstitutions(recipe: CulturalRecipe, pantryItems: PantryItem[], region: string) {
-  const ingredients = Array.isArray(recipe.authenticIngredients) 
-    ? recipe.authenticIngredients 
-    : Object.keys(recipe.authenticIngredients as Record<string, unknown> || {});
+  // Substitution rules and AI suggestions are matched on the bare ingredient name
+  const ingredients = toRecipeIngredients(recipe.authenticIngredients).map(ingredient => ingredient.name);
 
   const substitutionsPrompt = `You are a JSON API that must return a valid JSON array. For these ingredients, provide substitution options:
     Ingredients: ${JSON.stringify(ingredients)}
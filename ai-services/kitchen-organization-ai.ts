@@ -1,5 +1,6 @@
 import { model, safeJsonParse } from "./gemini-client";
 import type { StorageItem, KitchenStorageLocation } from "@shared/schema";
+import { mentions } from "@shared/diet";
 
 interface StorageOptimizationMove {
   itemId: number;
@@ -43,7 +44,7 @@ export async function getOptimalStorageLocation(
 export async function generateSmartShoppingList(
   items: StorageItem[],
   locations: KitchenStorageLocation[]
-): Promise<{ name: string; reason: string }[]> {
+): Promise<ShoppingRecommendation[]> {
   const prompt = `
     Analyze current inventory and storage capacity to suggest items for shopping.
     Current Items: ${JSON.stringify(items)}
@@ -54,15 +55,24 @@ export async function generateSmartShoppingList(
     3. Items nearing expiry that need replacement
     Return a JSON array of objects with name and reason fields.`;
 
-  const result = await model.generateContent(prompt);
-  const response = await result.response.text();
-  return await safeJsonParse(response);
+  try {
+    const result = await model.generateContent(prompt);
+    const response = await result.response.text();
+    const parsed = await safeJsonParse(response);
+    if (!Array.isArray(parsed) || !parsed.every(entry => entry && typeof entry.name === 'string')) {
+      throw new Error('Unexpected shopping list format');
+    }
+    return parsed;
+  } catch (error) {
+    console.error('Error generating smart shopping list, using rule-based list:', error);
+    return getRuleBasedShoppingList(items, locations);
+  }
 }
 
 export async function predictSpoilage(
   items: StorageItem[],
   locations: KitchenStorageLocation[]
-): Promise<{ itemId: number; daysUntilSpoilage: number; recommendation: string }[]> {
+): Promise<SpoilagePrediction[]> {
   const prompt = `
     Predict potential spoilage for these items based on their storage conditions.
     Items: ${JSON.stringify(items)}
@@ -74,15 +84,28 @@ export async function predictSpoilage(
     4. Usage patterns
     Return a JSON array of objects with itemId, daysUntilSpoilage, and recommendation fields.`;
 
-  const result = await model.generateContent(prompt);
-  const response = await result.response.text();
-  return await safeJsonParse(response);
+  try {
+    const result = await model.generateContent(prompt);
+    const response = await result.response.text();
+    const parsed = await safeJsonParse(response);
+    if (!Array.isArray(parsed)) {
+      throw new Error('Unexpected spoilage prediction format');
+    }
+    // Drop anything the model invented for items the user doesn't have
+    const itemIds = new Set(items.map(item => item.id));
+    return parsed.filter(prediction =>
+      itemIds.has(prediction?.itemId) && typeof prediction.daysUntilSpoilage === 'number'
+    );
+  } catch (error) {
+    console.error('Error predicting spoilage, using rule-based predictions:', error);
+    return getRuleBasedSpoilagePredictions(items, locations);
+  }
 }
 
 export async function optimizeStorageLayout(
   items: StorageItem[],
   locations: KitchenStorageLocation[]
-): Promise<{ moves: { itemId: number; newLocationId: number; reason: string }[] }> {
+): Promise<{ moves: StorageOptimizationMove[] }> {
   const prompt = `
     Analyze current kitchen storage layout and suggest optimizations.
     Current Items: ${JSON.stringify(items)}
@@ -94,9 +117,24 @@ export async function optimizeStorageLayout(
     4. Accessibility needs
     Return a JSON object with a moves array containing itemId, newLocationId, and reason for each suggested move.`;
 
-  const result = await model.generateContent(prompt);
-  const response = await result.response.text();
-  return await safeJsonParse(response);
+  try {
+    const result = await model.generateContent(prompt);
+    const response = await result.response.text();
+    const parsed = await safeJsonParse(response);
+    if (!parsed || !Array.isArray(parsed.moves)) {
+      throw new Error('Unexpected layout optimization format');
+    }
+    const itemIds = new Set(items.map(item => item.id));
+    const locationIds = new Set(locations.map(location => location.id));
+    return {
+      moves: parsed.moves.filter((move: StorageOptimizationMove) =>
+        itemIds.has(move?.itemId) && locationIds.has(move.newLocationId)
+      )
+    };
+  } catch (error) {
+    console.error('Error optimizing storage layout, using rule-based layout:', error);
+    return getRuleBasedLayoutOptimization(items, locations);
+  }
 }
 
 export async function analyzeKitchenLayout(layout: string): Promise<{
@@ -273,9 +311,63 @@ export async function getStorageEfficiency(
   }
 }
 
-// Helper functions with embedded knowledge
-function getItemType(itemName: string): string {
-  // ... existing helper function implementation ...
+// Rule-based fallbacks used when the model is unavailable or returns something unusable
+
+// Typical shelf life in days, by item type and the kind of location it is kept in
+const SHELF_LIFE_DAYS: Record<string, Record<string, number>> = {
+  produce: { refrigerator: 7, counter: 4, pantry: 5, cabinet: 5, freezer: 240 },
+  dairy: { refrigerator: 10, counter: 1, pantry: 1, cabinet: 1, freezer: 90 },
+  meat: { refrigerator: 3, counter: 0, pantry: 0, cabinet: 0, freezer: 180 },
+  seafood: { refrigerator: 2, counter: 0, pantry: 0, cabinet: 0, freezer: 120 },
+  frozen: { refrigerator: 2, counter: 0, pantry: 0, cabinet: 0, freezer: 180 },
+  bakery: { refrigerator: 10, counter: 4, pantry: 5, cabinet: 5, freezer: 90 },
+  'dry-goods': { refrigerator: 365, counter: 180, pantry: 365, cabinet: 365, freezer: 365 },
+  condiment: { refrigerator: 180, counter: 60, pantry: 120, cabinet: 120, freezer: 365 },
+  beverage: { refrigerator: 30, counter: 30, pantry: 180, cabinet: 180, freezer: 90 },
+  other: { refrigerator: 14, counter: 14, pantry: 30, cabinet: 30, freezer: 90 },
+};
+
+// Location types that suit each item type, best first
+const PREFERRED_LOCATIONS: Record<string, string[]> = {
+  produce: ['refrigerator', 'counter'],
+  dairy: ['refrigerator'],
+  meat: ['refrigerator', 'freezer'],
+  seafood: ['refrigerator', 'freezer'],
+  frozen: ['freezer'],
+  bakery: ['counter', 'pantry', 'cabinet'],
+  'dry-goods': ['pantry', 'cabinet'],
+  condiment: ['pantry', 'cabinet', 'refrigerator'],
+  beverage: ['pantry', 'refrigerator', 'cabinet'],
+  other: ['pantry', 'cabinet', 'counter', 'refrigerator', 'freezer'],
+};
+
+const ITEM_TYPE_KEYWORDS: [string, string[]][] = [
+  ['frozen', ['frozen', 'ice cream', 'popsicle']],
+  ['seafood', ['fish', 'salmon', 'tuna', 'shrimp', 'prawn', 'cod', 'crab', 'lobster', 'seafood']],
+  ['meat', ['chicken', 'beef', 'pork', 'lamb', 'turkey', 'bacon', 'sausage', 'ham', 'mince', 'steak', 'meat']],
+  ['dairy', ['milk', 'cheese', 'yogurt', 'yoghurt', 'butter', 'cream', 'egg']],
+  ['produce', ['apple', 'banana', 'berry', 'berries', 'lettuce', 'spinach', 'tomato', 'carrot', 'onion', 'potato', 'pepper', 'cucumber', 'broccoli', 'fruit', 'vegetable', 'herb', 'lemon', 'lime', 'orange', 'grape', 'avocado', 'mushroom']],
+  ['bakery', ['bread', 'bagel', 'bun', 'roll', 'tortilla', 'muffin', 'cake', 'croissant']],
+  ['condiment', ['sauce', 'ketchup', 'mustard', 'mayo', 'dressing', 'vinegar', 'oil', 'jam', 'honey', 'syrup', 'spice', 'salt']],
+  ['beverage', ['juice', 'soda', 'water', 'coffee', 'tea', 'wine', 'beer']],
+  ['dry-goods', ['rice', 'pasta', 'flour', 'sugar', 'cereal', 'oat', 'bean', 'lentil', 'nut', 'can', 'canned', 'cracker', 'noodle', 'grain']],
+];
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+export function getItemType(itemName: string, category?: string | null): string {
+  const normalizedCategory = category?.toLowerCase().trim();
+  if (normalizedCategory && SHELF_LIFE_DAYS[normalizedCategory]) {
+    return normalizedCategory;
+  }
+
+  // Whole words only, so "rolled oats" isn't a bread roll and "eggplant" isn't dairy
+  const name = itemName.toLowerCase();
+  for (const [type, keywords] of ITEM_TYPE_KEYWORDS) {
+    if (keywords.some(keyword => mentions(name, keyword))) {
+      return type;
+    }
+  }
   return 'other';
 }
 
@@ -284,13 +376,25 @@ function getLocationIdByType(locations: KitchenStorageLocation[], type: string):
   return location ? location.id : 0;
 }
 
-function getReasonForMove(itemType: string, itemName: string): string {
-  // ... existing helper function implementation ...
-  return `${itemName} would be better organized in this location`;
+function getReasonForMove(itemType: string, itemName: string, locationType?: string): string {
+  switch (itemType) {
+    case 'dairy':
+    case 'meat':
+    case 'seafood':
+      return `${itemName} is perishable and needs to stay chilled in the ${locationType}`;
+    case 'frozen':
+      return `${itemName} will thaw unless it is kept in the ${locationType}`;
+    case 'produce':
+      return `${itemName} keeps its freshness longer in the ${locationType}`;
+    case 'dry-goods':
+    case 'condiment':
+      return `${itemName} is shelf-stable, so moving it to the ${locationType} frees up cold storage`;
+    default:
+      return `${itemName} would be better organized in this location`;
+  }
 }
 
 function getRecommendationForSpoilage(foodType: string, daysUntilSpoilage: number): string {
-  // ... existing helper function implementation ...
   if (daysUntilSpoilage <= 0) {
     return `Your ${foodType} should be used immediately or discarded`;
   } else if (daysUntilSpoilage <= 3) {
@@ -300,4 +404,111 @@ function getRecommendationForSpoilage(foodType: string, daysUntilSpoilage: numbe
   } else {
     return `Your ${foodType} should be used within ${daysUntilSpoilage} days`;
   }
-}
\ No newline at end of file
+}
+
+function getDaysUntilSpoilage(
+  item: StorageItem,
+  location: KitchenStorageLocation | undefined,
+  now: Date
+): number {
+  if (item.expiryDate) {
+    return Math.ceil((new Date(item.expiryDate).getTime() - now.getTime()) / DAY_MS);
+  }
+
+  const itemType = getItemType(item.name, item.category);
+  const locationType = location?.type ?? 'pantry';
+  let shelfLife = SHELF_LIFE_DAYS[itemType][locationType] ?? SHELF_LIFE_DAYS[itemType].pantry;
+
+  // A fridge running warmer than 5°C shortens shelf life noticeably
+  if (locationType === 'refrigerator' && location?.temperature != null && location.temperature > 5) {
+    shelfLife = Math.floor(shelfLife * 0.7);
+  }
+
+  const storedAt = item.createdAt ? new Date(item.createdAt) : now;
+  const daysStored = Math.floor((now.getTime() - storedAt.getTime()) / DAY_MS);
+  return shelfLife - daysStored;
+}
+
+export function getRuleBasedSpoilagePredictions(
+  items: StorageItem[],
+  locations: KitchenStorageLocation[],
+  now: Date = new Date()
+): SpoilagePrediction[] {
+  return items
+    .map(item => {
+      const location = locations.find(loc => loc.id === item.locationId);
+      const daysUntilSpoilage = getDaysUntilSpoilage(item, location, now);
+      return {
+        itemId: item.id,
+        daysUntilSpoilage,
+        recommendation: getRecommendationForSpoilage(item.name, daysUntilSpoilage),
+      };
+    })
+    .sort((a, b) => a.daysUntilSpoilage - b.daysUntilSpoilage);
+}
+
+export function getRuleBasedLayoutOptimization(
+  items: StorageItem[],
+  locations: KitchenStorageLocation[]
+): { moves: StorageOptimizationMove[] } {
+  // Track free slots locally so suggested moves never overfill a location
+  const freeSlots = new Map(
+    locations.map(loc => [loc.id, loc.capacity - (loc.currentItems ?? 0)])
+  );
+  const moves: StorageOptimizationMove[] = [];
+
+  for (const item of items) {
+    const current = locations.find(loc => loc.id === item.locationId);
+    const itemType = getItemType(item.name, item.category);
+    const preferred = PREFERRED_LOCATIONS[itemType];
+    if (!current || preferred.includes(current.type)) continue;
+
+    for (const locationType of preferred) {
+      const target = locations.find(
+        loc => loc.type === locationType && (freeSlots.get(loc.id) ?? 0) > 0
+      );
+      if (!target) continue;
+
+      moves.push({
+        itemId: item.id,
+        newLocationId: target.id,
+        reason: getReasonForMove(itemType, item.name, target.type),
+      });
+      freeSlots.set(target.id, (freeSlots.get(target.id) ?? 0) - 1);
+      freeSlots.set(current.id, (freeSlots.get(current.id) ?? 0) + 1);
+      break;
+    }
+  }
+
+  return { moves };
+}
+
+export function getRuleBasedShoppingList(
+  items: StorageItem[],
+  locations: KitchenStorageLocation[],
+  now: Date = new Date()
+): ShoppingRecommendation[] {
+  const recommendations = new Map<string, ShoppingRecommendation>();
+
+  for (const item of items) {
+    const key = item.name.toLowerCase().trim();
+    if (recommendations.has(key)) continue;
+
+    const location = locations.find(loc => loc.id === item.locationId);
+    const daysLeft = getDaysUntilSpoilage(item, location, now);
+    const quantity = item.quantity ?? 0;
+
+    if (quantity <= 0) {
+      recommendations.set(key, { name: item.name, reason: 'Out of stock' });
+    } else if (daysLeft <= 2) {
+      recommendations.set(key, {
+        name: item.name,
+        reason: daysLeft <= 0 ? 'Expired - replace it' : `Expires in ${daysLeft} days - plan a replacement`,
+      });
+    } else if (quantity <= 1 && item.usageFrequency === 'high') {
+      recommendations.set(key, { name: item.name, reason: 'Running low on a frequently used item' });
+    }
+  }
+
+  return Array.from(recommendations.values());
+}
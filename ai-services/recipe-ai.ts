@@ -1,4 +1,5 @@
 import { model, safeJsonParse } from "./gemini-client";
+import { MAX_GENERATED_PLAN_DAYS } from "@shared/meal-plans";
 
 export interface RecipeRecommendation {
   title: string;
@@ -23,23 +24,30 @@ export interface MealPlan {
       description: string;
       nutritionalInfo: string;
       preparationTime: string;
+      ingredients: string[];
+      instructions: string[];
     };
     lunch: {
       title: string;
       description: string;
       nutritionalInfo: string;
       preparationTime: string;
+      ingredients: string[];
+      instructions: string[];
     };
     dinner: {
       title: string;
       description: string;
       nutritionalInfo: string;
       preparationTime: string;
+      ingredients: string[];
+      instructions: string[];
     };
     snacks: Array<{
       title: string;
       description: string;
       nutritionalInfo: string;
+      ingredients: string[];
     }>;
   };
   totalCalories: number;
@@ -119,15 +127,43 @@ Focus on balanced nutrition and variety. Include breakfast, lunch, dinner, and s
   return result.response.text();
 }
 
+const MEAL_PLAN_DAYS_PER_REQUEST = 7;
+
+/**
+ * `reviewDays`, when given, sees each chunk as soon as it is generated (with
+ * its final day numbers) and returns the days to keep; throwing from it stops
+ * generation before the next chunk is requested.
+ */
 export async function generateAIMealPlan(
   preferences: string[],
   days: number = 7,
   dietaryRestrictions?: string[],
-  calorieTarget?: number
+  calorieTarget?: number,
+  reviewDays?: (days: MealPlan[]) => Promise<MealPlan[]>
 ): Promise<MealPlan[]> {
+  if (!Number.isInteger(days) || days < 1 || days > MAX_GENERATED_PLAN_DAYS) {
+    throw new Error(`Meal plans are generated for 1 to ${MAX_GENERATED_PLAN_DAYS} days at a time`);
+  }
+
+  // Longer plans are generated a week at a time to keep each response a manageable size
+  if (days > MEAL_PLAN_DAYS_PER_REQUEST) {
+    const plan: MealPlan[] = [];
+    for (let offset = 0; offset < days; offset += MEAL_PLAN_DAYS_PER_REQUEST) {
+      const week = await generateAIMealPlan(
+        preferences,
+        Math.min(MEAL_PLAN_DAYS_PER_REQUEST, days - offset),
+        dietaryRestrictions,
+        calorieTarget
+      );
+      const numbered = week.map((day, index) => ({ ...day, day: offset + index + 1 }));
+      plan.push(...(reviewDays ? await reviewDays(numbered) : numbered));
+    }
+    return plan;
+  }
+
   const prompt = `Create a detailed ${days}-day meal plan with these specifications:
 Preferences: ${preferences.join(', ')}
-${dietaryRestrictions ? `Dietary Restrictions: ${dietaryRestrictions.join(', ')}` : ''}
+${dietaryRestrictions?.length ? `Dietary Restrictions (strict; no meal may include an ingredient that breaks them): ${dietaryRestrictions.join(', ')}` : ''}
 ${calorieTarget ? `Daily Calorie Target: ${calorieTarget} calories` : ''}
 
 Return the meal plan as a JSON array where each day object has this structure:
@@ -138,20 +174,53 @@ Return the meal plan as a JSON array where each day object has this structure:
       "title": string,
       "description": string,
       "nutritionalInfo": string (format: "X kcal, Xg protein, Xg carbs, Xg fat"),
-      "preparationTime": string
+      "preparationTime": string,
+      "ingredients": string[] (for one serving, one per ingredient with amount and unit, e.g. "1 cup rolled oats"),
+      "instructions": string[] (one step per entry)
     },
     "lunch": { same as breakfast },
     "dinner": { same as breakfast },
     "snacks": [{
       "title": string,
       "description": string,
-      "nutritionalInfo": string
+      "nutritionalInfo": string,
+      "ingredients": string[]
     }]
   },
   "totalCalories": number,
   "nutritionSummary": string
 }`;
 
+  const result = await model.generateContent(prompt);
+  const response = await result.response.text();
+  const plan: MealPlan[] = await safeJsonParse(response);
+  return reviewDays ? reviewDays(plan) : plan;
+}
+
+// A single meal to replace one from a generated plan that broke the dietary restrictions
+export async function generateAIMealSlot(
+  mealType: string,
+  preferences: string[],
+  dietaryRestrictions: string[],
+  problems: string[],
+  calorieTarget?: number
+): Promise<MealPlan["meals"]["breakfast"]> {
+  const prompt = `Create one ${mealType} for a meal plan with these specifications:
+Preferences: ${preferences.join(', ')}
+Dietary Restrictions (strict; no ingredient may break them): ${dietaryRestrictions.join(', ')}
+The previous suggestion was rejected because: ${problems.join('; ')}
+${calorieTarget ? `Daily Calorie Target: ${calorieTarget} calories` : ''}
+
+Return the meal as a JSON object with this structure:
+{
+  "title": string,
+  "description": string,
+  "nutritionalInfo": string (format: "X kcal, Xg protein, Xg carbs, Xg fat"),
+  "preparationTime": string,
+  "ingredients": string[] (for one serving, one per ingredient with amount and unit, e.g. "1 cup rolled oats"),
+  "instructions": string[] (one step per entry)
+}`;
+
   const result = await model.generateContent(prompt);
   const response = await result.response.text();
   return await safeJsonParse(response);
@@ -498,7 +567,20 @@ export async function generateRecipeDetails(
         "calories": number,
         "protein": number (in grams),
         "carbs": number (in grams),
-        "fat": number (in grams)
+        "fat": number (in grams),
+        "micronutrients": {
+          "fiber": number (in grams),
+          "sugar": number (in grams),
+          "saturatedFat": number (in grams),
+          "sodium": number (in mg),
+          "cholesterol": number (in mg),
+          "potassium": number (in mg),
+          "calcium": number (in mg),
+          "iron": number (in mg),
+          "vitaminA": number (in mcg),
+          "vitaminC": number (in mg),
+          "vitaminD": number (in mcg)
+        }
       },
       "prepTime": number (in minutes),
       "cookingTips": ["string"],
@@ -536,7 +618,20 @@ export async function generatePantryItemDetails(
         "calories": number,
         "protein": number (in grams),
         "carbs": number (in grams),
-        "fat": number (in grams)
+        "fat": number (in grams),
+        "micronutrients": {
+          "fiber": number (in grams),
+          "sugar": number (in grams),
+          "saturatedFat": number (in grams),
+          "sodium": number (in mg),
+          "cholesterol": number (in mg),
+          "potassium": number (in mg),
+          "calcium": number (in mg),
+          "iron": number (in mg),
+          "vitaminA": number (in mcg),
+          "vitaminC": number (in mg),
+          "vitaminD": number (in mcg)
+        }
       },
       "sustainabilityInfo": {
         "packaging": "string (one of: 'recyclable', 'biodegradable', 'reusable', 'non-recyclable')",
@@ -7,6 +7,8 @@ import { UserPreferencesProvider } from "@/contexts/UserPreferencesContext";
 import NotFound from "@/pages/not-found";
 import HomePage from "@/pages/home-page";
 import AuthPage from "@/pages/auth-page";
+import ForgotPasswordPage from "@/pages/forgot-password-page";
+import ResetPasswordPage from "@/pages/reset-password-page";
 import RecipesPage from "@/pages/recipes-page";
 import PantryPage from "@/pages/pantry-page";
 import CommunityPage from "@/pages/community-page";
@@ -14,6 +16,7 @@ import MealPlanPage from "@/pages/meal-plan-page";
 import { ProtectedRoute } from "./lib/protected-route";
 import { Navbar } from "@/components/navbar";
 import NutritionPage from "./pages/nutrition-page";
+import NutritionReportPage from "./pages/nutrition-report-page";
 import KitchenEquipmentPage from '@/pages/kitchen-equipment-page';
 import CulturalCuisinePage from '@/pages/cultural-cuisine-page';
 import KitchenStoragePage from '@/pages/kitchen-storage-page';
@@ -25,6 +28,8 @@ function Router() {
     <>
       <Switch>
         <Route path="/auth" component={AuthPage} />
+        <Route path="/forgot-password" component={ForgotPasswordPage} />
+        <Route path="/reset-password" component={ResetPasswordPage} />
         <Route>
           <Navbar />
           <Switch>
@@ -34,6 +39,7 @@ function Router() {
             <ProtectedRoute path="/community" component={CommunityPage} />
             <ProtectedRoute path="/meal-plans" component={MealPlanPage} />
             <ProtectedRoute path="/nutrition" component={NutritionPage} />
+            <ProtectedRoute path="/nutrition/report" component={NutritionReportPage} />
             <ProtectedRoute path="/kitchen-equipment" component={KitchenEquipmentPage} />
             <ProtectedRoute path="/cultural-cuisine" component={CulturalCuisinePage} />
             <ProtectedRoute path="/kitchen-storage" component={KitchenStoragePage} />
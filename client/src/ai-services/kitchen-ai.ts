@@ -1,58 +1,15 @@
 import type { KitchenEquipment, EquipmentRecommendation, MaintenanceSchedule } from '@shared/schema';
+import type { RecipeEquipmentMatches } from '@shared/recipe-equipment';
+import { apiRequest } from '@/lib/queryClient';
 import { model, safeJsonParse } from "../../../ai-services/gemini-client";
 
+// Purchases that would unlock the user's recipes, plus AI suggestions when the service is up
 export async function getEquipmentRecommendations(
-  currentEquipment: KitchenEquipment[],
-  cookingPreferences: string[],
+  cookingPreferences: string[] = [],
   budget?: number
 ): Promise<EquipmentRecommendation[]> {
-  const prompt = `You are a JSON API that must return a valid JSON array of kitchen equipment recommendations.
-  Current Equipment: ${JSON.stringify(currentEquipment)}
-  Cooking Preferences: ${cookingPreferences.join(', ')}
-  ${budget ? `Budget: $${budget}` : ''}
-  
-  Return EXACTLY this JSON structure with no additional text:
-  [
-    {
-      "name": "string",
-      "reason": "string",
-      "priority": "high|medium|low",
-      "estimatedCost": "string",
-      "alternativeOptions": ["string"]
-    }
-  ]`;
-
-  try {
-    const result = await model.generateContent(prompt);
-    const response = await result.response.text();
-    return await safeJsonParse(response);
-  } catch (error) {
-    console.error('Error getting equipment recommendations:', error);
-    return getMockRecommendations(currentEquipment, cookingPreferences);
-  }
-}
-
-async function fallbackToBackendRecommendations(
-  currentEquipment: KitchenEquipment[],
-  cookingPreferences: string[],
-  budget?: number
-): Promise<EquipmentRecommendation[]> {
-  try {
-    const response = await fetch('/api/kitchen-equipment/recommendations', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({ currentEquipment, cookingPreferences, budget }),
-    });
-    
-    if (!response.ok) throw new Error('Failed to get equipment recommendations');
-    return response.json();
-  } catch (error) {
-    console.error('Backend API failed for recommendations:', error);
-    // Return mock data as last resort
-    return getMockRecommendations(currentEquipment, cookingPreferences);
-  }
+  const res = await apiRequest('POST', '/api/kitchen-equipment/recommendations', { cookingPreferences, budget });
+  return res.json();
 }
 
 export async function generateMaintenanceSchedule(
@@ -243,122 +200,10 @@ async function fallbackToBackendMaintenanceSchedule(
   return generateMaintenanceScheduleLogic(equipment, startDate, endDate);
 }
 
-export async function getRecipesByEquipment(
-  equipment: KitchenEquipment[],
-  userPreferences?: string[]
-): Promise<{
-  possibleRecipes: { 
-    id: number; 
-    title: string;
-    description: string;
-    requiredEquipment: string[];
-    nutritionInfo: {
-      calories: number;
-      protein: number;
-      carbs: number;
-      fat: number;
-    };
-  }[];
-  recommendedPurchases: { equipment: string; enabledRecipes: string[] }[];
-}> {
-  const prompt = `You are a JSON API that must return recipe recommendations based on available kitchen equipment.
-  Equipment: ${JSON.stringify(equipment)}
-  ${userPreferences ? `User Preferences: ${userPreferences.join(', ')}` : ''}
-  
-  Return EXACTLY this JSON structure with no additional text:
-  {
-    "possibleRecipes": [
-      {
-        "id": number,
-        "title": "string",
-        "description": "A description of the recipe including cooking method and flavors",
-        "requiredEquipment": ["string"],
-        "nutritionInfo": {
-          "calories": number,
-          "protein": number,
-          "carbs": number,
-          "fat": number
-        }
-      }
-    ],
-    "recommendedPurchases": [
-      {
-        "equipment": "string",
-        "enabledRecipes": ["string"]
-      }
-    ]
-  }`;
-
-  try {
-    const result = await model.generateContent(prompt);
-    const response = await result.response.text();
-    return await safeJsonParse(response);
-  } catch (error) {
-    console.error('Error getting recipes by equipment:', error);
-    return getMockRecipeMatches(equipment, userPreferences);
-  }
-}
-
-async function fallbackToBackendRecipeMatches(
-  equipment: KitchenEquipment[],
-  userPreferences?: string[]
-): Promise<{
-  possibleRecipes: { id: number; title: string; requiredEquipment: string[] }[];
-  recommendedPurchases: { equipment: string; enabledRecipes: string[] }[];
-}> {
-  try {
-    const response = await fetch('/api/kitchen-equipment/recipe-matches', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({ equipment, userPreferences }),
-    });
-
-    if (!response.ok) throw new Error('Failed to get recipe matches');
-    return response.json();
-  } catch (error) {
-    console.error('Backend API failed for recipe matches:', error);
-    // Return mock data as last resort
-    return getMockRecipeMatches(equipment, userPreferences);
-  }
-}
-
-// Mock data functions for fallback when both APIs fail
-function getMockRecommendations(
-  currentEquipment: KitchenEquipment[],
-  cookingPreferences: string[]
-): EquipmentRecommendation[] {
-  const hasProcessor = currentEquipment.some(e => e.name.toLowerCase().includes('processor'));
-  const hasSkillet = currentEquipment.some(e => e.name.toLowerCase().includes('skillet'));
-  
-  return [
-    {
-      id: 1,
-      name: hasProcessor ? 'High-Quality Chef\'s Knife' : 'Food Processor',
-      reason: hasProcessor 
-        ? 'A quality chef\'s knife is essential for precise cutting and food preparation' 
-        : 'Would greatly speed up food preparation and enable more complex recipes',
-      priority: 'high',
-      estimatedCost: hasProcessor ? '$80-150' : '$100-250'
-    },
-    {
-      id: 2,
-      name: hasSkillet ? 'Dutch Oven' : 'Cast Iron Skillet',
-      reason: hasSkillet 
-        ? 'Perfect for slow cooking stews, soups, and braising' 
-        : 'Versatile cookware for searing, baking, and stovetop cooking',
-      priority: 'medium',
-      estimatedCost: hasSkillet ? '$70-200' : '$30-100'
-    },
-    {
-      id: 3, 
-      name: 'Digital Kitchen Scale',
-      reason: 'Essential for precise measurements in baking and portion control',
-      priority: 'medium',
-      estimatedCost: '$15-30'
-    }
-  ];
+// The user's recipes their saved equipment can make, and what to buy to make more
+export async function getRecipesByEquipment(userPreferences?: string[]): Promise<RecipeEquipmentMatches> {
+  const res = await apiRequest('POST', '/api/kitchen-equipment/recipe-matches', { userPreferences });
+  return res.json();
 }
 
 // Replace the mock function with our intelligent schedule generator
@@ -369,114 +214,3 @@ function getMockMaintenanceSchedule(
 ): MaintenanceSchedule[] {
   return generateMaintenanceScheduleLogic(equipment, startDate, endDate);
 }
-
-function getMockRecipeMatches(
-  equipment: KitchenEquipment[],
-  userPreferences?: string[]
-): {
-  possibleRecipes: { 
-    id: number; 
-    title: string;
-    description: string;
-    requiredEquipment: string[];
-    nutritionInfo: {
-      calories: number;
-      protein: number;
-      carbs: number;
-      fat: number;
-    };
-  }[];
-  recommendedPurchases: { equipment: string; enabledRecipes: string[] }[];
-} {
-  const hasProcessor = equipment.some(e => e.name.toLowerCase().includes('processor'));
-  const hasSkillet = equipment.some(e => e.name.toLowerCase().includes('skillet'));
-  const hasMixer = equipment.some(e => e.name.toLowerCase().includes('mixer'));
-  const hasKnife = equipment.some(e => e.name.toLowerCase().includes('knife'));
-  
-  const possibleRecipes = [
-    {
-      id: 1,
-      title: 'Simple Pasta with Tomato Sauce',
-      description: 'A classic Italian dish featuring al dente pasta tossed in a rich tomato sauce. Perfect for beginners and quick weeknight meals.',
-      requiredEquipment: ['Chef\'s Knife', 'Large Pot'],
-      nutritionInfo: {
-        calories: 450,
-        protein: 12,
-        carbs: 65,
-        fat: 15
-      }
-    },
-    {
-      id: 2,
-      title: 'Pan-Seared Steak',
-      description: 'Restaurant-quality steak cooked to perfection in a cast iron skillet, developing a beautiful crust while staying juicy inside.',
-      requiredEquipment: ['Cast Iron Skillet', 'Chef\'s Knife'],
-      nutritionInfo: {
-        calories: 350,
-        protein: 35,
-        carbs: 0,
-        fat: 22
-      }
-    }
-  ];
-
-  if (hasProcessor) {
-    possibleRecipes.push({
-      id: 3,
-      title: 'Homemade Hummus',
-      description: 'Creamy and smooth hummus made from scratch with chickpeas, tahini, and fresh lemon juice.',
-      requiredEquipment: ['Food Processor'],
-      nutritionInfo: {
-        calories: 180,
-        protein: 8,
-        carbs: 20,
-        fat: 10
-      }
-    });
-  }
-  
-  if (hasSkillet && hasKnife) {
-    possibleRecipes.push({
-      id: 4,
-      title: 'Stir-Fried Vegetables',
-      description: 'Colorful medley of fresh vegetables stir-fried to crisp-tender perfection with aromatic garlic and ginger.',
-      requiredEquipment: ['Cast Iron Skillet', 'Chef\'s Knife'],
-      nutritionInfo: {
-        calories: 150,
-        protein: 5,
-        carbs: 25,
-        fat: 6
-      }
-    });
-  }
-  
-  if (hasMixer) {
-    possibleRecipes.push({
-      id: 5,
-      title: 'Artisan Bread',
-      description: 'Crusty on the outside, soft on the inside artisan bread made with just a few simple ingredients.',
-      requiredEquipment: ['Stand Mixer', 'Baking Sheet'],
-      nutritionInfo: {
-        calories: 120,
-        protein: 4,
-        carbs: 23,
-        fat: 1
-      }
-    });
-  }
-
-  const recommendedPurchases = [
-    {
-      equipment: hasProcessor ? 'Immersion Blender' : 'Food Processor',
-      enabledRecipes: ['Creamy Soups', 'Homemade Hummus', 'Pesto Sauce']
-    },
-    {
-      equipment: hasMixer ? 'Dutch Oven' : 'Stand Mixer',
-      enabledRecipes: hasMixer 
-        ? ['No-Knead Bread', 'Braised Short Ribs', 'French Onion Soup']
-        : ['Homemade Bread', 'Cake Batter', 'Cookie Dough']
-    }
-  ];
-  
-  return { possibleRecipes, recommendedPurchases };
-}
\ No newline at end of file
@@ -8,6 +8,11 @@ export interface KitchenEquipment {
   lastMaintenanceDate?: string;
   purchaseDate?: string;
   maintenanceInterval?: number; // in days
+  purchasePrice?: number;
+  brand?: string;
+  model?: string;
+  warrantyExpiry?: string;
+  expectedLifespanYears?: number;
 }
 
 export interface EquipmentAnalysis {
@@ -22,6 +22,7 @@ import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent,
 import { analyzeCulturalCuisine, type CulturalInsights, generateCulturalDetails } from "@ai-services/cultural-cuisine-service";
 import { generateCulturalRecipeDetails } from "@/lib/generateCulturalRecipeDetails";
 import type { CulturalCuisine, CulturalRecipe, CulturalTechnique } from "@shared/schema";
+import { toRecipeIngredients, formatIngredientList, type RecipeIngredient } from "@shared/ingredients";
 import { RecipeDetails } from "./RecipeDetails";
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
 
@@ -44,7 +45,7 @@ interface CuisineDetailsProps {
 // Update the Recipe interface to match CulturalRecipe
 interface Recipe extends Omit<CulturalRecipe, 'instructions' | 'authenticIngredients' | 'culturalNotes' | 'localSubstitutes'> {
   instructions: string[] | Record<string, string>;
-  authenticIngredients: string[] | Record<string, string>;
+  authenticIngredients: RecipeIngredient[];
   culturalNotes: Record<string, string>;
   createdBy: number;
   localSubstitutes: Record<string, string>;
@@ -499,11 +500,8 @@ export function CuisineDetails({ cuisineId, onBack }: CuisineDetailsProps) {
       
       // Handle ingredients
       if (ingredientsInput) {
-        let ingredientsText = '';
         console.log('[Form] Processing ingredients:', details.authenticIngredients);
-        if (Array.isArray(details.authenticIngredients)) {
-          ingredientsText = details.authenticIngredients.join('\n');
-        }
+        const ingredientsText = formatIngredientList(toRecipeIngredients(details.authenticIngredients)).join('\n');
         console.log('[Form] Setting ingredients text:', ingredientsText);
         ingredientsInput.value = ingredientsText;
       }
@@ -544,7 +542,7 @@ export function CuisineDetails({ cuisineId, onBack }: CuisineDetailsProps) {
         createdBy: currentUserId || 0,
         hiddenFor: [],
         localName: null,
-        authenticIngredients: (formData.get('ingredients') as string)?.split('\n').map(i => i.trim()).filter(Boolean) || [],
+        authenticIngredients: toRecipeIngredients((formData.get('ingredients') as string)?.split('\n') ?? []),
         instructions: (formData.get('instructions') as string)?.split('\n').filter(Boolean) || [],
         culturalNotes: {},
         localSubstitutes: {},
@@ -648,7 +646,7 @@ export function CuisineDetails({ cuisineId, onBack }: CuisineDetailsProps) {
     const fullRecipe: Recipe = {
       ...recipe,
       instructions: recipe.instructions as string[] | Record<string, string>,
-      authenticIngredients: recipe.authenticIngredients as string[] | Record<string, string>,
+      authenticIngredients: toRecipeIngredients(recipe.authenticIngredients),
       culturalNotes: recipe.culturalNotes as Record<string, string>,
       localSubstitutes: recipe.localSubstitutes as Record<string, string>,
       createdBy: recipe.createdBy || 0, // Ensure createdBy is always a number
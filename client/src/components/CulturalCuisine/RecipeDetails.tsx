@@ -18,6 +18,7 @@ import {
   Star, UtensilsCrossed, Map, Scroll, ArrowRight, Info, Globe2, Wine, Palette, ListOrdered, Ban, MapPin, Wrench 
 } from "lucide-react";
 import type { CulturalCuisine, CulturalRecipe } from "@shared/schema";
+import { toRecipeIngredients, formatRecipeIngredient, formatIngredientList } from "@shared/ingredients";
 import { getRecipeAuthenticityScore, getTechniqueTips, getSubstitutions, getPairings, getEtiquette, getCulturalContext } from "@ai-services/cultural-cuisine-service";
 import type { RecipeAuthenticityAnalysis, TechniqueTip } from "@ai-services/cultural-cuisine-service";
 import { ScrollArea } from "@/components/ui/scroll-area";
@@ -261,9 +262,9 @@ export function RecipeDetails({ recipe, cuisine, onBack }: RecipeDetailsProps) {
         instructions: Array.isArray(updatedData.instructions) 
           ? Object.fromEntries(updatedData.instructions.map((inst, i) => [i.toString(), inst]))
           : updatedData.instructions,
-        authenticIngredients: Array.isArray(updatedData.authenticIngredients)
-          ? Object.fromEntries(updatedData.authenticIngredients.map((ing, i) => [i.toString(), ing]))
-          : updatedData.authenticIngredients,
+        authenticIngredients: updatedData.authenticIngredients === undefined
+          ? undefined
+          : toRecipeIngredients(updatedData.authenticIngredients),
       };
 
       const response = await fetch(`/api/cultural-recipes/${recipe.id}`, {
@@ -360,8 +361,7 @@ export function RecipeDetails({ recipe, cuisine, onBack }: RecipeDetailsProps) {
   // Update button labels and dialogs based on content existence
   const hasInstructions = Array.isArray(recipeDetails.instructions) ? recipeDetails.instructions.length > 0 : 
     recipeDetails.instructions && Object.keys(recipeDetails.instructions).length > 0;
-  const hasIngredients = Array.isArray(recipeDetails.authenticIngredients) ? recipeDetails.authenticIngredients.length > 0 :
-    recipeDetails.authenticIngredients && Object.keys(recipeDetails.authenticIngredients).length > 0;
+  const hasIngredients = toRecipeIngredients(recipeDetails.authenticIngredients).length > 0;
   const hasNotes = recipeDetails.culturalNotes && Object.keys(recipeDetails.culturalNotes).length > 0;
 
   const renderModernAdaptations = () => {
@@ -386,10 +386,8 @@ export function RecipeDetails({ recipe, cuisine, onBack }: RecipeDetailsProps) {
     try {
       const details = await generateCulturalRecipeDetails(recipe.name, cuisine.name);
       
-      // Convert ingredients to comma-separated list
-      const ingredients = details.ingredients.map(ing => 
-        `${ing.amount} ${ing.item}${ing.notes ? ` (${ing.notes})` : ''}`
-      ).join(', ');
+      // One line per ingredient, as the editor expects
+      const ingredients = formatIngredientList(toRecipeIngredients(details.ingredients)).join('\n');
 
       // Update form fields
       const form = document.querySelector('form') as HTMLFormElement;
@@ -540,37 +538,25 @@ export function RecipeDetails({ recipe, cuisine, onBack }: RecipeDetailsProps) {
                         </Button>
                       </div>
                       <ul className="space-y-3 mt-4">
-                        {Array.isArray(recipe.authenticIngredients) ? (
-                          recipe.authenticIngredients.map((ingredient: string, i: number) => (
-                            <li key={i} className="flex items-center justify-between p-3 rounded-lg border bg-card hover:bg-accent/10 transition-colors">
-                              <div className="flex items-center gap-2">
-                                <ChevronRight className="h-4 w-4 text-primary" />
-                                <span className="font-medium">{ingredient}</span>
-                              </div>
-                              {substitutions.some(s => s.original === ingredient) && (
-                                <Badge variant="outline" className="animate-fadeIn flex items-center gap-1.5">
-                                  <div className="w-2 h-2 rounded-full bg-green-500 animate-pulse" />
-                                  <span>Has substitution</span>
-                                </Badge>
-                              )}
-                            </li>
-                          ))
-                        ) : recipe.authenticIngredients && typeof recipe.authenticIngredients === 'object' ? (
-                          Object.entries(recipe.authenticIngredients as Record<string, string>).map(([name, quantity]: [string, string], i: number) => (
-                            <li key={i} className="flex items-center justify-between p-3 rounded-lg border bg-card hover:bg-accent/10 transition-colors">
+                        {toRecipeIngredients(recipe.authenticIngredients).map((ingredient, i, ingredients) => (
+                          <li key={i} className="space-y-2">
+                            {ingredient.section && ingredient.section !== ingredients[i - 1]?.section && (
+                              <h4 className="pt-2 text-sm font-semibold text-muted-foreground">{ingredient.section}</h4>
+                            )}
+                            <div className="flex items-center justify-between p-3 rounded-lg border bg-card hover:bg-accent/10 transition-colors">
                               <div className="flex items-center gap-2">
                                 <ChevronRight className="h-4 w-4 text-primary" />
-                                <span className="font-medium">{name}: {quantity}</span>
+                                <span className="font-medium">{formatRecipeIngredient(ingredient)}</span>
                               </div>
-                              {substitutions.some(s => s.original === name) && (
+                              {substitutions.some(s => s.original === ingredient.name) && (
                                 <Badge variant="outline" className="animate-fadeIn flex items-center gap-1.5">
                                   <div className="w-2 h-2 rounded-full bg-green-500 animate-pulse" />
                                   <span>Has substitution</span>
                                 </Badge>
                               )}
-                            </li>
-                          ))
-                        ) : null}
+                            </div>
+                          </li>
+                        ))}
                       </ul>
                     </div>
                     
@@ -1073,7 +1059,7 @@ export function RecipeDetails({ recipe, cuisine, onBack }: RecipeDetailsProps) {
                   e.preventDefault();
                   const formData = new FormData(e.currentTarget);
                   const ingredientsText = formData.get('ingredients') as string;
-                  const ingredients = ingredientsText.split(',').map(i => i.trim()).filter(Boolean);
+                  const ingredients = toRecipeIngredients(ingredientsText.split('\n'));
                   handleUpdateRecipe({ authenticIngredients: ingredients });
                   setIsEditingIngredients(false);
                 }} className="space-y-4">
@@ -1097,15 +1083,12 @@ export function RecipeDetails({ recipe, cuisine, onBack }: RecipeDetailsProps) {
                     </div>
                     <Textarea 
                       name="ingredients"
-                      defaultValue={Array.isArray(recipeDetails.authenticIngredients) ? 
-                        recipeDetails.authenticIngredients.join(', ') : 
-                        Object.keys(recipeDetails.authenticIngredients || {}).join(', ')}
-                      placeholder="Enter ingredients separated by commas"
+                      defaultValue={formatIngredientList(toRecipeIngredients(recipeDetails.authenticIngredients)).join('\n')}
+                      placeholder="Enter one ingredient per line"
                       rows={6}
                     />
                     <p className="text-sm text-muted-foreground">
-                      Enter ingredients separated by commas. For example:
-                      {'\nrice, ginger, soy sauce, sesame oil'}
+                      One ingredient per line, e.g. "2 cups jasmine rice, rinsed". A line like "For the sauce:" starts a section.
                     </p>
                   </div>
                   <Button type="submit" className="w-full">
@@ -0,0 +1,146 @@
+import React, { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { format, parseISO } from 'date-fns';
+import { ResponsiveContainer, LineChart, Line, XAxis, YAxis, Tooltip } from 'recharts';
+import { AlertTriangle, History, Loader2, ShieldCheck } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { apiRequest } from '@/lib/queryClient';
+import type { EquipmentConditionChange } from '@shared/schema';
+import { toDateKey } from '@shared/meal-plans';
+import { equipmentLifecycle, type EquipmentLifecycle, type LifecycleEquipment } from '@shared/equipment-lifecycle';
+
+interface EquipmentLifecycleSummaryProps {
+  item: LifecycleEquipment & { id: number; name: string };
+}
+
+const formatMoney = (value: number) => `$${value.toLocaleString(undefined, { maximumFractionDigits: 2 })}`;
+
+function statusBadge(lifecycle: EquipmentLifecycle) {
+  if (lifecycle.status === 'past-end-of-life') {
+    return <Badge className="bg-red-100 text-red-800">Past expected lifespan</Badge>;
+  }
+  if (lifecycle.status === 'approaching-end-of-life') {
+    return <Badge className="bg-orange-100 text-orange-800">Nearing end of life</Badge>;
+  }
+  return null;
+}
+
+function warrantyText(lifecycle: EquipmentLifecycle): string | null {
+  switch (lifecycle.warranty) {
+    case 'active':
+      return `Warranty: ${lifecycle.warrantyDaysLeft} days left`;
+    case 'expiring':
+      return `Warranty ends in ${lifecycle.warrantyDaysLeft} ${lifecycle.warrantyDaysLeft === 1 ? 'day' : 'days'}`;
+    case 'expired':
+      return 'Warranty expired';
+    default:
+      return null;
+  }
+}
+
+// Age, value and warranty at a glance, with depreciation and condition history in a dialog
+export function EquipmentLifecycleSummary({ item }: EquipmentLifecycleSummaryProps) {
+  const [open, setOpen] = useState(false);
+  const lifecycle = equipmentLifecycle(item, toDateKey(new Date()));
+  const warranty = warrantyText(lifecycle);
+
+  const { data: history, isLoading: historyLoading } = useQuery<EquipmentConditionChange[]>({
+    queryKey: ['/api/kitchen-equipment', item.id, 'condition-history'],
+    queryFn: async () => {
+      const res = await apiRequest('GET', `/api/kitchen-equipment/${item.id}/condition-history`);
+      return res.json();
+    },
+    enabled: open,
+  });
+
+  return (
+    <div className="mt-3 space-y-2">
+      {lifecycle.lifeUsed !== null && (
+        <div className="space-y-1">
+          <div className="flex justify-between text-sm">
+            <span>{lifecycle.ageYears} of ~{lifecycle.lifespanYears} years</span>
+            {lifecycle.currentValue !== null && <span className="text-muted-foreground">Worth ~{formatMoney(lifecycle.currentValue)}</span>}
+          </div>
+          <Progress value={Math.min(100, lifecycle.lifeUsed * 100)} />
+        </div>
+      )}
+      <div className="flex flex-wrap items-center gap-2">
+        {statusBadge(lifecycle)}
+        {warranty && (
+          <span className={`flex items-center gap-1 text-sm ${lifecycle.warranty === 'active' ? 'text-muted-foreground' : 'text-orange-600'}`}>
+            {lifecycle.warranty === 'active' ? <ShieldCheck className="h-4 w-4" /> : <AlertTriangle className="h-4 w-4" />}
+            {warranty}
+          </span>
+        )}
+        <Button variant="link" size="sm" className="h-auto p-0 ml-auto" onClick={() => setOpen(true)}>
+          <History className="h-4 w-4 mr-1" />
+          History
+        </Button>
+      </div>
+
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent className="sm:max-w-lg">
+          <DialogHeader>
+            <DialogTitle>{item.name}</DialogTitle>
+          </DialogHeader>
+
+          <div className="space-y-6">
+            <div>
+              <h3 className="text-sm font-semibold mb-2">Depreciation</h3>
+              {lifecycle.depreciation.length > 0 ? (
+                <div className="h-[200px] w-full">
+                  <ResponsiveContainer width="100%" height="100%">
+                    <LineChart data={lifecycle.depreciation} margin={{ top: 10, right: 10, left: 0, bottom: 0 }}>
+                      <XAxis
+                        dataKey="date"
+                        stroke="#888888"
+                        fontSize={12}
+                        tickLine={false}
+                        axisLine={false}
+                        tickFormatter={(date: string) => date.slice(0, 4)}
+                      />
+                      <YAxis stroke="#888888" fontSize={12} tickLine={false} axisLine={false} tickFormatter={formatMoney} />
+                      <Tooltip formatter={(value: number) => formatMoney(value)} />
+                      <Line dataKey="value" name="Value" stroke="#2563eb" strokeWidth={2} dot />
+                    </LineChart>
+                  </ResponsiveContainer>
+                </div>
+              ) : (
+                <p className="text-sm text-muted-foreground">Add a purchase date and price to see how its value changes.</p>
+              )}
+              {lifecycle.endOfLifeDate && (
+                <p className="text-sm text-muted-foreground mt-2">
+                  Expected to last until {format(parseISO(lifecycle.endOfLifeDate), 'MMM yyyy')}
+                </p>
+              )}
+            </div>
+
+            <div>
+              <h3 className="text-sm font-semibold mb-2">Condition history</h3>
+              {historyLoading ? (
+                <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+              ) : history && history.length > 0 ? (
+                <ul className="space-y-2 text-sm">
+                  {history.map(change => (
+                    <li key={change.id} className="border-b pb-2">
+                      <div className="flex justify-between">
+                        <span>{change.fromCondition} → <span className="font-medium">{change.toCondition}</span></span>
+                        <span className="text-muted-foreground">{format(new Date(change.changedAt), 'MMM d, yyyy')}</span>
+                      </div>
+                      {change.note && <p className="text-muted-foreground">{change.note}</p>}
+                    </li>
+                  ))}
+                </ul>
+              ) : (
+                <p className="text-sm text-muted-foreground">No condition changes recorded yet.</p>
+              )}
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -1,8 +1,8 @@
 import React, { useEffect, useState } from 'react';
 import type { KitchenEquipmentFromDB } from './types';
-import type { EquipmentRecommendation, MaintenanceSchedule } from '@shared/schema';
+import type { EquipmentRecommendation } from '@shared/schema';
 import { convertToKitchenEquipment } from './utils';
-import { getEquipmentRecommendations, generateMaintenanceSchedule, getRecipesByEquipment } from '../../ai-services/kitchen-ai';
+import { getEquipmentRecommendations, getRecipesByEquipment } from '../../ai-services/kitchen-ai';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { ScrollArea } from '@/components/ui/scroll-area';
@@ -23,7 +23,6 @@ export function KitchenEquipment() {
   const [activeTab, setActiveTab] = useState('inventory');
   const [loading, setLoading] = useState(false);
   const [recommendations, setRecommendations] = useState<EquipmentRecommendation[] | null>(null);
-  const [maintenanceSchedule, setMaintenanceSchedule] = useState<MaintenanceSchedule[] | null>(null);
   const [recipeMatches, setRecipeMatches] = useState<{ 
     possibleRecipes: { id: number; title: string; requiredEquipment: string[] }[];
     recommendedPurchases: { equipment: string; enabledRecipes: string[] }[];
@@ -51,19 +50,14 @@ export function KitchenEquipment() {
     setLoading(true);
     try {
       const userPreferences = ['Italian', 'Healthy']; // Replace with actual preferences
-      
-      // Convert DB equipment to KitchenEquipment type for AI functions
-      const convertedEquipment = equipment.map(convertToKitchenEquipment);
-      
-      // Fetch all AI-powered insights in parallel
-      const [recsByEquip, maintSchedule, equipRecommendations] = await Promise.all([
-        getRecipesByEquipment(convertedEquipment, userPreferences),
-        generateMaintenanceSchedule(convertedEquipment, new Date().toISOString(), new Date(Date.now() + 30*24*60*60*1000).toISOString()),
-        getEquipmentRecommendations(convertedEquipment, userPreferences)
+
+      // Matches and recommendations are worked out on the server from the saved equipment
+      const [recsByEquip, equipRecommendations] = await Promise.all([
+        getRecipesByEquipment(userPreferences),
+        getEquipmentRecommendations(userPreferences)
       ]);
 
       setRecipeMatches(recsByEquip);
-      setMaintenanceSchedule(maintSchedule);
       setRecommendations(equipRecommendations);
     } catch (error) {
       toast({
@@ -116,11 +110,7 @@ export function KitchenEquipment() {
         </TabsContent>
 
         <TabsContent value="maintenance">
-          <MaintenanceScheduleView 
-            schedule={maintenanceSchedule}
-            equipment={equipment.map(convertToKitchenEquipment)}
-            onScheduleUpdated={() => updateAnalytics()}
-          />
+          <MaintenanceScheduleView onMaintenanceRecorded={() => fetchEquipment()} />
         </TabsContent>
 
         <TabsContent value="shopping">
@@ -1,90 +1,127 @@
-import React, { useState } from 'react';
+import React from 'react';
+import { useMutation, useQuery } from '@tanstack/react-query';
+import { format, parseISO } from 'date-fns';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
-import { CalendarIcon, CheckCircle } from 'lucide-react';
+import { CalendarIcon, CheckCircle, Loader2 } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
-import type { MaintenanceSchedule, KitchenEquipment } from '@shared/schema';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import type { KitchenEquipment } from '@shared/schema';
+import { DEFAULT_MAINTENANCE_HORIZON_DAYS, type MaintenanceScheduleResult, type MaintenanceTask } from '@shared/equipment-maintenance';
 
 interface MaintenanceScheduleViewProps {
-  schedule: MaintenanceSchedule[] | null;
-  equipment: KitchenEquipment[];
-  onScheduleUpdated: () => void;
+  // Called with the updated equipment after maintenance is recorded
+  onMaintenanceRecorded?: (equipment: KitchenEquipment) => void;
 }
 
-export function MaintenanceScheduleView({
-  schedule,
-  equipment,
-  onScheduleUpdated
-}: MaintenanceScheduleViewProps) {
-  const [completingTask, setCompletingTask] = useState<string | null>(null);
-  const { toast } = useToast();
+const SCHEDULE_QUERY_KEY = ['/api/kitchen-equipment/maintenance-schedule'];
 
-  const completeMaintenanceTask = async (equipmentId: string) => {
-    setCompletingTask(equipmentId);
-    try {
-      const response = await fetch(`/api/kitchen-equipment/${equipmentId}/maintenance`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          maintenanceDate: new Date().toISOString(),
-        }),
-      });
+function formatDueDate(task: MaintenanceTask): string {
+  if (task.daysUntilDue < 0) {
+    const days = -task.daysUntilDue;
+    return `${days} ${days === 1 ? 'day' : 'days'} overdue`;
+  }
+  if (task.daysUntilDue === 0) return 'Due today';
+  return `Due ${format(parseISO(task.nextMaintenanceDate), 'MMM d, yyyy')}`;
+}
 
-      if (!response.ok) throw new Error('Failed to update maintenance');
+const getPriorityColor = (priority: string) => {
+  switch (priority.toLowerCase()) {
+    case 'high':
+      return 'bg-red-100 text-red-800';
+    case 'medium':
+      return 'bg-yellow-100 text-yellow-800';
+    case 'low':
+      return 'bg-green-100 text-green-800';
+    default:
+      return 'bg-gray-100 text-gray-800';
+  }
+};
 
+export function MaintenanceScheduleView({ onMaintenanceRecorded }: MaintenanceScheduleViewProps) {
+  const { toast } = useToast();
+
+  const { data: schedule, isLoading, isFetching, refetch } = useQuery<MaintenanceScheduleResult>({
+    queryKey: SCHEDULE_QUERY_KEY,
+    queryFn: async () => {
+      const res = await apiRequest('GET', '/api/kitchen-equipment/maintenance-schedule');
+      return res.json();
+    },
+  });
+
+  const completeMutation = useMutation({
+    mutationFn: async (task: MaintenanceTask) => {
+      // Fixing an item that needed maintenance puts it back in good condition
+      const condition = task.condition === 'needs-maintenance' ? 'good' : undefined;
+      const res = await apiRequest('POST', `/api/kitchen-equipment/${task.equipmentId}/maintenance`, { condition });
+      return res.json() as Promise<{ equipment: KitchenEquipment }>;
+    },
+    onSuccess: ({ equipment }) => {
+      queryClient.invalidateQueries({ queryKey: SCHEDULE_QUERY_KEY });
+      queryClient.invalidateQueries({ queryKey: ['/api/kitchen-equipment'] });
+      onMaintenanceRecorded?.(equipment);
       toast({
         title: "Success",
-        description: "Maintenance record updated",
+        description: `Maintenance for ${equipment.name} recorded`,
       });
-
-      onScheduleUpdated();
-    } catch (error) {
+    },
+    onError: (error: Error) => {
       toast({
         title: "Error",
-        description: "Failed to update maintenance record",
+        description: error.message || "Failed to update maintenance record",
         variant: "destructive"
       });
-    } finally {
-      setCompletingTask(null);
-    }
-  };
-
-  const getPriorityColor = (priority: string) => {
-    switch (priority.toLowerCase()) {
-      case 'high':
-        return 'bg-red-100 text-red-800';
-      case 'medium':
-        return 'bg-yellow-100 text-yellow-800';
-      case 'low':
-        return 'bg-green-100 text-green-800';
-      default:
-        return 'bg-gray-100 text-gray-800';
-    }
-  };
-
-  const getEquipmentName = (id: string) => {
-    // Convert string id from maintenance schedule to number for equipment lookup
-    return equipment.find(e => e.id === parseInt(id))?.name || 'Unknown Equipment';
-  };
+    },
+  });
 
-  if (!schedule) {
+  const renderTask = (task: MaintenanceTask) => {
+    const completing = completeMutation.isPending && completeMutation.variables?.equipmentId === task.equipmentId;
     return (
-      <Card>
-        <CardHeader>
-          <CardTitle>Maintenance Schedule</CardTitle>
-        </CardHeader>
-        <CardContent>
-          <div className="text-center py-6 text-muted-foreground">
-            No maintenance schedule available
+      <div key={task.equipmentId} className="border rounded-lg p-4 space-y-3">
+        <div className="flex items-center justify-between">
+          <div>
+            <h3 className="font-semibold">{task.equipmentName}</h3>
+            <p className={`text-sm ${task.daysUntilDue < 0 ? 'text-red-600' : 'text-muted-foreground'}`}>
+              {formatDueDate(task)}
+              {task.lastMaintenanceDate && ` · last done ${format(parseISO(task.lastMaintenanceDate), 'MMM d, yyyy')}`}
+            </p>
           </div>
-        </CardContent>
-      </Card>
+          <Badge className={getPriorityColor(task.priority)}>
+            {task.priority} priority
+          </Badge>
+        </div>
+
+        <div className="space-y-2">
+          <h4 className="text-sm font-medium">Maintenance Tasks:</h4>
+          <ul className="list-disc list-inside text-sm space-y-1">
+            {task.tasks.map((step, index) => (
+              <li key={index}>{step}</li>
+            ))}
+          </ul>
+        </div>
+
+        <div className="flex items-center justify-between">
+          <p className="text-sm text-muted-foreground">
+            Est. duration: {task.estimatedDuration} · every {task.intervalDays} days
+          </p>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => completeMutation.mutate(task)}
+            disabled={completing}
+            className="flex items-center gap-2"
+          >
+            <CheckCircle className="h-4 w-4" />
+            {completing ? 'Updating...' : 'Mark Complete'}
+          </Button>
+        </div>
+      </div>
     );
-  }
+  };
+
+  const hasTasks = schedule && (schedule.overdue.length > 0 || schedule.upcoming.length > 0);
 
   return (
     <Card>
@@ -94,65 +131,43 @@ export function MaintenanceScheduleView({
           <Button
             variant="outline"
             size="sm"
-            onClick={onScheduleUpdated}
+            onClick={() => refetch()}
+            disabled={isFetching}
             className="flex items-center gap-2"
           >
-            <CalendarIcon className="h-4 w-4" />
+            {isFetching ? <Loader2 className="h-4 w-4 animate-spin" /> : <CalendarIcon className="h-4 w-4" />}
             Refresh Schedule
           </Button>
         </CardTitle>
       </CardHeader>
       <CardContent>
-        <ScrollArea className="h-[500px] pr-4">
-          <div className="space-y-4">
-            {schedule.map((item) => (
-              <div
-                key={item.equipmentId}
-                className="border rounded-lg p-4 space-y-3"
-              >
-                <div className="flex items-center justify-between">
-                  <div>
-                    <h3 className="font-semibold">
-                      {getEquipmentName(item.equipmentId)}
-                    </h3>
-                    <p className="text-sm text-muted-foreground">
-                      Next maintenance: {new Date(item.nextMaintenanceDate).toLocaleDateString()}
-                    </p>
-                  </div>
-                  <Badge className={getPriorityColor(item.priority)}>
-                    {item.priority} priority
-                  </Badge>
+        {isLoading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : !hasTasks ? (
+          <div className="text-center py-6 text-muted-foreground">
+            No maintenance due in the next {DEFAULT_MAINTENANCE_HORIZON_DAYS} days
+          </div>
+        ) : (
+          <ScrollArea className="h-[500px] pr-4">
+            <div className="space-y-6">
+              {schedule.overdue.length > 0 && (
+                <div className="space-y-4">
+                  <h3 className="text-sm font-semibold text-red-600">Overdue</h3>
+                  {schedule.overdue.map(renderTask)}
                 </div>
-
-                <div className="space-y-2">
-                  <h4 className="text-sm font-medium">Maintenance Tasks:</h4>
-                  <ul className="list-disc list-inside text-sm space-y-1">
-                    {item.tasks.map((task: string, index: number) => (
-                      <li key={index}>{task}</li>
-                    ))}
-                  </ul>
+              )}
+              {schedule.upcoming.length > 0 && (
+                <div className="space-y-4">
+                  <h3 className="text-sm font-semibold">Coming up</h3>
+                  {schedule.upcoming.map(renderTask)}
                 </div>
-
-                <div className="flex items-center justify-between">
-                  <p className="text-sm text-muted-foreground">
-                    Est. duration: {item.estimatedDuration}
-                  </p>
-                  <Button
-                    variant="outline"
-                    size="sm"
-                    onClick={() => completeMaintenanceTask(item.equipmentId)}
-                    disabled={completingTask === item.equipmentId}
-                    className="flex items-center gap-2"
-                  >
-                    <CheckCircle className="h-4 w-4" />
-                    {completingTask === item.equipmentId ? 'Updating...' : 'Mark Complete'}
-                  </Button>
-                </div>
-              </div>
-            ))}
-          </div>
-        </ScrollArea>
+              )}
+            </div>
+          </ScrollArea>
+        )}
       </CardContent>
     </Card>
   );
-}
\ No newline at end of file
+}
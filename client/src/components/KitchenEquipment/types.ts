@@ -9,6 +9,10 @@ export type KitchenEquipmentFromDB = {
   maintenanceInterval: number | null;
   maintenanceNotes: string | null;
   purchasePrice: number | null;
+  brand: string | null;
+  model: string | null;
+  warrantyExpiry: string | null;
+  expectedLifespanYears: number | null;
   createdAt: string;
   updatedAt: string;
 };
\ No newline at end of file
@@ -63,10 +63,20 @@ export function KitchenStorage() {
         body: JSON.stringify(newItem),
       });
 
-      if (!response.ok) throw new Error('Failed to add item');
+      if (!response.ok) {
+        const body = await response.json().catch(() => null);
+        throw new Error(body?.details || 'Failed to add item');
+      }
 
       const item = await response.json();
       dispatch({ type: 'ADD_ITEM', payload: item });
+
+      // The server keeps each location's item count, so pick up the new totals
+      const locationsRes = await fetch('/api/storage-locations');
+      if (locationsRes.ok) {
+        dispatch({ type: 'SET_LOCATIONS', payload: await locationsRes.json() });
+      }
+
       setShowItemDialog(false);
       setNewItem({ name: '', locationId: '', quantity: 0 });
       toast({
@@ -76,7 +86,7 @@ export function KitchenStorage() {
     } catch (error) {
       toast({
         title: 'Error',
-        description: 'Failed to add item',
+        description: error instanceof Error ? error.message : 'Failed to add item',
         variant: 'destructive',
       });
     } finally {
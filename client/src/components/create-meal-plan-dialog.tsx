@@ -11,6 +11,8 @@ import { Loader2, AlertCircle, HelpCircle } from "lucide-react";
 import { addDays, format } from "date-fns";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { MAX_MEAL_PLAN_DAYS, MAX_GENERATED_PLAN_DAYS } from "@shared/meal-plans";
 
 interface CreateMealPlanDialogProps {
   open: boolean;
@@ -25,6 +27,8 @@ export function CreateMealPlanDialog({ open, onOpenChange }: CreateMealPlanDialo
   const [dietaryRestrictions, setDietaryRestrictions] = useState("");
   const [calorieTarget, setCalorieTarget] = useState("");
   const [days, setDays] = useState("");
+  // "none", or the rotation length in days
+  const [rotation, setRotation] = useState("none");
   const [errorMessage, setErrorMessage] = useState("");
 
   const createMutation = useMutation({
@@ -52,9 +56,16 @@ export function CreateMealPlanDialog({ open, onOpenChange }: CreateMealPlanDialo
         throw new Error("Please enter a valid number of days");
       }
       
-      // Enforce strict 7-day limit
-      if (daysValue > 7) {
-        throw new Error("Meal plans cannot exceed 7 days");
+      if (daysValue > MAX_MEAL_PLAN_DAYS) {
+        throw new Error(`Meal plans cannot exceed ${MAX_MEAL_PLAN_DAYS} days`);
+      }
+
+      const rotationDays = rotation === "none" ? null : parseInt(rotation);
+      if (rotationDays && daysValue < rotationDays) {
+        throw new Error(`A ${rotationDays}-day rotation needs a plan of at least ${rotationDays} days`);
+      }
+      if (!rotationDays && daysValue > MAX_GENERATED_PLAN_DAYS) {
+        throw new Error(`Plans longer than ${MAX_GENERATED_PLAN_DAYS} days need a weekly or two-week rotation`);
       }
 
       // Validate calorie target if provided
@@ -73,9 +84,9 @@ export function CreateMealPlanDialog({ open, onOpenChange }: CreateMealPlanDialo
       const endDate = addDays(startDate, parseInt(days) - 1);
       
       try {
-        // Format dates as ISO strings for consistent API handling
-        const startDateISO = startDate.toISOString();
-        const endDateISO = endDate.toISOString();
+        // Plain calendar dates, so the plan lands on the same days in every time zone
+        const startDateISO = format(startDate, "yyyy-MM-dd");
+        const endDateISO = format(endDate, "yyyy-MM-dd");
         
         console.log("Sending meal plan request with dates:", {
           startDate: startDateISO,
@@ -89,7 +100,8 @@ export function CreateMealPlanDialog({ open, onOpenChange }: CreateMealPlanDialo
           preferences: formattedPreferences,
           dietaryRestrictions: formattedDietaryRestrictions,
           calorieTarget: calorieTarget ? parseInt(calorieTarget) : undefined,
-          days: daysValue
+          days: daysValue,
+          rotationDays
         });
 
         if (!response.ok) {
@@ -103,11 +115,14 @@ export function CreateMealPlanDialog({ open, onOpenChange }: CreateMealPlanDialo
         throw error;
       }
     },
-    onSuccess: () => {
+    onSuccess: (plan: { dietWarnings?: { day: number; mealType: string; title: string; problems: string[] }[] }) => {
       queryClient.invalidateQueries({ queryKey: ["/api/meal-plans"] });
+      const warnings = plan?.dietWarnings ?? [];
       toast({
         title: "Success",
-        description: "Your meal plan has been created.",
+        description: warnings.length > 0
+          ? `Your meal plan has been created. Please check ${warnings.map(warning => `day ${warning.day} ${warning.mealType} (${warning.problems.join("; ")})`).join(", ")}.`
+          : "Your meal plan has been created.",
       });
       onOpenChange(false);
       resetForm();
@@ -130,6 +145,7 @@ export function CreateMealPlanDialog({ open, onOpenChange }: CreateMealPlanDialo
     setDietaryRestrictions("");
     setCalorieTarget("");
     setDays("7");
+    setRotation("none");
     setErrorMessage("");
   };
 
@@ -197,7 +213,7 @@ export function CreateMealPlanDialog({ open, onOpenChange }: CreateMealPlanDialo
                     </Button>
                   </TooltipTrigger>
                   <TooltipContent side="left" align="center" className="max-w-[200px]">
-                    <p>For optimal results, we recommend 7-day plans</p>
+                    <p>Plans can run for up to a year. Plans longer than {MAX_GENERATED_PLAN_DAYS} days repeat a weekly or two-week rotation</p>
                   </TooltipContent>
                 </Tooltip>
               </TooltipProvider>
@@ -206,17 +222,41 @@ export function CreateMealPlanDialog({ open, onOpenChange }: CreateMealPlanDialo
               id="days"
               type="number"
               min="1"
-              max="7"
+              max={MAX_MEAL_PLAN_DAYS}
               placeholder="7"
               value={days}
               onChange={(e) => setDays(e.target.value)}
               required
             />
-            {parseInt(days) > 7 && (
+            {parseInt(days) > MAX_MEAL_PLAN_DAYS && (
               <p className="text-xs text-red-500 mt-1">
-                Meal plans cannot exceed 7 days
+                Meal plans cannot exceed {MAX_MEAL_PLAN_DAYS} days
               </p>
             )}
+            {rotation === "none" && parseInt(days) > MAX_GENERATED_PLAN_DAYS && parseInt(days) <= MAX_MEAL_PLAN_DAYS && (
+              <p className="text-xs text-red-500 mt-1">
+                Choose a rotation for plans longer than {MAX_GENERATED_PLAN_DAYS} days
+              </p>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="rotation">Repeat</Label>
+            <Select value={rotation} onValueChange={setRotation}>
+              <SelectTrigger id="rotation">
+                <SelectValue placeholder="Don't repeat" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="none">Don't repeat</SelectItem>
+                <SelectItem value="7">Weekly rotation</SelectItem>
+                <SelectItem value="14">Two-week rotation</SelectItem>
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground">
+              {rotation === "none"
+                ? "Every day of the plan gets its own meals"
+                : `The same ${rotation} days of meals repeat until the plan ends. You can still change single dates.`}
+            </p>
           </div>
 
           <div className="space-y-2">
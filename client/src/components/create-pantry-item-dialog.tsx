@@ -5,7 +5,8 @@ import { Input } from "@/components/ui/input";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { insertPantryItemSchema } from "@shared/schema";
-import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { parseQuantity, formatQuantity } from "@shared/units";
 import { useAuth } from "@/hooks/use-auth";
 import { useMutation } from "@tanstack/react-query";
 import { apiRequest, queryClient } from "@/lib/queryClient";
@@ -15,6 +16,7 @@ import { Alert, AlertDescription } from "@/components/ui/alert";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Badge } from "@/components/ui/badge";
 import { generatePantryItemDetails } from "@ai-services/recipe-ai";
+import { cleanMicronutrients, type Micronutrients } from "@shared/nutrients";
 
 interface CreatePantryItemDialogProps {
   trigger?: React.ReactNode;
@@ -38,7 +40,8 @@ export function CreatePantryItemDialog({ trigger }: CreatePantryItemDialogProps)
         calories: 0,
         protein: 0,
         carbs: 0,
-        fat: 0
+        fat: 0,
+        micronutrients: {} as Micronutrients
       },
       sustainabilityInfo: {
         score: 0,
@@ -135,24 +138,8 @@ export function CreatePantryItemDialog({ trigger }: CreatePantryItemDialogProps)
         score: currentSustainabilityScore
       };
 
-      // First create the pantry item
       const res = await apiRequest("POST", "/api/pantry", values);
-      const newItem = await res.json();
-
-      // Then update nutrition progress
-      const today = new Date().toISOString().split('T')[0];
-      await apiRequest("POST", "/api/nutrition-goals/progress", {
-        progress: {
-          date: today,
-          calories: values.nutritionInfo.calories,
-          protein: values.nutritionInfo.protein,
-          carbs: values.nutritionInfo.carbs,
-          fat: values.nutritionInfo.fat,
-          completed: false,
-        }
-      });
-
-      return newItem;
+      return res.json();
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/pantry"] });
@@ -162,7 +149,6 @@ export function CreatePantryItemDialog({ trigger }: CreatePantryItemDialogProps)
         title: "Item added!",
         description: "Your pantry item has been added successfully.",
       });
-      queryClient.invalidateQueries({ queryKey: ["/api/nutrition-goals/current"] });
     },
   });
 
@@ -226,7 +212,8 @@ export function CreatePantryItemDialog({ trigger }: CreatePantryItemDialogProps)
         calories: details.nutritionInfo.calories,
         protein: details.nutritionInfo.protein,
         carbs: details.nutritionInfo.carbs,
-        fat: details.nutritionInfo.fat
+        fat: details.nutritionInfo.fat,
+        micronutrients: cleanMicronutrients(details.nutritionInfo.micronutrients)
       });
       
       // Update sustainability info - explicitly include packaging and carbonFootprint
@@ -330,15 +317,23 @@ export function CreatePantryItemDialog({ trigger }: CreatePantryItemDialogProps)
                   <FormField
                     control={form.control}
                     name="quantity"
-                    render={({ field }) => (
-                      <FormItem>
-                        <FormLabel>Quantity</FormLabel>
-                        <FormControl>
-                          <Input {...field} />
-                        </FormControl>
-                        <FormMessage />
-                      </FormItem>
-                    )}
+                    render={({ field }) => {
+                      const parsed = parseQuantity(field.value);
+                      return (
+                        <FormItem>
+                          <FormLabel>Quantity</FormLabel>
+                          <FormControl>
+                            <Input placeholder="e.g. 2 cups, 500 g, 3" {...field} />
+                          </FormControl>
+                          {parsed && (
+                            <FormDescription>
+                              {formatQuantity(parsed)} ({parsed.family})
+                            </FormDescription>
+                          )}
+                          <FormMessage />
+                        </FormItem>
+                      );
+                    }}
                   />
                   <FormField
                     control={form.control}
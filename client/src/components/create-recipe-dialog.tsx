@@ -12,10 +12,24 @@ import { useAuth } from "@/hooks/use-auth";
 import { useMutation, useQuery } from "@tanstack/react-query";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
-import { Plus, Loader2, AlertCircle, Info, Sparkles } from "lucide-react";
+import { Plus, Loader2, AlertCircle, Info, Sparkles, Calculator } from "lucide-react";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { Badge } from "@/components/ui/badge";
 import { generateRecipeDetails } from "@ai-services/recipe-ai";
+import { MICRONUTRIENTS, cleanMicronutrients, type Micronutrients } from "@shared/nutrients";
+import { ingredientLines } from "@shared/ingredients";
+
+interface NutritionEstimate {
+  perServing: {
+    calories: number;
+    protein: number;
+    carbs: number;
+    fat: number;
+    micronutrients?: Micronutrients;
+  };
+  resolved: { ingredient: string; food: string; grams: number }[];
+  unresolved: { ingredient: string; message: string }[];
+}
 
 interface CreateRecipeDialogProps {
   trigger?: React.ReactNode;
@@ -24,6 +38,8 @@ interface CreateRecipeDialogProps {
 export function CreateRecipeDialog({ trigger }: CreateRecipeDialogProps) {
   const [open, setOpen] = useState(false);
   const [isGenerating, setIsGenerating] = useState(false);
+  const [isEstimating, setIsEstimating] = useState(false);
+  const [unresolvedIngredients, setUnresolvedIngredients] = useState<NutritionEstimate["unresolved"]>([]);
   const { user } = useAuth();
   const { toast } = useToast();
 
@@ -38,9 +54,12 @@ export function CreateRecipeDialog({ trigger }: CreateRecipeDialogProps) {
         calories: 0,
         protein: 0,
         carbs: 0,
-        fat: 0
+        fat: 0,
+        micronutrients: {} as Micronutrients
       },
       prepTime: 0,
+      servings: 1,
+      yieldDescription: "",
       createdBy: user?.id,
       imageUrl: "",
       sustainabilityScore: 50,
@@ -55,6 +74,7 @@ export function CreateRecipeDialog({ trigger }: CreateRecipeDialogProps) {
   const protein = form.watch("nutritionInfo.protein");
   const carbs = form.watch("nutritionInfo.carbs");
   const fat = form.watch("nutritionInfo.fat");
+  const micronutrients = form.watch("nutritionInfo.micronutrients") ?? {};
   const ingredients = form.watch("ingredients");
   
   // Calculate sustainability score whenever nutrition values change
@@ -223,6 +243,7 @@ export function CreateRecipeDialog({ trigger }: CreateRecipeDialogProps) {
       form.setValue("nutritionInfo.protein", details.nutritionInfo.protein);
       form.setValue("nutritionInfo.carbs", details.nutritionInfo.carbs);
       form.setValue("nutritionInfo.fat", details.nutritionInfo.fat);
+      form.setValue("nutritionInfo.micronutrients", cleanMicronutrients(details.nutritionInfo.micronutrients));
       form.setValue("prepTime", details.prepTime);
 
       toast({
@@ -240,6 +261,52 @@ export function CreateRecipeDialog({ trigger }: CreateRecipeDialogProps) {
     }
   };
 
+  // Works offline from the bundled food table, so it's available without an AI key
+  const calculateNutrition = async () => {
+    // Section headers ("For the sauce:") aren't ingredients
+    const lines = ingredientLines(form.getValues("ingredients"));
+    if (lines.length === 0) {
+      toast({
+        title: "Ingredients Required",
+        description: "Add ingredients with amounts to calculate nutrition.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsEstimating(true);
+    try {
+      const res = await apiRequest("POST", "/api/recipes/nutrition-estimate", {
+        ingredients: lines,
+        servings: form.getValues("servings") || 1,
+      });
+      const estimate: NutritionEstimate = await res.json();
+      const { perServing } = estimate;
+
+      form.setValue("nutritionInfo.calories", perServing.calories, { shouldValidate: true });
+      form.setValue("nutritionInfo.protein", perServing.protein, { shouldValidate: true });
+      form.setValue("nutritionInfo.carbs", perServing.carbs, { shouldValidate: true });
+      form.setValue("nutritionInfo.fat", perServing.fat, { shouldValidate: true });
+      form.setValue("nutritionInfo.micronutrients", cleanMicronutrients(perServing.micronutrients));
+      setUnresolvedIngredients(estimate.unresolved);
+
+      toast({
+        title: "Nutrition Calculated",
+        description: estimate.unresolved.length > 0
+          ? `${estimate.resolved.length} ingredients counted; ${estimate.unresolved.length} couldn't be matched.`
+          : `All ${estimate.resolved.length} ingredients counted.`,
+      });
+    } catch (error) {
+      toast({
+        title: "Calculation Failed",
+        description: "Failed to calculate nutrition. Please enter it manually.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsEstimating(false);
+    }
+  };
+
   return (
     <Dialog open={open} onOpenChange={setOpen}>
       <DialogTrigger asChild>
@@ -317,7 +384,7 @@ export function CreateRecipeDialog({ trigger }: CreateRecipeDialogProps) {
                 name="ingredients"
                 render={({ field }) => (
                   <FormItem>
-                    <FormLabel>Ingredients (one per line)</FormLabel>
+                    <FormLabel>Ingredients (one per line, "For the sauce:" starts a section)</FormLabel>
                     <FormControl>
                       <Textarea 
                         {...field} 
@@ -382,6 +449,63 @@ export function CreateRecipeDialog({ trigger }: CreateRecipeDialogProps) {
                   </FormItem>
                 )}
               />
+              <div className="grid grid-cols-2 gap-4">
+                <FormField
+                  control={form.control}
+                  name="servings"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Servings</FormLabel>
+                      <FormControl>
+                        <Input
+                          type="number"
+                          min={1}
+                          step="any"
+                          {...field}
+                          onChange={(e) => field.onChange(parseFloat(e.target.value) || 1)}
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="yieldDescription"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Yield (optional)</FormLabel>
+                      <FormControl>
+                        <Input placeholder="e.g. 1 loaf, 12 muffins" {...field} value={field.value ?? ""} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+              <div className="space-y-2">
+                <div className="flex items-end gap-2">
+                  <Button type="button" variant="outline" onClick={calculateNutrition} disabled={isEstimating}>
+                    {isEstimating ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Calculator className="h-4 w-4 mr-2" />}
+                    Calculate from ingredients
+                  </Button>
+                </div>
+                {unresolvedIngredients.length > 0 && (
+                  <Alert variant="default">
+                    <AlertCircle className="h-4 w-4" />
+                    <AlertDescription className="text-sm">
+                      <p className="font-medium">Not included in the nutrition values:</p>
+                      <ul className="list-disc pl-4">
+                        {unresolvedIngredients.map((item, index) => (
+                          <li key={index}>
+                            {item.ingredient}: {item.message}
+                          </li>
+                        ))}
+                      </ul>
+                    </AlertDescription>
+                  </Alert>
+                )}
+              </div>
               <div className="grid grid-cols-2 gap-4">
                 <FormField
                   control={form.control}
@@ -468,6 +592,29 @@ export function CreateRecipeDialog({ trigger }: CreateRecipeDialogProps) {
                   )}
                 />
               </div>
+              <div className="space-y-2">
+                <FormLabel>Other nutrients per serving (optional)</FormLabel>
+                <div className="grid grid-cols-3 gap-2">
+                  {MICRONUTRIENTS.map((nutrient) => (
+                    <div key={nutrient.key} className="space-y-1">
+                      <span className="text-xs text-muted-foreground">
+                        {nutrient.label} ({nutrient.unit})
+                      </span>
+                      <Input
+                        type="number"
+                        min={0}
+                        step="any"
+                        value={micronutrients[nutrient.key] ?? ""}
+                        onChange={(e) => {
+                          // Leave blank when unknown rather than recording zero
+                          const next = { ...micronutrients, [nutrient.key]: e.target.value };
+                          form.setValue("nutritionInfo.micronutrients", cleanMicronutrients(next), { shouldValidate: true });
+                        }}
+                      />
+                    </div>
+                  ))}
+                </div>
+              </div>
               <div className="mt-8 space-y-2">
                 <Alert variant="default">
                   <Info className="h-4 w-4" />
@@ -0,0 +1,103 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Loader2 } from "lucide-react";
+import {
+  ALLERGENS,
+  ALLERGEN_LABELS,
+  DIETS,
+  DIET_LABELS,
+  type Allergen,
+  type Diet,
+  type DietaryRestrictions,
+} from "@shared/diet";
+
+function toggle<T>(values: T[], value: T, checked: boolean): T[] {
+  return checked ? [...values, value] : values.filter((item) => item !== value);
+}
+
+// Hard restrictions: recipes get warnings and generated meal plans must respect them
+export function DietaryRestrictionsCard() {
+  const { toast } = useToast();
+  const [draft, setDraft] = useState<DietaryRestrictions>({ allergens: [], diets: [] });
+
+  const { data: saved } = useQuery<DietaryRestrictions>({
+    queryKey: ["/api/dietary-restrictions"],
+    queryFn: async () => {
+      const res = await apiRequest("GET", "/api/dietary-restrictions");
+      return res.json();
+    },
+  });
+
+  useEffect(() => {
+    if (saved) setDraft(saved);
+  }, [saved]);
+
+  const saveMutation = useMutation({
+    mutationFn: async (restrictions: DietaryRestrictions) => {
+      const res = await apiRequest("PUT", "/api/dietary-restrictions", restrictions);
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/dietary-restrictions"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/recipes"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/user"] });
+      toast({ title: "Dietary restrictions saved" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Dietary Restrictions</CardTitle>
+        <CardDescription>
+          Recipes that break these are flagged, and generated meal plans always follow them
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="grid gap-6 sm:grid-cols-2">
+        <div className="space-y-3">
+          <Label>Diets</Label>
+          {DIETS.map((diet: Diet) => (
+            <div key={diet} className="flex items-center gap-2">
+              <Checkbox
+                id={`diet-${diet}`}
+                checked={draft.diets.includes(diet)}
+                onCheckedChange={(checked) => setDraft({ ...draft, diets: toggle(draft.diets, diet, checked === true) })}
+              />
+              <Label htmlFor={`diet-${diet}`} className="font-normal">{DIET_LABELS[diet]}</Label>
+            </div>
+          ))}
+        </div>
+        <div className="space-y-3">
+          <Label>Allergies</Label>
+          {ALLERGENS.map((allergen: Allergen) => (
+            <div key={allergen} className="flex items-center gap-2">
+              <Checkbox
+                id={`allergen-${allergen}`}
+                checked={draft.allergens.includes(allergen)}
+                onCheckedChange={(checked) =>
+                  setDraft({ ...draft, allergens: toggle(draft.allergens, allergen, checked === true) })
+                }
+              />
+              <Label htmlFor={`allergen-${allergen}`} className="font-normal">{ALLERGEN_LABELS[allergen]}</Label>
+            </div>
+          ))}
+        </div>
+      </CardContent>
+      <CardFooter>
+        <Button onClick={() => saveMutation.mutate(draft)} disabled={saveMutation.isPending}>
+          {saveMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          Save Restrictions
+        </Button>
+      </CardFooter>
+    </Card>
+  );
+}
@@ -10,8 +10,13 @@ import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "
 import { useMutation } from "@tanstack/react-query";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
-import { Pencil, Loader2, Info } from "lucide-react";
+import { Pencil, Loader2, Info, Wand2 } from "lucide-react";
 import { Alert, AlertDescription } from "@/components/ui/alert";
+import { ServingsStepper } from "./servings-stepper";
+import { scaleIngredients, formatIngredientList, toRecipeIngredients } from "@shared/ingredients";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { KITCHEN_TOOLS, inferRequiredTools, recipeTools, toolLabel, type KitchenTool } from "@shared/recipe-equipment";
 
 interface EditRecipeDialogProps {
   recipe: Recipe;
@@ -27,10 +32,15 @@ export function EditRecipeDialog({ recipe, trigger }: EditRecipeDialogProps) {
     defaultValues: {
       title: recipe.title,
       description: recipe.description,
-      ingredients: recipe.ingredients,
+      // Edited as lines; the schema parses them back into structured ingredients on submit
+      ingredients: formatIngredientList(toRecipeIngredients(recipe.ingredients)),
       instructions: recipe.instructions,
       nutritionInfo: recipe.nutritionInfo,
       prepTime: recipe.prepTime,
+      servings: recipe.servings > 0 ? recipe.servings : 1,
+      yieldDescription: recipe.yieldDescription ?? "",
+      // Recipes saved before tools were recorded start from what their instructions mention
+      requiredEquipment: recipeTools(recipe),
       imageUrl: recipe.imageUrl || "",
       createdBy: recipe.createdBy,
       forkedFrom: recipe.forkedFrom,
@@ -45,6 +55,16 @@ export function EditRecipeDialog({ recipe, trigger }: EditRecipeDialogProps) {
   const carbs = form.watch("nutritionInfo.carbs");
   const fat = form.watch("nutritionInfo.fat");
   const ingredients = form.watch("ingredients");
+  const servings = form.watch("servings");
+
+  // Rescale from the lines as they were before stepping, so repeated steps don't compound rounding
+  const scaleBaseRef = React.useRef<{ ingredients: string[]; servings: number } | null>(null);
+  const changeServings = (next: number) => {
+    const base = scaleBaseRef.current ?? { ingredients: form.getValues("ingredients"), servings: form.getValues("servings") };
+    scaleBaseRef.current = base;
+    form.setValue("ingredients", scaleIngredients(base.ingredients, base.servings, next), { shouldDirty: true });
+    form.setValue("servings", next, { shouldValidate: true, shouldDirty: true });
+  };
   
   // Calculate sustainability score whenever nutrition values change
   const currentSustainabilityScore = useMemo(() => {
@@ -195,18 +215,51 @@ export function EditRecipeDialog({ recipe, trigger }: EditRecipeDialogProps) {
               name="ingredients"
               render={({ field }) => (
                 <FormItem>
-                  <FormLabel>Ingredients (one per line)</FormLabel>
+                  <FormLabel>Ingredients (one per line, "For the sauce:" starts a section)</FormLabel>
                   <FormControl>
                     <Textarea 
                       {...field} 
                       value={Array.isArray(field.value) ? field.value.join('\n') : ''} 
-                      onChange={e => field.onChange(e.target.value.split('\n').filter(Boolean))}
+                      onChange={e => {
+                        // Hand edits become the new starting point for scaling
+                        scaleBaseRef.current = null;
+                        field.onChange(e.target.value.split('\n').filter(Boolean));
+                      }}
                     />
                   </FormControl>
                   <FormMessage />
                 </FormItem>
               )}
             />
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="servings"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Servings</FormLabel>
+                    <FormControl>
+                      <ServingsStepper value={Number(field.value) || 1} onChange={changeServings} />
+                    </FormControl>
+                    <p className="text-xs text-muted-foreground">Changing servings rescales the ingredients.</p>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="yieldDescription"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Yield (optional)</FormLabel>
+                    <FormControl>
+                      <Input placeholder="e.g. 1 loaf, 12 muffins" {...field} value={field.value ?? ""} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
             <FormField
               control={form.control}
               name="instructions"
@@ -224,6 +277,48 @@ export function EditRecipeDialog({ recipe, trigger }: EditRecipeDialogProps) {
                 </FormItem>
               )}
             />
+            <FormField
+              control={form.control}
+              name="requiredEquipment"
+              render={({ field }) => {
+                const selected: KitchenTool[] = field.value ?? [];
+                return (
+                  <FormItem>
+                    <div className="flex items-center justify-between">
+                      <FormLabel>Equipment needed</FormLabel>
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="sm"
+                        onClick={() =>
+                          field.onChange(inferRequiredTools(form.getValues("title"), form.getValues("instructions")))
+                        }
+                      >
+                        <Wand2 className="h-4 w-4 mr-2" />
+                        Detect from instructions
+                      </Button>
+                    </div>
+                    <div className="grid grid-cols-2 sm:grid-cols-3 gap-2">
+                      {KITCHEN_TOOLS.map((tool) => (
+                        <div key={tool} className="flex items-center gap-2">
+                          <Checkbox
+                            id={`tool-${tool}`}
+                            checked={selected.includes(tool)}
+                            onCheckedChange={(checked) =>
+                              field.onChange(
+                                checked === true ? [...selected, tool] : selected.filter((item) => item !== tool)
+                              )
+                            }
+                          />
+                          <Label htmlFor={`tool-${tool}`} className="font-normal">{toolLabel(tool)}</Label>
+                        </div>
+                      ))}
+                    </div>
+                    <FormMessage />
+                  </FormItem>
+                );
+              }}
+            />
             <FormField
               control={form.control}
               name="prepTime"
@@ -336,6 +431,11 @@ export function EditRecipeDialog({ recipe, trigger }: EditRecipeDialogProps) {
                 )}
               />
             </div>
+            <p className="text-sm text-muted-foreground">
+              Nutrition is per serving. Whole recipe ({servings} {servings === 1 ? "serving" : "servings"}):{" "}
+              {Math.round((Number(calories) || 0) * servings)} kcal · {Math.round((Number(protein) || 0) * servings)}g protein ·{" "}
+              {Math.round((Number(carbs) || 0) * servings)}g carbs · {Math.round((Number(fat) || 0) * servings)}g fat
+            </p>
             <div className="space-y-2">
               <Alert variant="default">
                 <Info className="h-4 w-4" />
@@ -0,0 +1,288 @@
+import { useState } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { format } from "date-fns";
+import { Plus, Loader2, Search } from "lucide-react";
+import type { PantryItem } from "@shared/schema";
+
+type MealType = "breakfast" | "lunch" | "dinner" | "snack";
+
+interface FoodResult {
+  name: string;
+  per100g: { calories: number };
+  portions?: Record<string, number>;
+}
+
+interface LogFoodDialogProps {
+  trigger?: React.ReactNode;
+}
+
+export function LogFoodDialog({ trigger }: LogFoodDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [date, setDate] = useState(() => format(new Date(), "yyyy-MM-dd"));
+  const [mealType, setMealType] = useState<MealType>("snack");
+  const [foodSearch, setFoodSearch] = useState("");
+  const [selectedFood, setSelectedFood] = useState<string | null>(null);
+  const [amount, setAmount] = useState("");
+  const [pantryItemId, setPantryItemId] = useState<string>("");
+  const [pantryServings, setPantryServings] = useState("1");
+  const [quickAdd, setQuickAdd] = useState({ description: "", calories: "", protein: "", carbs: "", fat: "" });
+  const { toast } = useToast();
+
+  const { data: foods = [], isFetching: searchingFoods } = useQuery<FoodResult[]>({
+    queryKey: ["/api/foods", foodSearch],
+    queryFn: async () => {
+      const res = await apiRequest("GET", `/api/foods?q=${encodeURIComponent(foodSearch)}`);
+      return res.json();
+    },
+    enabled: open && foodSearch.trim().length >= 2,
+  });
+
+  const { data: pantryItems = [] } = useQuery<PantryItem[]>({
+    queryKey: ["/api/pantry"],
+    queryFn: async () => {
+      const res = await apiRequest("GET", "/api/pantry");
+      return res.json();
+    },
+    enabled: open,
+  });
+
+  const resetForm = () => {
+    setFoodSearch("");
+    setSelectedFood(null);
+    setAmount("");
+    setPantryItemId("");
+    setPantryServings("1");
+    setQuickAdd({ description: "", calories: "", protein: "", carbs: "", fat: "" });
+  };
+
+  const logFoodMutation = useMutation({
+    mutationFn: async ({ path, body }: { path: string; body: Record<string, unknown> }) => {
+      const res = await apiRequest("POST", path, { date, mealType, ...body });
+      return res.json();
+    },
+    onSuccess: (entry) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/nutrition-log"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/nutrition-log/daily"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/nutrition-goals/meal-budgets"] });
+      queryClient.invalidateQueries({ queryKey: ["nutrition-progress"] });
+      setOpen(false);
+      resetForm();
+      toast({
+        title: "Food logged",
+        description: `${entry.description} was added to your ${entry.mealType}.`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Couldn't log food",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const selectedFoodRecord = foods.find((food) => food.name === selectedFood);
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        {trigger || (
+          <Button variant="outline" size="sm">
+            <Plus className="h-4 w-4 mr-2" />
+            Log Food
+          </Button>
+        )}
+      </DialogTrigger>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Log Food</DialogTitle>
+        </DialogHeader>
+
+        <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="log-food-date">Date</Label>
+            <Input id="log-food-date" type="date" value={date} onChange={(e) => setDate(e.target.value)} />
+          </div>
+          <div className="space-y-2">
+            <Label>Meal</Label>
+            <Select value={mealType} onValueChange={(value) => setMealType(value as MealType)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="breakfast">Breakfast</SelectItem>
+                <SelectItem value="lunch">Lunch</SelectItem>
+                <SelectItem value="dinner">Dinner</SelectItem>
+                <SelectItem value="snack">Snack</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <Tabs defaultValue="food" className="space-y-4">
+          <TabsList className="grid grid-cols-3">
+            <TabsTrigger value="food">Food</TabsTrigger>
+            <TabsTrigger value="pantry">Pantry</TabsTrigger>
+            <TabsTrigger value="quick">Quick Add</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="food" className="space-y-4">
+            <div className="relative">
+              <Search className="absolute left-2 top-2.5 h-4 w-4 text-muted-foreground" />
+              <Input
+                className="pl-8"
+                placeholder="Search foods, e.g. banana"
+                value={foodSearch}
+                onChange={(e) => {
+                  setFoodSearch(e.target.value);
+                  setSelectedFood(null);
+                }}
+              />
+            </div>
+            {!selectedFood && foodSearch.trim().length >= 2 && (
+              <div className="max-h-48 overflow-y-auto border rounded-md divide-y">
+                {searchingFoods ? (
+                  <div className="flex justify-center py-3">
+                    <Loader2 className="h-4 w-4 animate-spin" />
+                  </div>
+                ) : foods.length === 0 ? (
+                  <p className="text-sm text-muted-foreground p-3">No matching foods. Try Quick Add instead.</p>
+                ) : (
+                  foods.map((food) => (
+                    <button
+                      key={food.name}
+                      type="button"
+                      className="w-full flex justify-between px-3 py-2 text-sm text-left hover:bg-muted"
+                      onClick={() => {
+                        setSelectedFood(food.name);
+                        setFoodSearch(food.name);
+                      }}
+                    >
+                      <span className="capitalize">{food.name}</span>
+                      <span className="text-muted-foreground">{Math.round(food.per100g.calories)} kcal / 100 g</span>
+                    </button>
+                  ))
+                )}
+              </div>
+            )}
+            <div className="space-y-2">
+              <Label htmlFor="log-food-amount">Amount</Label>
+              <Input
+                id="log-food-amount"
+                placeholder="150 g, 1 cup or 1"
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+              />
+              {selectedFoodRecord?.portions && (
+                <p className="text-xs text-muted-foreground">
+                  Also accepts: {Object.keys(selectedFoodRecord.portions).join(", ")}
+                </p>
+              )}
+            </div>
+            <Button
+              className="w-full"
+              disabled={!selectedFood || !amount.trim() || logFoodMutation.isPending}
+              onClick={() => logFoodMutation.mutate({ path: "/api/nutrition-log/food", body: { food: selectedFood, amount } })}
+            >
+              {logFoodMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Log Food
+            </Button>
+          </TabsContent>
+
+          <TabsContent value="pantry" className="space-y-4">
+            <div className="space-y-2">
+              <Label>Pantry item</Label>
+              <Select value={pantryItemId} onValueChange={setPantryItemId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Choose an item" />
+                </SelectTrigger>
+                <SelectContent>
+                  {pantryItems.map((item) => (
+                    <SelectItem key={item.id} value={String(item.id)}>
+                      {item.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="log-pantry-servings">Servings</Label>
+              <Input
+                id="log-pantry-servings"
+                type="number"
+                min={0.25}
+                step={0.25}
+                value={pantryServings}
+                onChange={(e) => setPantryServings(e.target.value)}
+              />
+            </div>
+            <Button
+              className="w-full"
+              disabled={!pantryItemId || !(Number(pantryServings) > 0) || logFoodMutation.isPending}
+              onClick={() => logFoodMutation.mutate({
+                path: "/api/nutrition-log/pantry",
+                body: { pantryItemId: Number(pantryItemId), servings: Number(pantryServings) },
+              })}
+            >
+              {logFoodMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Log Pantry Item
+            </Button>
+          </TabsContent>
+
+          <TabsContent value="quick" className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="quick-add-description">What did you eat?</Label>
+              <Input
+                id="quick-add-description"
+                placeholder="Restaurant burrito"
+                value={quickAdd.description}
+                onChange={(e) => setQuickAdd({ ...quickAdd, description: e.target.value })}
+              />
+            </div>
+            <div className="grid grid-cols-4 gap-2">
+              {(["calories", "protein", "carbs", "fat"] as const).map((field) => (
+                <div key={field} className="space-y-1">
+                  <Label htmlFor={`quick-add-${field}`} className="text-xs capitalize">
+                    {field === "calories" ? "Calories" : `${field} (g)`}
+                  </Label>
+                  <Input
+                    id={`quick-add-${field}`}
+                    type="number"
+                    min={0}
+                    value={quickAdd[field]}
+                    onChange={(e) => setQuickAdd({ ...quickAdd, [field]: e.target.value })}
+                  />
+                </div>
+              ))}
+            </div>
+            <Button
+              className="w-full"
+              disabled={!quickAdd.description.trim() || quickAdd.calories === "" || logFoodMutation.isPending}
+              onClick={() => logFoodMutation.mutate({
+                path: "/api/nutrition-log",
+                body: {
+                  description: quickAdd.description,
+                  calories: Number(quickAdd.calories),
+                  protein: Number(quickAdd.protein) || 0,
+                  carbs: Number(quickAdd.carbs) || 0,
+                  fat: Number(quickAdd.fat) || 0,
+                },
+              })}
+            >
+              {logFoodMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Add Entry
+            </Button>
+          </TabsContent>
+        </Tabs>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,77 @@
+import { useQuery } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { format } from "date-fns";
+import { mealTypeForHour, type MealBudgets } from "@shared/meal-budgets";
+
+const MEAL_LABELS: Record<string, string> = {
+  breakfast: "Breakfast",
+  lunch: "Lunch",
+  dinner: "Dinner",
+  snack: "Snacks",
+};
+
+// Today's goal split across meals, with what's left for the meal coming up next
+export function MealBudgetCard() {
+  const today = format(new Date(), "yyyy-MM-dd");
+  const nextMeal = mealTypeForHour(new Date().getHours());
+
+  const { data: budgets } = useQuery<MealBudgets & { date: string }>({
+    queryKey: ["/api/nutrition-goals/meal-budgets", today],
+    queryFn: async () => {
+      const res = await apiRequest("GET", `/api/nutrition-goals/meal-budgets?date=${today}`);
+      return res.json();
+    },
+  });
+
+  if (!budgets) return null;
+
+  const next = budgets.meals.find((meal) => meal.mealType === nextMeal);
+
+  return (
+    <Card className="md:col-span-2">
+      <CardHeader>
+        <CardTitle className="text-lg">Meal Budgets</CardTitle>
+        {next && (
+          <p className="text-sm text-muted-foreground">
+            Left for {MEAL_LABELS[next.mealType].toLowerCase()}: {Math.round(next.remaining.calories)} kcal ·{" "}
+            {Math.round(next.remaining.protein)}g protein · {Math.round(next.remaining.carbs)}g carbs ·{" "}
+            {Math.round(next.remaining.fat)}g fat
+          </p>
+        )}
+      </CardHeader>
+      <CardContent className="grid gap-4 sm:grid-cols-2 lg:grid-cols-4">
+        {budgets.meals.map((meal) => (
+          <div
+            key={meal.mealType}
+            className={`space-y-2 rounded-md border p-3 ${meal.mealType === nextMeal ? "border-primary" : ""}`}
+          >
+            <div className="flex items-center justify-between">
+              <span className="font-medium">{MEAL_LABELS[meal.mealType]}</span>
+              {meal.mealType === nextMeal ? (
+                <Badge>Next</Badge>
+              ) : (
+                <span className="text-xs text-muted-foreground">{meal.share}%</span>
+              )}
+            </div>
+            <div className="flex justify-between text-sm">
+              <span className="text-muted-foreground">Calories</span>
+              <span className={meal.eaten.calories > meal.budget.calories ? "text-red-500" : undefined}>
+                {Math.round(meal.eaten.calories)} / {meal.budget.calories}
+              </span>
+            </div>
+            <Progress
+              value={meal.budget.calories > 0 ? Math.min((meal.eaten.calories / meal.budget.calories) * 100, 100) : 0}
+            />
+            <p className="text-xs text-muted-foreground">
+              {Math.round(meal.remaining.calories)} kcal left · P {Math.round(meal.remaining.protein)}g · C{" "}
+              {Math.round(meal.remaining.carbs)}g · F {Math.round(meal.remaining.fat)}g
+            </p>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,4 +1,4 @@
-import { useState } from "react";
+import { useMemo, useState } from "react";
 import { Calendar } from "@/components/ui/calendar";
 import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
@@ -15,21 +15,39 @@ import {
   UtensilsCrossed,
   ChefHat,
   Apple,
-  Sparkles
+  Sparkles,
+  ShoppingCart,
+  Repeat,
+  RotateCcw,
+  Check,
+  X
 } from "lucide-react";
 import { CreateMealPlanDialog } from "./create-meal-plan-dialog";
-import { format } from "date-fns";
+import { format, parseISO } from "date-fns";
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from "@/components/ui/alert-dialog";
 import { useToast } from "@/hooks/use-toast";
 import { Badge } from "@/components/ui/badge";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { Skeleton } from "@/components/ui/skeleton";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import type { Recipe } from "@shared/schema";
+import {
+  getDayNutrition,
+  listPlanDays,
+  resolvePlanDay,
+  type MealSlotType,
+  type SlotNutrition,
+} from "@shared/meal-plans";
 
 interface Meal {
   title: string;
   description: string;
   nutritionalInfo: string;
   preparationTime?: string;
+  recipeId?: number | null;
+  culturalRecipeId?: number | null;
+  servings?: number;
+  nutrition?: SlotNutrition;
 }
 
 interface DayMeals {
@@ -49,6 +67,25 @@ interface MealPlan {
   startDate: string;
   endDate: string;
   meals: DayMeals[];
+  rotationDays: number | null;
+  overrides: Record<string, DayMeals["meals"]>;
+}
+
+type SlotStatus = "eaten" | "skipped" | "swapped" | "missed" | "pending";
+
+interface DayAdherence {
+  date: string;
+  slots: { mealType: MealSlotType; snackIndex: number; status: SlotStatus; logId?: number }[];
+  eaten: number;
+  swapped: number;
+  skipped: number;
+  missed: number;
+  adherence: number | null;
+}
+
+interface PlanAdherence {
+  days: DayAdherence[];
+  adherence: number | null;
 }
 
 interface MealCardProps {
@@ -56,8 +93,21 @@ interface MealCardProps {
   meal: Meal;
   className?: string;
   icon?: React.ReactNode;
+  recipes?: Recipe[];
+  onSwap?: (recipeId: number) => void;
+  status?: SlotStatus;
+  // Log what happened to this meal; recipeId is what was eaten instead when swapped
+  onLog?: (status: "eaten" | "skipped" | "swapped", recipeId?: number) => void;
 }
 
+const STATUS_BADGES: Record<SlotStatus, { label: string; className: string } | null> = {
+  eaten: { label: "Eaten", className: "bg-green-100 text-green-700 dark:bg-green-900/40 dark:text-green-300" },
+  swapped: { label: "Swapped", className: "bg-blue-100 text-blue-700 dark:bg-blue-900/40 dark:text-blue-300" },
+  skipped: { label: "Skipped", className: "bg-muted text-muted-foreground" },
+  missed: { label: "Not logged", className: "bg-amber-100 text-amber-700 dark:bg-amber-900/40 dark:text-amber-300" },
+  pending: null,
+};
+
 export function MealPlanner() {
   const [selectedDate, setSelectedDate] = useState<Date>(new Date());
   const [showCreateDialog, setShowCreateDialog] = useState(false);
@@ -93,128 +143,162 @@ export function MealPlanner() {
     }
   });
 
-  const createMutation = useMutation({
-    mutationFn: async (data: any) => {
-      const res = await apiRequest("POST", "/api/meal-plans", data);
-      const newPlan = await res.json();
-
-      // Update nutrition progress for each meal
-      const nutritionUpdates = newPlan.meals.map(async (day: DayMeals) => {
-        const date = new Date(newPlan.startDate);
-        date.setDate(date.getDate() + (day.day - 1));
-        
-        const dailyNutrition = {
-          calories: 0,
-          protein: 0,
-          carbs: 0,
-          fat: 0,
-        };
-
-        // Sum up nutrition from all meals
-        Object.values(day.meals).forEach((meal: any) => {
-          if (Array.isArray(meal)) {
-            // Handle snacks array
-            meal.forEach(snack => {
-              const nutrition = parseNutritionString(snack.nutritionalInfo);
-              dailyNutrition.calories += nutrition.calories;
-              dailyNutrition.protein += nutrition.protein;
-              dailyNutrition.carbs += nutrition.carbs;
-              dailyNutrition.fat += nutrition.fat;
-            });
-          } else {
-            // Handle single meals (breakfast, lunch, dinner)
-            const nutrition = parseNutritionString(meal.nutritionalInfo);
-            dailyNutrition.calories += nutrition.calories;
-            dailyNutrition.protein += nutrition.protein;
-            dailyNutrition.carbs += nutrition.carbs;
-            dailyNutrition.fat += nutrition.fat;
-          }
-        });
-
-        await apiRequest("POST", "/api/nutrition-goals/progress", {
-          progress: {
-            date: date.toISOString().split('T')[0],
-            ...dailyNutrition,
-            completed: true,
-          }
-        });
+  const { data: recipes } = useQuery<Recipe[]>({
+    queryKey: ["/api/recipes"],
+  });
+
+  // Swaps one slot for a recipe on the selected date only
+  const swapMealMutation = useMutation({
+    mutationFn: async ({ planId, date, mealType, snackIndex, recipeId }: {
+      planId: number;
+      date: string;
+      mealType: MealSlotType;
+      snackIndex?: number;
+      recipeId: number;
+    }) => {
+      const res = await apiRequest("PUT", `/api/meal-plans/${planId}/slots`, { date, mealType, snackIndex, recipeId });
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/meal-plans"] });
+      toast({
+        title: "Meal swapped",
+        description: "Only this date was changed; the rest of the plan is unchanged.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to swap meal",
+        variant: "destructive",
       });
+    }
+  });
 
-      await Promise.all(nutritionUpdates);
-      return newPlan;
+  const resetDateMutation = useMutation({
+    mutationFn: async ({ planId, date }: { planId: number; date: string }) => {
+      await apiRequest("DELETE", `/api/meal-plans/${planId}/overrides/${date}`);
     },
     onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/meal-plans"] });
+      toast({
+        title: "Date reset",
+        description: "This date is back on the plan's regular meals.",
+      });
+    }
+  });
+
+  const logMealMutation = useMutation({
+    mutationFn: async (data: {
+      planId: number;
+      date: string;
+      mealType: MealSlotType;
+      snackIndex: number;
+      status: "eaten" | "skipped" | "swapped";
+      recipeId?: number;
+    }) => {
+      const { planId, ...body } = data;
+      const res = await apiRequest("POST", `/api/meal-plans/${planId}/log`, body);
+      return res.json();
+    },
+    onSuccess: (result: { log: { status: string }; pantry: { deducted: unknown[] } | null }) => {
       queryClient.invalidateQueries({ queryKey: ["/api/meal-plans"] });
       queryClient.invalidateQueries({ queryKey: ["/api/nutrition-goals/current"] });
-      setShowCreateDialog(false);
+      queryClient.invalidateQueries({ queryKey: ["/api/nutrition-log"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/nutrition-log/daily"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/nutrition-goals/meal-budgets"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/pantry"] });
+      const deducted = result.pantry?.deducted.length ?? 0;
       toast({
-        title: "Success",
-        description: "Meal plan created and nutrition goals updated.",
+        title: result.log.status === "skipped" ? "Meal skipped" : "Meal logged",
+        description: result.log.status === "skipped"
+          ? "Marked as skipped for this day."
+          : `Added to today's nutrition${deducted > 0 ? ` and took ${deducted} items from your pantry` : ""}.`,
       });
     },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to log meal",
+        variant: "destructive",
+      });
+    }
   });
 
-  const activeMealPlan = mealPlans?.find((plan: MealPlan) => {
-    const start = new Date(plan.startDate);
-    const end = new Date(plan.endDate);
-    return selectedDate >= start && selectedDate <= end;
+  const groceryListMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const res = await apiRequest("POST", `/api/meal-plans/${id}/grocery-list`);
+      return res.json();
+    },
+    onSuccess: (result: { list: { items: unknown[] }; slotsWithoutIngredients: string[] }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/grocery-lists"] });
+      const skipped = result.slotsWithoutIngredients.length;
+      toast({
+        title: "Grocery list ready",
+        description: `${result.list.items.length} items still needed after checking your pantry.${
+          skipped > 0 ? ` ${skipped} meals had no ingredient list and were skipped.` : ""
+        }`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to create grocery list",
+        variant: "destructive",
+      });
+    }
   });
 
-  const selectedDayMeals = activeMealPlan?.meals?.find(
-    (day: DayMeals) => day.day === Math.floor((selectedDate.getTime() - new Date(activeMealPlan.startDate).getTime()) / (1000 * 60 * 60 * 24)) + 1
-  );
+  // Plans are stored against calendar dates, so compare on the local date the user picked
+  const selectedDateKey = format(selectedDate, "yyyy-MM-dd");
+  const activeMealPlan = mealPlans?.find((plan: MealPlan) => resolvePlanDay(plan, selectedDateKey));
+  const scheduledDay = activeMealPlan ? resolvePlanDay(activeMealPlan, selectedDateKey) : null;
+  const selectedDayMeals = scheduledDay?.day as DayMeals | undefined;
+  const todayKey = format(new Date(), "yyyy-MM-dd");
 
-  // Helper function to parse nutrition string
-  const parseNutritionString = (nutritionStr: string) => {
-    const defaults = { calories: 0, protein: 0, carbs: 0, fat: 0 };
-    try {
-      const matches = {
-        calories: nutritionStr.match(/(\d+)\s*kcal/),
-        protein: nutritionStr.match(/(\d+)g\s*protein/),
-        carbs: nutritionStr.match(/(\d+)g\s*carbs/),
-        fat: nutritionStr.match(/(\d+)g\s*fat/),
-      };
-
-      return {
-        calories: matches.calories ? parseInt(matches.calories[1]) : defaults.calories,
-        protein: matches.protein ? parseInt(matches.protein[1]) : defaults.protein,
-        carbs: matches.carbs ? parseInt(matches.carbs[1]) : defaults.carbs,
-        fat: matches.fat ? parseInt(matches.fat[1]) : defaults.fat,
-      };
-    } catch (e) {
-      return defaults;
+  const { data: adherence } = useQuery<PlanAdherence>({
+    queryKey: ["/api/meal-plans", activeMealPlan?.id, "adherence", todayKey],
+    queryFn: async () => {
+      const res = await apiRequest("GET", `/api/meal-plans/${activeMealPlan!.id}/adherence?today=${todayKey}`);
+      return res.json();
+    },
+    enabled: !!activeMealPlan,
+  });
+  const selectedDayAdherence = adherence?.days.find((day) => day.date === selectedDateKey);
+
+  // Highlights every planned date in the calendar, with edited dates marked separately
+  const calendarModifiers = useMemo(() => {
+    const planned: Date[] = [];
+    const edited: Date[] = [];
+    for (const plan of mealPlans ?? []) {
+      for (const day of listPlanDays(plan)) {
+        (day.overridden ? edited : planned).push(parseISO(day.date));
+      }
     }
-  };
+    return { planned, edited };
+  }, [mealPlans]);
+
+  // Everything a MealCard needs to edit or log one slot of the selected date
+  const slotActions = (mealType: MealSlotType, snackIndex = 0) => ({
+    recipes,
+    status: selectedDayAdherence?.slots.find(
+      (slot) => slot.mealType === mealType && slot.snackIndex === snackIndex
+    )?.status,
+    onSwap: (recipeId: number) => {
+      if (!activeMealPlan) return;
+      swapMealMutation.mutate({ planId: activeMealPlan.id, date: selectedDateKey, mealType, snackIndex, recipeId });
+    },
+    onLog: (status: "eaten" | "skipped" | "swapped", recipeId?: number) => {
+      if (!activeMealPlan) return;
+      logMealMutation.mutate({ planId: activeMealPlan.id, date: selectedDateKey, mealType, snackIndex, status, recipeId });
+    },
+  });
 
   // Add nutrition warning if exceeding goals
   const renderNutritionWarning = (meals: any) => {
     if (!currentGoal) return null;
 
-    const dailyNutrition = {
-      calories: 0,
-      protein: 0,
-      carbs: 0,
-      fat: 0,
-    };
-
-    // Calculate total nutrition
-    Object.values(meals).forEach((meal: any) => {
-      if (Array.isArray(meal)) {
-        meal.forEach(snack => {
-          const nutrition = parseNutritionString(snack.nutritionalInfo);
-          dailyNutrition.calories += nutrition.calories;
-          dailyNutrition.protein += nutrition.protein;
-          dailyNutrition.carbs += nutrition.carbs;
-          dailyNutrition.fat += nutrition.fat;
-        });
-      } else {
-        const nutrition = parseNutritionString(meal.nutritionalInfo);
-        dailyNutrition.calories += nutrition.calories;
-        dailyNutrition.protein += nutrition.protein;
-        dailyNutrition.carbs += nutrition.carbs;
-        dailyNutrition.fat += nutrition.fat;
-      }
-    });
+    const dailyNutrition = getDayNutrition({ meals });
 
     const exceeds = {
       calories: dailyNutrition.calories > currentGoal.dailyCalories,
@@ -280,8 +364,21 @@ export function MealPlanner() {
                 mode="single"
                 selected={selectedDate}
                 onSelect={(date) => date && setSelectedDate(date)}
+                modifiers={calendarModifiers}
+                modifiersClassNames={{
+                  planned: "bg-primary/10 font-medium",
+                  edited: "bg-amber-100 dark:bg-amber-900/40 font-medium",
+                }}
                 className="mx-auto rounded-md bg-card"
               />
+              <div className="flex justify-center gap-4 text-xs text-muted-foreground mt-2">
+                <span className="flex items-center gap-1">
+                  <span className="h-3 w-3 rounded-sm bg-primary/10" /> Planned
+                </span>
+                <span className="flex items-center gap-1">
+                  <span className="h-3 w-3 rounded-sm bg-amber-100 dark:bg-amber-900/40" /> Changed for one day
+                </span>
+              </div>
             </div>
           </div>
         </Card>
@@ -303,32 +400,69 @@ export function MealPlanner() {
                 <div className="flex items-center gap-2 text-primary">
                   <CalendarIcon className="w-4 h-4" />
                   <span className="font-medium">{format(selectedDate, "MMMM d, yyyy")}</span>
+                  {adherence?.adherence != null && (
+                    <Badge variant="outline" title="Planned meals eaten so far across the whole plan">
+                      Plan {adherence.adherence}% on track
+                    </Badge>
+                  )}
+                  {activeMealPlan?.rotationDays && scheduledDay && (
+                    <Badge variant="outline" className="gap-1">
+                      <Repeat className="h-3 w-3" />
+                      Day {scheduledDay.templateDay} of {activeMealPlan.rotationDays}
+                    </Badge>
+                  )}
                 </div>
                 {activeMealPlan && (
-                  <AlertDialog>
-                    <AlertDialogTrigger asChild>
-                      <Button variant="ghost" size="icon" className="text-destructive hover:text-destructive">
-                        <Trash2 className="h-4 w-4" />
+                  <div className="flex items-center gap-1">
+                    {scheduledDay?.overridden && (
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        title="Reset this date to the plan's regular meals"
+                        onClick={() => resetDateMutation.mutate({ planId: activeMealPlan.id, date: selectedDateKey })}
+                        disabled={resetDateMutation.isPending}
+                      >
+                        <RotateCcw className="h-4 w-4" />
                       </Button>
-                    </AlertDialogTrigger>
-                    <AlertDialogContent>
-                      <AlertDialogHeader>
-                        <AlertDialogTitle>Delete Meal Plan</AlertDialogTitle>
-                        <AlertDialogDescription>
-                          Are you sure you want to delete this meal plan? This action cannot be undone.
-                        </AlertDialogDescription>
-                      </AlertDialogHeader>
-                      <AlertDialogFooter>
-                        <AlertDialogCancel>Cancel</AlertDialogCancel>
-                        <AlertDialogAction
-                          onClick={() => deleteMealPlanMutation.mutate(activeMealPlan.id)}
-                          className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
-                        >
-                          Delete
-                        </AlertDialogAction>
-                      </AlertDialogFooter>
-                    </AlertDialogContent>
-                  </AlertDialog>
+                    )}
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      title="Create grocery list from this plan"
+                      onClick={() => groceryListMutation.mutate(activeMealPlan.id)}
+                      disabled={groceryListMutation.isPending}
+                    >
+                      {groceryListMutation.isPending ? (
+                        <Loader2 className="h-4 w-4 animate-spin" />
+                      ) : (
+                        <ShoppingCart className="h-4 w-4" />
+                      )}
+                    </Button>
+                    <AlertDialog>
+                      <AlertDialogTrigger asChild>
+                        <Button variant="ghost" size="icon" className="text-destructive hover:text-destructive">
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </AlertDialogTrigger>
+                      <AlertDialogContent>
+                        <AlertDialogHeader>
+                          <AlertDialogTitle>Delete Meal Plan</AlertDialogTitle>
+                          <AlertDialogDescription>
+                            Are you sure you want to delete this meal plan? This action cannot be undone.
+                          </AlertDialogDescription>
+                        </AlertDialogHeader>
+                        <AlertDialogFooter>
+                          <AlertDialogCancel>Cancel</AlertDialogCancel>
+                          <AlertDialogAction
+                            onClick={() => deleteMealPlanMutation.mutate(activeMealPlan.id)}
+                            className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                          >
+                            Delete
+                          </AlertDialogAction>
+                        </AlertDialogFooter>
+                      </AlertDialogContent>
+                    </AlertDialog>
+                  </div>
                 )}
               </div>
               
@@ -336,18 +470,21 @@ export function MealPlanner() {
                 <MealCard
                   title="Breakfast"
                   meal={selectedDayMeals.meals.breakfast}
+                  {...slotActions("breakfast")}
                   className="bg-orange-50/50 dark:bg-orange-950/30 border-orange-200 dark:border-orange-900"
                   icon={<Coffee className="h-4 w-4 text-orange-500" />}
                 />
                 <MealCard
                   title="Lunch"
                   meal={selectedDayMeals.meals.lunch}
+                  {...slotActions("lunch")}
                   className="bg-green-50/50 dark:bg-green-950/30 border-green-200 dark:border-green-900"
                   icon={<UtensilsCrossed className="h-4 w-4 text-green-500" />}
                 />
                 <MealCard
                   title="Dinner"
                   meal={selectedDayMeals.meals.dinner}
+                  {...slotActions("dinner")}
                   className="bg-blue-50/50 dark:bg-blue-950/30 border-blue-200 dark:border-blue-900"
                   icon={<ChefHat className="h-4 w-4 text-blue-500" />}
                 />
@@ -359,10 +496,11 @@ export function MealPlanner() {
                   <h3 className="font-semibold">Snacks</h3>
                 </div>
                 <div className="grid gap-2">
-                  {selectedDayMeals.meals.snacks.map((snack, index) => (
+                  {(selectedDayMeals.meals.snacks ?? []).map((snack, index) => (
                     <MealCard
                       key={index}
                       meal={snack}
+                      {...slotActions("snack", index)}
                       className="bg-purple-50/50 dark:bg-purple-950/30 border-purple-200 dark:border-purple-900"
                     />
                   ))}
@@ -378,6 +516,11 @@ export function MealPlanner() {
                   <Badge variant="secondary" className="bg-primary/10">
                     {selectedDayMeals.totalCalories} calories
                   </Badge>
+                  {selectedDayAdherence?.adherence != null && (
+                    <Badge variant="secondary">
+                      {selectedDayAdherence.eaten} of {selectedDayAdherence.slots.length} meals eaten as planned
+                    </Badge>
+                  )}
                 </div>
                 <p className="text-sm text-muted-foreground">
                   {selectedDayMeals.nutritionSummary}
@@ -413,7 +556,9 @@ export function MealPlanner() {
   );
 }
 
-function MealCard({ title, meal, className = "", icon }: MealCardProps) {
+function MealCard({ title, meal, className = "", icon, recipes, onSwap, status, onLog }: MealCardProps) {
+  const statusBadge = status ? STATUS_BADGES[status] : null;
+
   // Extract preparation time for formatted display
   const getPrepTime = (prepTime?: string) => {
     if (!prepTime) return null;
@@ -439,8 +584,20 @@ function MealCard({ title, meal, className = "", icon }: MealCardProps) {
             <h3 className="font-semibold">{title}</h3>
           </div>
         )}
-        <div>
+        <div className="flex items-center justify-between gap-2">
           <h4 className="font-medium text-base">{meal.title}</h4>
+          <div className="flex items-center gap-1 shrink-0">
+            {statusBadge && (
+              <Badge variant="secondary" className={`text-xs ${statusBadge.className}`}>
+                {statusBadge.label}
+              </Badge>
+            )}
+            {(meal.recipeId || meal.culturalRecipeId) && (
+              <Badge variant="secondary" className="text-xs">
+                {meal.servings && meal.servings !== 1 ? `${meal.servings} servings` : "Recipe"}
+              </Badge>
+            )}
+          </div>
         </div>
         <p className="text-sm text-muted-foreground">
           {meal.description}
@@ -456,6 +613,56 @@ function MealCard({ title, meal, className = "", icon }: MealCardProps) {
             </div>
           )}
         </div>
+        {onLog && (
+          <div className="flex flex-wrap items-center gap-2">
+            <Button
+              variant={status === "eaten" ? "default" : "outline"}
+              size="sm"
+              className="h-8 text-xs"
+              onClick={() => onLog("eaten")}
+            >
+              <Check className="h-3 w-3 mr-1" />
+              Ate it
+            </Button>
+            <Button
+              variant={status === "skipped" ? "default" : "outline"}
+              size="sm"
+              className="h-8 text-xs"
+              onClick={() => onLog("skipped")}
+            >
+              <X className="h-3 w-3 mr-1" />
+              Skipped
+            </Button>
+            {recipes && recipes.length > 0 && (
+              <Select value="" onValueChange={(value) => onLog("swapped", parseInt(value))}>
+                <SelectTrigger className="h-8 text-xs w-auto min-w-[160px] flex-1">
+                  <SelectValue placeholder="Ate something else..." />
+                </SelectTrigger>
+                <SelectContent>
+                  {recipes.map((recipe) => (
+                    <SelectItem key={recipe.id} value={recipe.id.toString()}>
+                      {recipe.title}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+          </div>
+        )}
+        {onSwap && recipes && recipes.length > 0 && (
+          <Select value="" onValueChange={(value) => onSwap(parseInt(value))}>
+            <SelectTrigger className="h-8 text-xs">
+              <SelectValue placeholder="Change the plan for this date..." />
+            </SelectTrigger>
+            <SelectContent>
+              {recipes.map((recipe) => (
+                <SelectItem key={recipe.id} value={recipe.id.toString()}>
+                  {recipe.title}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
       </div>
     </Card>
   );
@@ -62,7 +62,7 @@ export function Navbar() {
 
   return (
     <>
-      <header className="fixed top-0 left-0 right-0 z-50 border-b bg-background">
+      <header className="fixed top-0 left-0 right-0 z-50 border-b bg-background print:hidden">
         <div className="container flex h-14 items-center">
           {/* Logo - aligned to the left with proper spacing */}
           <Link href="/" className="flex items-center pl-4">
@@ -4,16 +4,16 @@ import { apiRequest } from "@/lib/queryClient";
 import { Badge } from "@/components/ui/badge";
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
 import { AlertCircle } from "lucide-react";
-
-interface NutritionInfo {
-  calories: number;
-  protein: number;
-  carbs: number;
-  fat: number;
-}
+import {
+  MICRONUTRIENTS,
+  cleanMicronutrients,
+  formatMicronutrient,
+  getMicronutrientTargets,
+} from "@shared/nutrients";
+import type { SlotNutrition } from "@shared/meal-plans";
 
 interface NutritionDisplayProps {
-  nutrition: NutritionInfo;
+  nutrition: SlotNutrition;
   showGoals?: boolean;
 }
 
@@ -38,6 +38,17 @@ export function NutritionDisplay({ nutrition, showGoals = true }: NutritionDispl
     return "text-green-500";
   };
 
+  // A serving with 20% or more of a daily limit counts as high in that nutrient
+  const getLimitColor = (percent: number) => {
+    if (percent >= 40) return "text-red-500";
+    if (percent >= 20) return "text-yellow-500";
+    return "text-green-500";
+  };
+
+  const micronutrients = cleanMicronutrients(nutrition.micronutrients);
+  const targets = getMicronutrientTargets(currentGoal?.micronutrientTargets);
+  const listed = MICRONUTRIENTS.filter((nutrient) => micronutrients[nutrient.key] !== undefined);
+
   return (
     <div className="space-y-3">
       <div className="flex items-center gap-2">
@@ -147,6 +158,33 @@ export function NutritionDisplay({ nutrition, showGoals = true }: NutritionDispl
             )}
           </div>
         </div>
+
+        {listed.length > 0 && (
+          <div className="grid grid-cols-2 gap-x-6 gap-y-1 pt-2 border-t">
+            {listed.map((nutrient) => {
+              const amount = micronutrients[nutrient.key]!;
+              const percent = Math.round((amount / targets[nutrient.key]) * 100);
+              return (
+                <div key={nutrient.key} className="flex items-center justify-between gap-2 text-sm">
+                  <span>{nutrient.label}</span>
+                  <span className="flex items-center gap-2">
+                    <span className="text-muted-foreground tabular-nums">
+                      {formatMicronutrient(nutrient.key, amount)}
+                    </span>
+                    {showGoals && (
+                      <Badge
+                        variant="outline"
+                        className={`${nutrient.kind === "limit" ? getLimitColor(percent) : "text-muted-foreground"} min-w-[48px] text-center tabular-nums`}
+                      >
+                        {percent}%
+                      </Badge>
+                    )}
+                  </span>
+                </div>
+              );
+            })}
+          </div>
+        )}
       </div>
     </div>
   );
@@ -8,6 +8,7 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Plus, Edit2, Loader2 } from "lucide-react";
 import { Progress } from "@/components/ui/progress";
+import { Badge } from "@/components/ui/badge";
 import {
   Dialog,
   DialogContent,
@@ -16,7 +17,25 @@ import {
 } from "@/components/ui/dialog";
 import { useToast } from "@/hooks/use-toast";
 import { LineChart } from "@/components/ui/chart";
+import { format, subDays } from "date-fns";
 import type { NutritionGoal, NutritionProgress } from "@shared/schema";
+import {
+  MICRONUTRIENTS,
+  MICRONUTRIENT_STATUS_LABELS,
+  formatMicronutrient,
+  getMicronutrientStatus,
+  getMicronutrientTargets,
+  type Micronutrients,
+} from "@shared/nutrients";
+import { DEFAULT_MEAL_SPLIT, getMealSplit, type MealSplit } from "@shared/meal-budgets";
+import { MealBudgetCard } from "@/components/meal-budgets";
+
+const MEAL_SPLIT_FIELDS: { key: keyof MealSplit; label: string }[] = [
+  { key: "breakfast", label: "Breakfast" },
+  { key: "lunch", label: "Lunch" },
+  { key: "dinner", label: "Dinner" },
+  { key: "snack", label: "Snacks" },
+];
 
 export function NutritionGoals() {
   const { user } = useAuth();
@@ -28,6 +47,10 @@ export function NutritionGoals() {
     dailyCarbs: "",
     dailyFat: "",
   });
+  // Blank fields fall back to the nutrient's daily value
+  const [micronutrientTargets, setMicronutrientTargets] = React.useState<Record<string, string>>({});
+  // Percent of each daily target per meal
+  const [mealSplit, setMealSplit] = React.useState<Record<keyof MealSplit, string>>(() => toSplitForm(DEFAULT_MEAL_SPLIT));
 
   const { data: currentGoal, isLoading } = useQuery<NutritionGoal>({
     queryKey: ["/api/nutrition-goals/current"],
@@ -37,6 +60,18 @@ export function NutritionGoals() {
     },
   });
 
+  // The last seven days of the nutrition log, ending today in the user's time zone
+  const today = format(new Date(), "yyyy-MM-dd");
+  const weekStart = format(subDays(new Date(), 6), "yyyy-MM-dd");
+  const { data: progress = [] } = useQuery<NutritionProgress[]>({
+    queryKey: ["/api/nutrition-log/daily", weekStart, today],
+    queryFn: async () => {
+      const res = await apiRequest("GET", `/api/nutrition-log/daily?from=${weekStart}&to=${today}`);
+      return res.json();
+    },
+    enabled: !!currentGoal,
+  });
+
   const createMutation = useMutation({
     mutationFn: async () => {
       // Validate inputs before sending
@@ -58,12 +93,37 @@ export function NutritionGoals() {
         throw new Error("Daily fat must be between 0g and 200g");
       }
 
+      const targets: Micronutrients = {};
+      for (const nutrient of MICRONUTRIENTS) {
+        const raw = micronutrientTargets[nutrient.key];
+        if (!raw) continue;
+        const value = parseFloat(raw);
+        if (isNaN(value) || value < 0) {
+          throw new Error(`${nutrient.label} target must be a positive number`);
+        }
+        targets[nutrient.key] = value;
+      }
+
+      const split = {} as MealSplit;
+      for (const { key, label } of MEAL_SPLIT_FIELDS) {
+        const value = parseFloat(mealSplit[key]);
+        if (isNaN(value) || value < 0 || value > 100) {
+          throw new Error(`${label} share must be between 0% and 100%`);
+        }
+        split[key] = value;
+      }
+      const splitTotal = Object.values(split).reduce((sum, value) => sum + value, 0);
+      if (Math.abs(splitTotal - 100) >= 0.01) {
+        throw new Error(`Meal shares must add up to 100% (currently ${splitTotal}%)`);
+      }
+
       const data = {
         dailyCalories: calories,
         dailyProtein: protein,
         dailyCarbs: carbs,
         dailyFat: fat,
-        progress: []
+        micronutrientTargets: targets,
+        mealSplit: split,
       };
 
       const res = await apiRequest("POST", "/api/nutrition-goals", data);
@@ -75,6 +135,8 @@ export function NutritionGoals() {
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/nutrition-goals/current"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/nutrition-log/daily"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/nutrition-goals/meal-budgets"] });
       setShowCreateDialog(false);
       resetForm();
       toast({
@@ -82,15 +144,25 @@ export function NutritionGoals() {
         description: "Nutrition goals have been set!",
       });
     },
-    onError: () => {
+    onError: (error: Error) => {
       toast({
         title: "Error",
-        description: "Failed to set nutrition goals. Please try again.",
+        description: error.message || "Failed to set nutrition goals. Please try again.",
         variant: "destructive",
       });
     },
   });
 
+  // Start from the targets the user already chose, if any
+  React.useEffect(() => {
+    if (!showCreateDialog) return;
+    const saved = (currentGoal?.micronutrientTargets ?? {}) as Micronutrients;
+    setMicronutrientTargets(
+      Object.fromEntries(Object.entries(saved).map(([key, value]) => [key, String(value)]))
+    );
+    setMealSplit(toSplitForm(getMealSplit(currentGoal?.mealSplit)));
+  }, [showCreateDialog, currentGoal]);
+
   const resetForm = () => {
     setFormData({
       dailyCalories: "",
@@ -108,8 +180,6 @@ export function NutritionGoals() {
     );
   }
 
-  const today = new Date().toISOString().split('T')[0];
-  const progress = Array.isArray(currentGoal?.progress) ? currentGoal.progress : [];
   const todayProgress = progress.find(
     (p: NutritionProgress) => p.date === today
   );
@@ -117,6 +187,9 @@ export function NutritionGoals() {
   const getProgressPercent = (current: number, target: number) =>
     Math.min(Math.round((current / target) * 100), 100);
 
+  const targets = getMicronutrientTargets(currentGoal?.micronutrientTargets);
+  const todayMicronutrients = (todayProgress?.micronutrients ?? {}) as Micronutrients;
+
   return (
     <div className="space-y-6">
       <div className="flex items-center justify-between">
@@ -139,8 +212,9 @@ export function NutritionGoals() {
       {currentGoal ? (
         <div className="grid gap-6 md:grid-cols-2">
           <Card>
-            <CardHeader>
+            <CardHeader className="flex flex-row items-center justify-between">
               <CardTitle className="text-lg">Today's Progress</CardTitle>
+              {currentGoal.adaptive && <Badge variant="secondary">Adaptive</Badge>}
             </CardHeader>
             <CardContent className="space-y-4">
               <div className="space-y-2">
@@ -213,7 +287,7 @@ export function NutritionGoals() {
             </CardHeader>
             <CardContent>
               <LineChart
-                data={progress.slice(-7)}
+                data={progress}
                 categories={["calories", "protein", "carbs", "fat"]}
                 index="date"
                 colors={["#f97316", "#22c55e", "#3b82f6", "#8b5cf6"]}
@@ -221,6 +295,43 @@ export function NutritionGoals() {
               />
             </CardContent>
           </Card>
+
+          <MealBudgetCard />
+
+          <Card className="md:col-span-2">
+            <CardHeader>
+              <CardTitle className="text-lg">Today's Micronutrients</CardTitle>
+            </CardHeader>
+            <CardContent className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
+              {MICRONUTRIENTS.map((nutrient) => {
+                const amount = todayMicronutrients[nutrient.key];
+                const target = targets[nutrient.key];
+                const status = amount === undefined ? null : getMicronutrientStatus(nutrient.key, amount, target);
+                return (
+                  <div key={nutrient.key} className="space-y-2">
+                    <div className="flex justify-between text-sm">
+                      <span>
+                        {nutrient.label}
+                        {nutrient.kind === "limit" && (
+                          <span className="text-xs text-muted-foreground"> (limit)</span>
+                        )}
+                      </span>
+                      <span className={status === "over" ? "text-red-500" : "text-muted-foreground"}>
+                        {amount === undefined ? "No data" : formatMicronutrient(nutrient.key, amount)} / {formatMicronutrient(nutrient.key, target)}
+                      </span>
+                    </div>
+                    <Progress
+                      value={getProgressPercent(amount ?? 0, target)}
+                      className={status === "over" ? "[&>div]:bg-red-500" : undefined}
+                    />
+                    {status && (
+                      <p className="text-xs text-muted-foreground">{MICRONUTRIENT_STATUS_LABELS[status]}</p>
+                    )}
+                  </div>
+                );
+              })}
+            </CardContent>
+          </Card>
         </div>
       ) : (
         <Card>
@@ -318,6 +429,67 @@ export function NutritionGoals() {
               />
             </div>
 
+            <div className="space-y-2">
+              <Label>Meal Split (%)</Label>
+              <p className="text-xs text-muted-foreground">
+                How much of each daily target goes to each meal. Shares must add up to 100%.
+              </p>
+              <div className="grid grid-cols-4 gap-2">
+                {MEAL_SPLIT_FIELDS.map(({ key, label }) => (
+                  <div key={key} className="space-y-1">
+                    <Label htmlFor={`split-${key}`} className="text-xs font-normal">
+                      {label}
+                    </Label>
+                    <Input
+                      id={`split-${key}`}
+                      type="number"
+                      min={0}
+                      max={100}
+                      step="any"
+                      value={mealSplit[key]}
+                      onChange={(e) =>
+                        setMealSplit((prev) => ({
+                          ...prev,
+                          [key]: e.target.value,
+                        }))
+                      }
+                      required
+                    />
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Micronutrient Targets</Label>
+              <p className="text-xs text-muted-foreground">
+                Leave blank to use the recommended daily value. Sugar, saturated fat, sodium and cholesterol are limits to stay under.
+              </p>
+              <div className="grid grid-cols-2 gap-2 max-h-48 overflow-y-auto pr-1">
+                {MICRONUTRIENTS.map((nutrient) => (
+                  <div key={nutrient.key} className="space-y-1">
+                    <Label htmlFor={`target-${nutrient.key}`} className="text-xs font-normal">
+                      {nutrient.label} ({nutrient.unit})
+                    </Label>
+                    <Input
+                      id={`target-${nutrient.key}`}
+                      type="number"
+                      min={0}
+                      step="any"
+                      placeholder={String(nutrient.dailyValue)}
+                      value={micronutrientTargets[nutrient.key] ?? ""}
+                      onChange={(e) =>
+                        setMicronutrientTargets((prev) => ({
+                          ...prev,
+                          [nutrient.key]: e.target.value,
+                        }))
+                      }
+                    />
+                  </div>
+                ))}
+              </div>
+            </div>
+
             <div className="flex justify-end gap-2">
               <Button
                 type="button"
@@ -338,4 +510,13 @@ export function NutritionGoals() {
       </Dialog>
     </div>
   );
-}
\ No newline at end of file
+}
+
+function toSplitForm(split: MealSplit): Record<keyof MealSplit, string> {
+  return {
+    breakfast: String(split.breakfast),
+    lunch: String(split.lunch),
+    dinner: String(split.dinner),
+    snack: String(split.snack),
+  };
+}
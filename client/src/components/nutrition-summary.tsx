@@ -2,35 +2,46 @@ import * as React from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { LineChart } from "@/components/ui/chart";
-import { useQuery } from "@tanstack/react-query";
-import { apiRequest } from "@/lib/queryClient";
-import { format, startOfWeek, startOfMonth, eachDayOfInterval } from "date-fns";
-import { Loader2, UtensilsCrossed } from "lucide-react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { format, parseISO, startOfWeek, startOfMonth, eachDayOfInterval } from "date-fns";
+import { FileText, Loader2, Trash2, UtensilsCrossed } from "lucide-react";
+import { Link } from "wouter";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { LogFoodDialog } from "@/components/log-food-dialog";
+import type { NutritionLogEntry } from "@shared/schema";
+import {
+  MICRONUTRIENTS,
+  addMicronutrients,
+  cleanMicronutrients,
+  scaleMicronutrients,
+  formatMicronutrient,
+  getMicronutrientTargets,
+  getMicronutrientStatus,
+  MICRONUTRIENT_STATUS_LABELS,
+  type Micronutrients,
+} from "@shared/nutrients";
 
 type TimePeriod = "week" | "month";
 type MealType = "all" | "breakfast" | "lunch" | "dinner" | "snack";
 
-interface ConsumptionRecord {
-  consumedAt: string;
-  mealType: MealType;
-  servings: number;
-  recipe?: {
-    nutritionInfo: {
-      calories: number;
-      protein: number;
-      carbs: number;
-      fat: number;
-    };
-  };
-}
+const SOURCE_LABELS: Record<NutritionLogEntry["source"], string> = {
+  recipe: "Recipe",
+  "meal-plan": "Meal plan",
+  food: "Food",
+  pantry: "Pantry",
+  manual: "Quick add",
+  imported: "Imported",
+};
 
 interface NutritionTotals {
   calories: number;
   protein: number;
   carbs: number;
   fat: number;
+  micronutrients: Micronutrients;
 }
 
 export function NutritionSummary() {
@@ -45,20 +56,32 @@ export function NutritionSummary() {
     },
   });
 
-  const { data: consumptionHistory, isLoading: historyLoading } = useQuery({
-    queryKey: ["/api/recipes/consumption-history", period, mealType], // Add mealType to queryKey
+  // Recipes, planned meals and foods logged on their own all land in the nutrition log
+  const { data: logEntries, isLoading: logLoading } = useQuery<NutritionLogEntry[]>({
+    queryKey: ["/api/nutrition-log", period],
     queryFn: async () => {
       const params = new URLSearchParams({
-        startDate: getDateRange().start.toISOString(),
-        endDate: getDateRange().end.toISOString(),
-        mealType: mealType, // Add mealType to API request
+        from: format(getDateRange().start, "yyyy-MM-dd"),
+        to: format(getDateRange().end, "yyyy-MM-dd"),
       });
-      const res = await apiRequest("GET", `/api/recipes/consumption-history?${params}`);
+      const res = await apiRequest("GET", `/api/nutrition-log?${params}`);
       return res.json();
     },
   });
 
-  const isLoading = goalsLoading || historyLoading;
+  const deleteEntryMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/nutrition-log/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/nutrition-log"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/nutrition-log/daily"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/nutrition-goals/meal-budgets"] });
+      queryClient.invalidateQueries({ queryKey: ["nutrition-progress"] });
+    },
+  });
+
+  const isLoading = goalsLoading || logLoading;
 
   const getDateRange = () => {
     const today = new Date();
@@ -84,30 +107,25 @@ export function NutritionSummary() {
     );
   }
 
-  if (!currentGoal?.progress) return null;
+  if (!currentGoal) return null;
 
   const { start, end } = getDateRange();
   const dateRange = eachDayOfInterval({ start, end });
-  
-  // Filter and aggregate data by meal type
+  const filteredEntries = (logEntries || []).filter(entry => mealType === "all" || entry.mealType === mealType);
+
+  // Aggregate the log by day for the selected meal type
   const filteredProgressData = dateRange.map(date => {
     const dateStr = format(date, "yyyy-MM-dd");
-    
-    // Get consumption for this date filtered by meal type
-    const dayConsumption = (consumptionHistory || [])
-      .filter((c: ConsumptionRecord) => {
-        const consumed = new Date(c.consumedAt).toDateString() === date.toDateString();
-        return mealType === "all" ? consumed : consumed && c.mealType === mealType;
-      })
-      .reduce((acc: NutritionTotals, curr: ConsumptionRecord) => {
-        const recipe = curr.recipe?.nutritionInfo || { calories: 0, protein: 0, carbs: 0, fat: 0 };
-        return {
-          calories: acc.calories + (recipe.calories * curr.servings),
-          protein: acc.protein + (recipe.protein * curr.servings),
-          carbs: acc.carbs + (recipe.carbs * curr.servings),
-          fat: acc.fat + (recipe.fat * curr.servings),
-        };
-      }, { calories: 0, protein: 0, carbs: 0, fat: 0 });
+
+    const dayConsumption = filteredEntries
+      .filter(entry => entry.date === dateStr)
+      .reduce((acc: NutritionTotals, entry) => ({
+        calories: acc.calories + entry.calories,
+        protein: acc.protein + entry.protein,
+        carbs: acc.carbs + entry.carbs,
+        fat: acc.fat + entry.fat,
+        micronutrients: addMicronutrients(acc.micronutrients, cleanMicronutrients(entry.micronutrients)),
+      }), { calories: 0, protein: 0, carbs: 0, fat: 0, micronutrients: {} });
 
     return {
       date: format(date, "MMM dd"),
@@ -115,6 +133,7 @@ export function NutritionSummary() {
       protein: dayConsumption.protein,
       carbs: dayConsumption.carbs,
       fat: dayConsumption.fat,
+      micronutrients: dayConsumption.micronutrients,
       targetCalories: mealType === "all" ? currentGoal.dailyCalories : Math.round(currentGoal.dailyCalories / 3),
       targetProtein: mealType === "all" ? currentGoal.dailyProtein : Math.round(currentGoal.dailyProtein / 3),
       targetCarbs: mealType === "all" ? currentGoal.dailyCarbs : Math.round(currentGoal.dailyCarbs / 3),
@@ -135,11 +154,23 @@ export function NutritionSummary() {
     averages[key as keyof typeof averages] = Math.round(averages[key as keyof typeof averages] / days);
   });
 
-  // Calculate meal type distribution
-  const mealDistribution = (consumptionHistory || []).reduce((acc: Record<string, number>, curr: ConsumptionRecord) => {
-    acc[curr.mealType] = (acc[curr.mealType] || 0) + 1;
+  // Daily averages for the nutrients the logged food lists, against the goal's targets
+  const micronutrientAverages = scaleMicronutrients(
+    filteredProgressData.reduce(
+      (total: Micronutrients, day) => addMicronutrients(total, day.micronutrients),
+      {}
+    ),
+    1 / days
+  );
+  const micronutrientTargets = getMicronutrientTargets(currentGoal.micronutrientTargets);
+  const trackedMicronutrients = MICRONUTRIENTS.filter((nutrient) => micronutrientAverages[nutrient.key] !== undefined);
+
+  // Calculate meal type distribution; imported totals have no meal type
+  const mealDistribution = (logEntries || []).reduce((acc: Record<string, number>, entry) => {
+    if (entry.mealType) acc[entry.mealType] = (acc[entry.mealType] || 0) + 1;
     return acc;
   }, {} as Record<string, number>);
+  const recentEntries = [...filteredEntries].reverse();
 
   return (
     <Card>
@@ -148,6 +179,13 @@ export function NutritionSummary() {
           {period === "week" ? "Weekly" : "Monthly"} Summary
         </CardTitle>
         <div className="flex items-center gap-2">
+          <LogFoodDialog />
+          <Button variant="outline" size="sm" asChild>
+            <Link href="/nutrition/report">
+              <FileText className="h-4 w-4 mr-2" />
+              Report
+            </Link>
+          </Button>
           <Select value={mealType} onValueChange={(value) => setMealType(value as MealType)}>
             <SelectTrigger className="w-32">
               <SelectValue />
@@ -211,7 +249,33 @@ export function NutritionSummary() {
           </Card>
         </div>
 
-        {consumptionHistory && consumptionHistory.length > 0 ? (
+        {trackedMicronutrients.length > 0 && (
+          <Card className="p-4">
+            <h4 className="text-sm font-medium mb-3">Daily Average Micronutrients</h4>
+            <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
+              {trackedMicronutrients.map((nutrient) => {
+                const amount = micronutrientAverages[nutrient.key]!;
+                const target = micronutrientTargets[nutrient.key];
+                const status = getMicronutrientStatus(nutrient.key, amount, target);
+                return (
+                  <div key={nutrient.key} className="flex items-center justify-between text-sm">
+                    <span>{nutrient.label}</span>
+                    <span className="flex items-center gap-2">
+                      <span className="text-muted-foreground tabular-nums">
+                        {formatMicronutrient(nutrient.key, amount)} / {formatMicronutrient(nutrient.key, target)}
+                      </span>
+                      <Badge variant={status === "over" ? "destructive" : status === "below" ? "outline" : "secondary"}>
+                        {MICRONUTRIENT_STATUS_LABELS[status]}
+                      </Badge>
+                    </span>
+                  </div>
+                );
+              })}
+            </div>
+          </Card>
+        )}
+
+        {logEntries && logEntries.length > 0 ? (
           <Card className="p-4">
             <h4 className="text-sm font-medium mb-3">Meal Distribution</h4>
             <div className="flex flex-wrap gap-2">
@@ -236,6 +300,44 @@ export function NutritionSummary() {
           </Card>
         )}
 
+        {recentEntries.length > 0 && (
+          <Card className="p-4">
+            <h4 className="text-sm font-medium mb-3">Logged Food</h4>
+            <ScrollArea className="max-h-64">
+              <div className="divide-y">
+                {recentEntries.map((entry) => (
+                  <div key={entry.id} className="flex items-center justify-between gap-2 py-2 text-sm">
+                    <div className="min-w-0">
+                      <p className="font-medium truncate">{entry.description}</p>
+                      <p className="text-xs text-muted-foreground">
+                        {format(parseISO(entry.date), "MMM dd")}
+                        {entry.mealType && <span className="capitalize"> · {entry.mealType}</span>}
+                        {entry.quantity && <> · {entry.quantity}</>}
+                      </p>
+                    </div>
+                    <div className="flex items-center gap-2 shrink-0">
+                      <Badge variant="outline">{SOURCE_LABELS[entry.source]}</Badge>
+                      <span className="tabular-nums">{Math.round(entry.calories)} kcal</span>
+                      {/* Recipe and meal plan entries are undone from where they were logged */}
+                      {!entry.consumptionId && !entry.mealPlanLogId && (
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-7 w-7"
+                          disabled={deleteEntryMutation.isPending}
+                          onClick={() => deleteEntryMutation.mutate(entry.id)}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      )}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </ScrollArea>
+          </Card>
+        )}
+
         <div className="space-y-4">
           <div>
             <h4 className="text-sm font-medium mb-3">Calories Trend</h4>
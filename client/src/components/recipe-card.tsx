@@ -8,6 +8,7 @@ import { MoodTracker } from "./mood-tracker";
 import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
+import { ToastAction } from "@/components/ui/toast";
 import { useAuth } from "@/hooks/use-auth";
 import { HoverCard, HoverCardContent, HoverCardTrigger } from "@/components/ui/hover-card";
 import { Button } from "@/components/ui/button";
@@ -21,12 +22,19 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "@/components/ui/alert-dialog";
-import { AlertTriangle } from "lucide-react";
+import { AlertTriangle, Wrench } from "lucide-react";
+import { ServingsStepper } from "./servings-stepper";
+import { toRecipeIngredients, scaleRecipeIngredients, formatRecipeIngredient, type RecipeIngredient } from "@shared/ingredients";
+import { recipeNutrition, scaleNutrition } from "@shared/meal-plans";
+import { Badge } from "@/components/ui/badge";
+import { tagIngredients, findDietViolations, describeDietViolation, DIET_LABELS, type DietaryRestrictions } from "@shared/diet";
+import { missingTools, ownedTools, recipeTools, toolLabel } from "@shared/recipe-equipment";
+import type { KitchenEquipment } from "@shared/schema";
 
 interface RecipeCardProps {
   recipe: Recipe & { 
     postId?: number;
-    ingredients: string[];
+    ingredients: RecipeIngredient[];
     instructions: string[];
   };
   compact?: boolean;
@@ -44,6 +52,21 @@ export function RecipeCard({ recipe, compact = false, showDelete = false, hideEd
   const [showNutritionWarning, setShowNutritionWarning] = React.useState(false);
   const [exceededNutrients, setExceededNutrients] = React.useState<any>(null);
   const [localImageUrl, setLocalImageUrl] = useState<string | null>(null);
+  // Servings to show ingredients and nutrition for; starts at what the recipe makes
+  const recipeServings = recipe.servings > 0 ? recipe.servings : 1;
+  const [displayServings, setDisplayServings] = useState(recipeServings);
+
+  useEffect(() => {
+    setDisplayServings(recipeServings);
+  }, [recipeServings]);
+
+  const ingredients = React.useMemo(() => toRecipeIngredients(recipe.ingredients), [recipe.ingredients]);
+  const displayedIngredients = React.useMemo(
+    () => scaleRecipeIngredients(ingredients, recipeServings, displayServings),
+    [ingredients, recipeServings, displayServings]
+  );
+  // nutritionInfo is per serving
+  const displayedNutrition = scaleNutrition(recipeNutrition(recipe), displayServings);
 
   useEffect(() => {
     // Try to get image URL from localStorage first
@@ -56,6 +79,34 @@ export function RecipeCard({ recipe, compact = false, showDelete = false, hideEd
   // Ensure sustainabilityScore always has a value, defaulting to 50 if not set
   const sustainabilityScore = recipe.sustainabilityScore ?? 50;
 
+  const { data: restrictions } = useQuery<DietaryRestrictions>({
+    queryKey: ["/api/dietary-restrictions"],
+    queryFn: async () => {
+      const res = await apiRequest("GET", "/api/dietary-restrictions");
+      return res.json();
+    },
+    enabled: !!user,
+  });
+  const dietTags = React.useMemo(
+    () => tagIngredients(recipe.ingredients, recipeNutrition(recipe)),
+    [recipe.ingredients, recipe.nutritionInfo]
+  );
+  const dietWarnings = restrictions ? findDietViolations(dietTags, restrictions).map(describeDietViolation) : [];
+
+  const { data: kitchenEquipment } = useQuery<KitchenEquipment[]>({
+    queryKey: ["/api/kitchen-equipment"],
+    queryFn: async () => {
+      const res = await apiRequest("GET", "/api/kitchen-equipment");
+      return res.json();
+    },
+    enabled: !!user,
+  });
+  // Only checked once some equipment is recorded, otherwise every tool would show as missing
+  const missingEquipment = React.useMemo(
+    () => (kitchenEquipment?.length ? missingTools(recipeTools(recipe), ownedTools(kitchenEquipment)) : []),
+    [kitchenEquipment, recipe]
+  );
+
   const { data: currentGoal } = useQuery({
     queryKey: ["/api/nutrition-goals/current"],
     queryFn: async () => {
@@ -76,7 +127,7 @@ export function RecipeCard({ recipe, compact = false, showDelete = false, hideEd
   const checkNutritionLimits = () => {
     if (!currentGoal || !todayProgress) return { exceedsLimits: false };
 
-    const nutritionInfo = recipe.nutritionInfo as any;
+    const nutritionInfo = recipeNutrition(recipe);
     const totalNutrition = {
       calories: todayProgress.calories + (nutritionInfo.calories * servings),
       protein: todayProgress.protein + (nutritionInfo.protein * servings),
@@ -113,20 +164,53 @@ export function RecipeCard({ recipe, compact = false, showDelete = false, hideEd
     }
   };
 
+  const undoDeductionMutation = useMutation({
+    mutationFn: async (consumptionId: number) => {
+      const res = await apiRequest("POST", `/api/recipes/consumption/${consumptionId}/undo-deduction`);
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/pantry"] });
+      toast({
+        title: "Pantry restored",
+        description: "The deducted ingredients are back in your pantry.",
+      });
+    },
+  });
+
   const consumeMutation = useMutation({
     mutationFn: async () => {
-      await apiRequest("POST", `/api/recipes/${recipe.id}/consume`, {
+      const res = await apiRequest("POST", `/api/recipes/${recipe.id}/consume`, {
         servings,
         mealType,
       });
+      return res.json();
     },
-    onSuccess: () => {
+    onSuccess: (consumption: { id: number; pantry?: { deducted: { name: string }[]; missing: { ingredient: string }[] } }) => {
       queryClient.invalidateQueries({ queryKey: ["/api/nutrition-goals/current"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/nutrition-log"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/nutrition-log/daily"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/nutrition-goals/meal-budgets"] });
+      queryClient.invalidateQueries({ queryKey: ["nutrition-progress"] });
       queryClient.invalidateQueries({ queryKey: ["/api/recipes/consumption-history"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/pantry"] });
       setShowConsumeDialog(false);
+
+      const deducted = consumption.pantry?.deducted ?? [];
+      const missing = consumption.pantry?.missing ?? [];
+      const pantrySummary = [
+        deducted.length > 0 && `Used ${deducted.map(item => item.name).join(", ")} from your pantry.`,
+        missing.length > 0 && `Not enough in pantry: ${missing.map(item => item.ingredient).join(", ")}.`,
+      ].filter(Boolean).join(" ");
+
       toast({
         title: "Recipe consumed!",
-        description: "Your nutrition progress has been updated.",
+        description: `Your nutrition progress has been updated.${pantrySummary ? ` ${pantrySummary}` : ""}`,
+        action: deducted.length > 0 ? (
+          <ToastAction altText="Undo pantry deduction" onClick={() => undoDeductionMutation.mutate(consumption.id)}>
+            Undo
+          </ToastAction>
+        ) : undefined,
       });
     },
   });
@@ -208,6 +292,30 @@ export function RecipeCard({ recipe, compact = false, showDelete = false, hideEd
                     {recipe.description}
                   </p>
                 )}
+
+                {dietWarnings.length > 0 && (
+                  <div className="flex items-start gap-2 rounded-md border border-amber-500/50 bg-amber-500/10 p-2 text-sm">
+                    <AlertTriangle className="h-4 w-4 flex-shrink-0 text-amber-500 mt-0.5" />
+                    <span>{dietWarnings.join(" · ")}</span>
+                  </div>
+                )}
+                {missingEquipment.length > 0 && (
+                  <div className="flex flex-wrap items-center gap-1">
+                    <Wrench className="h-4 w-4 text-orange-500" />
+                    {missingEquipment.map((tool) => (
+                      <Badge key={tool} variant="outline" className="font-normal border-orange-500/50 text-orange-600">
+                        Needs {toolLabel(tool)}
+                      </Badge>
+                    ))}
+                  </div>
+                )}
+                {!compact && dietTags.diets.length > 0 && (
+                  <div className="flex flex-wrap gap-1">
+                    {dietTags.diets.map((diet) => (
+                      <Badge key={diet} variant="secondary" className="font-normal">{DIET_LABELS[diet]}</Badge>
+                    ))}
+                  </div>
+                )}
               </div>
             </CardHeader>
 
@@ -225,16 +333,26 @@ export function RecipeCard({ recipe, compact = false, showDelete = false, hideEd
                       <Button variant="ghost" className="p-0 h-auto hover:bg-transparent">
                         <span className="flex items-center gap-1.5">
                           <Users className="h-4 w-4" />
-                          <span>{recipe.ingredients.length === 1 ? '1 item' : `${recipe.ingredients.length} items`}</span>
+                          <span>{ingredients.length === 1 ? '1 item' : `${ingredients.length} items`}</span>
                         </span>
                       </Button>
                     </HoverCardTrigger>
                     <HoverCardContent className="w-80 bg-card border-border shadow-lg">
                       <div className="space-y-3">
-                        <h4 className="font-semibold text-primary border-b pb-2">Ingredients</h4>
+                        <h4 className="font-semibold text-primary border-b pb-2">
+                          Ingredients
+                          <span className="ml-2 text-xs font-normal text-muted-foreground">
+                            for {displayServings} {displayServings === 1 ? "serving" : "servings"}
+                          </span>
+                        </h4>
                         <ul className="list-disc pl-4 space-y-1.5 max-h-[200px] overflow-y-auto pr-2">
-                          {recipe.ingredients.map((ingredient: string, index: number) => (
-                            <li key={index} className="text-sm text-muted-foreground">{ingredient}</li>
+                          {displayedIngredients.map((ingredient, index) => (
+                            <React.Fragment key={index}>
+                              {ingredient.section && ingredient.section !== displayedIngredients[index - 1]?.section && (
+                                <li className="-ml-4 list-none pt-1 text-xs font-medium text-foreground">{ingredient.section}</li>
+                              )}
+                              <li className="text-sm text-muted-foreground">{formatRecipeIngredient(ingredient)}</li>
+                            </React.Fragment>
                           ))}
                         </ul>
                       </div>
@@ -280,8 +398,14 @@ export function RecipeCard({ recipe, compact = false, showDelete = false, hideEd
             </div>
 
             {/* Nutrition info - show in both compact and regular mode */}
-            <div className="p-4 border-t">
-              <NutritionDisplay nutrition={recipe.nutritionInfo as any} />
+            <div className="p-4 border-t space-y-3">
+              <div className="flex items-center justify-between gap-2">
+                <span className="text-xs text-muted-foreground">
+                  {recipe.yieldDescription ? `Makes ${recipe.yieldDescription}` : `Makes ${recipeServings} ${recipeServings === 1 ? "serving" : "servings"}`}
+                </span>
+                <ServingsStepper value={displayServings} onChange={setDisplayServings} />
+              </div>
+              <NutritionDisplay nutrition={displayedNutrition} />
             </div>
 
             {/* Additional sections for non-compact view */}
@@ -339,8 +463,9 @@ export function RecipeCard({ recipe, compact = false, showDelete = false, hideEd
               <Input
                 type="number"
                 value={servings}
-                onChange={(e) => setServings(Math.max(1, parseInt(e.target.value) || 1))}
-                min="1"
+                onChange={(e) => setServings(Math.max(0.5, parseFloat(e.target.value) || 1))}
+                min="0.5"
+                step="0.5"
               />
             </div>
             <div className="pt-4">
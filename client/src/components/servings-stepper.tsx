@@ -0,0 +1,44 @@
+import { Button } from "@/components/ui/button";
+import { Minus, Plus } from "lucide-react";
+import { formatAmount } from "@shared/units";
+import { MAX_RECIPE_SERVINGS } from "@shared/schema";
+
+interface ServingsStepperProps {
+  value: number;
+  onChange: (value: number) => void;
+  min?: number;
+  max?: number;
+  step?: number;
+}
+
+export function ServingsStepper({ value, onChange, min = 1, max = MAX_RECIPE_SERVINGS, step = 1 }: ServingsStepperProps) {
+  return (
+    <div className="flex items-center gap-1">
+      <Button
+        type="button"
+        variant="outline"
+        size="icon"
+        className="h-7 w-7"
+        onClick={() => onChange(Math.max(min, value - step))}
+        disabled={value <= min}
+        aria-label="Fewer servings"
+      >
+        <Minus className="h-3 w-3" />
+      </Button>
+      <span className="min-w-[5.5rem] text-center text-sm tabular-nums">
+        {formatAmount(value)} {value === 1 ? "serving" : "servings"}
+      </span>
+      <Button
+        type="button"
+        variant="outline"
+        size="icon"
+        className="h-7 w-7"
+        onClick={() => onChange(Math.min(max, value + step))}
+        disabled={value >= max}
+        aria-label="More servings"
+      >
+        <Plus className="h-3 w-3" />
+      </Button>
+    </div>
+  );
+}
@@ -60,6 +60,7 @@ interface PriceComparison {
 }
 
 interface OptimizedList {
+  storeId: number;
   storeName: string;
   items: ShoppingItem[];
   totalCost: number;
@@ -67,6 +68,8 @@ interface OptimizedList {
 
 interface OptimizationResult {
   optimizedLists: OptimizedList[];
+  unavailableItems: ShoppingItem[];
+  totalCost: number;
   reasoning: string;
 }
 
@@ -111,16 +114,16 @@ export function SmartShoppingAssistant() {
       });
       return response.json();
     },
-    onSuccess: (data) => {
+    onSuccess: async (data) => {
       // Save optimized lists to database
-      data.optimizedLists.forEach(async (list) => {
-        await apiRequest("POST", "/api/store-lists", {
+      await Promise.all(data.optimizedLists.map((list) =>
+        apiRequest("POST", "/api/store-lists", {
           name: `Optimized List - ${new Date().toLocaleDateString()}`,
-          storeId: stores?.find(s => s.name === list.storeName)?.id,
+          storeId: list.storeId,
           items: list.items,
           totalEstimatedCost: list.totalCost,
-        });
-      });
+        })
+      ));
       
       queryClient.invalidateQueries({ queryKey: ["/api/store-lists"] });
       toast({
@@ -1,6 +1,7 @@
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { PieChart, LineChart } from "@/components/ui/chart";
 import { PantryItem } from "@shared/schema";
+import { parseQuantity, sumQuantities, isRunningLow, type ParsedQuantity } from "@shared/units";
 import { format, subDays } from "date-fns";
 import { Package, Leaf, AlertTriangle, Apple } from "lucide-react";
 
@@ -42,6 +43,20 @@ export function StatsDashboard({ pantryItems }: StatsDashboardProps) {
     return { date, count };
   }).reverse();
 
+  // Items running low, totalling duplicate entries of the same item first
+  const quantitiesByName = pantryItems.reduce((acc: Record<string, ParsedQuantity[]>, item) => {
+    const parsed = parseQuantity(item.quantity);
+    if (parsed) {
+      const key = item.name.trim().toLowerCase();
+      acc[key] = [...(acc[key] || []), parsed];
+    }
+    return acc;
+  }, {});
+  const runningLowCount = Object.values(quantitiesByName).filter(quantities => {
+    const total = sumQuantities(quantities);
+    return total !== null && isRunningLow(total);
+  }).length;
+
   // Calculate total nutrition values
   const totalNutrition = pantryItems.reduce((acc, item) => ({
     calories: acc.calories + ((item.nutritionInfo as NutritionInfo)?.calories || 0),
@@ -62,6 +77,11 @@ export function StatsDashboard({ pantryItems }: StatsDashboardProps) {
           <p className="text-xs text-muted-foreground">
             Across {Object.keys(categoryData).length} categories
           </p>
+          {runningLowCount > 0 && (
+            <p className="text-xs text-orange-600 mt-1">
+              {runningLowCount} running low
+            </p>
+          )}
         </CardContent>
       </Card>
 
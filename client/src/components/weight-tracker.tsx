@@ -0,0 +1,442 @@
+import * as React from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { format, parseISO, subDays } from "date-fns";
+import { Loader2, Scale, Target, Trash2 } from "lucide-react";
+import {
+  ResponsiveContainer,
+  ComposedChart,
+  Bar,
+  Line,
+  XAxis,
+  YAxis,
+  Tooltip,
+  Legend,
+} from "recharts";
+import type { BodyProfile, NutritionGoal, NutritionProgress, WeightLogEntry } from "@shared/schema";
+import {
+  ACTIVITY_LEVELS,
+  WEIGHT_GOALS,
+  type ActivityLevel,
+  type NutritionTargets,
+  type Sex,
+  type WeightGoal,
+} from "@shared/body-metrics";
+
+type ChartRange = "30" | "90";
+
+interface BodyProfileResponse {
+  profile: BodyProfile | null;
+  latestWeight: WeightLogEntry | null;
+  targets: NutritionTargets | null;
+}
+
+const EMPTY_PROFILE_FORM = {
+  heightCm: "",
+  dateOfBirth: "",
+  sex: "female" as Sex,
+  activityLevel: "moderate" as ActivityLevel,
+  goal: "maintain" as WeightGoal,
+  weightKg: "",
+};
+
+export function WeightTracker() {
+  const { toast } = useToast();
+  const [range, setRange] = React.useState<ChartRange>("30");
+  const [profileForm, setProfileForm] = React.useState(EMPTY_PROFILE_FORM);
+  const [weightDate, setWeightDate] = React.useState(() => format(new Date(), "yyyy-MM-dd"));
+  const [weightValue, setWeightValue] = React.useState("");
+
+  const { data: bodyProfile, isLoading: profileLoading } = useQuery<BodyProfileResponse>({
+    queryKey: ["/api/body-profile"],
+    queryFn: async () => {
+      const res = await apiRequest("GET", "/api/body-profile");
+      return res.json();
+    },
+  });
+
+  const { data: currentGoal } = useQuery<NutritionGoal | null>({
+    queryKey: ["/api/nutrition-goals/current"],
+    queryFn: async () => {
+      const res = await apiRequest("GET", "/api/nutrition-goals/current");
+      return res.json();
+    },
+  });
+
+  const today = format(new Date(), "yyyy-MM-dd");
+  const rangeStart = format(subDays(new Date(), Number(range) - 1), "yyyy-MM-dd");
+
+  const { data: weights = [] } = useQuery<WeightLogEntry[]>({
+    queryKey: ["/api/weight-log", rangeStart, today],
+    queryFn: async () => {
+      const res = await apiRequest("GET", `/api/weight-log?from=${rangeStart}&to=${today}`);
+      return res.json();
+    },
+  });
+
+  const { data: intake = [] } = useQuery<NutritionProgress[]>({
+    queryKey: ["/api/nutrition-log/daily", rangeStart, today],
+    queryFn: async () => {
+      const res = await apiRequest("GET", `/api/nutrition-log/daily?from=${rangeStart}&to=${today}`);
+      return res.json();
+    },
+  });
+
+  // Prefill the form from the saved profile
+  React.useEffect(() => {
+    if (!bodyProfile?.profile) return;
+    const { heightCm, dateOfBirth, sex, activityLevel, goal } = bodyProfile.profile;
+    setProfileForm({
+      heightCm: String(heightCm),
+      dateOfBirth,
+      sex,
+      activityLevel,
+      goal,
+      weightKg: bodyProfile.latestWeight ? String(bodyProfile.latestWeight.weightKg) : "",
+    });
+  }, [bodyProfile]);
+
+  const invalidateBodyQueries = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/body-profile"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/weight-log"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/nutrition-goals/current"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/nutrition-goals/meal-budgets"] });
+  };
+
+  const saveProfileMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("PUT", "/api/body-profile", {
+        heightCm: Number(profileForm.heightCm),
+        dateOfBirth: profileForm.dateOfBirth,
+        sex: profileForm.sex,
+        activityLevel: profileForm.activityLevel,
+        goal: profileForm.goal,
+        weightKg: profileForm.weightKg ? Number(profileForm.weightKg) : undefined,
+      });
+      return res.json();
+    },
+    onSuccess: () => {
+      invalidateBodyQueries();
+      toast({ title: "Profile saved", description: "Your calculated targets have been updated." });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Couldn't save profile", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const adaptiveGoalMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/nutrition-goals/adaptive");
+      return res.json();
+    },
+    onSuccess: () => {
+      invalidateBodyQueries();
+      queryClient.invalidateQueries({ queryKey: ["/api/nutrition-log/daily"] });
+      toast({
+        title: "Adaptive goal set",
+        description: "Your targets will adjust as you log your weight.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Couldn't set goal", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const logWeightMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/weight-log", { date: weightDate, weightKg: Number(weightValue) });
+      return res.json();
+    },
+    onSuccess: () => {
+      invalidateBodyQueries();
+      setWeightValue("");
+      toast({ title: "Weight logged" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Couldn't log weight", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const deleteWeightMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/weight-log/${id}`);
+    },
+    onSuccess: invalidateBodyQueries,
+  });
+
+  if (profileLoading) {
+    return (
+      <Card>
+        <CardContent className="flex items-center justify-center py-6">
+          <Loader2 className="h-8 w-8 animate-spin text-primary" />
+        </CardContent>
+      </Card>
+    );
+  }
+
+  // Weight is only plotted on days it was logged; the line bridges the gaps
+  const weightByDate = new Map(weights.map((entry) => [entry.date, entry.weightKg]));
+  const chartData = intake.map((day) => ({
+    date: format(parseISO(day.date), "MMM dd"),
+    calories: Math.round(day.calories),
+    weight: weightByDate.get(day.date) ?? null,
+  }));
+
+  const targets = bodyProfile?.targets;
+  const profileComplete = profileForm.heightCm && profileForm.dateOfBirth;
+
+  return (
+    <div className="space-y-6">
+      <div className="grid gap-6 md:grid-cols-2">
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">Body Profile</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="profile-height">Height (cm)</Label>
+                <Input
+                  id="profile-height"
+                  type="number"
+                  value={profileForm.heightCm}
+                  onChange={(e) => setProfileForm({ ...profileForm, heightCm: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="profile-weight">Current weight (kg)</Label>
+                <Input
+                  id="profile-weight"
+                  type="number"
+                  step="0.1"
+                  value={profileForm.weightKg}
+                  onChange={(e) => setProfileForm({ ...profileForm, weightKg: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="profile-dob">Date of birth</Label>
+                <Input
+                  id="profile-dob"
+                  type="date"
+                  value={profileForm.dateOfBirth}
+                  onChange={(e) => setProfileForm({ ...profileForm, dateOfBirth: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Sex</Label>
+                <Select value={profileForm.sex} onValueChange={(value) => setProfileForm({ ...profileForm, sex: value as Sex })}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="female">Female</SelectItem>
+                    <SelectItem value="male">Male</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label>Activity level</Label>
+              <Select
+                value={profileForm.activityLevel}
+                onValueChange={(value) => setProfileForm({ ...profileForm, activityLevel: value as ActivityLevel })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {ACTIVITY_LEVELS.map((level) => (
+                    <SelectItem key={level.key} value={level.key}>{level.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Goal</Label>
+              <Select value={profileForm.goal} onValueChange={(value) => setProfileForm({ ...profileForm, goal: value as WeightGoal })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {WEIGHT_GOALS.map((goal) => (
+                    <SelectItem key={goal.key} value={goal.key}>{goal.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <Button
+              className="w-full"
+              disabled={!profileComplete || saveProfileMutation.isPending}
+              onClick={() => saveProfileMutation.mutate()}
+            >
+              {saveProfileMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Save Profile
+            </Button>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between">
+            <CardTitle className="text-lg">Calculated Targets</CardTitle>
+            {currentGoal?.adaptive && <Badge variant="secondary">Adaptive goal active</Badge>}
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {targets ? (
+              <>
+                <div className="grid grid-cols-2 gap-3 text-sm">
+                  <div>
+                    <p className="text-muted-foreground">Resting energy (BMR)</p>
+                    <p className="font-medium">{targets.bmr} kcal</p>
+                  </div>
+                  <div>
+                    <p className="text-muted-foreground">Daily expenditure (TDEE)</p>
+                    <p className="font-medium">{targets.tdee} kcal</p>
+                  </div>
+                </div>
+                <div className="grid grid-cols-4 gap-2 text-center">
+                  <div className="rounded-md border p-2">
+                    <p className="text-lg font-bold">{targets.dailyCalories}</p>
+                    <p className="text-xs text-muted-foreground">kcal</p>
+                  </div>
+                  <div className="rounded-md border p-2">
+                    <p className="text-lg font-bold">{targets.dailyProtein}g</p>
+                    <p className="text-xs text-muted-foreground">Protein</p>
+                  </div>
+                  <div className="rounded-md border p-2">
+                    <p className="text-lg font-bold">{targets.dailyCarbs}g</p>
+                    <p className="text-xs text-muted-foreground">Carbs</p>
+                  </div>
+                  <div className="rounded-md border p-2">
+                    <p className="text-lg font-bold">{targets.dailyFat}g</p>
+                    <p className="text-xs text-muted-foreground">Fat</p>
+                  </div>
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  Based on the Mifflin-St Jeor equation at {bodyProfile?.latestWeight?.weightKg} kg, age {targets.age}.
+                  An adaptive goal recalculates these whenever you log a new weight.
+                </p>
+                <Button
+                  variant={currentGoal?.adaptive ? "outline" : "default"}
+                  className="w-full"
+                  disabled={adaptiveGoalMutation.isPending}
+                  onClick={() => adaptiveGoalMutation.mutate()}
+                >
+                  {adaptiveGoalMutation.isPending ? (
+                    <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  ) : (
+                    <Target className="h-4 w-4 mr-2" />
+                  )}
+                  {currentGoal?.adaptive ? "Recalculate Goal" : "Use as My Goal"}
+                </Button>
+              </>
+            ) : (
+              <p className="text-sm text-muted-foreground">
+                Save your body profile with your current weight to calculate daily targets.
+              </p>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between">
+          <CardTitle className="text-lg">Weight & Calorie Intake</CardTitle>
+          <Select value={range} onValueChange={(value) => setRange(value as ChartRange)}>
+            <SelectTrigger className="w-32">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="30">30 days</SelectItem>
+              <SelectItem value="90">90 days</SelectItem>
+            </SelectContent>
+          </Select>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <div className="flex items-end gap-2">
+            <div className="space-y-2">
+              <Label htmlFor="weight-date">Date</Label>
+              <Input id="weight-date" type="date" value={weightDate} onChange={(e) => setWeightDate(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="weight-value">Weight (kg)</Label>
+              <Input
+                id="weight-value"
+                type="number"
+                step="0.1"
+                className="w-28"
+                value={weightValue}
+                onChange={(e) => setWeightValue(e.target.value)}
+              />
+            </div>
+            <Button
+              disabled={!weightValue || logWeightMutation.isPending}
+              onClick={() => logWeightMutation.mutate()}
+            >
+              {logWeightMutation.isPending ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Scale className="h-4 w-4 mr-2" />}
+              Log Weight
+            </Button>
+          </div>
+
+          <div className="h-[260px] w-full">
+            <ResponsiveContainer width="100%" height="100%">
+              <ComposedChart data={chartData} margin={{ top: 10, right: 10, left: 0, bottom: 0 }}>
+                <XAxis dataKey="date" stroke="#888888" fontSize={12} tickLine={false} axisLine={false} />
+                <YAxis yAxisId="calories" stroke="#888888" fontSize={12} tickLine={false} axisLine={false} />
+                <YAxis
+                  yAxisId="weight"
+                  orientation="right"
+                  stroke="#888888"
+                  fontSize={12}
+                  tickLine={false}
+                  axisLine={false}
+                  domain={["dataMin - 2", "dataMax + 2"]}
+                />
+                <Tooltip />
+                <Legend />
+                <Bar yAxisId="calories" dataKey="calories" name="Calories (kcal)" fill="#f97316" opacity={0.6} />
+                <Line
+                  yAxisId="weight"
+                  dataKey="weight"
+                  name="Weight (kg)"
+                  stroke="#2563eb"
+                  strokeWidth={2}
+                  connectNulls
+                  dot
+                />
+              </ComposedChart>
+            </ResponsiveContainer>
+          </div>
+
+          {weights.length > 0 && (
+            <div className="divide-y text-sm">
+              {[...weights].reverse().slice(0, 7).map((entry) => (
+                <div key={entry.id} className="flex items-center justify-between py-2">
+                  <span>{format(parseISO(entry.date), "MMM dd, yyyy")}</span>
+                  <span className="flex items-center gap-2">
+                    <span className="tabular-nums">{entry.weightKg} kg</span>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-7 w-7"
+                      disabled={deleteWeightMutation.isPending}
+                      onClick={() => deleteWeightMutation.mutate(entry.id)}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </span>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
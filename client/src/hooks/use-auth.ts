@@ -53,8 +53,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   const loginMutation = useMutation({
     mutationFn: async (credentials: { 
       username: string; 
-      password?: string;
-      secretKey?: string;
+      password: string;
     }) => {
       const response = await apiRequest("POST", "/api/login", credentials);
       if (!response.ok) {
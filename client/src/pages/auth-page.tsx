@@ -8,9 +8,9 @@ import { Input } from "@/components/ui/input";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage, FormDescription } from "@/components/ui/form";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { Loader2, Copy, Check } from "lucide-react";
-import { Redirect } from "wouter";
+import { Link, Redirect } from "wouter";
 import { useToast } from "@/hooks/use-toast";
 import { z } from "zod";
 
@@ -143,6 +143,11 @@ export default function AuthPage() {
                         <DialogContent>
                           <DialogHeader>
                             <DialogTitle>Reset Password</DialogTitle>
+                            <DialogDescription>
+                              Use the secret key you saved when you registered, or{" "}
+                              <Link href="/forgot-password" className="underline">get a reset link by email</Link>{" "}
+                              if your account has an email address.
+                            </DialogDescription>
                           </DialogHeader>
                           <Form {...forgotPasswordForm}>
                             <form onSubmit={forgotPasswordForm.handleSubmit(handleForgotPassword)} className="space-y-4">
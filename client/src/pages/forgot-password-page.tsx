@@ -110,7 +110,7 @@ export default function ForgotPasswordPage() {
               <div className="space-y-2">
                 <h3 className="text-lg font-medium">Check your email</h3>
                 <p className="text-sm text-muted-foreground">
-                  We've sent a password reset link to <span className="font-medium">{email}</span>.
+                  If an account uses <span className="font-medium">{email}</span>, we've sent it a password reset link. The link expires in an hour and works once.
                 </p>
                 <p className="text-sm text-muted-foreground">
                   If you don't see it in your inbox, please check your spam folder.
@@ -1,7 +1,8 @@
 import React, { useEffect, useState } from 'react';
-import { getEquipmentRecommendations, generateMaintenanceSchedule, getRecipesByEquipment } from '@/ai-services/kitchen-ai';
+import { getEquipmentRecommendations, getRecipesByEquipment } from '@/ai-services/kitchen-ai';
 import { analyzeKitchenInventory, getMaintenanceTips, type KitchenEquipment as KitchenEquipmentType } from '@/ai-services/kitchen-inventory-ai';
-import type { EquipmentRecommendation, MaintenanceSchedule } from '@shared/schema';
+import type { EquipmentRecommendation, KitchenEquipment as SavedKitchenEquipment } from '@shared/schema';
+import type { SuggestedRecipe } from '@shared/recipe-equipment';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle, CardFooter } from '@/components/ui/card';
 import { Progress } from '@/components/ui/progress';
 import { Badge } from '@/components/ui/badge';
@@ -19,6 +20,8 @@ import { queryClient, apiRequest } from '@/lib/queryClient';
 import { useAuth } from "@/hooks/use-auth";
 import { NutritionDisplay } from "@/components/nutrition-display";
 import * as kitchenInventoryAI from '@/ai-services/kitchen-inventory-ai';
+import { MaintenanceScheduleView } from '@/components/KitchenEquipment/MaintenanceScheduleView';
+import { EquipmentLifecycleSummary } from '@/components/KitchenEquipment/EquipmentLifecycle';
 
 // Add hashCode function to generate consistent IDs for recommendations
 const hashCode = (str: string): number => {
@@ -60,8 +63,8 @@ const KitchenEquipmentPage: React.FC = () => {
   const { user } = useAuth();
   const [equipment, setEquipment] = useState<KitchenEquipmentType[]>([]);
   const [recommendations, setRecommendations] = useState<EquipmentRecommendation[]>([]);
-  const [maintenanceSchedule, setMaintenanceSchedule] = useState<MaintenanceSchedule[]>([]);
   const [recipes, setRecipes] = useState<any[]>([]);
+  const [suggestedRecipes, setSuggestedRecipes] = useState<SuggestedRecipe[]>([]);
   const [loading, setLoading] = useState(true);
   const [apiError, setApiError] = useState<string | null>(null);
   const [aiLoading, setAiLoading] = useState(false);
@@ -97,49 +100,27 @@ const KitchenEquipmentPage: React.FC = () => {
     { id: 4, name: 'Cast Iron Skillet', category: 'Cookware', condition: 'good', lastMaintenanceDate: '2023-03-10', purchaseDate: '2019-12-25' },
   ];
 
-  const enrichEquipmentData = (equipment: KitchenEquipmentType[]) => {
-    return equipment.map(item => ({
-      ...item,
-      userId: 1, // Default user ID
-      maintenanceNotes: null,
-      purchasePrice: null,
-      createdAt: new Date().toISOString(),
-      updatedAt: new Date().toISOString(),
-      lastMaintenanceDate: item.lastMaintenanceDate || null,
-      purchaseDate: item.purchaseDate || null,
-      maintenanceInterval: item.maintenanceInterval || null
-    }));
-  };
-
   useEffect(() => {
     async function fetchData() {
       try {
-        // Try to get data from local storage first
-        const storedEquipment = localStorage.getItem('kitchen-equipment');
-        
-        if (storedEquipment) {
-          const parsedEquipment = JSON.parse(storedEquipment);
-          console.log('Using equipment data from local storage');
-          setEquipment(parsedEquipment);
-          
-          // Fetch AI analysis based on stored data
-          await handleInitialAiRequests(parsedEquipment);
+        // The server copy is shared across devices, so prefer it over local storage
+        const response = await fetch('/api/kitchen-equipment').catch(() => null);
+        if (response?.ok) {
+          const equipmentData = await response.json();
+          setEquipment(equipmentData);
+          localStorage.setItem('kitchen-equipment', JSON.stringify(equipmentData));
+
+          // Directly trigger AI analysis when equipment is loaded
+          await handleInitialAiRequests();
           return;
         }
-        
-        // If no local storage data, fetch from backend
-        const equipmentData = await fetch('/api/kitchen-equipment').then(res => res.json())
-          .catch(err => {
-            console.log('Using sample equipment data for AI analysis');
-            return sampleEquipment; // Use sample data if API fails, but still use real AI
-          });
-        
-        setEquipment(equipmentData);
-        // Also save to local storage
-        localStorage.setItem('kitchen-equipment', JSON.stringify(equipmentData));
 
-        // Directly trigger AI analysis when equipment is loaded
-        await handleInitialAiRequests(equipmentData);
+        // Offline or signed out: fall back to the last local copy, then to sample data
+        const storedEquipment = localStorage.getItem('kitchen-equipment');
+        const equipmentData = storedEquipment ? JSON.parse(storedEquipment) : sampleEquipment;
+        console.log(storedEquipment ? 'Using equipment data from local storage' : 'Using sample equipment data for AI analysis');
+        setEquipment(equipmentData);
+        await handleInitialAiRequests();
       } catch (error) {
         console.error('Error in initial data loading:', error);
         setApiError('There was an error loading your kitchen equipment data.');
@@ -155,82 +136,39 @@ const KitchenEquipmentPage: React.FC = () => {
     fetchData();
   }, []);
 
-  async function handleInitialAiRequests(equipmentData: KitchenEquipmentType[]) {
+  async function handleInitialAiRequests() {
     setAiLoading(true);
     try {
       // First check if we have stored recommendations and recipe data
       const storedRecommendations = localStorage.getItem('kitchen-recommendations');
       const storedRecipes = localStorage.getItem('kitchen-recipes');
-      const storedMaintenanceSchedule = localStorage.getItem('kitchen-maintenance-schedule');
+      // The maintenance schedule is served by the API now, so drop any copy cached by older versions
+      localStorage.removeItem('kitchen-maintenance-schedule');
       
       // Prepare data containers
       let recommendationsResult;
-      let maintenanceResult;
       let recipesResult;
       
       // If we have stored data and it's not too old, use it
       
-      if (storedRecommendations && storedRecipes && storedMaintenanceSchedule) {
+      if (storedRecommendations && storedRecipes) {
         console.log('Using stored AI analysis data');
         recommendationsResult = JSON.parse(storedRecommendations);
-        maintenanceResult = JSON.parse(storedMaintenanceSchedule);
         recipesResult = { possibleRecipes: JSON.parse(storedRecipes) };
       } else {
         console.log('Fetching fresh AI analysis data');
-        const enrichedEquipment = enrichEquipmentData(equipmentData);
-        // Run all AI requests in parallel for better performance
-        [recommendationsResult, maintenanceResult, recipesResult] = await Promise.all([
-          getEquipmentRecommendations(enrichedEquipment, []),
-          generateMaintenanceSchedule(enrichedEquipment, '2023-01-01', '2023-12-31'),
-          getRecipesByEquipment(enrichedEquipment),
+        // Both are worked out on the server from the saved equipment and recipes
+        [recommendationsResult, recipesResult] = await Promise.all([
+          getEquipmentRecommendations(),
+          getRecipesByEquipment(),
         ]);
       }
 
-      // Always ensure we have no duplicates in maintenance schedule based on equipment name
-      if (Array.isArray(maintenanceResult)) {
-        // First, get a mapping of equipment IDs to equipment names
-        const equipmentNameMap = new Map();
-        equipmentData.forEach(item => {
-          equipmentNameMap.set(item.id, item.name);
-        });
-        
-        // Create a set to track equipment names we've already seen
-        const processedNames = new Set<string>();
-        
-        // Sort by priority - put items that need maintenance sooner at the beginning
-        const sortedMaintenance = [...maintenanceResult].sort((a, b) => {
-          // Compare dates - earlier dates first (higher priority)
-          return new Date(a.nextMaintenanceDate).getTime() - new Date(b.nextMaintenanceDate).getTime();
-        });
-        
-        // Filter the maintenance schedule to keep only unique equipment names
-        const uniqueMaintenanceItems = [];
-        
-        for (const item of sortedMaintenance) {
-          // Get the equipment name for this item
-          const equipmentName = equipmentNameMap.get(parseInt(item.equipmentId)) || `Equipment #${item.equipmentId}`;
-          
-          // If we haven't seen this equipment name yet, keep this item
-          if (!processedNames.has(equipmentName)) {
-            processedNames.add(equipmentName);
-            uniqueMaintenanceItems.push(item);
-          }
-        }
-        
-        maintenanceResult = uniqueMaintenanceItems;
-        console.log(`Deduplicated maintenance schedule: ${maintenanceResult.length} items for ${equipmentData.length} equipment pieces`);
-      } else {
-        console.error('Maintenance result is not an array:', maintenanceResult);
-        maintenanceResult = []; // Fallback
-      }
-      
-      // Store results in local storage (with deduplicated maintenance)
+      // Store results in local storage
       localStorage.setItem('kitchen-recommendations', JSON.stringify(recommendationsResult));
-      localStorage.setItem('kitchen-maintenance-schedule', JSON.stringify(maintenanceResult));
       localStorage.setItem('kitchen-recipes', JSON.stringify(recipesResult.possibleRecipes));
 
       setRecommendations(recommendationsResult);
-      setMaintenanceSchedule(maintenanceResult);
       setRecipes(recipesResult.possibleRecipes);
       
       setNotification({
@@ -398,45 +336,15 @@ const KitchenEquipmentPage: React.FC = () => {
     });
   };
 
-  const handleMarkComplete = async (scheduleItem: MaintenanceSchedule) => {
-    try {
-      // Update maintenance record
-      const item = equipment.find(e => e.id === parseInt(scheduleItem.equipmentId));
-      if (item) {
-        const now = new Date().toISOString();
-        const updatedItem = { ...item, lastMaintenanceDate: now };
-        
-        // Update equipment state with the new maintenance date
-        const updatedEquipment = equipment.map(e => 
-          e.id === item.id ? updatedItem : e
-        );
-        setEquipment(updatedEquipment);
-        
-        // Save updated equipment to local storage
-        localStorage.setItem('kitchen-equipment', JSON.stringify(updatedEquipment));
-
-        // Remove from maintenance schedule
-        const updatedSchedule = maintenanceSchedule.filter(s => 
-          s.equipmentId !== scheduleItem.equipmentId
-        );
-        setMaintenanceSchedule(updatedSchedule);
-        
-        // Save the updated maintenance schedule to local storage
-        localStorage.setItem('kitchen-maintenance-schedule', JSON.stringify(updatedSchedule));
-        
-        // Show success notification with meaningful message
-        setNotification({
-          type: 'success',
-          message: `Maintenance for ${item.name} has been marked as complete and its schedule has been updated.`
-        });
-      }
-    } catch (error) {
-      console.error('Error marking maintenance complete:', error);
-      setNotification({
-        type: 'error',
-        message: 'Failed to update maintenance record. Please try again.'
-      });
-    }
+  // Keep the locally cached equipment in step with maintenance recorded on the server
+  const handleMaintenanceRecorded = (saved: SavedKitchenEquipment) => {
+    const updatedEquipment = equipment.map(e =>
+      e.id === saved.id
+        ? { ...e, condition: saved.condition, lastMaintenanceDate: saved.lastMaintenanceDate ?? undefined }
+        : e
+    );
+    setEquipment(updatedEquipment);
+    localStorage.setItem('kitchen-equipment', JSON.stringify(updatedEquipment));
   };
 
   const handleViewRecipe = (recipeId: number) => {
@@ -531,8 +439,14 @@ const KitchenEquipmentPage: React.FC = () => {
       name: item.name,
       category: item.category,
       condition: item.condition,
-      purchaseDate: item.purchaseDate,
-      lastMaintenanceDate: item.lastMaintenanceDate
+      purchaseDate: item.purchaseDate?.slice(0, 10),
+      lastMaintenanceDate: item.lastMaintenanceDate?.slice(0, 10),
+      brand: item.brand,
+      model: item.model,
+      purchasePrice: item.purchasePrice,
+      warrantyExpiry: item.warrantyExpiry,
+      expectedLifespanYears: item.expectedLifespanYears,
+      maintenanceInterval: item.maintenanceInterval
     });
     setIsEditing(true);
     setEquipmentDialogOpen(true);
@@ -546,6 +460,15 @@ const KitchenEquipmentPage: React.FC = () => {
     });
   };
   
+  // Blank number fields are cleared rather than saved as 0
+  const handleNumberChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { name, value } = e.target;
+    setFormData({
+      ...formData,
+      [name]: value === '' ? undefined : Number(value)
+    });
+  };
+  
   const handleSelectChange = (name: string, value: string) => {
     setFormData({
       ...formData,
@@ -563,23 +486,45 @@ const KitchenEquipmentPage: React.FC = () => {
     }
     
     try {
-      // In a real application, you would save this to your backend
+      const details = {
+        name: formData.name,
+        category: formData.category,
+        condition: formData.condition,
+        brand: formData.brand || null,
+        model: formData.model || null,
+        purchaseDate: formData.purchaseDate || null,
+        purchasePrice: formData.purchasePrice ?? null,
+        warrantyExpiry: formData.warrantyExpiry || null,
+        expectedLifespanYears: formData.expectedLifespanYears ?? null,
+        maintenanceInterval: formData.maintenanceInterval ?? null,
+      };
       const updatedEquipment = [...equipment];
       
       if (isEditing && formData.id) {
-        // Update existing equipment
+        const original = equipment.find(item => item.id === formData.id);
+        const res = await apiRequest('PATCH', `/api/kitchen-equipment/${formData.id}`, details);
+        let saved: SavedKitchenEquipment = await res.json();
+
+        // A changed last maintenance date is recorded as maintenance so it stays in the history
+        if (formData.lastMaintenanceDate && formData.lastMaintenanceDate !== original?.lastMaintenanceDate?.slice(0, 10)) {
+          const maintenanceRes = await apiRequest('POST', `/api/kitchen-equipment/${formData.id}/maintenance`, {
+            date: formData.lastMaintenanceDate
+          });
+          saved = (await maintenanceRes.json()).equipment;
+        }
+
         const index = updatedEquipment.findIndex(item => item.id === formData.id);
         if (index !== -1) {
-          updatedEquipment[index] = formData as KitchenEquipmentType;
+          updatedEquipment[index] = saved;
         }
       } else {
-        // Add new equipment with a generated ID
-        const newId = Math.max(0, ...equipment.map(e => e.id)) + 1;
-        updatedEquipment.push({
-          ...formData,
-          id: newId
-        } as KitchenEquipmentType);
+        const res = await apiRequest('POST', '/api/kitchen-equipment', {
+          ...details,
+          lastMaintenanceDate: formData.lastMaintenanceDate || null
+        });
+        updatedEquipment.push(await res.json());
       }
+      queryClient.invalidateQueries({ queryKey: ['/api/kitchen-equipment/maintenance-schedule'] });
       
       setEquipment(updatedEquipment);
       // Save updated equipment to local storage
@@ -596,22 +541,17 @@ const KitchenEquipmentPage: React.FC = () => {
       // This ensures recommendations stay in sync with your inventory
       setAiLoading(true);
       try {
-        const enrichedEquipment = enrichEquipmentData(updatedEquipment);
-        // Run AI analysis on the updated equipment set
-        const [recResults, maintResults, recipeResults] = await Promise.all([
-          getEquipmentRecommendations(enrichedEquipment, []),
-          generateMaintenanceSchedule(enrichedEquipment, '2023-01-01', '2023-12-31'),
-          getRecipesByEquipment(enrichedEquipment),
+        const [recResults, recipeResults] = await Promise.all([
+          getEquipmentRecommendations(),
+          getRecipesByEquipment(),
         ]);
         
         // Update state and local storage
         setRecommendations(recResults);
-        setMaintenanceSchedule(maintResults);
         setRecipes(recipeResults.possibleRecipes);
         
         // Save updated AI results to local storage
         localStorage.setItem('kitchen-recommendations', JSON.stringify(recResults));
-        localStorage.setItem('kitchen-maintenance-schedule', JSON.stringify(maintResults));
         localStorage.setItem('kitchen-recipes', JSON.stringify(recipeResults.possibleRecipes));
       } catch (aiError) {
         console.error('Error refreshing AI analysis:', aiError);
@@ -623,14 +563,15 @@ const KitchenEquipmentPage: React.FC = () => {
       console.error('Error saving equipment:', error);
       setNotification({
         type: 'error',
-        message: 'Failed to save equipment. Please try again.'
+        message: error instanceof Error ? error.message : 'Failed to save equipment. Please try again.'
       });
     }
   };
 
   const handleDeleteEquipment = async (id: number) => {
     try {
-      // In a real application, you would delete this from your backend
+      await apiRequest('DELETE', `/api/kitchen-equipment/${id}`);
+      queryClient.invalidateQueries({ queryKey: ['/api/kitchen-equipment/maintenance-schedule'] });
       const updatedEquipment = equipment.filter(item => item.id !== id);
       setEquipment(updatedEquipment);
       // Save updated equipment to local storage
@@ -651,10 +592,9 @@ const KitchenEquipmentPage: React.FC = () => {
   const handleGetRecommendations = async () => {
     setAiLoading(true);
     try {
-      const enrichedEquipment = enrichEquipmentData(equipment);
       const [equipRecResults, recipeResults] = await Promise.all([
-        getEquipmentRecommendations(enrichedEquipment, []),
-        getRecipesByEquipment(enrichedEquipment)
+        getEquipmentRecommendations(),
+        getRecipesByEquipment()
       ]);
 
       // Update recommendations and recipes
@@ -691,8 +631,7 @@ const KitchenEquipmentPage: React.FC = () => {
   useEffect(() => {
     const fetchRecommendations = async () => {
       try {
-        const enrichedEquipment = enrichEquipmentData(equipment);
-        const recommendations = await getRecipesByEquipment(enrichedEquipment);
+        const recommendations = await getRecipesByEquipment();
         console.log('Raw recipe recommendations:', recommendations);
         if (recommendations?.possibleRecipes) {
           const recipes = recommendations.possibleRecipes.map((recipe: Recipe) => ({
@@ -704,6 +643,7 @@ const KitchenEquipmentPage: React.FC = () => {
           }));
           console.log('Processed recipes:', recipes);
           setRecipes(recipes);
+          setSuggestedRecipes(recommendations.suggestedRecipes ?? []);
         }
       } catch (error) {
         console.error('Error fetching recipe recommendations:', error);
@@ -774,8 +714,9 @@ const KitchenEquipmentPage: React.FC = () => {
           handleGetRecommendations();
         }
       }}>
-        <TabsList className="grid grid-cols-3 mb-6">
+        <TabsList className="grid grid-cols-4 mb-6">
           <TabsTrigger value="equipment">Equipment</TabsTrigger>
+          <TabsTrigger value="maintenance">Maintenance</TabsTrigger>
           <TabsTrigger value="recommendations">Recommendations</TabsTrigger>
           <TabsTrigger value="recipes">Recipe Matches</TabsTrigger>
         </TabsList>
@@ -792,8 +733,10 @@ const KitchenEquipmentPage: React.FC = () => {
                 </CardHeader>
                 <CardContent>
                   <p><span className="font-semibold">Category:</span> {item.category}</p>
+                  {(item.brand || item.model) && <p><span className="font-semibold">Model:</span> {[item.brand, item.model].filter(Boolean).join(' ')}</p>}
                   {item.purchaseDate && <p><span className="font-semibold">Purchased:</span> {new Date(item.purchaseDate).toLocaleDateString()}</p>}
                   {item.lastMaintenanceDate && <p><span className="font-semibold">Last Maintenance:</span> {new Date(item.lastMaintenanceDate).toLocaleDateString()}</p>}
+                  <EquipmentLifecycleSummary item={item} />
                 </CardContent>
                 <CardFooter className="flex justify-between gap-2 border-t">
                   <Button 
@@ -832,6 +775,10 @@ const KitchenEquipmentPage: React.FC = () => {
           </div>
         </TabsContent>
 
+        <TabsContent value="maintenance" className="space-y-4">
+          <MaintenanceScheduleView onMaintenanceRecorded={handleMaintenanceRecorded} />
+        </TabsContent>
+
         <TabsContent value="recommendations" className="space-y-4">
           <div className="flex justify-between items-center">
             <h2 className="text-2xl font-bold">Equipment Recommendations</h2>
@@ -1011,6 +958,28 @@ const KitchenEquipmentPage: React.FC = () => {
               </div>
             )}
           </div>
+
+          {suggestedRecipes.length > 0 && (
+            <Card>
+              <CardHeader>
+                <CardTitle>More Ideas</CardTitle>
+                <CardDescription>AI suggestions for your equipment that aren't in your recipes yet</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <ul className="space-y-3">
+                  {suggestedRecipes.map((idea, index) => (
+                    <li key={index} className="border-b pb-3">
+                      <p className="font-medium">{idea.title}</p>
+                      <p className="text-sm text-muted-foreground">{idea.description}</p>
+                      {idea.missingEquipment.length > 0 && (
+                        <p className="text-sm text-orange-600 mt-1">Also needs: {idea.missingEquipment.join(', ')}</p>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              </CardContent>
+            </Card>
+          )}
         </TabsContent>
 
       </Tabs>
@@ -1036,7 +1005,7 @@ const KitchenEquipmentPage: React.FC = () => {
       
       {/* Equipment Add/Edit Dialog */}
       <Dialog open={equipmentDialogOpen} onOpenChange={setEquipmentDialogOpen}>
-        <DialogContent className="sm:max-w-md">
+        <DialogContent className="sm:max-w-md max-h-[90vh] overflow-y-auto">
           <DialogHeader>
             <DialogTitle>{isEditing ? 'Edit Equipment' : 'Add Equipment'}</DialogTitle>
           </DialogHeader>
@@ -1104,6 +1073,36 @@ const KitchenEquipmentPage: React.FC = () => {
               </Select>
             </div>
             
+            <div className="grid grid-cols-4 items-center gap-4">
+              <Label htmlFor="brand" className="text-right">
+                Brand
+              </Label>
+              <Input
+                id="brand"
+                name="brand"
+                type="text"
+                value={formData.brand ?? ''}
+                onChange={handleInputChange}
+                className="col-span-3"
+                placeholder="e.g., KitchenAid"
+              />
+            </div>
+            
+            <div className="grid grid-cols-4 items-center gap-4">
+              <Label htmlFor="model" className="text-right">
+                Model
+              </Label>
+              <Input
+                id="model"
+                name="model"
+                type="text"
+                value={formData.model ?? ''}
+                onChange={handleInputChange}
+                className="col-span-3"
+                placeholder="e.g., Artisan 5KSM175"
+              />
+            </div>
+            
             <div className="grid grid-cols-4 items-center gap-4">
               <Label htmlFor="purchaseDate" className="text-right">
                 Purchase Date
@@ -1118,6 +1117,67 @@ const KitchenEquipmentPage: React.FC = () => {
               />
             </div>
             
+            <div className="grid grid-cols-4 items-center gap-4">
+              <Label htmlFor="purchasePrice" className="text-right">
+                Price ($)
+              </Label>
+              <Input
+                id="purchasePrice"
+                name="purchasePrice"
+                type="number"
+                min={0}
+                value={formData.purchasePrice ?? ''}
+                onChange={handleNumberChange}
+                className="col-span-3"
+              />
+            </div>
+            
+            <div className="grid grid-cols-4 items-center gap-4">
+              <Label htmlFor="warrantyExpiry" className="text-right">
+                Warranty Until
+              </Label>
+              <Input
+                id="warrantyExpiry"
+                name="warrantyExpiry"
+                type="date"
+                value={formData.warrantyExpiry ?? ''}
+                onChange={handleInputChange}
+                className="col-span-3"
+              />
+            </div>
+            
+            <div className="grid grid-cols-4 items-center gap-4">
+              <Label htmlFor="expectedLifespanYears" className="text-right">
+                Lifespan (years)
+              </Label>
+              <Input
+                id="expectedLifespanYears"
+                name="expectedLifespanYears"
+                type="number"
+                min={1}
+                value={formData.expectedLifespanYears ?? ''}
+                onChange={handleNumberChange}
+                className="col-span-3"
+                placeholder="Defaults by category"
+              />
+            </div>
+            
+            <div className="grid grid-cols-4 items-center gap-4">
+              <Label htmlFor="maintenanceInterval" className="text-right">
+                Service Every (days)
+              </Label>
+              <Input
+                id="maintenanceInterval"
+                name="maintenanceInterval"
+                type="number"
+                min={1}
+                value={formData.maintenanceInterval ?? ''}
+                onChange={handleNumberChange}
+                className="col-span-3"
+                placeholder="Defaults by category"
+              />
+            </div>
+            
             <div className="grid grid-cols-4 items-center gap-4">
               <Label htmlFor="lastMaintenanceDate" className="text-right">
                 Last Maintenance
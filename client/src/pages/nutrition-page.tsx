@@ -1,6 +1,7 @@
 import { NutritionGoals } from "@/components/nutrition-goals";
 import { NutritionInsights } from "@/components/nutrition-insights";
 import { NutritionSummary } from "@/components/nutrition-summary";
+import { WeightTracker } from "@/components/weight-tracker";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 
 export default function NutritionPage() {
@@ -18,6 +19,7 @@ export default function NutritionPage() {
           <TabsList>
             <TabsTrigger value="daily">Daily Progress</TabsTrigger>
             <TabsTrigger value="summary">Summary</TabsTrigger>
+            <TabsTrigger value="body">Body & Weight</TabsTrigger>
             <TabsTrigger value="insights">AI Insights</TabsTrigger>
           </TabsList>
 
@@ -29,6 +31,10 @@ export default function NutritionPage() {
             <NutritionSummary />
           </TabsContent>
 
+          <TabsContent value="body">
+            <WeightTracker />
+          </TabsContent>
+
           <TabsContent value="insights">
             <NutritionInsights />
           </TabsContent>
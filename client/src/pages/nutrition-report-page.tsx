@@ -0,0 +1,310 @@
+import * as React from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { apiRequest } from "@/lib/queryClient";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { format, parseISO, subDays, startOfMonth } from "date-fns";
+import { ArrowLeft, Download, FileText, Flame, Loader2, Printer } from "lucide-react";
+
+type ReportRange = "week" | "month" | "30" | "90" | "custom";
+type MacroValues = { calories: number; protein: number; carbs: number; fat: number };
+
+interface NutritionReport {
+  from: string;
+  to: string;
+  goal: { dailyCalories: number; dailyProtein: number; dailyCarbs: number; dailyFat: number } | null;
+  totalDays: number;
+  loggedDays: number;
+  averages: MacroValues;
+  adherence: MacroValues | null;
+  streaks: { logging: { current: number; longest: number }; onTarget: { current: number; longest: number } };
+  macroRatios: {
+    actual: { protein: number; carbs: number; fat: number };
+    target: { protein: number; carbs: number; fat: number } | null;
+  };
+  mealTypes: { mealType: string; entries: number; calories: number; percent: number }[];
+  topRecipes: { title: string; times: number; calories: number }[];
+  days: (MacroValues & { date: string; logged: boolean; onTarget: boolean })[];
+  weeks: { weekStart: string; weekEnd: string; days: number; loggedDays: number; averages: MacroValues; caloriesAdherence: number | null }[];
+}
+
+const MACRO_LABELS: { key: keyof MacroValues; label: string; unit: string }[] = [
+  { key: "calories", label: "Calories", unit: " kcal" },
+  { key: "protein", label: "Protein", unit: "g" },
+  { key: "carbs", label: "Carbs", unit: "g" },
+  { key: "fat", label: "Fat", unit: "g" },
+];
+
+function getRange(range: ReportRange, custom: { from: string; to: string }) {
+  const today = new Date();
+  const to = format(today, "yyyy-MM-dd");
+  switch (range) {
+    case "week":
+      return { from: format(subDays(today, 6), "yyyy-MM-dd"), to };
+    case "month":
+      return { from: format(startOfMonth(today), "yyyy-MM-dd"), to };
+    case "30":
+    case "90":
+      return { from: format(subDays(today, Number(range) - 1), "yyyy-MM-dd"), to };
+    default:
+      return custom;
+  }
+}
+
+function formatDay(date: string) {
+  return format(parseISO(date), "MMM dd");
+}
+
+export default function NutritionReportPage() {
+  const [range, setRange] = React.useState<ReportRange>("week");
+  const [custom, setCustom] = React.useState(() => ({
+    from: format(subDays(new Date(), 13), "yyyy-MM-dd"),
+    to: format(new Date(), "yyyy-MM-dd"),
+  }));
+  const { from, to } = getRange(range, custom);
+  const query = `from=${from}&to=${to}`;
+
+  const { data: report, isLoading, error } = useQuery<NutritionReport>({
+    queryKey: ["/api/nutrition-reports", from, to],
+    queryFn: async () => {
+      const res = await apiRequest("GET", `/api/nutrition-reports?${query}`);
+      return res.json();
+    },
+  });
+
+  return (
+    <div className="container mx-auto p-6 space-y-6 print:p-0">
+      <div className="flex flex-wrap items-end justify-between gap-4 print:hidden">
+        <div className="space-y-2">
+          <Button variant="ghost" size="sm" asChild>
+            <Link href="/nutrition">
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              Nutrition
+            </Link>
+          </Button>
+          <div className="flex items-end gap-2">
+            <Select value={range} onValueChange={(value) => setRange(value as ReportRange)}>
+              <SelectTrigger className="w-40">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="week">Last 7 days</SelectItem>
+                <SelectItem value="month">This month</SelectItem>
+                <SelectItem value="30">Last 30 days</SelectItem>
+                <SelectItem value="90">Last 90 days</SelectItem>
+                <SelectItem value="custom">Custom range</SelectItem>
+              </SelectContent>
+            </Select>
+            {range === "custom" && (
+              <>
+                <div className="space-y-1">
+                  <Label htmlFor="report-from" className="text-xs">From</Label>
+                  <Input id="report-from" type="date" value={custom.from} onChange={(e) => setCustom({ ...custom, from: e.target.value })} />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="report-to" className="text-xs">To</Label>
+                  <Input id="report-to" type="date" value={custom.to} onChange={(e) => setCustom({ ...custom, to: e.target.value })} />
+                </div>
+              </>
+            )}
+          </div>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" asChild>
+            <a href={`/api/nutrition-reports?${query}&format=csv`} download>
+              <Download className="h-4 w-4 mr-2" />
+              CSV
+            </a>
+          </Button>
+          <Button variant="outline" asChild>
+            <a href={`/api/nutrition-reports?${query}&format=pdf`} download>
+              <FileText className="h-4 w-4 mr-2" />
+              PDF
+            </a>
+          </Button>
+          <Button onClick={() => window.print()}>
+            <Printer className="h-4 w-4 mr-2" />
+            Print
+          </Button>
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center py-12">
+          <Loader2 className="h-8 w-8 animate-spin text-primary" />
+        </div>
+      ) : error || !report ? (
+        <Card>
+          <CardContent className="py-6 text-center text-muted-foreground">
+            {(error as Error)?.message || "Couldn't load the report."}
+          </CardContent>
+        </Card>
+      ) : (
+        <>
+          <div>
+            <h1 className="text-3xl font-bold tracking-tight">Nutrition Report</h1>
+            <p className="text-muted-foreground mt-1">
+              {format(parseISO(report.from), "MMM d, yyyy")} – {format(parseISO(report.to), "MMM d, yyyy")} ·{" "}
+              {report.loggedDays} of {report.totalDays} days logged
+            </p>
+          </div>
+
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            {MACRO_LABELS.map(({ key, label, unit }) => (
+              <Card key={key} className="break-inside-avoid">
+                <CardContent className="pt-6">
+                  <div className="text-2xl font-bold">{report.averages[key]}{unit}</div>
+                  <p className="text-xs text-muted-foreground">Avg. {label} per logged day</p>
+                  {report.adherence && (
+                    <p className="text-xs text-muted-foreground mt-1">
+                      On target {report.adherence[key]}% of days
+                    </p>
+                  )}
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+
+          <div className="grid gap-4 md:grid-cols-3">
+            <Card className="break-inside-avoid">
+              <CardHeader>
+                <CardTitle className="text-base flex items-center gap-2">
+                  <Flame className="h-4 w-4" />
+                  Streaks
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-2 text-sm">
+                <div className="flex justify-between">
+                  <span>Logging</span>
+                  <span>{report.streaks.logging.current} days (best {report.streaks.logging.longest})</span>
+                </div>
+                {report.goal && (
+                  <div className="flex justify-between">
+                    <span>Calories on target</span>
+                    <span>{report.streaks.onTarget.current} days (best {report.streaks.onTarget.longest})</span>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+
+            <Card className="break-inside-avoid">
+              <CardHeader>
+                <CardTitle className="text-base">Macro Ratios</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-2 text-sm">
+                {(["protein", "carbs", "fat"] as const).map((macro) => (
+                  <div key={macro} className="flex justify-between">
+                    <span className="capitalize">{macro}</span>
+                    <span>
+                      {report.macroRatios.actual[macro]}% of calories
+                      {report.macroRatios.target && (
+                        <span className="text-muted-foreground"> (goal {report.macroRatios.target[macro]}%)</span>
+                      )}
+                    </span>
+                  </div>
+                ))}
+              </CardContent>
+            </Card>
+
+            <Card className="break-inside-avoid">
+              <CardHeader>
+                <CardTitle className="text-base">Calories by Meal</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-2 text-sm">
+                {report.mealTypes.length === 0 ? (
+                  <p className="text-muted-foreground">Nothing logged in this range.</p>
+                ) : (
+                  report.mealTypes.map((meal) => (
+                    <div key={meal.mealType} className="flex justify-between">
+                      <span className="capitalize">{meal.mealType}</span>
+                      <span>{meal.percent}% · {meal.entries} entries</span>
+                    </div>
+                  ))
+                )}
+              </CardContent>
+            </Card>
+          </div>
+
+          {report.topRecipes.length > 0 && (
+            <Card className="break-inside-avoid">
+              <CardHeader>
+                <CardTitle className="text-base">Most Eaten Recipes</CardTitle>
+              </CardHeader>
+              <CardContent className="flex flex-wrap gap-2">
+                {report.topRecipes.map((recipe) => (
+                  <Badge key={recipe.title} variant="secondary">
+                    {recipe.title} · {recipe.times}×
+                  </Badge>
+                ))}
+              </CardContent>
+            </Card>
+          )}
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base">Weekly Summary</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Week</TableHead>
+                    <TableHead>Logged</TableHead>
+                    {MACRO_LABELS.map(({ key, label }) => <TableHead key={key}>Avg. {label}</TableHead>)}
+                    {report.goal && <TableHead>On target</TableHead>}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {report.weeks.map((week) => (
+                    <TableRow key={week.weekStart}>
+                      <TableCell>{formatDay(week.weekStart)} – {formatDay(week.weekEnd)}</TableCell>
+                      <TableCell>{week.loggedDays}/{week.days}</TableCell>
+                      {MACRO_LABELS.map(({ key, unit }) => <TableCell key={key}>{week.averages[key]}{unit}</TableCell>)}
+                      {report.goal && <TableCell>{week.caloriesAdherence}%</TableCell>}
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base">Daily Detail</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Date</TableHead>
+                    {MACRO_LABELS.map(({ key, label }) => <TableHead key={key}>{label}</TableHead>)}
+                    {report.goal && <TableHead>On target</TableHead>}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {report.days.map((day) => (
+                    <TableRow key={day.date} className={day.logged ? undefined : "text-muted-foreground"}>
+                      <TableCell>{format(parseISO(day.date), "EEE, MMM dd")}</TableCell>
+                      {day.logged ? (
+                        MACRO_LABELS.map(({ key, unit }) => <TableCell key={key}>{day[key]}{unit}</TableCell>)
+                      ) : (
+                        <TableCell colSpan={MACRO_LABELS.length}>Not logged</TableCell>
+                      )}
+                      {report.goal && <TableCell>{day.logged ? (day.onTarget ? "Yes" : "No") : "–"}</TableCell>}
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </div>
+  );
+}
@@ -13,7 +13,8 @@ import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from "@/components/ui/alert-dialog";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Switch } from "@/components/ui/switch";
-import { Loader2, Save, User, Moon, Sun, Palette } from "lucide-react";
+import { Loader2, Save, User, Moon, Sun, Palette, Copy, Check, KeyRound } from "lucide-react";
+import { DietaryRestrictionsCard } from "@/components/dietary-restrictions";
 
 // Helper function to get initials
 const getInitials = (name: string | undefined) => {
@@ -37,6 +38,7 @@ interface UserPreferences {
 
 interface ProfileForm {
   name: string;
+  email: string;
   profilePicture: string;
 }
 
@@ -50,6 +52,7 @@ export default function ProfilePage() {
     const savedProfile = localStorage.getItem('userProfile');
     const defaultProfile = {
       name: user?.name || "",
+      email: user?.email || "",
       profilePicture: user?.profilePicture || "",
     };
     return savedProfile ? JSON.parse(savedProfile) : defaultProfile;
@@ -64,6 +67,7 @@ export default function ProfilePage() {
       setProfileForm(prev => ({
         ...prev,
         name: user.name || prev.name,
+        email: user.email || prev.email || "",
         profilePicture: user.profilePicture || prev.profilePicture
       }));
     }
@@ -86,6 +90,12 @@ export default function ProfilePage() {
   // Delete account state
   const [deleteAccountPassword, setDeleteAccountPassword] = useState("");
 
+  // Secret key state; a new key is only shown until the page is left
+  const [secretKeyPassword, setSecretKeyPassword] = useState("");
+  const [newSecretKey, setNewSecretKey] = useState<string | null>(null);
+  const [isGeneratingKey, setIsGeneratingKey] = useState(false);
+  const [keyCopied, setKeyCopied] = useState(false);
+
   // Save profile to localStorage when it changes
   useEffect(() => {
     localStorage.setItem('userProfile', JSON.stringify(profileForm));
@@ -139,8 +149,9 @@ export default function ProfilePage() {
   const handleUpdateProfile = async (e: React.FormEvent) => {
     e.preventDefault();
     try {
-      await updateProfileMutation.mutate({
+      await updateProfileMutation.mutateAsync({
         name: profileForm.name,
+        email: profileForm.email,
         profilePicture: profileForm.profilePicture
       });
 
@@ -248,6 +259,56 @@ export default function ProfilePage() {
     }
   };
   
+  // Replace the secret key used to reset a forgotten password
+  const handleGenerateSecretKey = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!secretKeyPassword) {
+      toast({
+        title: "Error",
+        description: "Please enter your password to generate a new secret key",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    setIsGeneratingKey(true);
+    try {
+      const response = await fetch("/api/account/secret-key", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json"
+        },
+        body: JSON.stringify({ password: secretKeyPassword })
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.message || "Failed to generate a new secret key");
+      }
+
+      const result = await response.json();
+      setNewSecretKey(result.secretKey);
+      setKeyCopied(false);
+      setSecretKeyPassword("");
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to generate a new secret key.",
+        variant: "destructive"
+      });
+    } finally {
+      setIsGeneratingKey(false);
+    }
+  };
+
+  const handleCopySecretKey = async () => {
+    if (newSecretKey) {
+      await navigator.clipboard.writeText(newSecretKey);
+      setKeyCopied(true);
+      setTimeout(() => setKeyCopied(false), 2000);
+    }
+  };
+
   // Handle account deletion
   const handleDeleteAccount = async () => {
     if (!deleteAccountPassword) {
@@ -360,6 +421,21 @@ export default function ProfilePage() {
                       />
                     </div>
                     
+                    <div className="space-y-2 sm:col-span-2">
+                      <Label htmlFor="email">Email</Label>
+                      <Input 
+                        id="email" 
+                        name="email"
+                        type="email"
+                        value={profileForm.email || ""} 
+                        onChange={handleProfileChange}
+                        placeholder="you@example.com" 
+                      />
+                      <p className="text-sm text-muted-foreground">
+                        Used to send you a link if you forget your password
+                      </p>
+                    </div>
+                    
                     <div className="space-y-2 sm:col-span-2">
                       <Label htmlFor="profilePicture">Profile Picture URL</Label>
                       <Input 
@@ -467,6 +543,9 @@ export default function ProfilePage() {
               </div>
             </CardContent>
           </Card>
+          <div className="mt-6">
+            <DietaryRestrictionsCard />
+          </div>
         </TabsContent>
 
         <TabsContent value="security">
@@ -542,6 +621,69 @@ export default function ProfilePage() {
               </CardContent>
             </Card>
             
+            <Card>
+              <CardHeader>
+                <CardTitle>Secret Key</CardTitle>
+                <CardDescription>
+                  Your secret key lets you reset your password without email. Generate a new one if you've lost it or think someone else has it; the old key stops working.
+                </CardDescription>
+              </CardHeader>
+              
+              <CardContent>
+                {newSecretKey ? (
+                  <div className="space-y-4">
+                    <div className="relative">
+                      <div className="p-3 bg-muted rounded-md font-mono text-sm break-all pr-12">
+                        {newSecretKey}
+                      </div>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="absolute right-3 top-1/2 -translate-y-1/2 h-8 w-8 p-0"
+                        onClick={handleCopySecretKey}
+                      >
+                        {keyCopied ? (
+                          <Check className="h-4 w-4 text-green-500" />
+                        ) : (
+                          <Copy className="h-4 w-4" />
+                        )}
+                      </Button>
+                    </div>
+                    <div className="bg-yellow-100 dark:bg-yellow-900/30 p-4 rounded-md">
+                      <p className="text-sm font-medium text-yellow-800 dark:text-yellow-200">
+                        ⚠️ Warning: This key will not be shown again. Store it somewhere secure.
+                      </p>
+                    </div>
+                    <Button variant="outline" onClick={() => setNewSecretKey(null)}>
+                      I Have Saved My Secret Key
+                    </Button>
+                  </div>
+                ) : (
+                  <form onSubmit={handleGenerateSecretKey} className="space-y-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="secretKeyPassword">Current Password</Label>
+                      <Input 
+                        id="secretKeyPassword" 
+                        type="password" 
+                        value={secretKeyPassword} 
+                        onChange={(e) => setSecretKeyPassword(e.target.value)}
+                        placeholder="Enter your password" 
+                      />
+                    </div>
+                    
+                    <Button type="submit" className="flex gap-2" disabled={isGeneratingKey}>
+                      {isGeneratingKey ? (
+                        <Loader2 className="h-4 w-4 animate-spin" />
+                      ) : (
+                        <KeyRound className="h-4 w-4" />
+                      )}
+                      Generate New Secret Key
+                    </Button>
+                  </form>
+                )}
+              </CardContent>
+            </Card>
+            
             <Card className="border-destructive">
               <CardHeader>
                 <CardTitle className="text-destructive">Delete Account</CardTitle>
@@ -1,4 +1,4 @@
-import { useQuery } from "@tanstack/react-query";
+import { useQuery, keepPreviousData } from "@tanstack/react-query";
 import { Recipe } from "@shared/schema";
 import { RecipeCard } from "@/components/recipe-card";
 import { Input } from "@/components/ui/input";
@@ -10,12 +10,41 @@ import { useAuth } from "@/hooks/use-auth";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { RecipeRecommendations } from "@/components/recipe-recommendations";
 import { apiRequest } from "@/lib/queryClient";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { format } from "date-fns";
+import { BUDGET_SERVING_STEP, MAX_BUDGET_SERVINGS, type MacroAmounts } from "@shared/meal-budgets";
+import type { RecipeIngredient } from "@shared/ingredients";
+import { DIETS, DIET_LABELS, type DietTags } from "@shared/diet";
+
+interface RecipesWithinBudget {
+  mealType: string;
+  servings: number;
+  remaining: MacroAmounts;
+  recipes: (Recipe & { maxServings: number })[];
+}
 
 export default function RecipesPage() {
   const [searchTerm, setSearchTerm] = useState("");
+  // Only show recipes that fit what's left of this meal's budget today
+  const [budgetMeal, setBudgetMeal] = useState("any");
+  const [budgetServings, setBudgetServings] = useState("1");
+  // A diet id, "mine" for the saved dietary restrictions, or "any"
+  const [dietFilter, setDietFilter] = useState("any");
+  // "available" for recipes the saved kitchen equipment can make, or "any"
+  const [equipmentFilter, setEquipmentFilter] = useState("any");
   const { user } = useAuth();
-  const { data: recipes, isLoading } = useQuery<(Recipe & { ingredients: string[]; instructions: string[] })[]>({
-    queryKey: ["/api/recipes"],
+  const { data: recipes, isLoading } = useQuery<(Recipe & { ingredients: RecipeIngredient[]; instructions: string[]; dietTags: DietTags })[]>({
+    queryKey: ["/api/recipes", dietFilter, equipmentFilter],
+    queryFn: async () => {
+      const params = new URLSearchParams();
+      if (dietFilter === "mine") params.set("restrictions", "mine");
+      else if (dietFilter !== "any") params.set("diet", dietFilter);
+      if (equipmentFilter !== "any") params.set("equipment", equipmentFilter);
+      const query = params.toString();
+      const res = await apiRequest("GET", `/api/recipes${query ? `?${query}` : ""}`);
+      return res.json();
+    },
+    placeholderData: keepPreviousData,
   });
 
   const { data: currentGoal } = useQuery({
@@ -26,8 +55,26 @@ export default function RecipesPage() {
     },
   });
 
+  const servings = Math.min(Math.max(parseFloat(budgetServings) || 1, BUDGET_SERVING_STEP), MAX_BUDGET_SERVINGS);
+  const today = format(new Date(), "yyyy-MM-dd");
+  const { data: withinBudget, isFetching: isCheckingBudget } = useQuery<RecipesWithinBudget>({
+    queryKey: ["/api/recipes/within-budget", budgetMeal, servings, today],
+    queryFn: async () => {
+      const res = await apiRequest(
+        "GET",
+        `/api/recipes/within-budget?mealType=${budgetMeal}&servings=${servings}&date=${today}`
+      );
+      return res.json();
+    },
+    enabled: !!currentGoal && budgetMeal !== "any",
+  });
+  const fittingIds = budgetMeal !== "any" && withinBudget
+    ? new Set(withinBudget.recipes.map((recipe) => recipe.id))
+    : null;
+
   const filteredRecipes = recipes?.filter((recipe) =>
-    recipe.title.toLowerCase().includes(searchTerm.toLowerCase())
+    recipe.title.toLowerCase().includes(searchTerm.toLowerCase()) &&
+    (!fittingIds || fittingIds.has(recipe.id))
   );
 
   if (isLoading) {
@@ -83,14 +130,79 @@ export default function RecipesPage() {
           </TabsList>
 
           <TabsContent value="my-recipes">
-            <div className="relative mb-6">
-              <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-muted-foreground h-4 w-4" />
-              <Input
-                placeholder="Search recipes..."
-                value={searchTerm}
-                onChange={(e) => setSearchTerm(e.target.value)}
-                className="pl-10"
-              />
+            <div className="flex flex-col sm:flex-row gap-2 mb-2">
+              <div className="relative flex-1">
+                <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-muted-foreground h-4 w-4" />
+                <Input
+                  placeholder="Search recipes..."
+                  value={searchTerm}
+                  onChange={(e) => setSearchTerm(e.target.value)}
+                  className="pl-10"
+                />
+              </div>
+              <Select value={dietFilter} onValueChange={setDietFilter}>
+                <SelectTrigger className="sm:w-48">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="any">Any diet</SelectItem>
+                  <SelectItem value="mine">Fits my restrictions</SelectItem>
+                  {DIETS.map((diet) => (
+                    <SelectItem key={diet} value={diet}>{DIET_LABELS[diet]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select value={equipmentFilter} onValueChange={setEquipmentFilter}>
+                <SelectTrigger className="sm:w-48">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="any">Any equipment</SelectItem>
+                  <SelectItem value="available">Can cook with my kitchen</SelectItem>
+                </SelectContent>
+              </Select>
+              {currentGoal && (
+                <>
+                  <Select value={budgetMeal} onValueChange={setBudgetMeal}>
+                    <SelectTrigger className="sm:w-48">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="any">Any budget</SelectItem>
+                      <SelectItem value="breakfast">Fits breakfast</SelectItem>
+                      <SelectItem value="lunch">Fits lunch</SelectItem>
+                      <SelectItem value="dinner">Fits dinner</SelectItem>
+                      <SelectItem value="snack">Fits a snack</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  {budgetMeal !== "any" && (
+                    <Input
+                      type="number"
+                      min={BUDGET_SERVING_STEP}
+                      max={MAX_BUDGET_SERVINGS}
+                      step={BUDGET_SERVING_STEP}
+                      value={budgetServings}
+                      onChange={(e) => setBudgetServings(e.target.value)}
+                      className="sm:w-28"
+                      aria-label="Servings"
+                    />
+                  )}
+                </>
+              )}
+            </div>
+            <div className="mb-6 min-h-5 text-sm text-muted-foreground">
+              {budgetMeal !== "any" && (isCheckingBudget ? (
+                <span className="flex items-center gap-2">
+                  <Loader2 className="h-3 w-3 animate-spin" />
+                  Checking your budget...
+                </span>
+              ) : withinBudget && (
+                <span>
+                  {withinBudget.recipes.length} recipes fit {servings} {servings === 1 ? "serving" : "servings"} within{" "}
+                  {Math.round(withinBudget.remaining.calories)} kcal, {Math.round(withinBudget.remaining.carbs)}g carbs and{" "}
+                  {Math.round(withinBudget.remaining.fat)}g fat left for {withinBudget.mealType} today
+                </span>
+              ))}
             </div>
 
             <div className="grid gap-6 sm:grid-cols-2 lg:grid-cols-3">
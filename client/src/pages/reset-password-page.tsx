@@ -0,0 +1,156 @@
+import { useState } from "react";
+import { Link } from "wouter";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Loader2, KeyRound, ArrowLeft, Check } from "lucide-react";
+
+const MIN_PASSWORD_LENGTH = 6;
+
+export default function ResetPasswordPage() {
+  const { toast } = useToast();
+  // The token arrives in the link from the reset email
+  const [token] = useState(() => new URLSearchParams(window.location.search).get("token") || "");
+
+  const [newPassword, setNewPassword] = useState("");
+  const [confirmPassword, setConfirmPassword] = useState("");
+  const [error, setError] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [isReset, setIsReset] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError("");
+
+    if (newPassword.length < MIN_PASSWORD_LENGTH) {
+      setError(`Password must be at least ${MIN_PASSWORD_LENGTH} characters long`);
+      return;
+    }
+    if (newPassword !== confirmPassword) {
+      setError("Passwords do not match");
+      return;
+    }
+
+    setIsSubmitting(true);
+
+    try {
+      const response = await fetch("/api/account/reset-password", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json"
+        },
+        body: JSON.stringify({ token, newPassword })
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.message || "Failed to reset password");
+      }
+
+      setIsReset(true);
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error.message || "Something went wrong. Please try again.",
+        variant: "destructive"
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="container flex items-center justify-center min-h-screen py-8">
+      <Card className="mx-auto max-w-md w-full">
+        <CardHeader className="space-y-1">
+          <CardTitle className="text-2xl font-semibold">Reset Password</CardTitle>
+          <CardDescription>
+            Choose a new password for your account.
+          </CardDescription>
+        </CardHeader>
+
+        <CardContent>
+          {!token ? (
+            <div className="space-y-4 text-center">
+              <p className="text-sm text-muted-foreground">
+                This reset link is incomplete. Please open the link from your email again, or request a new one.
+              </p>
+              <Button asChild variant="outline">
+                <Link href="/forgot-password">Request a new link</Link>
+              </Button>
+            </div>
+          ) : isReset ? (
+            <div className="space-y-4 text-center">
+              <div className="rounded-full bg-green-100 dark:bg-green-900 p-3 w-12 h-12 mx-auto flex items-center justify-center">
+                <Check className="h-6 w-6 text-green-600 dark:text-green-300" />
+              </div>
+              <div className="space-y-2">
+                <h3 className="text-lg font-medium">Password updated</h3>
+                <p className="text-sm text-muted-foreground">
+                  You can now log in with your new password.
+                </p>
+              </div>
+              <Button asChild className="mt-4">
+                <Link href="/auth">Go to login</Link>
+              </Button>
+            </div>
+          ) : (
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="newPassword">New Password</Label>
+                <div className="relative">
+                  <KeyRound className="absolute left-3 top-1/2 transform -translate-y-1/2 text-muted-foreground h-4 w-4" />
+                  <Input
+                    id="newPassword"
+                    type="password"
+                    placeholder="Enter your new password"
+                    value={newPassword}
+                    onChange={(e) => setNewPassword(e.target.value)}
+                    className="pl-10"
+                    autoComplete="new-password"
+                    disabled={isSubmitting}
+                  />
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="confirmPassword">Confirm Password</Label>
+                <Input
+                  id="confirmPassword"
+                  type="password"
+                  placeholder="Confirm your new password"
+                  value={confirmPassword}
+                  onChange={(e) => setConfirmPassword(e.target.value)}
+                  autoComplete="new-password"
+                  disabled={isSubmitting}
+                />
+              </div>
+
+              {error && <p className="text-sm font-medium text-destructive">{error}</p>}
+
+              <Button
+                type="submit"
+                className="w-full"
+                disabled={isSubmitting || !newPassword || !confirmPassword}
+              >
+                {isSubmitting ? (
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                ) : null}
+                Reset Password
+              </Button>
+            </form>
+          )}
+        </CardContent>
+
+        <CardFooter className="flex justify-center">
+          <Link href="/auth" className="text-sm text-muted-foreground hover:underline flex items-center gap-1">
+            <ArrowLeft className="h-3 w-3" />
+            Back to login
+          </Link>
+        </CardFooter>
+      </Card>
+    </div>
+  );
+}
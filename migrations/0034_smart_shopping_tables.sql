@@ -0,0 +1,106 @@
+-- Bring the smart shopping tables from 0008/0009 in line with shared/schema.ts.
+-- Safe to run on databases that never applied those migrations.
+
+CREATE TABLE IF NOT EXISTS "stores" (
+  "id" serial PRIMARY KEY NOT NULL,
+  "name" text NOT NULL,
+  "location" jsonb NOT NULL,
+  "created_at" timestamp DEFAULT now() NOT NULL
+);
+
+ALTER TABLE "stores"
+  ADD COLUMN IF NOT EXISTS "business_hours" jsonb,
+  ADD COLUMN IF NOT EXISTS "popular_times" jsonb,
+  ADD COLUMN IF NOT EXISTS "crowd_level" text,
+  ADD COLUMN IF NOT EXISTS "store_layout" jsonb,
+  ADD COLUMN IF NOT EXISTS "special_features" jsonb;
+
+CREATE TABLE IF NOT EXISTS "price_history" (
+  "id" serial PRIMARY KEY NOT NULL,
+  "store_id" integer NOT NULL REFERENCES "stores"("id"),
+  "product_name" text NOT NULL,
+  "price" double precision NOT NULL,
+  "unit" text NOT NULL,
+  "recorded_at" timestamp DEFAULT now() NOT NULL,
+  "on_sale" boolean DEFAULT false,
+  "sale_end_date" timestamp
+);
+
+ALTER TABLE "price_history"
+  ADD COLUMN IF NOT EXISTS "price_type" text,
+  ADD COLUMN IF NOT EXISTS "competitive_pricing" jsonb,
+  ADD COLUMN IF NOT EXISTS "price_trend" jsonb,
+  ADD COLUMN IF NOT EXISTS "ai_predicted_price" double precision,
+  ADD COLUMN IF NOT EXISTS "best_time_to_buy" timestamp;
+
+-- decimal columns come back from the driver as strings; prices are read as numbers
+ALTER TABLE "price_history"
+  ALTER COLUMN "price" TYPE double precision,
+  ALTER COLUMN "ai_predicted_price" TYPE double precision;
+
+CREATE TABLE IF NOT EXISTS "store_specific_lists" (
+  "id" serial PRIMARY KEY NOT NULL,
+  "user_id" integer NOT NULL REFERENCES "users"("id"),
+  "store_id" integer NOT NULL REFERENCES "stores"("id"),
+  "name" text NOT NULL,
+  "items" jsonb NOT NULL,
+  "total_estimated_cost" double precision,
+  "created_at" timestamp DEFAULT now() NOT NULL,
+  "updated_at" timestamp
+);
+
+ALTER TABLE "store_specific_lists"
+  ADD COLUMN IF NOT EXISTS "optimized_route" jsonb,
+  ADD COLUMN IF NOT EXISTS "nutrition_alignment" jsonb,
+  ADD COLUMN IF NOT EXISTS "sustainability_score" integer,
+  ADD COLUMN IF NOT EXISTS "budget_optimization" jsonb,
+  ADD COLUMN IF NOT EXISTS "alternative_items" jsonb,
+  ADD COLUMN IF NOT EXISTS "meal_plan_alignment" jsonb,
+  ADD COLUMN IF NOT EXISTS "ai_suggestions" jsonb;
+
+ALTER TABLE "store_specific_lists"
+  ALTER COLUMN "total_estimated_cost" TYPE double precision;
+
+CREATE TABLE IF NOT EXISTS "smart_shopping_insights" (
+  "id" serial PRIMARY KEY,
+  "user_id" integer NOT NULL REFERENCES "users"("id"),
+  "insights" jsonb NOT NULL,
+  "shopping_patterns" jsonb NOT NULL,
+  "recommended_stores" jsonb NOT NULL,
+  "personalized_deals" jsonb NOT NULL,
+  "budget_analysis" jsonb NOT NULL,
+  "created_at" timestamp NOT NULL DEFAULT now(),
+  "updated_at" timestamp
+);
+
+CREATE TABLE IF NOT EXISTS "shopping_preferences" (
+  "id" serial PRIMARY KEY,
+  "user_id" integer NOT NULL REFERENCES "users"("id"),
+  "preferred_stores" jsonb[],
+  "budget_limits" jsonb,
+  "dietary_restrictions" jsonb,
+  "sustainability_preferences" jsonb,
+  "shopping_schedule" jsonb,
+  "ai_personalization" jsonb,
+  "created_at" timestamp NOT NULL DEFAULT now(),
+  "updated_at" timestamp
+);
+
+-- One preferences row per user; earlier saves could leave several, so only the latest is kept
+DELETE FROM "shopping_preferences"
+WHERE "id" IN (
+  SELECT "id" FROM (
+    SELECT "id", row_number() OVER (
+      PARTITION BY "user_id" ORDER BY coalesce("updated_at", "created_at") DESC, "id" DESC
+    ) AS "rank"
+    FROM "shopping_preferences"
+  ) AS "ranked"
+  WHERE "rank" > 1
+);
+CREATE UNIQUE INDEX IF NOT EXISTS "shopping_preferences_user_id_unique" ON "shopping_preferences"("user_id");
+
+CREATE INDEX IF NOT EXISTS "idx_price_history_store" ON "price_history"("store_id");
+CREATE INDEX IF NOT EXISTS "idx_price_history_product" ON "price_history"("product_name");
+CREATE INDEX IF NOT EXISTS "idx_store_specific_lists_user" ON "store_specific_lists"("user_id");
+CREATE INDEX IF NOT EXISTS "idx_store_specific_lists_store" ON "store_specific_lists"("store_id");
+CREATE INDEX IF NOT EXISTS "idx_smart_shopping_insights_user" ON "smart_shopping_insights"("user_id");
@@ -0,0 +1,8 @@
+-- Structured pantry quantities parsed from the free-text "quantity" column.
+-- Existing rows are backfilled by migrations/run-pantry-quantity-migration.ts,
+-- which uses the same parser as the API (shared/units.ts).
+
+ALTER TABLE "pantry_items"
+  ADD COLUMN IF NOT EXISTS "quantity_amount" double precision,
+  ADD COLUMN IF NOT EXISTS "quantity_unit" text,
+  ADD COLUMN IF NOT EXISTS "unit_family" text;
@@ -0,0 +1,3 @@
+-- Pantry stock deducted when a recipe is consumed, kept so it can be undone.
+ALTER TABLE "recipe_consumption"
+  ADD COLUMN IF NOT EXISTS "pantry_deductions" jsonb;
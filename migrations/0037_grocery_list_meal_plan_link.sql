@@ -0,0 +1,7 @@
+-- Grocery lists generated from a meal plan keep a link to it so they can be regenerated.
+-- "title" was already used by the client but never persisted.
+ALTER TABLE "grocery_lists"
+  ADD COLUMN IF NOT EXISTS "title" text,
+  ADD COLUMN IF NOT EXISTS "meal_plan_id" integer REFERENCES "meal_plans"("id") ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS "idx_grocery_lists_meal_plan_id" ON "grocery_lists" ("meal_plan_id");
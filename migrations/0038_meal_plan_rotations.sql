@@ -0,0 +1,10 @@
+-- Plans can repeat a one- or two-week template ("rotation_days") over any date range,
+-- with individual dates replaced through "overrides" ({ "yyyy-MM-dd": meals }).
+ALTER TABLE "meal_plans"
+  ADD COLUMN IF NOT EXISTS "rotation_days" integer,
+  ADD COLUMN IF NOT EXISTS "overrides" jsonb DEFAULT '{}'::jsonb NOT NULL;
+
+ALTER TABLE "meal_plans"
+  DROP CONSTRAINT IF EXISTS "meal_plans_rotation_days_check";
+ALTER TABLE "meal_plans"
+  ADD CONSTRAINT "meal_plans_rotation_days_check" CHECK ("rotation_days" IS NULL OR "rotation_days" IN (7, 14));
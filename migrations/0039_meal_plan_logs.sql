@@ -0,0 +1,17 @@
+-- Planned meals marked as eaten, skipped or swapped from the meal planner.
+CREATE TABLE IF NOT EXISTS "meal_plan_logs" (
+  "id" serial PRIMARY KEY NOT NULL,
+  "user_id" integer NOT NULL REFERENCES "users"("id"),
+  "meal_plan_id" integer NOT NULL REFERENCES "meal_plans"("id") ON DELETE CASCADE,
+  "date" text NOT NULL,
+  "meal_type" text NOT NULL,
+  "snack_index" integer DEFAULT 0 NOT NULL,
+  "status" text NOT NULL CHECK ("status" IN ('eaten', 'skipped', 'swapped')),
+  "consumption_id" integer REFERENCES "recipe_consumption"("id") ON DELETE SET NULL,
+  "nutrition" jsonb,
+  "logged_at" timestamp DEFAULT now() NOT NULL
+);
+
+-- One log per slot and date; logging again replaces it
+CREATE UNIQUE INDEX IF NOT EXISTS "idx_meal_plan_logs_slot"
+  ON "meal_plan_logs" ("meal_plan_id", "date", "meal_type", "snack_index");
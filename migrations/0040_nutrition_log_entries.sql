@@ -0,0 +1,110 @@
+-- Daily nutrition is logged one row per meal instead of the progress blob on nutrition_goals.
+CREATE TABLE IF NOT EXISTS "nutrition_log_entries" (
+  "id" serial PRIMARY KEY NOT NULL,
+  "user_id" integer NOT NULL REFERENCES "users"("id"),
+  "date" text NOT NULL,
+  "source" text NOT NULL CHECK ("source" IN ('recipe', 'meal-plan', 'manual', 'imported')),
+  "consumption_id" integer REFERENCES "recipe_consumption"("id") ON DELETE CASCADE,
+  "meal_plan_log_id" integer REFERENCES "meal_plan_logs"("id") ON DELETE CASCADE,
+  "meal_type" text,
+  "description" text NOT NULL,
+  "calories" double precision DEFAULT 0 NOT NULL,
+  "protein" double precision DEFAULT 0 NOT NULL,
+  "carbs" double precision DEFAULT 0 NOT NULL,
+  "fat" double precision DEFAULT 0 NOT NULL,
+  "created_at" timestamp DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS "idx_nutrition_log_entries_user_date"
+  ON "nutrition_log_entries" ("user_id", "date");
+
+-- Recipes already eaten
+INSERT INTO "nutrition_log_entries"
+  ("user_id", "date", "source", "consumption_id", "meal_type", "description", "calories", "protein", "carbs", "fat")
+SELECT
+  rc."user_id",
+  to_char(rc."consumed_at", 'YYYY-MM-DD'),
+  'recipe',
+  rc."id",
+  rc."meal_type",
+  r."title",
+  COALESCE((r."nutrition_info"->>'calories')::double precision, 0) * rc."servings",
+  COALESCE((r."nutrition_info"->>'protein')::double precision, 0) * rc."servings",
+  COALESCE((r."nutrition_info"->>'carbs')::double precision, 0) * rc."servings",
+  COALESCE((r."nutrition_info"->>'fat')::double precision, 0) * rc."servings"
+FROM "recipe_consumption" rc
+JOIN "recipes" r ON r."id" = rc."recipe_id"
+WHERE NOT EXISTS (
+  SELECT 1 FROM "nutrition_log_entries" e WHERE e."consumption_id" = rc."id"
+);
+
+-- Planned meals eaten without a library recipe
+INSERT INTO "nutrition_log_entries"
+  ("user_id", "date", "source", "meal_plan_log_id", "meal_type", "description", "calories", "protein", "carbs", "fat")
+SELECT
+  l."user_id",
+  l."date",
+  'meal-plan',
+  l."id",
+  l."meal_type",
+  'Planned ' || l."meal_type",
+  COALESCE((l."nutrition"->>'calories')::double precision, 0),
+  COALESCE((l."nutrition"->>'protein')::double precision, 0),
+  COALESCE((l."nutrition"->>'carbs')::double precision, 0),
+  COALESCE((l."nutrition"->>'fat')::double precision, 0)
+FROM "meal_plan_logs" l
+WHERE l."status" = 'eaten'
+  AND l."consumption_id" IS NULL
+  AND l."nutrition" IS NOT NULL
+  AND NOT EXISTS (
+    SELECT 1 FROM "nutrition_log_entries" e WHERE e."meal_plan_log_id" = l."id"
+  );
+
+-- Whatever the old progress blob recorded beyond the entries above becomes one imported entry per day
+DO $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'nutrition_goals' AND column_name = 'progress'
+  ) THEN
+    INSERT INTO "nutrition_log_entries"
+      ("user_id", "date", "source", "description", "calories", "protein", "carbs", "fat")
+    SELECT
+      p."user_id",
+      p."date",
+      'imported',
+      'Imported progress',
+      GREATEST(p."calories" - COALESCE(logged."calories", 0), 0),
+      GREATEST(p."protein" - COALESCE(logged."protein", 0), 0),
+      GREATEST(p."carbs" - COALESCE(logged."carbs", 0), 0),
+      GREATEST(p."fat" - COALESCE(logged."fat", 0), 0)
+    FROM (
+      SELECT
+        g."user_id",
+        day->>'date' AS "date",
+        SUM(COALESCE((day->>'calories')::double precision, 0)) AS "calories",
+        SUM(COALESCE((day->>'protein')::double precision, 0)) AS "protein",
+        SUM(COALESCE((day->>'carbs')::double precision, 0)) AS "carbs",
+        SUM(COALESCE((day->>'fat')::double precision, 0)) AS "fat"
+      FROM "nutrition_goals" g
+      CROSS JOIN LATERAL jsonb_array_elements(
+        CASE WHEN jsonb_typeof(g."progress") = 'array' THEN g."progress" ELSE '[]'::jsonb END
+      ) AS day
+      WHERE day->>'date' ~ '^\d{4}-\d{2}-\d{2}$'
+      GROUP BY g."user_id", day->>'date'
+    ) p
+    LEFT JOIN (
+      SELECT "user_id", "date",
+        SUM("calories") AS "calories", SUM("protein") AS "protein",
+        SUM("carbs") AS "carbs", SUM("fat") AS "fat"
+      FROM "nutrition_log_entries"
+      GROUP BY "user_id", "date"
+    ) logged ON logged."user_id" = p."user_id" AND logged."date" = p."date"
+    WHERE p."calories" > COALESCE(logged."calories", 0)
+       OR p."protein" > COALESCE(logged."protein", 0)
+       OR p."carbs" > COALESCE(logged."carbs", 0)
+       OR p."fat" > COALESCE(logged."fat", 0);
+
+    ALTER TABLE "nutrition_goals" DROP COLUMN "progress";
+  END IF;
+END $$;
@@ -0,0 +1,20 @@
+-- Micronutrients (fiber, sugar, sodium, vitamins and minerals) alongside calories and macros.
+-- Recipe and pantry nutrition_info gain an optional "micronutrients" object; no column change needed there.
+ALTER TABLE "nutrition_goals"
+  ADD COLUMN IF NOT EXISTS "micronutrient_targets" jsonb DEFAULT '{}'::jsonb NOT NULL;
+
+ALTER TABLE "nutrition_log_entries"
+  ADD COLUMN IF NOT EXISTS "micronutrients" jsonb DEFAULT '{}'::jsonb NOT NULL;
+
+-- Recipe entries pick up whatever micronutrients their recipe already lists
+UPDATE "nutrition_log_entries" e
+SET "micronutrients" = (
+  SELECT COALESCE(jsonb_object_agg(m.key, m.value::double precision * rc."servings"), '{}'::jsonb)
+  FROM jsonb_each_text(r."nutrition_info"->'micronutrients') m
+  WHERE m.value ~ '^[0-9]+(\.[0-9]+)?$'
+)
+FROM "recipe_consumption" rc
+JOIN "recipes" r ON r."id" = rc."recipe_id"
+WHERE e."consumption_id" = rc."id"
+  AND e."micronutrients" = '{}'::jsonb
+  AND jsonb_typeof(r."nutrition_info"->'micronutrients') = 'object';
@@ -0,0 +1,18 @@
+-- Foods logged without a recipe: nutrient-database foods and pantry items join manual entries.
+ALTER TABLE "nutrition_log_entries"
+  ADD COLUMN IF NOT EXISTS "pantry_item_id" integer REFERENCES "pantry_items"("id") ON DELETE SET NULL;
+
+ALTER TABLE "nutrition_log_entries"
+  ADD COLUMN IF NOT EXISTS "quantity" text;
+
+ALTER TABLE "nutrition_log_entries" DROP CONSTRAINT IF EXISTS "nutrition_log_entries_source_check";
+ALTER TABLE "nutrition_log_entries"
+  ADD CONSTRAINT "nutrition_log_entries_source_check"
+  CHECK ("source" IN ('recipe', 'meal-plan', 'manual', 'food', 'pantry', 'imported'));
+
+-- Recipe entries record how many servings were eaten
+UPDATE "nutrition_log_entries" e
+SET "quantity" = rc."servings" || CASE WHEN rc."servings" = 1 THEN ' serving' ELSE ' servings' END
+FROM "recipe_consumption" rc
+WHERE e."consumption_id" = rc."id"
+  AND e."quantity" IS NULL;
@@ -0,0 +1,23 @@
+-- Body profile and weight history for goals calculated from body metrics.
+CREATE TABLE IF NOT EXISTS "body_profiles" (
+  "id" serial PRIMARY KEY NOT NULL,
+  "user_id" integer NOT NULL UNIQUE REFERENCES "users"("id"),
+  "height_cm" double precision NOT NULL,
+  "date_of_birth" text NOT NULL,
+  "sex" text NOT NULL CHECK ("sex" IN ('male', 'female')),
+  "activity_level" text NOT NULL CHECK ("activity_level" IN ('sedentary', 'light', 'moderate', 'active', 'very-active')),
+  "goal" text NOT NULL CHECK ("goal" IN ('cut', 'maintain', 'bulk')),
+  "updated_at" timestamp DEFAULT now() NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS "weight_log_entries" (
+  "id" serial PRIMARY KEY NOT NULL,
+  "user_id" integer NOT NULL REFERENCES "users"("id"),
+  "date" text NOT NULL,
+  "weight_kg" double precision NOT NULL,
+  "created_at" timestamp DEFAULT now() NOT NULL,
+  CONSTRAINT "weight_log_entries_user_date" UNIQUE ("user_id", "date")
+);
+
+ALTER TABLE "nutrition_goals"
+  ADD COLUMN IF NOT EXISTS "adaptive" boolean DEFAULT false NOT NULL;
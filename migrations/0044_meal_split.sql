@@ -0,0 +1,4 @@
+-- Per-meal share of the daily nutrition targets, in percent.
+ALTER TABLE "nutrition_goals"
+  ADD COLUMN IF NOT EXISTS "meal_split" jsonb
+  DEFAULT '{"breakfast": 25, "lunch": 35, "dinner": 30, "snack": 10}'::jsonb NOT NULL;
@@ -0,0 +1,13 @@
+-- Recipe yield: nutrition_info is per serving, ingredients are for the whole batch.
+-- Existing recipes are treated as single-serving, which is how they were used so far.
+ALTER TABLE "recipes"
+  ADD COLUMN IF NOT EXISTS "servings" double precision DEFAULT 1 NOT NULL,
+  ADD COLUMN IF NOT EXISTS "yield_description" text;
+
+ALTER TABLE "recipes" DROP CONSTRAINT IF EXISTS "recipes_servings_positive";
+ALTER TABLE "recipes"
+  ADD CONSTRAINT "recipes_servings_positive" CHECK ("servings" > 0);
+
+-- Consumption can be a fraction of a serving
+ALTER TABLE "recipe_consumption"
+  ALTER COLUMN "servings" TYPE double precision;
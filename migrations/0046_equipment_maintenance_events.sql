@@ -0,0 +1,22 @@
+-- Maintenance history for kitchen equipment; schedules are computed from it on the server.
+CREATE TABLE IF NOT EXISTS "equipment_maintenance_events" (
+  "id" serial PRIMARY KEY NOT NULL,
+  "equipment_id" integer NOT NULL REFERENCES "kitchen_equipment"("id") ON DELETE CASCADE,
+  "user_id" integer NOT NULL REFERENCES "users"("id"),
+  "performed_at" text NOT NULL,
+  "notes" text,
+  "condition" text CHECK ("condition" IN ('excellent', 'good', 'fair', 'needs-maintenance', 'replace')),
+  "created_at" timestamp DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS "equipment_maintenance_events_equipment_idx"
+  ON "equipment_maintenance_events" ("equipment_id", "performed_at");
+
+-- Keep the last maintenance recorded so far as the first history entry
+INSERT INTO "equipment_maintenance_events" ("equipment_id", "user_id", "performed_at", "notes")
+SELECT "id", "user_id", left("last_maintenance_date"::text, 10), "maintenance_notes"
+FROM "kitchen_equipment"
+WHERE "last_maintenance_date" IS NOT NULL
+  AND NOT EXISTS (
+    SELECT 1 FROM "equipment_maintenance_events" e WHERE e."equipment_id" = "kitchen_equipment"."id"
+  );
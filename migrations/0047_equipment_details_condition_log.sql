@@ -0,0 +1,23 @@
+-- Brand, model, warranty and expected lifespan for kitchen equipment, plus a log of condition changes.
+ALTER TABLE "kitchen_equipment"
+  ADD COLUMN IF NOT EXISTS "brand" text,
+  ADD COLUMN IF NOT EXISTS "model" text,
+  ADD COLUMN IF NOT EXISTS "warranty_expiry" text,
+  ADD COLUMN IF NOT EXISTS "expected_lifespan_years" integer;
+
+ALTER TABLE "kitchen_equipment" DROP CONSTRAINT IF EXISTS "kitchen_equipment_lifespan_positive";
+ALTER TABLE "kitchen_equipment"
+  ADD CONSTRAINT "kitchen_equipment_lifespan_positive" CHECK ("expected_lifespan_years" IS NULL OR "expected_lifespan_years" > 0);
+
+CREATE TABLE IF NOT EXISTS "equipment_condition_changes" (
+  "id" serial PRIMARY KEY NOT NULL,
+  "equipment_id" integer NOT NULL REFERENCES "kitchen_equipment"("id") ON DELETE CASCADE,
+  "user_id" integer NOT NULL REFERENCES "users"("id"),
+  "from_condition" text NOT NULL,
+  "to_condition" text NOT NULL,
+  "note" text,
+  "changed_at" timestamp DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS "equipment_condition_changes_equipment_idx"
+  ON "equipment_condition_changes" ("equipment_id", "changed_at");
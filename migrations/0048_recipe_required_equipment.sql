@@ -0,0 +1,10 @@
+-- Kitchen tools each recipe needs, as a JSON array of tool ids. Existing rows stay NULL and are inferred from their instructions.
+ALTER TABLE "recipes" ADD COLUMN IF NOT EXISTS "required_equipment" jsonb;
+ALTER TABLE "cultural_recipes" ADD COLUMN IF NOT EXISTS "required_equipment" jsonb;
+
+ALTER TABLE "recipes" DROP CONSTRAINT IF EXISTS "recipes_required_equipment_array";
+ALTER TABLE "recipes"
+  ADD CONSTRAINT "recipes_required_equipment_array" CHECK ("required_equipment" IS NULL OR jsonb_typeof("required_equipment") = 'array');
+ALTER TABLE "cultural_recipes" DROP CONSTRAINT IF EXISTS "cultural_recipes_required_equipment_array";
+ALTER TABLE "cultural_recipes"
+  ADD CONSTRAINT "cultural_recipes_required_equipment_array" CHECK ("required_equipment" IS NULL OR jsonb_typeof("required_equipment") = 'array');
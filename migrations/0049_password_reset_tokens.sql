@@ -0,0 +1,41 @@
+-- Email address used for password reset links
+ALTER TABLE "users" ADD COLUMN IF NOT EXISTS "email" text;
+-- Emails that differ only by case would break the unique index; the oldest account keeps the
+-- address and the others are cleared so they can set it again from their profile
+UPDATE "users" SET "email" = NULL
+WHERE "email" IS NOT NULL AND EXISTS (
+  SELECT 1 FROM "users" AS "older"
+  WHERE lower(trim("older"."email")) = lower(trim("users"."email")) AND "older"."id" < "users"."id"
+);
+UPDATE "users" SET "email" = lower(trim("email")) WHERE "email" IS NOT NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS "users_email_lower_idx" ON "users" (lower("email"));
+
+-- Secret keys are stored as SHA-256 hashes; existing keys are hashed in place so they keep working
+ALTER TABLE "users" ADD COLUMN IF NOT EXISTS "secret_key_hash" text;
+DO $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM information_schema.columns WHERE table_name = 'users' AND column_name = 'secret_key'
+  ) THEN
+    UPDATE "users"
+    SET "secret_key_hash" = encode(sha256(convert_to("secret_key", 'UTF8')), 'hex')
+    WHERE "secret_key" IS NOT NULL AND "secret_key_hash" IS NULL;
+  END IF;
+END $$;
+ALTER TABLE "users" DROP COLUMN IF EXISTS "secret_key";
+
+-- Leftovers from the account fields script; reset tokens live in their own table
+ALTER TABLE "users" DROP COLUMN IF EXISTS "reset_token";
+ALTER TABLE "users" DROP COLUMN IF EXISTS "reset_token_expiry";
+
+-- Single-use password reset tokens; only a hash of each token is kept
+CREATE TABLE IF NOT EXISTS "password_reset_tokens" (
+  "id" serial PRIMARY KEY NOT NULL,
+  "user_id" integer NOT NULL REFERENCES "users"("id") ON DELETE CASCADE,
+  "token_hash" text NOT NULL,
+  "expires_at" timestamp NOT NULL,
+  "used_at" timestamp,
+  "created_at" timestamp DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS "password_reset_tokens_user_idx" ON "password_reset_tokens" ("user_id");
@@ -0,0 +1,48 @@
+import { db } from "../server/db";
+import { sql } from "drizzle-orm";
+import { pantryItems } from "../shared/schema";
+import { parseQuantity } from "../shared/units";
+
+async function runPantryQuantityMigration() {
+  try {
+    console.log('Starting pantry quantity migration...');
+
+    await db.execute(sql`
+      ALTER TABLE "pantry_items"
+      ADD COLUMN IF NOT EXISTS "quantity_amount" double precision,
+      ADD COLUMN IF NOT EXISTS "quantity_unit" text,
+      ADD COLUMN IF NOT EXISTS "unit_family" text
+    `);
+
+    const items = await db
+      .select({ id: pantryItems.id, quantity: pantryItems.quantity })
+      .from(pantryItems);
+
+    let parsedCount = 0;
+    const unparsed: string[] = [];
+    for (const item of items) {
+      const parsed = parseQuantity(item.quantity);
+      if (!parsed) {
+        unparsed.push(`#${item.id} "${item.quantity}"`);
+        continue;
+      }
+      await db.execute(sql`
+        UPDATE "pantry_items"
+        SET "quantity_amount" = ${parsed.amount}, "quantity_unit" = ${parsed.unit}, "unit_family" = ${parsed.family}
+        WHERE "id" = ${item.id}
+      `);
+      parsedCount++;
+    }
+
+    console.log(`Parsed ${parsedCount} of ${items.length} pantry quantities`);
+    if (unparsed.length > 0) {
+      console.log(`Left unparsed (fix these by editing the item): ${unparsed.join(', ')}`);
+    }
+    console.log('Pantry quantity migration completed successfully');
+  } catch (error) {
+    console.error('Migration failed:', error);
+    throw error;
+  }
+}
+
+runPantryQuantityMigration().catch(console.error);
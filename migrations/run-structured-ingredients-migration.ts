@@ -0,0 +1,81 @@
+import { db } from "../server/db";
+import { sql } from "drizzle-orm";
+import { recipes, culturalRecipes } from "../shared/schema";
+import { toRecipeIngredients, recipeIngredientSchema } from "../shared/ingredients";
+
+function isConverted(value: unknown): boolean {
+  return Array.isArray(value) && value.every(item => typeof item === "object" && recipeIngredientSchema.safeParse(item).success);
+}
+
+// Original values of every converted column, so ingredients the parser dropped can be recovered
+async function createBackupTable() {
+  await db.execute(sql`
+    CREATE TABLE IF NOT EXISTS "ingredients_backup" (
+      "id" serial PRIMARY KEY NOT NULL,
+      "table_name" text NOT NULL,
+      "column_name" text NOT NULL,
+      "row_id" integer NOT NULL,
+      "original" jsonb,
+      "backed_up_at" timestamp DEFAULT now() NOT NULL
+    )
+  `);
+}
+
+/**
+ * Rewrites one jsonb ingredient column as RecipeIngredient[]. Rows already
+ * converted are left alone, rows with nothing readable are skipped rather
+ * than emptied, and every rewritten row's original value is kept in
+ * ingredients_backup first.
+ */
+async function convertIngredients(table: string, column: string, rows: { id: number; ingredients: unknown }[]) {
+  let converted = 0;
+  const unreadable: number[] = [];
+  for (const row of rows) {
+    if (isConverted(row.ingredients)) continue;
+    const ingredients = toRecipeIngredients(row.ingredients);
+    if (ingredients.length === 0 && row.ingredients && Object.keys(row.ingredients).length > 0) {
+      unreadable.push(row.id);
+      continue;
+    }
+    // Backed up before the rewrite, so a failure in between loses nothing
+    await db.execute(sql`
+      INSERT INTO "ingredients_backup" ("table_name", "column_name", "row_id", "original")
+      VALUES (${table}, ${column}, ${row.id}, ${JSON.stringify(row.ingredients ?? null)}::jsonb)
+    `);
+    await db.execute(sql`
+      UPDATE ${sql.identifier(table)}
+      SET ${sql.identifier(column)} = ${JSON.stringify(ingredients)}::jsonb
+      WHERE "id" = ${row.id}
+    `);
+    converted++;
+  }
+
+  console.log(`Converted ${converted} of ${rows.length} rows in ${table} (originals saved in ingredients_backup)`);
+  if (unreadable.length > 0) {
+    console.log(`Left ${table} ${unreadable.map(id => `#${id}`).join(', ')} unchanged: no readable ingredients (re-enter them by editing the recipe)`);
+  }
+}
+
+async function runStructuredIngredientsMigration() {
+  try {
+    console.log('Starting structured ingredients migration...');
+    await createBackupTable();
+
+    const recipeRows = await db
+      .select({ id: recipes.id, ingredients: recipes.ingredients })
+      .from(recipes);
+    await convertIngredients("recipes", "ingredients", recipeRows);
+
+    const culturalRows = await db
+      .select({ id: culturalRecipes.id, ingredients: culturalRecipes.authenticIngredients })
+      .from(culturalRecipes);
+    await convertIngredients("cultural_recipes", "authentic_ingredients", culturalRows);
+
+    console.log('Structured ingredients migration completed successfully');
+  } catch (error) {
+    console.error('Migration failed:', error);
+    throw error;
+  }
+}
+
+runStructuredIngredientsMigration().catch(console.error);
@@ -0,0 +1,103 @@
+import { createHash, randomBytes, timingSafeEqual } from "crypto";
+
+// How long an emailed reset link stays valid
+export const RESET_TOKEN_TTL_MS = 60 * 60 * 1000;
+
+export const MIN_PASSWORD_LENGTH = 6;
+
+// 64 hex characters, shown to the user once at registration or when regenerated
+export function generateSecretKey(): string {
+  return randomBytes(32).toString("hex");
+}
+
+/**
+ * Secret keys and reset tokens are random 256-bit values, so a plain SHA-256
+ * is enough to store them; a slow password hash would add nothing.
+ */
+export function hashSecret(secret: string): string {
+  return createHash("sha256").update(secret, "utf8").digest("hex");
+}
+
+// Constant-time check of a supplied secret against a stored hash
+export function secretMatches(supplied: string, storedHash: string | null | undefined): boolean {
+  if (!storedHash) return false;
+  const expected = Buffer.from(storedHash, "hex");
+  const actual = Buffer.from(hashSecret(supplied), "hex");
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+export interface ResetToken {
+  // The token as sent in the link, `<id>.<secret>`
+  token: string;
+  // What gets stored
+  tokenHash: string;
+  expiresAt: Date;
+}
+
+/**
+ * A reset token carries its row id so the row can be looked up directly and
+ * the secret compared in constant time, rather than searched for by hash.
+ * The id is only known once the row exists, so the token is built in two steps.
+ */
+export function createResetSecret(now: Date = new Date()): { secret: string; tokenHash: string; expiresAt: Date } {
+  const secret = randomBytes(32).toString("base64url");
+  return { secret, tokenHash: hashSecret(secret), expiresAt: new Date(now.getTime() + RESET_TOKEN_TTL_MS) };
+}
+
+export function formatResetToken(id: number, secret: string): string {
+  return `${id}.${secret}`;
+}
+
+export function parseResetToken(token: unknown): { id: number; secret: string } | null {
+  if (typeof token !== "string") return null;
+  const match = /^(\d{1,10})\.([A-Za-z0-9_-]{16,128})$/.exec(token.trim());
+  if (!match) return null;
+  return { id: Number(match[1]), secret: match[2] };
+}
+
+export function resetTokenUsable(
+  token: { expiresAt: Date; usedAt: Date | null },
+  now: Date = new Date()
+): boolean {
+  return token.usedAt === null && token.expiresAt.getTime() > now.getTime();
+}
+
+function isLoopbackOrigin(origin: string): boolean {
+  try {
+    const { hostname } = new URL(origin);
+    return hostname === "localhost" || hostname === "127.0.0.1" || hostname === "[::1]";
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Where reset links point: APP_URL. The request's origin is set by whoever
+ * sends it, so it's only used by an explicit development server
+ * (NODE_ENV=development) and only when it names this machine. Null means
+ * no link can be built.
+ */
+export function resetLinkBaseUrl(
+  requestOrigin: string,
+  env: Record<string, string | undefined> = process.env
+): string | null {
+  if (env.APP_URL) return env.APP_URL.replace(/\/+$/, "");
+  if (env.NODE_ENV !== "development") return null;
+  return isLoopbackOrigin(requestOrigin) ? requestOrigin : null;
+}
+
+export function passwordResetEmail(username: string, resetUrl: string): { subject: string; text: string } {
+  const minutes = Math.round(RESET_TOKEN_TTL_MS / 60000);
+  return {
+    subject: "Reset your NutriVerse AI password",
+    text: [
+      `Hi ${username},`,
+      "",
+      "Someone asked to reset the password for your NutriVerse AI account. Open this link to choose a new one:",
+      "",
+      resetUrl,
+      "",
+      `The link works once and expires in ${minutes} minutes. If you didn't ask for this, you can ignore this email.`,
+    ].join("\n"),
+  };
+}
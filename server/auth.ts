@@ -4,7 +4,21 @@ import { Express, Request, Response, NextFunction } from "express";
 import session from "express-session";
 import { scrypt, randomBytes, timingSafeEqual } from "crypto";
 import { promisify } from "util";
+import { z } from "zod";
 import { storage } from "./storage";
+import { sendMail } from "./mail";
+import {
+  MIN_PASSWORD_LENGTH,
+  generateSecretKey,
+  hashSecret,
+  secretMatches,
+  createResetSecret,
+  formatResetToken,
+  parseResetToken,
+  resetTokenUsable,
+  passwordResetEmail,
+  resetLinkBaseUrl,
+} from "./account-recovery";
 
 // Define core types
 type UserPreferences = Record<string, any>;
@@ -19,7 +33,7 @@ interface RawUserData {
   preferences: unknown;
   dnaProfile?: unknown;
   moodJournal?: unknown[] | null;
-  secretKey?: string;
+  secretKeyHash?: string;
 }
 
 // Processed storage user with correct types
@@ -32,7 +46,7 @@ interface StorageUser {
   preferences: UserPreferences;
   dnaProfile?: unknown;
   moodJournal?: unknown[] | null;
-  secretKey?: string;
+  secretKeyHash?: string;
 }
 
 // Safe user type for client
@@ -76,12 +90,6 @@ async function comparePasswords(supplied: string, stored: string) {
   return timingSafeEqual(hashedBuf, suppliedBuf);
 }
 
-// Generate a unique secret key
-function generateSecretKey(): string {
-  // Generate 32 random bytes and convert to hex for a 64-character key
-  return randomBytes(32).toString('hex');
-}
-
 // Convert raw storage data to proper types
 function processStorageUser(raw: RawUserData): StorageUser {
   return {
@@ -93,10 +101,23 @@ function processStorageUser(raw: RawUserData): StorageUser {
 // Helper to remove sensitive data from user object
 function sanitizeUser(raw: RawUserData): SafeUser {
   const user = processStorageUser(raw);
-  const { password, dnaProfile, moodJournal, secretKey, ...safeUser } = user;
+  const { password, dnaProfile, moodJournal, secretKeyHash, ...safeUser } = user;
   return safeUser;
 }
 
+// Stored lower-cased so the case-insensitive unique index and lookups agree
+const emailSchema = z.string().trim().toLowerCase().email();
+
+// Postgres unique_violation, e.g. two sign-ups racing for the same email
+function isUniqueViolation(err: unknown): boolean {
+  return (err as { code?: string } | null)?.code === "23505";
+}
+
+// Behind the dev server's proxy the Host header is the API's, so the browser's origin comes first
+function appBaseUrl(req: Request): string | null {
+  return resetLinkBaseUrl(req.get("origin") || `${req.protocol}://${req.get("host")}`);
+}
+
 export function setupAuth(app: Express) {
   // Session middleware setup
   const sessionMiddleware = session({
@@ -170,8 +191,8 @@ export function setupAuth(app: Express) {
       }
       
       // Validate password length
-      if (req.body.password.length < 6) {
-        return res.status(400).json({ message: "Password must be at least 6 characters long" });
+      if (req.body.password.length < MIN_PASSWORD_LENGTH) {
+        return res.status(400).json({ message: `Password must be at least ${MIN_PASSWORD_LENGTH} characters long` });
       }
 
       const existingUser = await storage.getUserByUsername(req.body.username);
@@ -179,14 +200,28 @@ export function setupAuth(app: Express) {
         return res.status(400).json({ message: "Username already exists" });
       }
 
-      // Generate secret key for the user
+      // Email is optional at sign-up but must be valid and unused when given
+      let email: string | undefined;
+      if (typeof req.body.email === "string" && req.body.email.trim() !== "") {
+        const parsed = emailSchema.safeParse(req.body.email);
+        if (!parsed.success) {
+          return res.status(400).json({ message: "Please enter a valid email address" });
+        }
+        if (await storage.getUserByEmail(parsed.data)) {
+          return res.status(400).json({ message: "That email address is already in use" });
+        }
+        email = parsed.data;
+      }
+
+      // Generate secret key for the user; only its hash is stored
       const secretKey = generateSecretKey();
 
       const hashedPassword = await hashPassword(req.body.password);
       const user = await storage.createUser({
-        ...req.body,
+        username: req.body.username,
         password: hashedPassword,
-        secretKey
+        email,
+        secretKeyHash: hashSecret(secretKey)
       });
 
       const safeUser = sanitizeUser(user);
@@ -203,55 +238,30 @@ export function setupAuth(app: Express) {
         });
       });
     } catch (err) {
+      if (isUniqueViolation(err)) {
+        return res.status(400).json({ message: "Username or email already in use" });
+      }
       console.error("Registration error:", err);
       res.status(500).json({ message: "Registration failed" });
     }
   });
 
-  // Login endpoint with support for both password and secret key
-  app.post("/api/login", async (req, res, next) => {
-    const { username, password, secretKey } = req.body;
-
-    // If secret key is provided, use it for authentication
-    if (secretKey) {
-      try {
-        const user = await storage.getUserByUsername(username);
-        if (!user) {
-          return res.status(401).json({ message: "User does not exist" });
-        }
-
-        // Verify secret key
-        if (user.secretKey !== secretKey) {
-          return res.status(401).json({ message: "Invalid secret key" });
-        }
-
-        const safeUser = sanitizeUser(user);
-        req.login(safeUser, (err) => {
-          if (err) {
-            return res.status(500).json({ message: "Login failed" });
-          }
-          res.json(safeUser);
-        });
-      } catch (err) {
-        next(err);
+  // Login endpoint
+  app.post("/api/login", (req, res, next) => {
+    passport.authenticate("local", (err: any, user: SafeUser | false, info: any) => {
+      if (err) {
+        return res.status(500).json({ message: "Login failed" });
+      }
+      if (!user) {
+        return res.status(401).json({ message: info?.message || "Invalid credentials" });
       }
-    } else {
-      // Use regular password authentication
-      passport.authenticate("local", (err: any, user: SafeUser | false, info: any) => {
+      req.login(user, (err) => {
         if (err) {
           return res.status(500).json({ message: "Login failed" });
         }
-        if (!user) {
-          return res.status(401).json({ message: info?.message || "Invalid credentials" });
-        }
-        req.login(user, (err) => {
-          if (err) {
-            return res.status(500).json({ message: "Login failed" });
-          }
-          res.json(user);
-        });
-      })(req, res, next);
-    }
+        res.json(user);
+      });
+    })(req, res, next);
   });
 
   // Change password endpoint - updated to handle both authenticated and unauthenticated requests
@@ -261,24 +271,21 @@ export function setupAuth(app: Express) {
 
       // Handle unauthenticated password reset using secret key
       if (!req.isAuthenticated()) {
-        if (!username || !secretKey || !newPassword) {
+        if (typeof username !== "string" || typeof secretKey !== "string" || typeof newPassword !== "string" ||
+            !username || !secretKey || !newPassword) {
           return res.status(400).json({ 
             message: "Username, secret key, and new password are required for password reset" 
           });
         }
 
-        const user = await storage.getUserByUsername(username);
-        if (!user) {
-          return res.status(404).json({ message: "User not found" });
+        if (newPassword.length < MIN_PASSWORD_LENGTH) {
+          return res.status(400).json({ message: `New password must be at least ${MIN_PASSWORD_LENGTH} characters long` });
         }
 
-        // Verify secret key
-        if (user.secretKey !== secretKey) {
-          return res.status(401).json({ message: "Invalid secret key" });
-        }
-
-        if (newPassword.length < 6) {
-          return res.status(400).json({ message: "New password must be at least 6 characters long" });
+        // Same answer for an unknown user and a wrong key, compared in constant time
+        const user = await storage.getUserByUsername(username);
+        if (!user || !secretMatches(secretKey, user.secretKeyHash)) {
+          return res.status(401).json({ message: "Invalid username or secret key" });
         }
 
         const hashedPassword = await hashPassword(newPassword);
@@ -286,6 +293,7 @@ export function setupAuth(app: Express) {
           ...user,
           password: hashedPassword
         });
+        await storage.invalidatePasswordResetTokens(user.id);
 
         return res.json({ message: "Password updated successfully" });
       }
@@ -306,8 +314,8 @@ export function setupAuth(app: Express) {
         return res.status(401).json({ message: "Current password is incorrect" });
       }
 
-      if (updatedPassword.length < 6) {
-        return res.status(400).json({ message: "New password must be at least 6 characters long" });
+      if (updatedPassword.length < MIN_PASSWORD_LENGTH) {
+        return res.status(400).json({ message: `New password must be at least ${MIN_PASSWORD_LENGTH} characters long` });
       }
 
       const hashedPassword = await hashPassword(updatedPassword);
@@ -315,6 +323,7 @@ export function setupAuth(app: Express) {
         ...user,
         password: hashedPassword
       });
+      await storage.invalidatePasswordResetTokens(user.id);
 
       res.json({ message: "Password updated successfully" });
     } catch (error) {
@@ -323,6 +332,99 @@ export function setupAuth(app: Express) {
     }
   });
 
+  // Email a single-use reset link. The answer is the same whether or not the
+  // email belongs to an account, so this can't be used to look accounts up.
+  app.post("/api/account/forgot-password", async (req, res) => {
+    const email = emailSchema.safeParse(req.body?.email);
+    if (!email.success) {
+      return res.status(400).json({ message: "Please enter a valid email address" });
+    }
+
+    try {
+      const user = await storage.getUserByEmail(email.data);
+      if (user?.email) {
+        const baseUrl = appBaseUrl(req);
+        if (!baseUrl) {
+          throw new Error("APP_URL must be set to send password reset links outside local development");
+        }
+        const { secret, tokenHash, expiresAt } = createResetSecret();
+        const { id } = await storage.createPasswordResetToken(user.id, tokenHash, expiresAt);
+        const resetUrl = `${baseUrl}/reset-password?token=${encodeURIComponent(formatResetToken(id, secret))}`;
+        await sendMail({ to: user.email, ...passwordResetEmail(user.username, resetUrl) });
+      }
+    } catch (error) {
+      console.error("Password reset email error:", error);
+    }
+
+    res.json({ message: "If an account with this email exists, you will receive a password reset link." });
+  });
+
+  // Set a new password with a token from a reset email
+  app.post("/api/account/reset-password", async (req, res) => {
+    try {
+      const { token, newPassword } = req.body;
+
+      if (typeof newPassword !== "string" || newPassword.length < MIN_PASSWORD_LENGTH) {
+        return res.status(400).json({ message: `New password must be at least ${MIN_PASSWORD_LENGTH} characters long` });
+      }
+
+      const invalidLink = { message: "This reset link is invalid or has expired. Please request a new one." };
+      const parsed = parseResetToken(token);
+      const stored = parsed ? await storage.getPasswordResetToken(parsed.id) : undefined;
+      if (!parsed || !stored || !secretMatches(parsed.secret, stored.tokenHash) || !resetTokenUsable(stored)) {
+        return res.status(400).json(invalidLink);
+      }
+
+      // Claim the token before changing anything, so a second request with it fails
+      if (!(await storage.consumePasswordResetToken(stored.id))) {
+        return res.status(400).json(invalidLink);
+      }
+
+      const hashedPassword = await hashPassword(newPassword);
+      await storage.updateUser(stored.userId, { password: hashedPassword });
+      await storage.invalidatePasswordResetTokens(stored.userId);
+
+      res.json({ message: "Password updated successfully" });
+    } catch (error) {
+      console.error("Password reset error:", error);
+      res.status(500).json({ message: "Failed to reset password" });
+    }
+  });
+
+  // Replace the secret key; the old one stops working straight away
+  app.post("/api/account/secret-key", async (req, res) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ message: "Not authenticated" });
+      }
+
+      const { password } = req.body;
+      if (typeof password !== "string" || !password) {
+        return res.status(400).json({ message: "Password is required" });
+      }
+
+      const user = await storage.getUser(req.user.id);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      if (!(await comparePasswords(password, user.password))) {
+        return res.status(401).json({ message: "Invalid password" });
+      }
+
+      const secretKey = generateSecretKey();
+      await storage.updateUser(user.id, { secretKeyHash: hashSecret(secretKey) });
+
+      res.json({
+        secretKey,
+        message: "Please save this secret key in a secure place. Your previous key no longer works."
+      });
+    } catch (error) {
+      console.error("Secret key error:", error);
+      res.status(500).json({ message: "Failed to generate a new secret key" });
+    }
+  });
+
   // Logout endpoint
   app.post("/api/logout", (req, res) => {
     req.logout((err) => {
@@ -348,9 +450,28 @@ export function setupAuth(app: Express) {
         return res.status(401).json({ message: "Not authenticated" });
       }
 
+      // Credentials only change through their own endpoints
+      const { password, secretKeyHash, id, ...changes } = req.body;
+
+      if (changes.email !== undefined) {
+        if (changes.email === null || (typeof changes.email === "string" && changes.email.trim() === "")) {
+          changes.email = null;
+        } else {
+          const email = emailSchema.safeParse(changes.email);
+          if (!email.success) {
+            return res.status(400).json({ message: "Please enter a valid email address" });
+          }
+          const owner = await storage.getUserByEmail(email.data);
+          if (owner && owner.id !== req.user.id) {
+            return res.status(400).json({ message: "That email address is already in use" });
+          }
+          changes.email = email.data;
+        }
+      }
+
       const updates = {
         ...req.user,
-        ...req.body,
+        ...changes,
         id: req.user.id // Ensure ID doesn't change
       };
 
@@ -1,8 +1,12 @@
 import { config } from 'dotenv';
 import { resolve, dirname } from 'path';
 import { fileURLToPath } from 'url';
-import { neon, neonConfig } from "@neondatabase/serverless";
-import { drizzle } from 'drizzle-orm/neon-http';
+import { neon, neonConfig, Pool } from "@neondatabase/serverless";
+import { type NeonHttpDatabase } from 'drizzle-orm/neon-http';
+import { drizzle as drizzleNeonPool } from 'drizzle-orm/neon-serverless';
+import { drizzle as drizzleNodePostgres } from 'drizzle-orm/node-postgres';
+import pg from 'pg';
+import ws from 'ws';
 import * as schema from "@shared/schema";
 
 const __filename = fileURLToPath(import.meta.url);
@@ -17,14 +21,43 @@ if (!process.env.DATABASE_URL) {
 
 // Configure neon with retries and logging
 neonConfig.fetchConnectionCache = true;
-neonConfig.webSocketConstructor = undefined; // Disable WebSocket for serverless
+// Queries go over HTTP, but transactions need the WebSocket pool
+neonConfig.webSocketConstructor = ws;
 neonConfig.useSecure = true; // Ensure SSL is used
 
 const MAX_RETRIES = 3;
 const RETRY_DELAY = 1000; // 1 second
 
+// Neon's HTTP driver can't reach a plain Postgres server, so local databases
+// (e.g. the one the test suite runs against) go through node-postgres instead
+function isLocalDatabaseUrl(url: string) {
+  const { hostname } = new URL(url);
+  return hostname === 'localhost' || hostname === '127.0.0.1' || hostname === '::1';
+}
+
+async function createLocalDatabaseConnection() {
+  const localPool = new pg.Pool({ connectionString: process.env.DATABASE_URL });
+  await localPool.query('SELECT 1');
+  console.log('Local database connection established successfully');
+
+  // Mirror neon's tagged-template call style so migration scripts keep working
+  const sql = async (strings: TemplateStringsArray, ...values: unknown[]) => {
+    const text = strings.reduce((query, part, i) => query + '$' + i + part);
+    const { rows } = await localPool.query(text, values);
+    return rows;
+  };
+
+  // Both drivers expose the same query builder; type them alike so callers don't see a union
+  const db = drizzleNodePostgres(localPool, { schema }) as unknown as NeonHttpDatabase<typeof schema>;
+  return { sql: sql as unknown as ReturnType<typeof neon>, db };
+}
+
 async function createDatabaseConnection() {
   let lastError;
+
+  if (isLocalDatabaseUrl(process.env.DATABASE_URL!)) {
+    return createLocalDatabaseConnection();
+  }
   
   for (let i = 0; i < MAX_RETRIES; i++) {
     try {
@@ -35,8 +68,9 @@ async function createDatabaseConnection() {
       await sql`SELECT 1`;
       console.log('Database connection established successfully');
       
-      // Create and return the connection and ORM instance
-      const db = drizzle(sql, { schema });
+      // Create and return the connection and ORM instance; the pool is what lets db.transaction work
+      const neonPool = new Pool({ connectionString: process.env.DATABASE_URL });
+      const db = drizzleNeonPool(neonPool, { schema }) as unknown as NeonHttpDatabase<typeof schema>;
       return { sql, db };
     } catch (error) {
       lastError = error;
@@ -0,0 +1,187 @@
+import { normalizeItemName } from "@shared/ingredients";
+import type { SlotNutrition } from "@shared/meal-plans";
+import type { Micronutrients } from "@shared/nutrients";
+
+export interface FoodRecord {
+  name: string;
+  aliases: string[];
+  // Per 100 g of the food as usually bought: raw meat and vegetables, dry grains and pulses
+  per100g: SlotNutrition;
+  // Grams in one millilitre, for foods measured in cups and spoons
+  gramsPerMl?: number;
+  // Grams in one whole item, for "2 eggs" or "1 onion"
+  gramsPerEach?: number;
+  // Grams in a named portion such as a clove, slice or can
+  portions?: Record<string, number>;
+}
+
+function per100g(calories: number, protein: number, carbs: number, fat: number, micronutrients: Micronutrients): SlotNutrition {
+  return { calories, protein, carbs, fat, micronutrients };
+}
+
+// Values are rounded from USDA FoodData Central (SR Legacy) entries
+export const FOODS: FoodRecord[] = [
+  // Grains, flours and baking
+  { name: "all-purpose flour", aliases: ["flour", "plain flour", "white flour", "bread flour", "self-raising flour"], per100g: per100g(364, 10.3, 76.3, 1, { fiber: 2.7, sugar: 0.3, saturatedFat: 0.2, sodium: 2, iron: 4.6, calcium: 15, potassium: 107 }), gramsPerMl: 0.53 },
+  { name: "whole wheat flour", aliases: ["wholemeal flour", "whole wheat"], per100g: per100g(340, 13.2, 72, 2.5, { fiber: 10.7, sugar: 0.4, saturatedFat: 0.4, sodium: 2, iron: 3.6, potassium: 363 }), gramsPerMl: 0.51 },
+  { name: "cornstarch", aliases: ["corn starch", "cornflour"], per100g: per100g(381, 0.3, 91.3, 0.1, { fiber: 0.9, sodium: 9 }), gramsPerMl: 0.54 },
+  { name: "white rice", aliases: ["rice", "basmati rice", "jasmine rice", "long grain rice", "arborio rice"], per100g: per100g(365, 7.1, 80, 0.7, { fiber: 1.3, sugar: 0.1, sodium: 5, iron: 0.8, potassium: 115 }), gramsPerMl: 0.85 },
+  { name: "brown rice", aliases: [], per100g: per100g(370, 7.9, 77.2, 2.9, { fiber: 3.5, sugar: 0.9, saturatedFat: 0.6, sodium: 7, iron: 1.5, potassium: 223 }), gramsPerMl: 0.8 },
+  { name: "pasta", aliases: ["spaghetti", "penne", "macaroni", "fusilli", "linguine", "fettuccine", "noodle"], per100g: per100g(371, 13, 74.7, 1.5, { fiber: 3.2, sugar: 2.7, saturatedFat: 0.3, sodium: 6, iron: 3.3 }), gramsPerMl: 0.4 },
+  { name: "rolled oats", aliases: ["oats", "oatmeal", "old fashioned oats", "porridge oats"], per100g: per100g(379, 13.2, 67.7, 6.5, { fiber: 10.1, sugar: 1, saturatedFat: 1.1, sodium: 6, iron: 4.3, potassium: 362 }), gramsPerMl: 0.34 },
+  { name: "quinoa", aliases: [], per100g: per100g(368, 14.1, 64.2, 6.1, { fiber: 7, saturatedFat: 0.7, sodium: 5, iron: 4.6, potassium: 563 }), gramsPerMl: 0.72 },
+  { name: "whole wheat bread", aliases: ["bread", "wholemeal bread", "whole grain bread"], per100g: per100g(252, 12.4, 42.7, 3.5, { fiber: 6, sugar: 4.4, saturatedFat: 0.7, sodium: 450, iron: 2.5 }), gramsPerEach: 32, portions: { slice: 32, loaf: 450 } },
+  { name: "white bread", aliases: ["sandwich bread", "baguette", "sourdough bread"], per100g: per100g(266, 7.6, 50.6, 3.3, { fiber: 2.4, sugar: 5.7, saturatedFat: 0.7, sodium: 490, calcium: 151, iron: 3.7 }), gramsPerEach: 25, portions: { slice: 25, loaf: 450 } },
+  { name: "flour tortilla", aliases: ["tortilla", "wrap"], per100g: per100g(304, 8.2, 50, 8, { fiber: 3.5, sugar: 3, saturatedFat: 3, sodium: 736 }), gramsPerEach: 45 },
+  { name: "breadcrumbs", aliases: ["bread crumbs", "panko"], per100g: per100g(395, 13.4, 71.9, 5.3, { fiber: 4.5, sugar: 6.2, saturatedFat: 1.2, sodium: 732 }), gramsPerMl: 0.45 },
+  { name: "granulated sugar", aliases: ["sugar", "white sugar", "caster sugar", "superfine sugar"], per100g: per100g(387, 0, 100, 0, { sugar: 99.8, sodium: 1 }), gramsPerMl: 0.85 },
+  { name: "brown sugar", aliases: ["light brown sugar", "dark brown sugar"], per100g: per100g(380, 0.1, 98.1, 0, { sugar: 97, sodium: 28, calcium: 83 }), gramsPerMl: 0.93 },
+  { name: "powdered sugar", aliases: ["icing sugar", "confectioners sugar"], per100g: per100g(389, 0, 99.8, 0, { sugar: 97.8, sodium: 2 }), gramsPerMl: 0.51 },
+  { name: "honey", aliases: [], per100g: per100g(304, 0.3, 82.4, 0, { fiber: 0.2, sugar: 82.1, sodium: 4 }), gramsPerMl: 1.42 },
+  { name: "maple syrup", aliases: [], per100g: per100g(260, 0, 67, 0.1, { sugar: 60.5, sodium: 12, calcium: 102 }), gramsPerMl: 1.32 },
+  { name: "baking powder", aliases: [], per100g: per100g(53, 0, 27.7, 0, { sodium: 10600 }), gramsPerMl: 0.9 },
+  { name: "baking soda", aliases: ["bicarbonate of soda", "bicarb soda"], per100g: per100g(0, 0, 0, 0, { sodium: 27360 }), gramsPerMl: 1.1 },
+  { name: "dry yeast", aliases: ["yeast", "instant yeast", "active dry yeast"], per100g: per100g(325, 40.4, 41.2, 7.6, { fiber: 26.9, sodium: 51 }), gramsPerMl: 0.64, portions: { packet: 7, sachet: 7 } },
+  { name: "cocoa powder", aliases: ["cocoa", "unsweetened cocoa"], per100g: per100g(228, 19.6, 57.9, 13.7, { fiber: 37, sugar: 1.8, saturatedFat: 8.1, sodium: 21, iron: 13.9, potassium: 1524 }), gramsPerMl: 0.36 },
+  { name: "chocolate chips", aliases: ["chocolate", "dark chocolate", "semisweet chocolate", "chocolate chunk"], per100g: per100g(480, 4.2, 64, 30, { fiber: 5.9, sugar: 55, saturatedFat: 18, sodium: 11, iron: 3.1 }), gramsPerMl: 0.71 },
+  { name: "vanilla extract", aliases: ["vanilla", "vanilla essence"], per100g: per100g(288, 0.1, 12.7, 0.1, { sugar: 12.7, sodium: 9 }), gramsPerMl: 0.88 },
+
+  // Dairy and eggs
+  { name: "egg", aliases: ["whole egg", "large egg"], per100g: per100g(143, 12.6, 0.7, 9.5, { sugar: 0.4, saturatedFat: 3.1, sodium: 142, cholesterol: 372, calcium: 56, iron: 1.8, vitaminA: 160, vitaminD: 2 }), gramsPerEach: 50, gramsPerMl: 1.03 },
+  { name: "egg white", aliases: [], per100g: per100g(52, 10.9, 0.7, 0.2, { sugar: 0.7, sodium: 166, potassium: 163 }), gramsPerEach: 33, gramsPerMl: 1.03 },
+  { name: "egg yolk", aliases: [], per100g: per100g(322, 15.9, 3.6, 26.5, { saturatedFat: 9.6, sodium: 48, cholesterol: 1085, vitaminA: 381, vitaminD: 5.4 }), gramsPerEach: 17 },
+  { name: "whole milk", aliases: ["milk"], per100g: per100g(61, 3.2, 4.8, 3.3, { sugar: 5.1, saturatedFat: 1.9, sodium: 43, cholesterol: 10, calcium: 113, potassium: 132, vitaminA: 46, vitaminD: 1.3 }), gramsPerMl: 1.03 },
+  { name: "skim milk", aliases: ["skimmed milk", "fat free milk", "low fat milk", "semi skimmed milk"], per100g: per100g(34, 3.4, 5, 0.1, { sugar: 5, sodium: 42, calcium: 122, potassium: 156, vitaminD: 1.2 }), gramsPerMl: 1.03 },
+  { name: "butter", aliases: ["salted butter", "unsalted butter"], per100g: per100g(717, 0.9, 0.1, 81.1, { saturatedFat: 51.4, sodium: 643, cholesterol: 215, vitaminA: 684 }), gramsPerMl: 0.96, portions: { stick: 113 } },
+  { name: "heavy cream", aliases: ["cream", "double cream", "whipping cream", "heavy whipping cream"], per100g: per100g(340, 2.8, 2.7, 36, { sugar: 2.9, saturatedFat: 23, sodium: 27, cholesterol: 113, calcium: 66, vitaminA: 411 }), gramsPerMl: 1 },
+  { name: "sour cream", aliases: [], per100g: per100g(198, 2.4, 4.6, 19.4, { sugar: 3.4, saturatedFat: 10.1, sodium: 31, cholesterol: 59, calcium: 101 }), gramsPerMl: 0.97 },
+  { name: "plain yogurt", aliases: ["yogurt", "yoghurt", "natural yogurt"], per100g: per100g(61, 3.5, 4.7, 3.3, { sugar: 4.7, saturatedFat: 2.1, sodium: 46, cholesterol: 13, calcium: 121 }), gramsPerMl: 1.03 },
+  { name: "greek yogurt", aliases: ["greek yoghurt"], per100g: per100g(59, 10.2, 3.6, 0.4, { sugar: 3.2, sodium: 36, calcium: 110 }), gramsPerMl: 1.05 },
+  { name: "cheddar cheese", aliases: ["cheddar", "cheese"], per100g: per100g(403, 24.9, 1.3, 33.1, { saturatedFat: 21.1, sodium: 621, cholesterol: 105, calcium: 721, vitaminA: 265 }), gramsPerMl: 0.47, portions: { slice: 28 } },
+  { name: "parmesan cheese", aliases: ["parmesan", "parmigiano reggiano", "pecorino"], per100g: per100g(431, 38.5, 4.1, 28.6, { saturatedFat: 17.3, sodium: 1529, cholesterol: 88, calcium: 1109 }), gramsPerMl: 0.42 },
+  { name: "mozzarella cheese", aliases: ["mozzarella"], per100g: per100g(300, 22.2, 2.2, 22.4, { saturatedFat: 13.2, sodium: 627, cholesterol: 79, calcium: 505 }), gramsPerMl: 0.47, portions: { ball: 125 } },
+  { name: "feta cheese", aliases: ["feta"], per100g: per100g(264, 14.2, 4.1, 21.3, { sugar: 4.1, saturatedFat: 14.9, sodium: 1116, cholesterol: 89, calcium: 493 }), gramsPerMl: 0.63 },
+  { name: "cream cheese", aliases: [], per100g: per100g(342, 5.9, 4.1, 34.2, { sugar: 3.2, saturatedFat: 19.3, sodium: 321, cholesterol: 110 }), gramsPerMl: 1 },
+
+  // Meat, fish and plant proteins
+  { name: "chicken breast", aliases: ["chicken", "boneless chicken breast", "chicken fillet"], per100g: per100g(120, 22.5, 0, 2.6, { saturatedFat: 0.6, sodium: 45, cholesterol: 73, potassium: 334, iron: 0.4 }), gramsPerEach: 170 },
+  { name: "chicken thigh", aliases: ["boneless chicken thigh"], per100g: per100g(121, 19.7, 0, 4.1, { saturatedFat: 1, sodium: 95, cholesterol: 94, potassium: 242, iron: 0.8 }), gramsPerEach: 110 },
+  { name: "ground beef", aliases: ["minced beef", "beef mince", "hamburger meat"], per100g: per100g(254, 17.2, 0, 20, { saturatedFat: 7.6, sodium: 66, cholesterol: 71, potassium: 270, iron: 1.9 }) },
+  { name: "beef steak", aliases: ["beef", "sirloin", "stewing beef", "beef chuck"], per100g: per100g(160, 21, 0, 8, { saturatedFat: 3, sodium: 55, cholesterol: 66, iron: 1.8, potassium: 330 }), gramsPerEach: 225 },
+  { name: "ground turkey", aliases: ["turkey mince", "minced turkey", "turkey"], per100g: per100g(148, 19.7, 0, 7.7, { saturatedFat: 2.2, sodium: 71, cholesterol: 74, iron: 1.1 }) },
+  { name: "pork loin", aliases: ["pork", "pork chop", "pork tenderloin"], per100g: per100g(143, 21.2, 0, 5.7, { saturatedFat: 1.9, sodium: 52, cholesterol: 65, potassium: 399 }), gramsPerEach: 170 },
+  { name: "bacon", aliases: ["streaky bacon", "pancetta"], per100g: per100g(417, 13, 1.4, 39.7, { saturatedFat: 13.3, sodium: 833, cholesterol: 66 }), gramsPerEach: 28, portions: { slice: 28, rasher: 28, strip: 28 } },
+  { name: "salmon", aliases: ["salmon fillet"], per100g: per100g(208, 20.4, 0, 13.4, { saturatedFat: 3.1, sodium: 59, cholesterol: 55, potassium: 363, vitaminA: 58, vitaminD: 11 }), gramsPerEach: 170, portions: { fillet: 170 } },
+  { name: "white fish", aliases: ["cod", "haddock", "tilapia", "pollock"], per100g: per100g(82, 17.8, 0, 0.7, { sodium: 54, cholesterol: 43, potassium: 413 }), gramsPerEach: 180, portions: { fillet: 180 } },
+  { name: "canned tuna", aliases: ["tuna"], per100g: per100g(116, 25.5, 0, 0.8, { sodium: 338, cholesterol: 30, vitaminD: 1.7 }), portions: { can: 142, tin: 142 } },
+  { name: "shrimp", aliases: ["prawn", "king prawn"], per100g: per100g(85, 20.1, 0, 0.5, { sodium: 119, cholesterol: 161, calcium: 64 }), gramsPerEach: 12 },
+  { name: "firm tofu", aliases: ["tofu", "extra firm tofu"], per100g: per100g(144, 17.3, 2.8, 8.7, { fiber: 2.3, saturatedFat: 1.3, sodium: 14, calcium: 683, iron: 2.7 }), gramsPerMl: 1.06, portions: { block: 400, package: 400 } },
+  { name: "lentils", aliases: ["red lentils", "green lentils", "brown lentils"], per100g: per100g(352, 24.6, 63.4, 1.1, { fiber: 10.7, sugar: 2, sodium: 6, iron: 6.5, potassium: 677 }), gramsPerMl: 0.82 },
+  { name: "chickpeas", aliases: ["garbanzo beans", "canned chickpeas"], per100g: per100g(139, 7, 22.5, 2.5, { fiber: 7, sugar: 0.4, sodium: 246, iron: 1.3, potassium: 172 }), gramsPerMl: 0.69, portions: { can: 240, tin: 240 } },
+  { name: "black beans", aliases: ["canned black beans"], per100g: per100g(91, 6, 16.6, 0.3, { fiber: 6.9, sugar: 0.3, sodium: 384, iron: 1.9, potassium: 308 }), gramsPerMl: 0.73, portions: { can: 240, tin: 240 } },
+  { name: "kidney beans", aliases: ["red kidney beans", "cannellini beans", "white beans", "pinto beans"], per100g: per100g(84, 5.2, 15.2, 0.4, { fiber: 5.4, sugar: 1.9, sodium: 296, iron: 1.2, potassium: 237 }), gramsPerMl: 0.73, portions: { can: 240, tin: 240 } },
+  { name: "peanut butter", aliases: [], per100g: per100g(588, 25.1, 20, 50.4, { fiber: 6, sugar: 9.2, saturatedFat: 10.3, sodium: 426, potassium: 649 }), gramsPerMl: 1.09 },
+  { name: "almonds", aliases: ["almond", "sliced almonds", "flaked almonds"], per100g: per100g(579, 21.2, 21.6, 49.9, { fiber: 12.5, sugar: 4.4, saturatedFat: 3.8, sodium: 1, calcium: 269, iron: 3.7, potassium: 733 }), gramsPerMl: 0.6 },
+  { name: "walnuts", aliases: ["walnut", "pecans", "pecan"], per100g: per100g(654, 15.2, 13.7, 65.2, { fiber: 6.7, sugar: 2.6, saturatedFat: 6.1, sodium: 2, iron: 2.9, potassium: 441 }), gramsPerMl: 0.49 },
+
+  // Oils, sauces and seasonings
+  { name: "olive oil", aliases: ["extra virgin olive oil", "evoo"], per100g: per100g(884, 0, 0, 100, { saturatedFat: 13.8, sodium: 2 }), gramsPerMl: 0.91 },
+  { name: "vegetable oil", aliases: ["oil", "canola oil", "sunflower oil", "rapeseed oil", "sesame oil", "cooking oil"], per100g: per100g(884, 0, 0, 100, { saturatedFat: 7.4 }), gramsPerMl: 0.92 },
+  { name: "coconut oil", aliases: [], per100g: per100g(892, 0, 0, 99.1, { saturatedFat: 82.5 }), gramsPerMl: 0.92 },
+  { name: "coconut milk", aliases: ["canned coconut milk", "coconut cream"], per100g: per100g(197, 2, 2.8, 21.3, { sugar: 3.3, saturatedFat: 18.9, sodium: 13, iron: 3.3 }), gramsPerMl: 0.97, portions: { can: 400, tin: 400 } },
+  { name: "soy sauce", aliases: ["soya sauce", "tamari"], per100g: per100g(53, 8.1, 4.9, 0.6, { sugar: 0.4, sodium: 5493 }), gramsPerMl: 1.15 },
+  { name: "mayonnaise", aliases: ["mayo"], per100g: per100g(680, 1, 0.6, 75, { saturatedFat: 11.7, sodium: 635, cholesterol: 42 }), gramsPerMl: 0.92 },
+  { name: "ketchup", aliases: ["tomato ketchup"], per100g: per100g(101, 1, 27.4, 0.1, { sugar: 22.8, sodium: 907 }), gramsPerMl: 1.15 },
+  { name: "mustard", aliases: ["dijon mustard", "yellow mustard", "wholegrain mustard"], per100g: per100g(60, 3.7, 5.8, 3.3, { fiber: 4, sugar: 0.9, sodium: 1135 }), gramsPerMl: 1.05 },
+  { name: "vinegar", aliases: ["white vinegar", "cider vinegar", "apple cider vinegar", "rice vinegar", "red wine vinegar", "balsamic vinegar"], per100g: per100g(18, 0, 0.1, 0, { sodium: 2 }), gramsPerMl: 1.01 },
+  { name: "tomato paste", aliases: ["tomato puree"], per100g: per100g(82, 4.3, 18.9, 0.5, { fiber: 4.1, sugar: 12.2, sodium: 59, potassium: 1014, vitaminC: 21.9 }), gramsPerMl: 1.1 },
+  { name: "canned tomatoes", aliases: ["diced tomatoes", "chopped tomatoes", "crushed tomatoes", "tinned tomatoes", "passata", "tomato sauce"], per100g: per100g(18, 0.9, 4, 0.1, { fiber: 1, sugar: 2.5, sodium: 140, potassium: 191, vitaminC: 9 }), gramsPerMl: 1.02, portions: { can: 400, tin: 400 } },
+  { name: "broth", aliases: ["stock", "chicken broth", "chicken stock", "vegetable broth", "vegetable stock", "beef broth", "beef stock"], per100g: per100g(6, 0.6, 0.4, 0.2, { sodium: 343 }), gramsPerMl: 1 },
+  { name: "salt", aliases: ["sea salt", "kosher salt", "table salt"], per100g: per100g(0, 0, 0, 0, { sodium: 38758 }), gramsPerMl: 1.2, portions: { pinch: 0.4 } },
+  { name: "black pepper", aliases: ["pepper", "ground pepper", "peppercorn"], per100g: per100g(251, 10.4, 64, 3.3, { fiber: 25.3, sodium: 20, calcium: 443, iron: 9.7 }), gramsPerMl: 0.47, portions: { pinch: 0.1 } },
+  { name: "dried spices", aliases: ["cumin", "paprika", "smoked paprika", "cinnamon", "chili powder", "chilli powder", "turmeric", "oregano", "thyme", "dried herbs", "garam masala", "curry powder", "garlic powder", "onion powder", "nutmeg", "ground coriander", "chili flakes", "red pepper flakes"], per100g: per100g(300, 12, 55, 8, { fiber: 30, sodium: 60, iron: 20 }), gramsPerMl: 0.5, portions: { pinch: 0.3 } },
+  { name: "water", aliases: ["ice", "cold water", "warm water", "boiling water"], per100g: per100g(0, 0, 0, 0, {}), gramsPerMl: 1 },
+
+  // Vegetables and herbs
+  { name: "onion", aliases: ["yellow onion", "red onion", "white onion", "shallot", "green onion", "spring onion", "scallion"], per100g: per100g(40, 1.1, 9.3, 0.1, { fiber: 1.7, sugar: 4.2, sodium: 4, potassium: 146, vitaminC: 7.4 }), gramsPerEach: 110, gramsPerMl: 0.68 },
+  { name: "garlic", aliases: ["garlic clove", "minced garlic"], per100g: per100g(149, 6.4, 33.1, 0.5, { fiber: 2.1, sugar: 1, sodium: 17, potassium: 401, vitaminC: 31.2 }), gramsPerEach: 3, gramsPerMl: 0.57, portions: { clove: 3, head: 40, bulb: 40 } },
+  { name: "ginger", aliases: ["fresh ginger", "ginger root"], per100g: per100g(80, 1.8, 17.8, 0.8, { fiber: 2, sugar: 1.7, sodium: 13, potassium: 415 }), gramsPerMl: 0.41, portions: { inch: 5, knob: 15, thumb: 15 } },
+  { name: "carrot", aliases: [], per100g: per100g(41, 0.9, 9.6, 0.2, { fiber: 2.8, sugar: 4.7, sodium: 69, potassium: 320, vitaminA: 835, vitaminC: 5.9 }), gramsPerEach: 61, gramsPerMl: 0.54 },
+  { name: "celery", aliases: ["celery stalk"], per100g: per100g(16, 0.7, 3, 0.2, { fiber: 1.6, sugar: 1.3, sodium: 80, potassium: 260 }), gramsPerEach: 40, gramsPerMl: 0.43, portions: { stalk: 40, stick: 40, rib: 40 } },
+  { name: "potato", aliases: ["russet potato", "baby potato", "new potato"], per100g: per100g(77, 2, 17.5, 0.1, { fiber: 2.2, sugar: 0.8, sodium: 6, potassium: 425, vitaminC: 19.7 }), gramsPerEach: 213, gramsPerMl: 0.63 },
+  { name: "sweet potato", aliases: ["yam"], per100g: per100g(86, 1.6, 20.1, 0.1, { fiber: 3, sugar: 4.2, sodium: 55, potassium: 337, vitaminA: 709 }), gramsPerEach: 130, gramsPerMl: 0.56 },
+  { name: "tomato", aliases: ["cherry tomato", "roma tomato", "plum tomato"], per100g: per100g(18, 0.9, 3.9, 0.2, { fiber: 1.2, sugar: 2.6, sodium: 5, potassium: 237, vitaminA: 42, vitaminC: 13.7 }), gramsPerEach: 123, gramsPerMl: 0.76 },
+  { name: "bell pepper", aliases: ["red pepper", "green pepper", "yellow pepper", "capsicum"], per100g: per100g(31, 1, 6, 0.3, { fiber: 2.1, sugar: 4.2, sodium: 4, vitaminA: 157, vitaminC: 127.7 }), gramsPerEach: 119, gramsPerMl: 0.63 },
+  { name: "spinach", aliases: ["baby spinach"], per100g: per100g(23, 2.9, 3.6, 0.4, { fiber: 2.2, sugar: 0.4, sodium: 79, potassium: 558, calcium: 99, iron: 2.7, vitaminA: 469, vitaminC: 28.1 }), gramsPerMl: 0.13, portions: { bunch: 340, handful: 30, bag: 250 } },
+  { name: "kale", aliases: [], per100g: per100g(35, 2.9, 4.4, 1.5, { fiber: 4.1, sugar: 1, sodium: 53, potassium: 348, calcium: 254, iron: 1.6, vitaminA: 241, vitaminC: 93.4 }), gramsPerMl: 0.09, portions: { bunch: 200, handful: 20 } },
+  { name: "broccoli", aliases: ["broccoli floret"], per100g: per100g(34, 2.8, 6.6, 0.4, { fiber: 2.6, sugar: 1.7, sodium: 33, potassium: 316, calcium: 47, vitaminA: 31, vitaminC: 89.2 }), gramsPerMl: 0.38, portions: { head: 600, crown: 300 } },
+  { name: "cauliflower", aliases: ["cauliflower floret"], per100g: per100g(25, 1.9, 5, 0.3, { fiber: 2, sugar: 1.9, sodium: 30, potassium: 299, vitaminC: 48.2 }), gramsPerMl: 0.45, portions: { head: 575 } },
+  { name: "mushroom", aliases: ["button mushroom", "white mushroom", "cremini mushroom", "chestnut mushroom"], per100g: per100g(22, 3.1, 3.3, 0.3, { fiber: 1, sugar: 2, sodium: 5, potassium: 318 }), gramsPerEach: 18, gramsPerMl: 0.3 },
+  { name: "zucchini", aliases: ["courgette"], per100g: per100g(17, 1.2, 3.1, 0.3, { fiber: 1, sugar: 2.5, sodium: 8, potassium: 261, vitaminC: 17.9 }), gramsPerEach: 196, gramsPerMl: 0.52 },
+  { name: "cucumber", aliases: [], per100g: per100g(15, 0.7, 3.6, 0.1, { fiber: 0.5, sugar: 1.7, sodium: 2, potassium: 147 }), gramsPerEach: 300, gramsPerMl: 0.5 },
+  { name: "lettuce", aliases: ["romaine lettuce", "romaine", "iceberg lettuce", "mixed greens", "salad leaves"], per100g: per100g(17, 1.2, 3.3, 0.3, { fiber: 2.1, sugar: 1.2, sodium: 8, vitaminA: 436 }), gramsPerMl: 0.2, portions: { head: 626, handful: 20 } },
+  { name: "green peas", aliases: ["peas", "frozen peas"], per100g: per100g(77, 5.2, 13.6, 0.4, { fiber: 4.5, sugar: 5, sodium: 108, vitaminC: 18 }), gramsPerMl: 0.57 },
+  { name: "sweet corn", aliases: ["corn", "corn kernels", "sweetcorn"], per100g: per100g(86, 3.3, 19, 1.4, { fiber: 2.7, sugar: 6.3, sodium: 15, potassium: 270 }), gramsPerMl: 0.65, portions: { ear: 90, cob: 90, can: 285, tin: 285 } },
+  { name: "avocado", aliases: [], per100g: per100g(160, 2, 8.5, 14.7, { fiber: 6.7, sugar: 0.7, saturatedFat: 2.1, sodium: 7, potassium: 485, vitaminC: 10 }), gramsPerEach: 150, gramsPerMl: 0.61 },
+  { name: "fresh herbs", aliases: ["parsley", "cilantro", "coriander", "basil", "mint", "dill", "chives", "rosemary"], per100g: per100g(30, 3, 5, 0.7, { fiber: 3, sodium: 40, iron: 3, vitaminA: 300, vitaminC: 60 }), gramsPerMl: 0.25, portions: { bunch: 50, handful: 15, sprig: 1 } },
+
+  // Fruit
+  { name: "lemon", aliases: ["lime"], per100g: per100g(29, 1.1, 9.3, 0.3, { fiber: 2.8, sugar: 2.5, sodium: 2, potassium: 138, vitaminC: 53 }), gramsPerEach: 58 },
+  { name: "lemon juice", aliases: ["lime juice"], per100g: per100g(22, 0.4, 6.9, 0.2, { sugar: 2.5, sodium: 1, vitaminC: 38.7 }), gramsPerMl: 1.03 },
+  { name: "banana", aliases: [], per100g: per100g(89, 1.1, 22.8, 0.3, { fiber: 2.6, sugar: 12.2, sodium: 1, potassium: 358, vitaminC: 8.7 }), gramsPerEach: 118, gramsPerMl: 0.63 },
+  { name: "apple", aliases: [], per100g: per100g(52, 0.3, 13.8, 0.2, { fiber: 2.4, sugar: 10.4, sodium: 1, potassium: 107, vitaminC: 4.6 }), gramsPerEach: 182, gramsPerMl: 0.53 },
+  { name: "orange", aliases: [], per100g: per100g(47, 0.9, 11.8, 0.1, { fiber: 2.4, sugar: 9.4, calcium: 40, potassium: 181, vitaminC: 53.2 }), gramsPerEach: 131 },
+  { name: "blueberries", aliases: ["blueberry", "berries", "mixed berries"], per100g: per100g(57, 0.7, 14.5, 0.3, { fiber: 2.4, sugar: 10, sodium: 1, vitaminC: 9.7 }), gramsPerMl: 0.62 },
+  { name: "strawberries", aliases: ["strawberry"], per100g: per100g(32, 0.7, 7.7, 0.3, { fiber: 2, sugar: 4.9, sodium: 1, potassium: 153, vitaminC: 58.8 }), gramsPerEach: 12, gramsPerMl: 0.7 },
+  { name: "raisins", aliases: ["raisin", "sultanas", "dried cranberries"], per100g: per100g(299, 3.1, 79.2, 0.5, { fiber: 3.7, sugar: 59.2, sodium: 11, potassium: 749, iron: 1.9 }), gramsPerMl: 0.61 },
+];
+
+// Every name and alias, normalised, longest first so "peanut butter" beats "butter"
+const FOOD_KEYS: Array<{ key: string; food: FoodRecord }> = FOODS
+  .flatMap(food => [food.name, ...food.aliases].map(name => ({ key: normalizeItemName(name), food })))
+  .sort((a, b) => b.key.length - a.key.length);
+
+// Words that, in front of a food, make it a different food ("almond milk", "soy milk")
+const QUALIFIER_WORDS = new Set([
+  "almond", "oat", "soy", "soya", "rice", "coconut", "cashew", "hemp", "hazelnut", "macadamia", "pea",
+  "peanut", "chocolate", "strawberry", "banana", "vanilla", "coffee",
+]);
+
+// Words that, after a food, name something made from it ("cheese sauce", "chocolate milk")
+const PRODUCT_WORDS = new Set([
+  "sauce", "soup", "milk", "butter", "cake", "bread", "pie", "chip", "cracker", "bar", "cookie", "syrup", "juice",
+  "powder", "paste", "spread", "dressing", "extract", "oil", "flour", "cream", "cheese", "jam", "drink", "substitute",
+]);
+
+/**
+ * The food an ingredient name refers to: an exact name or alias, otherwise the
+ * longest name or alias found in it on word boundaries ("2 ripe bananas" finds
+ * banana, "chicken stock" finds broth rather than chicken). When the words
+ * around that match change what the food is ("almond milk", "cheese sauce")
+ * the name is treated as unknown rather than guessed.
+ */
+export function findFood(name: string): FoodRecord | null {
+  const normalized = normalizeItemName(name);
+  if (!normalized) return null;
+  const exact = FOOD_KEYS.find(({ key }) => key === normalized);
+  if (exact) return exact.food;
+  const padded = ` ${normalized} `;
+  const match = FOOD_KEYS.find(({ key }) => padded.includes(` ${key} `));
+  if (!match) return null;
+
+  const [before, after] = padded.split(` ${match.key} `, 2).map(part => part.split(" ").filter(Boolean));
+  if (before.some(word => QUALIFIER_WORDS.has(word)) || after.some(word => PRODUCT_WORDS.has(word))) return null;
+  return match.food;
+}
+
+export function searchFoods(query: string, limit = 20): FoodRecord[] {
+  const normalized = normalizeItemName(query);
+  if (!normalized) return [];
+  const matches = new Set<FoodRecord>();
+  for (const { key, food } of FOOD_KEYS) {
+    if (key.includes(normalized)) matches.add(food);
+  }
+  return Array.from(matches)
+    .sort((a, b) => a.name.localeCompare(b.name))
+    .slice(0, limit);
+}
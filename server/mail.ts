@@ -0,0 +1,69 @@
+import { mkdir, writeFile } from "fs/promises";
+import path from "path";
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+// Anything that can deliver a message; production deployments register a real one with setMailTransport
+export interface MailTransport {
+  send(message: MailMessage): Promise<void>;
+}
+
+function formatMessage(message: MailMessage): string {
+  return `To: ${message.to}\nSubject: ${message.subject}\nDate: ${new Date().toUTCString()}\n\n${message.text}\n`;
+}
+
+// Prints each message to the server log
+export const consoleTransport: MailTransport = {
+  async send(message) {
+    console.log(`[mail]\n${formatMessage(message)}`);
+  },
+};
+
+// Writes each message to its own file in `dir`, so links can be opened from a local outbox
+export function fileTransport(dir: string): MailTransport {
+  return {
+    async send(message) {
+      await mkdir(dir, { recursive: true });
+      const safeRecipient = message.to.replace(/[^A-Za-z0-9@._-]/g, "_");
+      const file = path.join(dir, `${Date.now()}-${safeRecipient}.txt`);
+      await writeFile(file, formatMessage(message), "utf8");
+      console.log(`[mail] Wrote "${message.subject}" for ${message.to} to ${file}`);
+    },
+  };
+}
+
+/**
+ * MAIL_TRANSPORT picks a stand-in: "file" writes to MAIL_OUTBOX_DIR
+ * (default ./mail-outbox), "console" logs. Outside production the console
+ * is the default; in production there is none, since logging reset links
+ * there would leak them.
+ */
+function transportFromEnv(): MailTransport | null {
+  switch (process.env.MAIL_TRANSPORT) {
+    case "file":
+      return fileTransport(process.env.MAIL_OUTBOX_DIR || path.resolve("mail-outbox"));
+    case "console":
+      return consoleTransport;
+    default:
+      return process.env.NODE_ENV === "production" ? null : consoleTransport;
+  }
+}
+
+let transport: MailTransport | null | undefined;
+
+// null turns mail off; undefined goes back to what the environment selects
+export function setMailTransport(next: MailTransport | null | undefined): void {
+  transport = next;
+}
+
+export async function sendMail(message: MailMessage): Promise<void> {
+  if (transport === undefined) transport = transportFromEnv();
+  if (!transport) {
+    throw new Error("No mail transport configured; set MAIL_TRANSPORT or call setMailTransport");
+  }
+  await transport.send(message);
+}
@@ -0,0 +1,76 @@
+import type { MealPlanLog } from "@shared/schema";
+import { listMealSlots, type MealSlotType, type ScheduledDay } from "@shared/meal-plans";
+
+export type MealLogStatus = MealPlanLog["status"];
+
+// Unlogged meals count as missed once their date has passed
+export type SlotStatus = MealLogStatus | "missed" | "pending";
+
+export interface SlotAdherence {
+  mealType: MealSlotType;
+  snackIndex: number;
+  title: string;
+  status: SlotStatus;
+  logId?: number;
+}
+
+export interface AdherenceCounts {
+  eaten: number;
+  swapped: number;
+  skipped: number;
+  missed: number;
+  pending: number;
+  // Share of meals due so far that were eaten as planned, 0-100; null before any are due
+  adherence: number | null;
+}
+
+export interface DayAdherence extends AdherenceCounts {
+  date: string;
+  dayNumber: number;
+  slots: SlotAdherence[];
+}
+
+export interface PlanAdherence extends AdherenceCounts {
+  days: DayAdherence[];
+}
+
+export function mealLogKey(date: string, mealType: string, snackIndex: number): string {
+  return `${date}|${mealType}|${mealType === "snack" ? snackIndex : 0}`;
+}
+
+function countStatuses(statuses: SlotStatus[]): AdherenceCounts {
+  const count = (status: SlotStatus) => statuses.filter(current => current === status).length;
+  const counts = {
+    eaten: count("eaten"),
+    swapped: count("swapped"),
+    skipped: count("skipped"),
+    missed: count("missed"),
+    pending: count("pending"),
+  };
+  const due = counts.eaten + counts.swapped + counts.skipped + counts.missed;
+  return { ...counts, adherence: due > 0 ? Math.round((counts.eaten / due) * 100) : null };
+}
+
+/**
+ * Per-day and whole-plan adherence from the plan's scheduled days and the
+ * meals logged against them. `today` is a yyyy-MM-dd key.
+ */
+export function summarizeAdherence(scheduled: ScheduledDay[], logs: MealPlanLog[], today: string): PlanAdherence {
+  const logsBySlot = new Map(logs.map(log => [mealLogKey(log.date, log.mealType, log.snackIndex), log]));
+
+  const days = scheduled.map(({ date, dayNumber, day }): DayAdherence => {
+    const slots = listMealSlots(day).map(({ type, index, slot }): SlotAdherence => {
+      const log = logsBySlot.get(mealLogKey(date, type, index));
+      return {
+        mealType: type,
+        snackIndex: index,
+        title: slot.title,
+        status: log ? log.status : date < today ? "missed" : "pending",
+        logId: log?.id,
+      };
+    });
+    return { date, dayNumber, slots, ...countStatuses(slots.map(slot => slot.status)) };
+  });
+
+  return { days, ...countStatuses(days.flatMap(day => day.slots.map(slot => slot.status))) };
+}
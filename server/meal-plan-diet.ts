@@ -0,0 +1,116 @@
+import type { Recipe } from "@shared/schema";
+import { listMealSlots, getSlotNutrition, recipeNutrition, type MealPlanDay, type MealSlot, type MealSlotType } from "@shared/meal-plans";
+import {
+  tagIngredients,
+  findDietViolations,
+  describeDietViolation,
+  type DietaryRestrictions,
+  type DietTags,
+} from "@shared/diet";
+
+export interface MealPlanDietProblem {
+  day: number;
+  mealType: MealSlotType;
+  title: string;
+  // e.g. "Contains peanuts (peanut butter)"
+  problems: string[];
+}
+
+// How many fresh meals are asked for before a slot that breaks a restriction is given up on
+export const MAX_SLOT_REPLACEMENTS = 2;
+
+// Generates a meal to stand in for one that broke the user's restrictions; null when none could be made
+export type MealSlotReplacer = (problem: MealPlanDietProblem) => Promise<MealSlot | null>;
+
+// Thrown to stop generating a plan once a meal can't be made to fit the restrictions
+export class MealPlanDietError extends Error {
+  constructor(public problems: MealPlanDietProblem[]) {
+    super("The generated plan broke the user's dietary restrictions");
+    this.name = "MealPlanDietError";
+  }
+}
+
+export function hasDietaryRestrictions(restrictions: DietaryRestrictions): boolean {
+  return restrictions.allergens.length > 0 || restrictions.diets.length > 0;
+}
+
+export function recipeDietTags(recipe: Recipe): DietTags {
+  return tagIngredients(recipe.ingredients, recipeNutrition(recipe));
+}
+
+export function recipeFitsRestrictions(recipe: Recipe, restrictions: DietaryRestrictions): boolean {
+  return findDietViolations(recipeDietTags(recipe), restrictions).length === 0;
+}
+
+function slotDietProblems(slot: MealSlot, restrictions: DietaryRestrictions, possible: boolean): string[] {
+  const tags = tagIngredients(slot.ingredients ?? [slot.title], getSlotNutrition(slot));
+  return findDietViolations(tags, restrictions)
+    .filter(violation => !!violation.possible === possible)
+    .map(describeDietViolation);
+}
+
+function checkMealPlanDiet(days: MealPlanDay[], restrictions: DietaryRestrictions, possible: boolean): MealPlanDietProblem[] {
+  if (!hasDietaryRestrictions(restrictions)) return [];
+  const problems: MealPlanDietProblem[] = [];
+  for (const day of days) {
+    for (const { type, slot } of listMealSlots(day)) {
+      const slotProblems = slotDietProblems(slot, restrictions, possible);
+      if (slotProblems.length > 0) {
+        problems.push({ day: day.day, mealType: type, title: slot.title, problems: slotProblems });
+      }
+    }
+  }
+  return problems;
+}
+
+/**
+ * Meals of a generated plan whose ingredients break any of the user's
+ * restrictions. Slots are checked on their own ingredients and per-serving
+ * nutrition, before they're linked to library recipes.
+ */
+export function findMealPlanDietProblems(days: MealPlanDay[], restrictions: DietaryRestrictions): MealPlanDietProblem[] {
+  return checkMealPlanDiet(days, restrictions, false);
+}
+
+// Meals with ingredients that only partly match a restriction, e.g. "nutella" for a nut allergy; shown as warnings
+export function findMealPlanDietWarnings(days: MealPlanDay[], restrictions: DietaryRestrictions): MealPlanDietProblem[] {
+  return checkMealPlanDiet(days, restrictions, true);
+}
+
+/**
+ * Checks a chunk of a generated plan as it arrives and swaps each meal that
+ * breaks a restriction for a newly generated one, leaving the rest of the
+ * chunk as it was. Returns the chunk along with the meals that still break a
+ * restriction after MAX_SLOT_REPLACEMENTS tries.
+ */
+export async function replaceMealPlanDietProblems(
+  days: MealPlanDay[],
+  restrictions: DietaryRestrictions,
+  replaceSlot: MealSlotReplacer
+): Promise<{ days: MealPlanDay[]; problems: MealPlanDietProblem[] }> {
+  if (!hasDietaryRestrictions(restrictions)) return { days, problems: [] };
+  const problems: MealPlanDietProblem[] = [];
+  const checked: MealPlanDay[] = [];
+  for (const day of days) {
+    const meals = { ...day.meals };
+    if (day.meals.snacks) meals.snacks = [...day.meals.snacks];
+    for (const { type, index, slot } of listMealSlots(day)) {
+      let current = slot;
+      let slotProblems = slotDietProblems(current, restrictions, false);
+      for (let attempt = 0; slotProblems.length > 0 && attempt < MAX_SLOT_REPLACEMENTS; attempt++) {
+        const replacement = await replaceSlot({ day: day.day, mealType: type, title: current.title, problems: slotProblems });
+        if (!replacement) break;
+        current = replacement;
+        slotProblems = slotDietProblems(current, restrictions, false);
+      }
+      if (slotProblems.length > 0) {
+        problems.push({ day: day.day, mealType: type, title: current.title, problems: slotProblems });
+      }
+      if (current === slot) continue;
+      if (type === "snack") meals.snacks![index] = current;
+      else meals[type] = current;
+    }
+    checked.push({ ...day, meals });
+  }
+  return { days: checked, problems };
+}
@@ -0,0 +1,162 @@
+import { randomUUID } from "crypto";
+import type { PantryItem, Recipe } from "@shared/schema";
+import {
+  itemNamesMatch,
+  normalizeItemName,
+  toRecipeIngredients,
+  scaleRecipeIngredients,
+  recipeIngredientQuantity,
+  type RecipeIngredient,
+} from "@shared/ingredients";
+import { parseQuantity, convertQuantity, sumQuantities, formatQuantity, type ParsedQuantity } from "@shared/units";
+import { getItemType } from "@ai-services/kitchen-organization-ai";
+import { listMealSlots, type MealPlanDay, type MealSlot } from "@shared/meal-plans";
+import { recipeYield } from "./meal-plan-recipes";
+
+// Same shape grocery-list.tsx renders
+export interface GroceryItem {
+  id: string;
+  name: string;
+  completed: boolean;
+  quantity: string;
+  category?: string;
+  priority?: 'high' | 'medium' | 'low';
+}
+
+export interface MealPlanIngredients {
+  ingredients: RecipeIngredient[];
+  // "Day 2 lunch: Lentil soup" for slots the plan has no ingredients for
+  slotsWithoutIngredients: string[];
+}
+
+const CATEGORY_LABELS: Record<string, string> = {
+  'dry-goods': 'Dry Goods',
+  'other': 'Other',
+};
+
+function categoryLabel(type: string): string {
+  return CATEGORY_LABELS[type] ?? type.charAt(0).toUpperCase() + type.slice(1);
+}
+
+function slotIngredients(slot: MealSlot, recipesById: Map<number, Recipe>): RecipeIngredient[] | null {
+  // A linked recipe is the source of truth, scaled from its yield to the slot's servings
+  const recipe = slot.recipeId ? recipesById.get(slot.recipeId) : undefined;
+  const stored: unknown = recipe ? recipe.ingredients : slot.ingredients;
+  if (!Array.isArray(stored)) return null;
+  const ingredients = toRecipeIngredients(stored);
+  if (!recipe) return ingredients;
+  const servings = typeof slot.servings === 'number' ? slot.servings : 1;
+  return scaleRecipeIngredients(ingredients, recipeYield(recipe), servings);
+}
+
+/**
+ * Every ingredient across all days and meal slots of a stored plan
+ * (`mealPlans.meals`, as produced by generateAIMealPlan). Slots linked to a
+ * recipe in `recipesById` use that recipe's ingredients.
+ */
+export function collectMealPlanIngredients(
+  meals: unknown,
+  recipesById: Map<number, Recipe> = new Map()
+): MealPlanIngredients {
+  const ingredients: RecipeIngredient[] = [];
+  const slotsWithoutIngredients: string[] = [];
+  const days: MealPlanDay[] = Array.isArray(meals) ? meals : [];
+
+  days.forEach((day, index) => {
+    const label = `Day ${day?.day ?? index + 1}`;
+    for (const { type, slot } of listMealSlots(day)) {
+      const slotItems = slotIngredients(slot, recipesById);
+      if (slotItems === null || slotItems.length === 0) {
+        slotsWithoutIngredients.push(`${label} ${type}: ${slot.title ?? 'Untitled'}`);
+        continue;
+      }
+      ingredients.push(...slotItems);
+    }
+  });
+
+  return { ingredients, slotsWithoutIngredients };
+}
+
+interface Requirement {
+  name: string;
+  // Empty when every line was unquantified ("salt to taste")
+  quantities: ParsedQuantity[];
+}
+
+/**
+ * Totals ingredients per item, takes off what the pantry already holds and
+ * returns grocery items grouped by category. Each pantry item's stock is only
+ * counted once, even when several items ("flour", "plain flour") match it.
+ * `previousItems` carries over the ticked state when a list is regenerated.
+ */
+export function buildGroceryItems(
+  ingredients: RecipeIngredient[],
+  pantry: PantryItem[],
+  previousItems: GroceryItem[] = []
+): GroceryItem[] {
+  const requirements = new Map<string, Requirement>();
+  for (const ingredient of ingredients) {
+    const key = normalizeItemName(ingredient.name);
+    if (!key) continue;
+
+    const requirement = requirements.get(key) ?? { name: ingredient.name.toLowerCase(), quantities: [] };
+    const quantity = recipeIngredientQuantity(ingredient);
+    if (quantity) requirement.quantities.push(quantity);
+    requirements.set(key, requirement);
+  }
+
+  // Stock not yet set against an earlier item
+  const remaining = new Map<number, ParsedQuantity | null>(
+    pantry.map(item => [item.id, parseQuantity(item.quantity)])
+  );
+  const completedNames = new Set(
+    previousItems.filter(item => item.completed).map(item => normalizeItemName(item.name))
+  );
+  const items: GroceryItem[] = [];
+
+  for (const [key, requirement] of Array.from(requirements.entries())) {
+    const inPantry = pantry.filter(item => itemNamesMatch(item.name, requirement.name));
+    const category = categoryLabel(getItemType(requirement.name, inPantry[0]?.category));
+
+    // Quantities that can't be added together (cups and grams) stay as separate lines
+    const groups: ParsedQuantity[][] = [];
+    for (const quantity of requirement.quantities) {
+      const group = groups.find(existing => convertQuantity(quantity, existing[0].unit) !== null);
+      if (group) group.push(quantity); else groups.push([quantity]);
+    }
+
+    const stillNeeded: ParsedQuantity[] = [];
+    for (const group of groups) {
+      let needed = sumQuantities(group)!;
+      for (const item of inPantry) {
+        const stock = remaining.get(item.id);
+        const available = stock ? convertQuantity(stock, needed.unit) : null;
+        if (!stock || !available || available.amount <= 1e-6) continue;
+        const used = Math.min(available.amount, needed.amount);
+        needed = { ...needed, amount: needed.amount - used };
+        remaining.set(item.id, { ...stock, amount: stock.amount * (1 - used / available.amount) });
+      }
+      if (needed.amount > 1e-6) stillNeeded.push(needed);
+    }
+
+    // Unquantified items only need buying if the pantry has none at all
+    if (requirement.quantities.length === 0 && inPantry.length === 0) {
+      items.push({ id: randomUUID(), name: requirement.name, completed: completedNames.has(key), quantity: 'as needed', category });
+      continue;
+    }
+
+    for (const quantity of stillNeeded) {
+      items.push({
+        id: randomUUID(),
+        name: requirement.name,
+        completed: completedNames.has(key),
+        quantity: formatQuantity(quantity),
+        category,
+      });
+    }
+  }
+
+  return items.sort((a, b) =>
+    (a.category ?? '').localeCompare(b.category ?? '') || a.name.localeCompare(b.name)
+  );
+}
@@ -0,0 +1,203 @@
+import type { Recipe, CulturalRecipe } from "@shared/schema";
+import { normalizeItemName } from "@shared/ingredients";
+import {
+  formatNutrition,
+  getSlotNutrition,
+  listMealSlots,
+  scaleNutrition,
+  getDayNutrition,
+  recipeNutrition,
+  type MealPlanDay,
+  type MealPlanOverrides,
+  type MealSlot,
+  type MealSlotType,
+  type SlotNutrition,
+} from "@shared/meal-plans";
+
+export type NewRecipe = Omit<Recipe, "id">;
+
+export interface SlotPosition {
+  day: number;
+  type: MealSlotType;
+  // Which snack to replace; ignored for the other slot types
+  index?: number;
+}
+
+function titleKey(title: string): string {
+  return normalizeItemName(title);
+}
+
+function parsePrepMinutes(preparationTime: string | undefined): number {
+  const minutes = preparationTime?.match(/(\d+)\s*(?:min|m\b)/i);
+  const hours = preparationTime?.match(/(\d+(?:\.\d+)?)\s*(?:hour|hr|h\b)/i);
+  const total = (hours ? parseFloat(hours[1]) * 60 : 0) + (minutes ? parseInt(minutes[1]) : 0);
+  return total > 0 ? Math.round(total) : 15;
+}
+
+// How many servings a recipe's ingredient list makes
+export function recipeYield(recipe: Recipe): number {
+  const servings = Number(recipe.servings);
+  return servings > 0 ? servings : 1;
+}
+
+function withSlot(day: MealPlanDay, position: SlotPosition, slot: MealSlot): MealPlanDay {
+  if (position.type !== "snack") {
+    return { ...day, meals: { ...day.meals, [position.type]: slot } };
+  }
+  const snacks = [...(day.meals.snacks ?? [])];
+  snacks[position.index ?? snacks.length] = slot;
+  return { ...day, meals: { ...day.meals, snacks } };
+}
+
+// Keep the day's summary figures in step with its slots
+function withTotals(day: MealPlanDay): MealPlanDay {
+  return { ...day, totalCalories: Math.round(getDayNutrition(day).calories) };
+}
+
+export function slotFromRecipe(recipe: Recipe, servings: number, base?: Partial<MealSlot>): MealSlot {
+  const nutrition = scaleNutrition(recipeNutrition(recipe), servings);
+  return {
+    ...base,
+    title: recipe.title,
+    description: recipe.description,
+    recipeId: recipe.id,
+    culturalRecipeId: null,
+    servings,
+    nutrition,
+    nutritionalInfo: formatNutrition(nutrition),
+    preparationTime: `${recipe.prepTime} minutes`,
+    ingredients: undefined,
+    instructions: undefined,
+  };
+}
+
+export function slotFromCulturalRecipe(
+  recipe: CulturalRecipe,
+  servings: number,
+  nutrition: SlotNutrition | undefined
+): MealSlot {
+  // Cultural recipes carry no macros, so they come from the caller
+  const slotNutrition = nutrition ?? { calories: 0, protein: 0, carbs: 0, fat: 0 };
+  return {
+    title: recipe.name,
+    description: recipe.description,
+    recipeId: null,
+    culturalRecipeId: recipe.id,
+    servings,
+    nutrition: slotNutrition,
+    nutritionalInfo: formatNutrition(slotNutrition),
+  };
+}
+
+/**
+ * Points every free-text slot of an AI-generated plan at a recipe: one already in
+ * the user's library with the same title, or a new recipe built from the slot.
+ * Slots that already reference a recipe are left alone.
+ */
+export async function linkMealPlanToRecipes(
+  days: MealPlanDay[],
+  userId: number,
+  library: Recipe[],
+  createRecipe: (recipe: NewRecipe) => Promise<Recipe>
+): Promise<MealPlanDay[]> {
+  const byTitle = new Map<string, Recipe>();
+  for (const recipe of library) {
+    if (!byTitle.has(titleKey(recipe.title))) byTitle.set(titleKey(recipe.title), recipe);
+  }
+
+  const linked: MealPlanDay[] = [];
+  for (const day of days) {
+    let updated = day;
+    for (const { type, index, slot } of listMealSlots(day)) {
+      if (slot.recipeId || slot.culturalRecipeId || !slot.title) continue;
+
+      const key = titleKey(slot.title);
+      let recipe = byTitle.get(key);
+      if (!recipe) {
+        const nutrition = getSlotNutrition(slot);
+        recipe = await createRecipe({
+          title: slot.title,
+          description: slot.description || slot.title,
+          ingredients: slot.ingredients ?? [],
+          instructions: slot.instructions ?? [],
+          nutritionInfo: nutrition,
+          prepTime: parsePrepMinutes(slot.preparationTime),
+          imageUrl: null,
+          createdBy: userId,
+          forkedFrom: null,
+          sustainabilityScore: null,
+          wastageReduction: null,
+          createdAt: new Date(),
+        });
+        byTitle.set(key, recipe);
+      }
+
+      updated = withSlot(updated, { day: day.day, type, index }, slotFromRecipe(recipe, slot.servings ?? 1, slot));
+    }
+    linked.push(withTotals(updated));
+  }
+  return linked;
+}
+
+/**
+ * Refreshes linked slots from the current recipe rows so edits to a recipe show
+ * up in every plan that uses it. Slots whose recipe has gone keep their last copy.
+ */
+export function hydrateMealPlan(
+  days: MealPlanDay[],
+  recipesById: Map<number, Recipe>,
+  culturalById: Map<number, CulturalRecipe>
+): MealPlanDay[] {
+  if (!Array.isArray(days)) return [];
+  return days.map(day => {
+    let updated = day;
+    for (const { type, index, slot } of listMealSlots(day)) {
+      const recipe = slot.recipeId ? recipesById.get(slot.recipeId) : undefined;
+      const cultural = slot.culturalRecipeId ? culturalById.get(slot.culturalRecipeId) : undefined;
+      if (recipe) {
+        updated = withSlot(updated, { day: day.day, type, index }, slotFromRecipe(recipe, slot.servings ?? 1, slot));
+      } else if (cultural) {
+        updated = withSlot(updated, { day: day.day, type, index }, { ...slot, title: cultural.name, description: cultural.description });
+      }
+    }
+    return withTotals(updated);
+  });
+}
+
+// Date overrides as plan days, so they can go through the same linking and hydration
+export function overrideDays(overrides: MealPlanOverrides | null | undefined): MealPlanDay[] {
+  return Object.values(overrides ?? {}).map(meals => ({ day: 1, meals }));
+}
+
+export function hydrateOverrides(
+  overrides: MealPlanOverrides | null | undefined,
+  recipesById: Map<number, Recipe>,
+  culturalById: Map<number, CulturalRecipe>
+): MealPlanOverrides {
+  const hydrated: MealPlanOverrides = {};
+  for (const [date, meals] of Object.entries(overrides ?? {})) {
+    hydrated[date] = hydrateMealPlan([{ day: 1, meals }], recipesById, culturalById)[0].meals;
+  }
+  return hydrated;
+}
+
+export function setMealPlanSlot(days: MealPlanDay[], position: SlotPosition, slot: MealSlot): MealPlanDay[] | null {
+  const target = days.find(day => day.day === position.day);
+  if (!target) return null;
+  if (position.type === "snack" && position.index !== undefined && position.index > (target.meals.snacks ?? []).length) {
+    return null;
+  }
+  return days.map(day => (day === target ? withTotals(withSlot(day, position, slot)) : day));
+}
+
+export function linkedRecipeIds(days: MealPlanDay[]): { recipeIds: number[]; culturalRecipeIds: number[] } {
+  const recipeIds = new Set<number>();
+  const culturalRecipeIds = new Set<number>();
+  for (const day of Array.isArray(days) ? days : []) {
+    for (const { slot } of listMealSlots(day)) {
+      if (slot.recipeId) recipeIds.add(slot.recipeId);
+      if (slot.culturalRecipeId) culturalRecipeIds.add(slot.culturalRecipeId);
+    }
+  }
+  return { recipeIds: Array.from(recipeIds), culturalRecipeIds: Array.from(culturalRecipeIds) };
+}
@@ -0,0 +1,57 @@
+import type { NutritionGoal } from "@shared/schema";
+import { addDaysToKey, daysBetweenKeys } from "@shared/meal-plans";
+import type { Micronutrients, MicronutrientKey } from "@shared/nutrients";
+
+export interface DailyNutritionTotal {
+  date: string;
+  calories: number;
+  protein: number;
+  carbs: number;
+  fat: number;
+  // Only the nutrients some entry that day listed
+  micronutrients?: Micronutrients;
+}
+
+// Same shape as `NutritionProgress`, which the client charts
+export interface DailyProgress extends DailyNutritionTotal {
+  completed: boolean;
+}
+
+// Longest range a single progress request may cover
+export const MAX_PROGRESS_DAYS = 366;
+
+/**
+ * One progress entry per date from `from` to `to`, with zeros for days
+ * nothing was logged. A day is completed once it reaches the goal's calories.
+ */
+export function buildDailyProgress(
+  totals: DailyNutritionTotal[],
+  from: string,
+  to: string,
+  goal?: Pick<NutritionGoal, "dailyCalories"> | null
+): DailyProgress[] {
+  const byDate = new Map(totals.map(total => [total.date, total]));
+  const days = Math.min(daysBetweenKeys(from, to) + 1, MAX_PROGRESS_DAYS);
+  const progress: DailyProgress[] = [];
+
+  for (let offset = 0; offset < days; offset++) {
+    const date = addDaysToKey(from, offset);
+    const total = byDate.get(date);
+    const round = (value: number | undefined) => Math.round((value ?? 0) * 10) / 10;
+    const calories = round(total?.calories);
+    const micronutrients: Micronutrients = {};
+    for (const [key, value] of Object.entries(total?.micronutrients ?? {}) as [MicronutrientKey, number][]) {
+      micronutrients[key] = round(value);
+    }
+    progress.push({
+      date,
+      calories,
+      protein: round(total?.protein),
+      carbs: round(total?.carbs),
+      fat: round(total?.fat),
+      micronutrients,
+      completed: !!goal && calories >= goal.dailyCalories,
+    });
+  }
+  return progress;
+}
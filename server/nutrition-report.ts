@@ -0,0 +1,237 @@
+import type { NutritionGoal, NutritionLogEntry } from "@shared/schema";
+import { buildDailyProgress, type DailyNutritionTotal, type DailyProgress } from "./nutrition-log";
+
+type Macro = "calories" | "protein" | "carbs" | "fat";
+type MacroValues = Record<Macro, number>;
+type GoalTargets = Pick<NutritionGoal, "dailyCalories" | "dailyProtein" | "dailyCarbs" | "dailyFat">;
+
+// A day counts as on target for a macro when it lands within this share of the goal
+export const ON_TARGET_TOLERANCE = 0.1;
+
+const MACROS: Macro[] = ["calories", "protein", "carbs", "fat"];
+
+export interface ReportDay extends DailyProgress {
+  logged: boolean;
+  onTarget: boolean;
+}
+
+export interface ReportWeek {
+  weekStart: string; // Monday, or the report's first day for a partial week
+  weekEnd: string;
+  days: number;
+  loggedDays: number;
+  averages: MacroValues;
+  caloriesAdherence: number | null;
+}
+
+export interface Streak {
+  current: number;
+  longest: number;
+}
+
+export interface NutritionReport {
+  from: string;
+  to: string;
+  goal: GoalTargets | null;
+  totalDays: number;
+  loggedDays: number;
+  // Per logged day, so days nothing was recorded don't drag the averages down
+  averages: MacroValues;
+  // Percent of logged days within tolerance of each target; null without a goal
+  adherence: MacroValues | null;
+  streaks: { logging: Streak; onTarget: Streak };
+  macroRatios: {
+    actual: Record<Exclude<Macro, "calories">, number>;
+    target: Record<Exclude<Macro, "calories">, number> | null;
+  };
+  mealTypes: { mealType: string; entries: number; calories: number; percent: number }[];
+  topRecipes: { title: string; times: number; calories: number }[];
+  days: ReportDay[];
+  weeks: ReportWeek[];
+}
+
+function round(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+function percent(part: number, whole: number): number {
+  return whole > 0 ? Math.round((part / whole) * 100) : 0;
+}
+
+function goalValue(goal: GoalTargets, macro: Macro): number {
+  return {
+    calories: goal.dailyCalories,
+    protein: goal.dailyProtein,
+    carbs: goal.dailyCarbs,
+    fat: goal.dailyFat,
+  }[macro];
+}
+
+function isOnTarget(amount: number, target: number): boolean {
+  return target > 0 && Math.abs(amount - target) <= target * ON_TARGET_TOLERANCE;
+}
+
+function averageOf(days: ReportDay[]): MacroValues {
+  const logged = days.filter(day => day.logged);
+  const averages = { calories: 0, protein: 0, carbs: 0, fat: 0 };
+  for (const macro of MACROS) {
+    const total = logged.reduce((sum, day) => sum + day[macro], 0);
+    averages[macro] = logged.length > 0 ? round(total / logged.length) : 0;
+  }
+  return averages;
+}
+
+// Share of calories from each macro, using 4/4/9 kcal per gram
+function macroRatios(values: Pick<MacroValues, "protein" | "carbs" | "fat">) {
+  const protein = values.protein * 4;
+  const carbs = values.carbs * 4;
+  const fat = values.fat * 9;
+  const total = protein + carbs + fat;
+  return { protein: percent(protein, total), carbs: percent(carbs, total), fat: percent(fat, total) };
+}
+
+/**
+ * The current run ends at the report's last day, or the day before when the
+ * last day doesn't qualify yet (today usually isn't finished).
+ */
+function findStreak(days: ReportDay[], qualifies: (day: ReportDay) => boolean): Streak {
+  let longest = 0;
+  let run = 0;
+  for (const day of days) {
+    run = qualifies(day) ? run + 1 : 0;
+    longest = Math.max(longest, run);
+  }
+
+  let current = 0;
+  let index = days.length - 1;
+  if (index >= 0 && !qualifies(days[index])) index--;
+  while (index >= 0 && qualifies(days[index])) {
+    current++;
+    index--;
+  }
+  return { current, longest };
+}
+
+// Monday-based weeks, clipped to the report range
+function buildWeeks(days: ReportDay[], goal: GoalTargets | null): ReportWeek[] {
+  const weeks: ReportDay[][] = [];
+  for (const day of days) {
+    const isMonday = new Date(`${day.date}T00:00:00Z`).getUTCDay() === 1;
+    if (weeks.length === 0 || isMonday) weeks.push([]);
+    weeks[weeks.length - 1].push(day);
+  }
+
+  return weeks.map(week => {
+    const logged = week.filter(day => day.logged);
+    return {
+      weekStart: week[0].date,
+      weekEnd: week[week.length - 1].date,
+      days: week.length,
+      loggedDays: logged.length,
+      averages: averageOf(week),
+      caloriesAdherence: goal ? percent(logged.filter(day => day.onTarget).length, logged.length) : null,
+    };
+  });
+}
+
+/**
+ * Everything the nutrition report shows for a date range: day and week
+ * aggregates, how often each goal was hit, streaks, where calories came from
+ * and which recipes were eaten most. Built from the day's totals and the log
+ * entries behind them, so it matches the daily progress charts.
+ */
+export function buildNutritionReport(
+  totals: DailyNutritionTotal[],
+  entries: NutritionLogEntry[],
+  from: string,
+  to: string,
+  goal: GoalTargets | null
+): NutritionReport {
+  const loggedDates = new Set(entries.map(entry => entry.date));
+  const days: ReportDay[] = buildDailyProgress(totals, from, to, goal).map(day => ({
+    ...day,
+    logged: loggedDates.has(day.date),
+    onTarget: !!goal && loggedDates.has(day.date) && isOnTarget(day.calories, goal.dailyCalories),
+  }));
+  const loggedDays = days.filter(day => day.logged);
+  const averages = averageOf(days);
+
+  let adherence: MacroValues | null = null;
+  if (goal) {
+    adherence = { calories: 0, protein: 0, carbs: 0, fat: 0 };
+    for (const macro of MACROS) {
+      const hits = loggedDays.filter(day => isOnTarget(day[macro], goalValue(goal, macro))).length;
+      adherence[macro] = percent(hits, loggedDays.length);
+    }
+  }
+
+  const totalCalories = entries.reduce((sum, entry) => sum + entry.calories, 0);
+  const mealTypeTotals = new Map<string, { entries: number; calories: number }>();
+  for (const entry of entries) {
+    const mealType = entry.mealType ?? "other";
+    const current = mealTypeTotals.get(mealType) ?? { entries: 0, calories: 0 };
+    mealTypeTotals.set(mealType, { entries: current.entries + 1, calories: current.calories + entry.calories });
+  }
+
+  // Recipe entries are described by the recipe's title when it was eaten
+  const recipeTotals = new Map<string, { times: number; calories: number }>();
+  for (const entry of entries.filter(entry => entry.source === "recipe")) {
+    const current = recipeTotals.get(entry.description) ?? { times: 0, calories: 0 };
+    recipeTotals.set(entry.description, { times: current.times + 1, calories: current.calories + entry.calories });
+  }
+
+  return {
+    from,
+    to,
+    goal: goal
+      ? { dailyCalories: goal.dailyCalories, dailyProtein: goal.dailyProtein, dailyCarbs: goal.dailyCarbs, dailyFat: goal.dailyFat }
+      : null,
+    totalDays: days.length,
+    loggedDays: loggedDays.length,
+    averages,
+    adherence,
+    streaks: {
+      logging: findStreak(days, day => day.logged),
+      onTarget: findStreak(days, day => day.onTarget),
+    },
+    macroRatios: {
+      actual: macroRatios(averages),
+      target: goal ? macroRatios({ protein: goal.dailyProtein, carbs: goal.dailyCarbs, fat: goal.dailyFat }) : null,
+    },
+    mealTypes: Array.from(mealTypeTotals, ([mealType, total]) => ({
+      mealType,
+      entries: total.entries,
+      calories: Math.round(total.calories),
+      percent: percent(total.calories, totalCalories),
+    })).sort((a, b) => b.calories - a.calories),
+    topRecipes: Array.from(recipeTotals, ([title, total]) => ({ title, times: total.times, calories: Math.round(total.calories) }))
+      .sort((a, b) => b.times - a.times || b.calories - a.calories)
+      .slice(0, 5),
+    days,
+    weeks: buildWeeks(days, goal),
+  };
+}
+
+function csvCell(value: string | number | null | undefined): string {
+  const text = value === null || value === undefined ? "" : String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// One row per day, then the weekly rollup, for spreadsheets and dietitians
+export function reportToCsv(report: NutritionReport): string {
+  const rows: (string | number | null)[][] = [
+    ["Nutrition report", `${report.from} to ${report.to}`],
+    [],
+    ["Date", "Calories", "Protein (g)", "Carbs (g)", "Fat (g)", "Logged", "On target"],
+    ...report.days.map(day => [
+      day.date, day.calories, day.protein, day.carbs, day.fat, day.logged ? "yes" : "no", day.onTarget ? "yes" : "no",
+    ]),
+    [],
+    ["Week starting", "Week ending", "Logged days", "Avg calories", "Avg protein (g)", "Avg carbs (g)", "Avg fat (g)", "Calories adherence (%)"],
+    ...report.weeks.map(week => [
+      week.weekStart, week.weekEnd, `${week.loggedDays}/${week.days}`,
+      week.averages.calories, week.averages.protein, week.averages.carbs, week.averages.fat, week.caloriesAdherence,
+    ]),
+  ];
+  return rows.map(row => row.map(csvCell).join(",")).join("\n") + "\n";
+}
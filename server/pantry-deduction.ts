@@ -0,0 +1,141 @@
+import type { PantryItem } from "@shared/schema";
+import {
+  itemNamesMatch,
+  normalizeItemName,
+  recipeIngredientQuantity,
+  formatRecipeIngredient,
+  type RecipeIngredient,
+} from "@shared/ingredients";
+import { parseQuantity, convertQuantity, formatQuantity, type ParsedQuantity } from "@shared/units";
+
+export interface PantryDeduction {
+  pantryItemId: number;
+  name: string;
+  ingredient: string;
+  // Amount taken, in the pantry item's unit
+  amount: number;
+  unit: string;
+  previousQuantity: string;
+  remainingQuantity: string;
+  // Items used up are deleted; keep enough to put them back on undo
+  removed: boolean;
+  removedItem?: Omit<PantryItem, "id" | "quantityAmount" | "quantityUnit" | "unitFamily">;
+}
+
+export interface MissingIngredient {
+  ingredient: string;
+  reason: 'not-in-pantry' | 'insufficient' | 'unit-mismatch';
+  shortBy?: string;
+}
+
+export interface PantryDeductionPlan {
+  deductions: PantryDeduction[];
+  missing: MissingIngredient[];
+}
+
+// Remaining amounts this small are rounding noise and count as used up
+const EPSILON = 1e-6;
+
+function roundAmount(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
+
+/**
+ * Works out how much of each pantry item a recipe's structured ingredients
+ * use. Recipe quantities are for the whole batch and multiplied by `portion`,
+ * the share of it used: servings eaten over the servings the recipe makes. When several pantry
+ * entries match, the one expiring soonest is used first. Nothing is written;
+ * the caller applies the plan.
+ */
+export function planPantryDeduction(
+  ingredients: RecipeIngredient[],
+  pantry: PantryItem[],
+  portion: number
+): PantryDeductionPlan {
+  // Track remaining stock so two ingredients drawing on the same item don't double count
+  const remaining = new Map<number, ParsedQuantity | null>(
+    pantry.map(item => [item.id, parseQuantity(item.quantity)])
+  );
+  const byItem = new Map<number, PantryDeduction>();
+  const missing: MissingIngredient[] = [];
+
+  for (const ingredient of ingredients) {
+    if (!ingredient.name) continue;
+    const line = formatRecipeIngredient(ingredient);
+    const quantity = recipeIngredientQuantity(ingredient);
+
+    const matches = pantry
+      .filter(item => itemNamesMatch(item.name, ingredient.name))
+      .sort((a, b) => {
+        // Exact name matches first, then soonest expiry, then oldest entry
+        const exactA = normalizeItemName(a.name) === normalizeItemName(ingredient.name) ? 0 : 1;
+        const exactB = normalizeItemName(b.name) === normalizeItemName(ingredient.name) ? 0 : 1;
+        const expiryA = a.expiryDate ? new Date(a.expiryDate).getTime() : Infinity;
+        const expiryB = b.expiryDate ? new Date(b.expiryDate).getTime() : Infinity;
+        return exactA - exactB || expiryA - expiryB || a.id - b.id;
+      });
+
+    if (matches.length === 0) {
+      missing.push({ ingredient: line, reason: 'not-in-pantry' });
+      continue;
+    }
+    // "Salt to taste" has nothing to deduct
+    if (!quantity) continue;
+
+    let needed: ParsedQuantity = { ...quantity, amount: quantity.amount * portion };
+    let convertible = false;
+
+    for (const item of matches) {
+      const stock = remaining.get(item.id);
+      if (!stock) continue;
+      const neededInStockUnit = convertQuantity(needed, stock.unit);
+      if (!neededInStockUnit) continue;
+      convertible = true;
+      if (stock.amount <= EPSILON) continue;
+
+      const taken = Math.min(stock.amount, neededInStockUnit.amount);
+      const left = stock.amount - taken;
+      remaining.set(item.id, { ...stock, amount: left });
+
+      const existing = byItem.get(item.id);
+      const amount = roundAmount((existing?.amount ?? 0) + taken);
+      const removed = left <= EPSILON;
+      const { id, quantityAmount, quantityUnit, unitFamily, ...rest } = item;
+      byItem.set(item.id, {
+        pantryItemId: item.id,
+        name: item.name,
+        ingredient: existing ? `${existing.ingredient}; ${line}` : line,
+        amount,
+        unit: stock.unit,
+        previousQuantity: item.quantity,
+        remainingQuantity: removed ? formatQuantity({ ...stock, amount: 0 }) : formatQuantity({ ...stock, amount: left }),
+        removed,
+        ...(removed ? { removedItem: rest } : {}),
+      });
+
+      const stillNeeded = neededInStockUnit.amount - taken;
+      needed = { ...neededInStockUnit, amount: stillNeeded };
+      if (stillNeeded <= EPSILON) break;
+    }
+
+    if (!convertible) {
+      missing.push({ ingredient: line, reason: 'unit-mismatch' });
+    } else if (needed.amount > EPSILON) {
+      missing.push({ ingredient: line, reason: 'insufficient', shortBy: formatQuantity(needed) });
+    }
+  }
+
+  return { deductions: Array.from(byItem.values()), missing };
+}
+
+/**
+ * Quantity text for a pantry item after giving back a deducted amount, or null
+ * if the item's current unit can't take it (the user changed it in the meantime).
+ */
+export function restoreQuantity(currentQuantity: string, deduction: PantryDeduction): string | null {
+  const current = parseQuantity(currentQuantity);
+  if (!current) return null;
+  const restored = convertQuantity({ amount: deduction.amount, unit: deduction.unit, family: current.family }, current.unit);
+  if (!restored) return null;
+  return formatQuantity({ ...current, amount: current.amount + restored.amount });
+}
@@ -0,0 +1,149 @@
+import { parseIngredientLine, normalizeItemName } from "@shared/ingredients";
+import { convertQuantity, formatQuantity, type ParsedQuantity } from "@shared/units";
+import { addNutrition, scaleNutrition, type SlotNutrition } from "@shared/meal-plans";
+import { cleanMicronutrients, type MicronutrientKey } from "@shared/nutrients";
+import { findFood, type FoodRecord } from "./food-composition";
+
+export interface ResolvedIngredient {
+  ingredient: string;
+  food: string;
+  grams: number;
+  nutrition: SlotNutrition;
+}
+
+export interface UnresolvedIngredient {
+  ingredient: string;
+  reason: 'no-amount' | 'unknown-food' | 'unknown-unit';
+  message: string;
+}
+
+export interface RecipeNutritionEstimate {
+  servings: number;
+  total: SlotNutrition;
+  perServing: SlotNutrition;
+  resolved: ResolvedIngredient[];
+  unresolved: UnresolvedIngredient[];
+}
+
+const EMPTY_NUTRITION: SlotNutrition = { calories: 0, protein: 0, carbs: 0, fat: 0, micronutrients: {} };
+
+function round(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+function roundNutrition(nutrition: SlotNutrition): SlotNutrition {
+  const micronutrients = cleanMicronutrients(nutrition.micronutrients);
+  for (const key of Object.keys(micronutrients) as MicronutrientKey[]) {
+    micronutrients[key] = round(micronutrients[key]!);
+  }
+  return {
+    calories: Math.round(nutrition.calories),
+    protein: round(nutrition.protein),
+    carbs: round(nutrition.carbs),
+    fat: round(nutrition.fat),
+    micronutrients,
+  };
+}
+
+/**
+ * Weight of an ingredient in grams. Weights convert directly, volumes go
+ * through the food's density and counts through its item or portion weight
+ * ("2 cloves garlic", "1 can chickpeas"). Null when the food has no figure for
+ * the unit used.
+ */
+function toGrams(quantity: ParsedQuantity, food: FoodRecord, name: string): number | null {
+  if (quantity.family === "mass") {
+    return convertQuantity(quantity, "g")!.amount;
+  }
+  if (quantity.family === "volume") {
+    const millilitres = convertQuantity(quantity, "ml")!.amount;
+    return food.gramsPerMl ? millilitres * food.gramsPerMl : null;
+  }
+
+  // Units the parser doesn't know stay in the name, e.g. "ears corn"
+  const portion = quantity.unit === "each" ? normalizeItemName(name).split(" ")[0] : normalizeItemName(quantity.unit);
+  const portionGrams = food.portions?.[portion];
+  if (portionGrams !== undefined) return quantity.amount * portionGrams;
+  return quantity.unit === "each" && food.gramsPerEach ? quantity.amount * food.gramsPerEach : null;
+}
+
+// Matched and weighed, before the food's nutrition is scaled to the weight
+interface WeighedIngredient {
+  ingredient: string;
+  food: FoodRecord;
+  grams: number;
+}
+
+function weighIngredient(line: string): WeighedIngredient | UnresolvedIngredient {
+  const parsed = parseIngredientLine(line);
+
+  const food = findFood(parsed.name);
+  if (!food) {
+    return { ingredient: parsed.text, reason: 'unknown-food', message: `"${parsed.name || parsed.text}" isn't in the nutrient database` };
+  }
+  if (!parsed.quantity) {
+    return { ingredient: parsed.text, reason: 'no-amount', message: `No amount given for ${food.name}` };
+  }
+
+  const grams = toGrams(parsed.quantity, food, parsed.name);
+  if (grams === null) {
+    return {
+      ingredient: parsed.text,
+      reason: 'unknown-unit',
+      message: `Can't weigh ${formatQuantity(parsed.quantity)} of ${food.name}; use grams or another unit`,
+    };
+  }
+  return { ingredient: parsed.text, food, grams };
+}
+
+/**
+ * Nutrition for a single ingredient or food line, e.g. "1 banana" or
+ * "150 g chicken breast". Lines that can't be matched to a food, have no
+ * amount, or use a unit the food can't be weighed in come back unresolved
+ * with a message saying why.
+ */
+export function resolveIngredient(line: string): ResolvedIngredient | UnresolvedIngredient {
+  const weighed = weighIngredient(line);
+  if ("reason" in weighed) return weighed;
+  const { ingredient, food, grams } = weighed;
+  return {
+    ingredient,
+    food: food.name,
+    grams: round(grams),
+    nutrition: roundNutrition(scaleNutrition(food.per100g, grams / 100)),
+  };
+}
+
+/**
+ * Works out a recipe's nutrition from its ingredient lines using the bundled
+ * food composition table, with no network calls. Unresolved lines are left
+ * out of the totals and listed in `unresolved`.
+ */
+export function estimateRecipeNutrition(ingredients: string[], servings = 1): RecipeNutritionEstimate {
+  const resolved: ResolvedIngredient[] = [];
+  const unresolved: UnresolvedIngredient[] = [];
+  let total = EMPTY_NUTRITION;
+
+  for (const line of ingredients) {
+    if (!line.trim()) continue;
+    const weighed = weighIngredient(line);
+    if ("reason" in weighed) {
+      unresolved.push(weighed);
+      continue;
+    }
+
+    const { ingredient, food, grams } = weighed;
+    const nutrition = scaleNutrition(food.per100g, grams / 100);
+    total = addNutrition(total, nutrition);
+    resolved.push({ ingredient, food: food.name, grams: round(grams), nutrition: roundNutrition(nutrition) });
+  }
+
+  const servingCount = servings > 0 ? servings : 1;
+  return {
+    servings: servingCount,
+    total: roundNutrition(total),
+    perServing: roundNutrition(scaleNutrition(total, 1 / servingCount)),
+    resolved,
+    unresolved,
+  };
+}
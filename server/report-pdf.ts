@@ -0,0 +1,181 @@
+import type { NutritionReport } from "./nutrition-report";
+
+// A4 in points, with the standard Type 1 fonts every PDF reader ships
+const PAGE_WIDTH = 595;
+const PAGE_HEIGHT = 842;
+const MARGIN = 50;
+
+interface TextRun {
+  text: string;
+  x: number;
+  size: number;
+  bold: boolean;
+}
+
+type Line = { runs: TextRun[]; height: number };
+
+// Latin-1 only: the built-in fonts use WinAnsi, so anything else prints as "?"
+function escapePdfText(text: string): string {
+  return text
+    .replace(/[^\x20-\xff]/g, "?")
+    .replace(/[\\()]/g, match => `\\${match}`);
+}
+
+/**
+ * Minimal text-only PDF writer: lines of positioned text, paginated top to
+ * bottom. Enough for a tabular report without pulling in a PDF library.
+ */
+class PdfWriter {
+  private lines: Line[] = [];
+
+  text(text: string, options: { size?: number; bold?: boolean; x?: number } = {}) {
+    const size = options.size ?? 10;
+    this.lines.push({ runs: [{ text, x: options.x ?? MARGIN, size, bold: !!options.bold }], height: size * 1.5 });
+  }
+
+  row(cells: (string | number)[], columnWidths: number[], options: { bold?: boolean } = {}) {
+    let x = MARGIN;
+    const runs = cells.map((cell, index) => {
+      const run = { text: String(cell), x, size: 9, bold: !!options.bold };
+      x += columnWidths[index] ?? 80;
+      return run;
+    });
+    this.lines.push({ runs, height: 13 });
+  }
+
+  space(height = 8) {
+    this.lines.push({ runs: [], height });
+  }
+
+  render(): Buffer {
+    // Lay the lines out into pages
+    const pages: string[] = [];
+    let content: string[] = [];
+    let y = PAGE_HEIGHT - MARGIN;
+    for (const line of this.lines) {
+      if (y - line.height < MARGIN) {
+        pages.push(content.join("\n"));
+        content = [];
+        y = PAGE_HEIGHT - MARGIN;
+      }
+      y -= line.height;
+      for (const run of line.runs) {
+        content.push(`BT /${run.bold ? "F2" : "F1"} ${run.size} Tf ${run.x} ${y.toFixed(1)} Td (${escapePdfText(run.text)}) Tj ET`);
+      }
+    }
+    pages.push(content.join("\n"));
+
+    // Objects: 1 catalog, 2 page tree, 3-4 fonts, then a page and its content per page
+    const objects: string[] = [];
+    const pageIds = pages.map((_, index) => 5 + index * 2);
+    objects[1] = "<< /Type /Catalog /Pages 2 0 R >>";
+    objects[2] = `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(" ")}] /Count ${pages.length} >>`;
+    objects[3] = "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>";
+    objects[4] = "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>";
+    pages.forEach((stream, index) => {
+      const pageId = pageIds[index];
+      objects[pageId] =
+        `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+        `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageId + 1} 0 R >>`;
+      objects[pageId + 1] = `<< /Length ${Buffer.byteLength(stream, "latin1")} >>\nstream\n${stream}\nendstream`;
+    });
+
+    let pdf = "%PDF-1.4\n";
+    const offsets: number[] = [];
+    for (let id = 1; id < objects.length; id++) {
+      offsets[id] = Buffer.byteLength(pdf, "latin1");
+      pdf += `${id} 0 obj\n${objects[id]}\nendobj\n`;
+    }
+    const xrefOffset = Buffer.byteLength(pdf, "latin1");
+    pdf += `xref\n0 ${objects.length}\n0000000000 65535 f \n`;
+    for (let id = 1; id < objects.length; id++) {
+      pdf += `${String(offsets[id]).padStart(10, "0")} 00000 n \n`;
+    }
+    pdf += `trailer\n<< /Size ${objects.length} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+    return Buffer.from(pdf, "latin1");
+  }
+}
+
+function formatPercent(value: number | null | undefined): string {
+  return value === null || value === undefined ? "-" : `${value}%`;
+}
+
+export function renderReportPdf(report: NutritionReport): Buffer {
+  const pdf = new PdfWriter();
+  pdf.text("Nutrition Report", { size: 18, bold: true });
+  pdf.text(`${report.from} to ${report.to}  -  ${report.loggedDays} of ${report.totalDays} days logged`);
+  pdf.space();
+
+  pdf.text("Daily averages", { size: 12, bold: true });
+  const { averages, goal, adherence } = report;
+  pdf.row(["", "Calories", "Protein", "Carbs", "Fat"], [110, 90, 90, 90, 90], { bold: true });
+  pdf.row(["Average", `${averages.calories} kcal`, `${averages.protein} g`, `${averages.carbs} g`, `${averages.fat} g`], [110, 90, 90, 90, 90]);
+  if (goal) {
+    pdf.row(["Goal", `${goal.dailyCalories} kcal`, `${goal.dailyProtein} g`, `${goal.dailyCarbs} g`, `${goal.dailyFat} g`], [110, 90, 90, 90, 90]);
+    pdf.row(
+      ["Days on target", formatPercent(adherence?.calories), formatPercent(adherence?.protein), formatPercent(adherence?.carbs), formatPercent(adherence?.fat)],
+      [110, 90, 90, 90, 90]
+    );
+  }
+  pdf.space();
+
+  const { actual, target } = report.macroRatios;
+  pdf.text(
+    `Calories from protein / carbs / fat: ${actual.protein}% / ${actual.carbs}% / ${actual.fat}%` +
+      (target ? `  (goal ${target.protein}% / ${target.carbs}% / ${target.fat}%)` : "")
+  );
+  pdf.text(
+    `Logging streak: ${report.streaks.logging.current} days (longest ${report.streaks.logging.longest})` +
+      (goal ? `   On-target streak: ${report.streaks.onTarget.current} days (longest ${report.streaks.onTarget.longest})` : "")
+  );
+  pdf.space();
+
+  if (report.mealTypes.length > 0) {
+    pdf.text("Calories by meal", { size: 12, bold: true });
+    pdf.row(["Meal", "Entries", "Calories", "Share"], [110, 90, 90, 90], { bold: true });
+    for (const meal of report.mealTypes) {
+      pdf.row([meal.mealType, meal.entries, `${meal.calories} kcal`, `${meal.percent}%`], [110, 90, 90, 90]);
+    }
+    pdf.space();
+  }
+
+  if (report.topRecipes.length > 0) {
+    pdf.text("Most eaten recipes", { size: 12, bold: true });
+    for (const recipe of report.topRecipes) {
+      pdf.row([recipe.title, `${recipe.times}x`, `${recipe.calories} kcal`], [290, 60, 90]);
+    }
+    pdf.space();
+  }
+
+  pdf.text("Weekly summary", { size: 12, bold: true });
+  const weekColumns = [130, 60, 75, 65, 65, 55, 55];
+  pdf.row(["Week", "Logged", "Calories", "Protein", "Carbs", "Fat", "On target"], weekColumns, { bold: true });
+  for (const week of report.weeks) {
+    pdf.row([
+      `${week.weekStart} - ${week.weekEnd}`,
+      `${week.loggedDays}/${week.days}`,
+      `${week.averages.calories} kcal`,
+      `${week.averages.protein} g`,
+      `${week.averages.carbs} g`,
+      `${week.averages.fat} g`,
+      formatPercent(week.caloriesAdherence),
+    ], weekColumns);
+  }
+  pdf.space();
+
+  pdf.text("Daily detail", { size: 12, bold: true });
+  const dayColumns = [90, 80, 70, 70, 70, 70];
+  pdf.row(["Date", "Calories", "Protein", "Carbs", "Fat", "On target"], dayColumns, { bold: true });
+  for (const day of report.days) {
+    pdf.row([
+      day.date,
+      day.logged ? `${day.calories} kcal` : "not logged",
+      `${day.protein} g`,
+      `${day.carbs} g`,
+      `${day.fat} g`,
+      goal && day.logged ? (day.onTarget ? "yes" : "no") : "-",
+    ], dayColumns);
+  }
+
+  return pdf.render();
+}
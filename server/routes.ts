@@ -11,18 +11,41 @@ import {
   moodEntrySchema, 
   type MoodEntry,
   insertNutritionGoalSchema,
+  insertKitchenStorageLocationSchema,
+  insertStorageItemSchema,
+  insertStoreSchema,
+  insertPriceHistorySchema,
+  insertShoppingPreferencesSchema,
+  insertStoreSpecificListSchema,
   culturalCuisines,
   culturalRecipes,
   culturalTechniques,
   pantryItems,
   kitchenEquipment,
   recipes,
+  type KitchenStorageLocation,
+  type StorageItem,
+  type Store,
+  type PriceHistory,
+  type StoreSpecificList,
+  type ShoppingPreferences,
+  type PantryItem,
+  type Recipe,
+  type MealPlanLog,
+  type NutritionGoal,
+  type NutritionLogEntry,
+  insertNutritionLogEntrySchema,
+  logDatabaseFoodSchema,
+  logPantryFoodSchema,
+  MAX_RECIPE_SERVINGS,
   type User as SchemaUser
 } from "@shared/schema";
 import { 
   analyzeMoodSentiment, 
   generateMoodInsights, 
   generateAIMealPlan,
+  generateAIMealSlot,
+  type MealPlan,
   getNutritionRecommendations,
 } from "../ai-services/recipe-ai";
 import {
@@ -33,6 +56,100 @@ import {
   getSubstitutions,
   generateCulturalRecipeDetails
 } from "../ai-services/cultural-cuisine-service";
+import {
+  predictSpoilage,
+  optimizeStorageLayout,
+  generateSmartShoppingList
+} from "../ai-services/kitchen-organization-ai";
+import {
+  getEquipmentRecommendations,
+  getRecipesByEquipment
+} from "../ai-services/kitchen-inventory-ai";
+import { optimizeShoppingList, comparePrices, resolvePreferredStoreIds } from "./shopping-optimizer";
+import { planPantryDeduction, restoreQuantity, type PantryDeduction } from "./pantry-deduction";
+import { collectMealPlanIngredients, buildGroceryItems, type GroceryItem } from "./meal-plan-groceries";
+import {
+  recipeDietTags,
+  recipeFitsRestrictions,
+  findMealPlanDietWarnings,
+  replaceMealPlanDietProblems,
+  MealPlanDietError,
+} from "./meal-plan-diet";
+import { summarizeAdherence } from "./meal-plan-adherence";
+import { buildDailyProgress, MAX_PROGRESS_DAYS } from "./nutrition-log";
+import { buildNutritionReport, reportToCsv } from "./nutrition-report";
+import { renderReportPdf } from "./report-pdf";
+import { estimateRecipeNutrition, resolveIngredient } from "./recipe-nutrition";
+import { searchFoods } from "./food-composition";
+import {
+  linkMealPlanToRecipes,
+  hydrateMealPlan,
+  setMealPlanSlot,
+  linkedRecipeIds,
+  slotFromRecipe,
+  slotFromCulturalRecipe,
+  overrideDays,
+  hydrateOverrides,
+  recipeYield,
+} from "./meal-plan-recipes";
+import {
+  MEAL_SLOT_TYPES,
+  ROTATION_LENGTHS,
+  MAX_MEAL_PLAN_DAYS,
+  MAX_GENERATED_PLAN_DAYS,
+  slotNutritionSchema,
+  dateKeySchema,
+  mealPlanDaySchema,
+  getPlanLength,
+  listPlanDays,
+  resolvePlanDay,
+  isDateInPlan,
+  listMealSlots,
+  getSlotNutrition,
+  recipeNutrition,
+  scaleNutrition,
+  toDateKey,
+  addDaysToKey,
+  daysBetweenKeys,
+  type MealPlanDay,
+  type MealSlot,
+  type MealPlanOverrides,
+  type SlotNutrition,
+  type MealSlotType,
+} from "@shared/meal-plans";
+import { cleanMicronutrients } from "@shared/nutrients";
+import { scaleRecipeIngredients, toRecipeIngredients } from "@shared/ingredients";
+import {
+  ALLERGENS,
+  DIETS,
+  parseDietaryPreferences,
+  dietaryRestrictionsSchema,
+  describeDietaryRestrictions,
+  findDietViolations,
+  tagIngredients,
+  type DietaryRestrictions,
+} from "@shared/diet";
+import { buildMealBudgets, maxServingsWithin, DEFAULT_MEAL_SPLIT, EMPTY_MACROS, MAX_BUDGET_SERVINGS, type MacroAmounts } from "@shared/meal-budgets";
+import { bodyProfileSchema, weightEntrySchema, calculateNutritionTargets, type NutritionTargets } from "@shared/body-metrics";
+import {
+  buildMaintenanceSchedule,
+  recordMaintenanceSchema,
+  DEFAULT_MAINTENANCE_HORIZON_DAYS,
+  MAX_MAINTENANCE_HORIZON_DAYS,
+} from "@shared/equipment-maintenance";
+import { createKitchenEquipmentSchema, updateKitchenEquipmentSchema } from "@shared/equipment-lifecycle";
+import {
+  matchRecipesToEquipment,
+  recommendEquipment,
+  mergeRecommendations,
+  toSuggestedRecipes,
+  inferRequiredTools,
+  missingTools,
+  ownedTools,
+  recipeTools,
+  requiredEquipmentSchema,
+} from "@shared/recipe-equipment";
+import { z } from "zod";
 import { desc, eq, and, count } from "drizzle-orm";
 import { db } from "./db";
 
@@ -84,6 +201,262 @@ const isResourceOwner = (resourceType: 'recipe' | 'post') => async (req: Request
   }
 };
 
+// Recipes and cultural recipes referenced by a plan's slots, keyed by id
+async function loadLinkedRecipes(days: MealPlanDay[]) {
+  const { recipeIds, culturalRecipeIds } = linkedRecipeIds(days);
+  const [recipeRows, culturalRows] = await Promise.all([
+    storage.getRecipesByIds(recipeIds),
+    storage.getCulturalRecipesByIds(culturalRecipeIds),
+  ]);
+  return {
+    recipesById: new Map(recipeRows.map(recipe => [recipe.id as number, recipe])),
+    culturalById: new Map(culturalRows.map(recipe => [recipe.id, recipe])),
+  };
+}
+
+const updateMealSlotSchema = z.object({
+  // Template day to change, or a single date to override
+  day: z.number().int().min(1).optional(),
+  date: dateKeySchema.optional(),
+  mealType: z.enum(MEAL_SLOT_TYPES),
+  // Omit to append a new snack
+  snackIndex: z.number().int().min(0).optional(),
+  recipeId: z.number().int().positive().optional(),
+  culturalRecipeId: z.number().int().positive().optional(),
+  servings: z.number().positive().default(1),
+  // Only used for cultural recipes, which have no macros of their own
+  nutrition: slotNutritionSchema.optional(),
+});
+
+const consumeRecipeSchema = z.object({
+  servings: z.number().positive("Servings must be positive").max(MAX_RECIPE_SERVINGS).default(1),
+  mealType: z.enum(MEAL_SLOT_TYPES).default("snack"),
+});
+
+const scaleRecipeSchema = z.object({
+  servings: z.number().positive("Servings must be positive").max(MAX_RECIPE_SERVINGS),
+});
+
+// The yield fields of a recipe edit, checked the same way as on create
+const recipeYieldUpdateSchema = z.object({
+  servings: z.number().positive("Servings must be positive").max(MAX_RECIPE_SERVINGS, `A recipe can make at most ${MAX_RECIPE_SERVINGS} servings`).optional(),
+  yieldDescription: z.string().max(100).nullable().optional(),
+});
+
+const nutritionEstimateSchema = z.object({
+  ingredients: z.array(z.string()).min(1, "Add at least one ingredient"),
+  servings: z.number().positive().default(1),
+});
+
+// `days` can shorten what gets generated for a plan, never lengthen it
+const mealPlanDaysSchema = z.number().int().min(1).max(MAX_MEAL_PLAN_DAYS).optional();
+
+// Servings as recipeConsumption.servings counts them; date defaults to today
+const recipeBudgetQuerySchema = z.object({
+  mealType: z.enum(MEAL_SLOT_TYPES),
+  date: dateKeySchema.optional(),
+  servings: z.coerce.number().positive().max(MAX_BUDGET_SERVINGS).default(1),
+});
+
+// Comma-separated ids, e.g. ?diet=vegan,halal
+function commaListSchema<T extends string>(values: readonly [T, ...T[]]) {
+  return z
+    .string()
+    .optional()
+    .transform(value => (value ? value.split(",").map(item => item.trim()).filter(Boolean) : []))
+    .pipe(z.array(z.enum(values as [T, ...T[]])));
+}
+
+const recipeDietQuerySchema = z.object({
+  diet: commaListSchema(DIETS),
+  allergenFree: commaListSchema(ALLERGENS),
+  // "mine" adds the user's own dietary restrictions to the filter
+  restrictions: z.enum(["mine"]).optional(),
+  // "available" keeps only recipes the user's kitchen equipment can make
+  equipment: z.enum(["available"]).optional(),
+});
+
+// How far ahead to list upcoming equipment maintenance
+const maintenanceScheduleQuerySchema = z.object({
+  days: z.coerce.number().int().min(1).max(MAX_MAINTENANCE_HORIZON_DAYS).default(DEFAULT_MAINTENANCE_HORIZON_DAYS),
+});
+
+const cookingPreferencesSchema = z.array(z.string().trim().min(1).max(100)).max(20);
+
+// Equipment comes from the user's saved inventory, not the request
+const equipmentRecommendationsSchema = z.object({
+  cookingPreferences: cookingPreferencesSchema.default([]),
+  budget: z.number().positive().optional(),
+});
+
+const recipeMatchesSchema = z.object({
+  userPreferences: cookingPreferencesSchema.optional(),
+});
+
+const logMealSchema = z.object({
+  date: dateKeySchema,
+  mealType: z.enum(MEAL_SLOT_TYPES),
+  snackIndex: z.number().int().min(0).default(0),
+  status: z.enum(["eaten", "skipped", "swapped"]),
+  // What was eaten instead, for swapped meals
+  recipeId: z.number().int().positive().optional(),
+  servings: z.number().positive().max(MAX_RECIPE_SERVINGS).default(1),
+});
+
+function formatServings(servings: number): string {
+  return `${servings} ${servings === 1 ? "serving" : "servings"}`;
+}
+
+// Pantry items store nutrition per serving, in the same shape as recipes
+function pantryNutrition(item: PantryItem): SlotNutrition {
+  const info = (item.nutritionInfo ?? {}) as Partial<SlotNutrition>;
+  return {
+    calories: Number(info.calories) || 0,
+    protein: Number(info.protein) || 0,
+    carbs: Number(info.carbs) || 0,
+    fat: Number(info.fat) || 0,
+    micronutrients: cleanMicronutrients(info.micronutrients),
+  };
+}
+
+// Records that a recipe was eaten: consumption row, nutrition log entry for that day and pantry stock
+async function consumeRecipe(userId: number, recipe: Recipe, servings: number, mealType: string, consumedAt = new Date()) {
+  const nutrition = scaleNutrition(recipeNutrition(recipe), servings);
+
+  // Take what the recipe used out of the pantry
+  const pantry = await storage.getPantryItemsByUser(userId);
+  const { deductions, missing } = planPantryDeduction(toRecipeIngredients(recipe.ingredients), pantry, servings / recipeYield(recipe));
+
+  const consumption = await storage.recordRecipeConsumption(
+    {
+      userId,
+      recipeId: recipe.id,
+      servings,
+      mealType,
+      consumedAt
+    },
+    {
+      userId,
+      date: toDateKey(consumedAt),
+      source: "recipe",
+      mealPlanLogId: null,
+      pantryItemId: null,
+      mealType,
+      description: recipe.title,
+      quantity: formatServings(servings),
+      calories: nutrition.calories,
+      protein: nutrition.protein,
+      carbs: nutrition.carbs,
+      fat: nutrition.fat,
+      micronutrients: nutrition.micronutrients ?? {},
+    },
+    deductions
+  );
+
+  return { consumption, nutrition, pantry: { deducted: deductions, missing } };
+}
+
+/**
+ * Removes what a meal log added to the nutrition log, along with its
+ * consumption row. Returns false, changing nothing, while the consumption still
+ * has pantry deductions that haven't been undone.
+ */
+async function reverseMealLog(userId: number, log: MealPlanLog): Promise<boolean> {
+  if (log.consumptionId) {
+    const consumption = await storage.getRecipeConsumption(log.consumptionId, userId);
+    const deductions = (consumption?.pantryDeductions as PantryDeduction[] | null) ?? [];
+    if (deductions.length > 0) return false;
+    // Its nutrition log entry goes with it
+    if (consumption) await storage.deleteConsumptionRecord(consumption.id, userId);
+  }
+  await storage.deleteNutritionLogEntriesForMealLog(log.id);
+  return true;
+}
+
+// Replaces the active goal with one calculated from body metrics, keeping the previous goal's other settings
+async function saveAdaptiveGoal(
+  userId: number,
+  targets: NutritionTargets,
+  previous: Pick<NutritionGoal, "micronutrientTargets" | "mealSplit"> | null
+): Promise<NutritionGoal> {
+  await storage.deactivateNutritionGoals(userId);
+  return storage.createNutritionGoal({
+    userId,
+    dailyCalories: targets.dailyCalories,
+    dailyProtein: targets.dailyProtein,
+    dailyCarbs: targets.dailyCarbs,
+    dailyFat: targets.dailyFat,
+    micronutrientTargets: previous?.micronutrientTargets ?? {},
+    mealSplit: previous?.mealSplit ?? DEFAULT_MEAL_SPLIT,
+    adaptive: true,
+    isActive: true,
+    createdAt: new Date(),
+  });
+}
+
+// A goal's per-meal budgets against what the nutrition log has for a date
+async function getMealBudgets(userId: number, goal: NutritionGoal, date: string) {
+  const entries = await storage.getNutritionLogEntries(userId, date, date);
+  const add = (total: MacroAmounts, entry: NutritionLogEntry): MacroAmounts => ({
+    calories: total.calories + entry.calories,
+    protein: total.protein + entry.protein,
+    carbs: total.carbs + entry.carbs,
+    fat: total.fat + entry.fat,
+  });
+  const eatenByMeal: Partial<Record<MealSlotType, MacroAmounts>> = {};
+  let eatenToday = EMPTY_MACROS;
+  for (const entry of entries) {
+    eatenToday = add(eatenToday, entry);
+    const mealType = entry.mealType as MealSlotType | null;
+    if (mealType && MEAL_SLOT_TYPES.includes(mealType)) {
+      eatenByMeal[mealType] = add(eatenByMeal[mealType] ?? EMPTY_MACROS, entry);
+    }
+  }
+  return buildMealBudgets(goal, eatenByMeal, eatenToday);
+}
+
+// Hard restrictions from the user's dietary preferences, plus any extra entries given for one request
+async function getDietaryRestrictions(userId: number, extra: unknown[] = []): Promise<DietaryRestrictions> {
+  const user = await storage.getUser(userId);
+  const saved = (user?.preferences as { dietaryPreferences?: unknown } | undefined)?.dietaryPreferences;
+  return parseDietaryPreferences([...(Array.isArray(saved) ? saved : []), ...extra]);
+}
+
+// Targets for the user's body profile at their latest logged weight, or null until both exist
+async function getBodyTargets(userId: number): Promise<NutritionTargets | null> {
+  const [profile, weight] = await Promise.all([storage.getBodyProfile(userId), storage.getLatestWeight(userId)]);
+  if (!profile || !weight) return null;
+  return calculateNutritionTargets(profile, weight.weightKg, toDateKey(new Date()));
+}
+
+/**
+ * Recalculates an adaptive goal after the body profile or weight log changes.
+ * A new goal row is only written when the targets actually move, so the goal
+ * history shows each adjustment. Goals set by hand are left alone.
+ */
+async function refreshAdaptiveGoal(userId: number): Promise<NutritionGoal | null> {
+  const goal = await storage.getCurrentNutritionGoal(userId);
+  if (!goal?.adaptive) return goal;
+
+  const targets = await getBodyTargets(userId);
+  if (!targets) return goal;
+  const unchanged =
+    targets.dailyCalories === goal.dailyCalories &&
+    targets.dailyProtein === goal.dailyProtein &&
+    targets.dailyCarbs === goal.dailyCarbs &&
+    targets.dailyFat === goal.dailyFat;
+  return unchanged ? goal : saveAdaptiveGoal(userId, targets, goal);
+}
+
+// Inclusive yyyy-MM-dd range from ?from=&to=, defaulting to the last `days` days
+function parseDateRange(query: Record<string, unknown>, days: number) {
+  const to = dateKeySchema.safeParse(query.to);
+  const end = to.success ? to.data : toDateKey(new Date());
+  const from = dateKeySchema.safeParse(query.from);
+  const start = from.success ? from.data : addDaysToKey(end, -(days - 1));
+  return { from: start, to: end };
+}
+
 // Async handler to catch errors in async routes
 const asyncHandler =
   (fn: (req: Request, res: Response, next: NextFunction) => Promise<any>) =>
@@ -130,12 +503,58 @@ export async function registerRoutes(app: Express): Promise<Server> {
     "/api/recipes",
     isAuthenticated,
     asyncHandler(async (req, res) => {
+      const filter = recipeDietQuerySchema.safeParse(req.query);
+      if (!filter.success) {
+        return res.status(400).json({ message: "Invalid diet filter", errors: filter.error.errors });
+      }
+
       // Only return recipes created by the current user or shared with them
       const recipesTable = recipes; // Assign to new variable to avoid naming conflict
       const userRecipes = await db.select()
         .from(recipesTable)
         .where(eq(recipesTable.createdBy, req.user!.id));
-      res.json(userRecipes);
+
+      const restrictions = filter.data.restrictions === "mine"
+        ? await getDietaryRestrictions(req.user!.id, [...filter.data.diet!, ...filter.data.allergenFree!])
+        : { diets: filter.data.diet!, allergens: filter.data.allergenFree! };
+      const owned = filter.data.equipment === "available"
+        ? ownedTools(await storage.getKitchenEquipmentByUser(req.user!.id))
+        : null;
+      const tagged = userRecipes
+        .filter(recipe => !owned || missingTools(recipeTools(recipe), owned).length === 0)
+        .map(recipe => ({ ...recipe, dietTags: recipeDietTags(recipe) }))
+        .filter(recipe => findDietViolations(recipe.dietTags, restrictions).length === 0);
+      res.json(tagged);
+    })
+  );
+
+  // Recipes that fit what's left of a meal's budget at the requested number of servings
+  app.get(
+    "/api/recipes/within-budget",
+    isAuthenticated,
+    asyncHandler(async (req, res) => {
+      const result = recipeBudgetQuerySchema.safeParse(req.query);
+      if (!result.success) {
+        return res.status(400).json({ message: "Invalid budget filter", errors: result.error.errors });
+      }
+
+      const currentGoal = await storage.getCurrentNutritionGoal(req.user!.id);
+      if (!currentGoal) {
+        return res.status(404).json({ message: "No active nutrition goal" });
+      }
+
+      const mealType = result.data.mealType!;
+      const servings = result.data.servings ?? 1;
+      const date = result.data.date ?? toDateKey(new Date());
+      const budgets = await getMealBudgets(req.user!.id, currentGoal, date);
+      const remaining = budgets.meals.find(meal => meal.mealType === mealType)!.remaining;
+
+      const userRecipes = await db.select().from(recipes).where(eq(recipes.createdBy, req.user!.id));
+      const fitting = userRecipes
+        .map(recipe => ({ ...recipe, maxServings: maxServingsWithin(recipeNutrition(recipe), remaining) }))
+        .filter(recipe => recipe.maxServings >= servings);
+
+      res.json({ mealType, date, servings, remaining, recipes: fitting });
     })
   );
 
@@ -161,6 +580,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
         instructions: validated.instructions,
         imageUrl: typeof validated.imageUrl === "string" ? validated.imageUrl : "",
         prepTime: typeof validated.prepTime === "number" ? validated.prepTime : 0,
+        servings: validated.servings ?? 1,
+        yieldDescription: validated.yieldDescription || null,
         likes: 0,
         forkedFrom: null,
         sustainabilityScore,
@@ -170,11 +591,50 @@ export async function registerRoutes(app: Express): Promise<Server> {
     })
   );
 
+  // Nutrition worked out from ingredient lines with the bundled food table; no AI involved
+  app.post(
+    "/api/recipes/nutrition-estimate",
+    isAuthenticated,
+    asyncHandler(async (req, res) => {
+      const result = nutritionEstimateSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ message: "Invalid ingredients", errors: result.error.errors });
+      }
+
+      res.json(estimateRecipeNutrition(result.data.ingredients, result.data.servings));
+    })
+  );
+
+  app.get(
+    "/api/foods",
+    isAuthenticated,
+    asyncHandler(async (req, res) => {
+      const query = typeof req.query.q === "string" ? req.query.q : "";
+      res.json(searchFoods(query));
+    })
+  );
+
   app.patch(
     "/api/recipes/:id",
     isResourceOwner("recipe"),
     asyncHandler(async (req, res) => {
-      const recipe = await storage.updateRecipe(parseInt(req.params.id), req.body);
+      const data = { ...req.body };
+      if (data.requiredEquipment !== undefined) {
+        const tools = requiredEquipmentSchema.safeParse(data.requiredEquipment);
+        if (!tools.success) {
+          return res.status(400).json({ message: "Invalid required equipment", errors: tools.error.errors });
+        }
+        data.requiredEquipment = tools.data;
+      }
+      if (data.servings !== undefined || data.yieldDescription !== undefined) {
+        const yieldResult = recipeYieldUpdateSchema.safeParse({ servings: data.servings, yieldDescription: data.yieldDescription });
+        if (!yieldResult.success) {
+          return res.status(400).json({ message: "Invalid servings", errors: yieldResult.error.errors });
+        }
+        Object.assign(data, yieldResult.data);
+      }
+
+      const recipe = await storage.updateRecipe(parseInt(req.params.id), data);
       res.json(recipe);
     })
   );
@@ -275,57 +735,95 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(401).json({ message: "Unauthorized" });
       }
 
-      const recipeId = parseInt(req.params.id);
-      const { servings = 1, mealType = "snack" } = req.body;
-
-      // Track recipe consumption
-      const consumption = await storage.trackRecipeConsumption({
-        userId: req.user.id,
-        recipeId,
-        servings,
-        mealType,
-        consumedAt: new Date()
-      });
+      const result = consumeRecipeSchema.safeParse(req.body ?? {});
+      if (!result.success) {
+        return res.status(400).json({ message: "Invalid consumption", errors: result.error.errors });
+      }
 
       // Get recipe details for nutrition tracking
-      const recipe = await storage.getRecipe(recipeId);
+      const recipe = await storage.getRecipe(parseInt(req.params.id));
       if (!recipe) {
         return res.status(404).json({ message: "Recipe not found" });
       }
 
-      // Get current nutrition goal
-      const currentGoal = await storage.getCurrentNutritionGoal(req.user.id);
-      if (currentGoal) {
-        const today = new Date().toISOString().split('T')[0];
-        const existingProgress = currentGoal.progress || [];
-        const todayEntry = existingProgress.find((p: any) => p.date === today);
-        
-        const nutritionInfo = recipe.nutritionInfo as any;
-        const scaledNutrition = {
-          calories: nutritionInfo.calories * servings,
-          protein: nutritionInfo.protein * servings,
-          carbs: nutritionInfo.carbs * servings,
-          fat: nutritionInfo.fat * servings,
-        };
+      const { servings = 1, mealType = "snack" } = result.data;
+      const { consumption, pantry } = await consumeRecipe(req.user.id, recipe, servings, mealType);
+      res.json({ ...consumption, pantry });
+    })
+  );
+
+  // Ingredient amounts and nutrition for a different number of servings; nothing is saved
+  app.post(
+    "/api/recipes/:id/scale",
+    isAuthenticated,
+    asyncHandler(async (req, res) => {
+      const result = scaleRecipeSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ message: "Invalid servings", errors: result.error.errors });
+      }
 
-        const newProgress = todayEntry
-          ? existingProgress.map((p: any) => p.date === today ? {
-              ...p,
-              calories: p.calories + scaledNutrition.calories,
-              protein: p.protein + scaledNutrition.protein,
-              carbs: p.carbs + scaledNutrition.carbs,
-              fat: p.fat + scaledNutrition.fat,
-            } : p)
-          : [...existingProgress, {
-              date: today,
-              ...scaledNutrition,
-              completed: false,
-            }];
+      const recipe = await storage.getRecipe(parseInt(req.params.id));
+      if (!recipe) {
+        return res.status(404).json({ message: "Recipe not found" });
+      }
+
+      const servings = result.data.servings!;
+      res.json({
+        recipeId: recipe.id,
+        originalServings: recipeYield(recipe),
+        servings,
+        ingredients: scaleRecipeIngredients(toRecipeIngredients(recipe.ingredients), recipeYield(recipe), servings),
+        perServing: recipeNutrition(recipe),
+        total: scaleNutrition(recipeNutrition(recipe), servings),
+      });
+    })
+  );
+
+  app.post(
+    "/api/recipes/consumption/:id/undo-deduction",
+    isAuthenticated,
+    asyncHandler(async (req, res) => {
+      const consumption = await storage.getRecipeConsumption(parseInt(req.params.id), req.user!.id);
+      if (!consumption) {
+        return res.status(404).json({ message: "Consumption record not found" });
+      }
+
+      // Claiming the deductions first means a repeated request finds nothing left to restore
+      const deductions = (consumption.pantryDeductions as PantryDeduction[] | null) ?? [];
+      if (deductions.length === 0 || !(await storage.claimConsumptionPantryDeductions(consumption.id, req.user!.id))) {
+        return res.status(409).json({
+          message: "Nothing to undo",
+          details: "No pantry stock was deducted for this meal, or it has already been restored."
+        });
+      }
+
+      const restored: PantryItem[] = [];
+      const notRestored: { name: string; reason: string }[] = [];
+      for (const deduction of deductions) {
+        if (deduction.removed && deduction.removedItem) {
+          const { removedItem } = deduction;
+          restored.push(await storage.createPantryItem({
+            ...removedItem,
+            userId: req.user!.id,
+            quantity: deduction.previousQuantity,
+            expiryDate: removedItem.expiryDate ? new Date(removedItem.expiryDate) : null,
+          }));
+          continue;
+        }
 
-        await storage.updateNutritionProgress(currentGoal.id, newProgress);
+        const item = await storage.getPantryItem(deduction.pantryItemId, req.user!.id);
+        const quantity = item ? restoreQuantity(item.quantity, deduction) : null;
+        if (!item || !quantity) {
+          notRestored.push({
+            name: deduction.name,
+            reason: item ? "The item's unit has changed since it was deducted" : "The item has been removed from the pantry"
+          });
+          continue;
+        }
+        restored.push(await storage.updatePantryItem(item.id, { quantity }));
       }
 
-      res.json(consumption);
+      res.json({ restored, notRestored });
     })
   );
 
@@ -399,6 +897,243 @@ export async function registerRoutes(app: Express): Promise<Server> {
     })
   );
 
+  // ----------------- Smart Shopping Routes -----------------
+  app.get(
+    "/api/stores",
+    isAuthenticated,
+    asyncHandler(async (req, res) => {
+      const storeList = await storage.getStores();
+      res.json(storeList);
+    })
+  );
+
+  app.post(
+    "/api/stores",
+    isAuthenticated,
+    asyncHandler(async (req, res) => {
+      const result = insertStoreSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ message: "Invalid store", errors: result.error.errors });
+      }
+
+      const store = await storage.createStore(result.data as Store);
+      res.status(201).json(store);
+    })
+  );
+
+  app.get(
+    "/api/stores/:id/prices",
+    isAuthenticated,
+    asyncHandler(async (req, res) => {
+      const storeId = parseInt(req.params.id);
+      const store = await storage.getStore(storeId);
+      if (!store) {
+        return res.status(404).json({ message: "Store not found" });
+      }
+
+      const prices = await storage.getPriceHistory([storeId]);
+      res.json(prices);
+    })
+  );
+
+  app.post(
+    "/api/stores/:id/prices",
+    isAuthenticated,
+    asyncHandler(async (req, res) => {
+      const storeId = parseInt(req.params.id);
+      const store = await storage.getStore(storeId);
+      if (!store) {
+        return res.status(404).json({ message: "Store not found" });
+      }
+
+      const result = insertPriceHistorySchema.safeParse({
+        ...req.body,
+        storeId,
+        saleEndDate: req.body.saleEndDate ? new Date(req.body.saleEndDate) : null,
+      });
+      if (!result.success) {
+        return res.status(400).json({ message: "Invalid price entry", errors: result.error.errors });
+      }
+
+      const entry = await storage.recordPrice(result.data as PriceHistory);
+      res.status(201).json(entry);
+    })
+  );
+
+  app.get(
+    "/api/store-lists",
+    isAuthenticated,
+    asyncHandler(async (req, res) => {
+      const lists = await storage.getStoreListsByUser(req.user!.id);
+      res.json(lists);
+    })
+  );
+
+  app.post(
+    "/api/store-lists",
+    isAuthenticated,
+    asyncHandler(async (req, res) => {
+      const result = insertStoreSpecificListSchema.safeParse({
+        ...req.body,
+        userId: req.user!.id,
+      });
+      if (!result.success) {
+        return res.status(400).json({ message: "Invalid store list", errors: result.error.errors });
+      }
+      const validated = result.data as StoreSpecificList;
+
+      const store = await storage.getStore(validated.storeId);
+      if (!store) {
+        return res.status(404).json({ message: "Store not found" });
+      }
+
+      const list = await storage.createStoreList(validated);
+      res.status(201).json(list);
+    })
+  );
+
+  app.patch(
+    "/api/store-lists/:id",
+    isAuthenticated,
+    asyncHandler(async (req, res) => {
+      const listId = parseInt(req.params.id);
+      const existing = await storage.getStoreList(listId, req.user!.id);
+      if (!existing) {
+        return res.status(404).json({ message: "Store list not found" });
+      }
+
+      const result = insertStoreSpecificListSchema.safeParse({
+        ...existing,
+        ...req.body,
+        userId: req.user!.id,
+      });
+      if (!result.success) {
+        return res.status(400).json({ message: "Invalid store list", errors: result.error.errors });
+      }
+
+      const list = await storage.updateStoreList(listId, req.user!.id, result.data as StoreSpecificList);
+      res.json(list);
+    })
+  );
+
+  app.delete(
+    "/api/store-lists/:id",
+    isAuthenticated,
+    asyncHandler(async (req, res) => {
+      const listId = parseInt(req.params.id);
+      const existing = await storage.getStoreList(listId, req.user!.id);
+      if (!existing) {
+        return res.status(404).json({ message: "Store list not found" });
+      }
+
+      await storage.deleteStoreList(listId, req.user!.id);
+      res.sendStatus(204);
+    })
+  );
+
+  app.get(
+    "/api/shopping/preferences",
+    isAuthenticated,
+    asyncHandler(async (req, res) => {
+      const preferences = await storage.getShoppingPreferences(req.user!.id);
+      res.json(preferences ?? null);
+    })
+  );
+
+  app.put(
+    "/api/shopping/preferences",
+    isAuthenticated,
+    asyncHandler(async (req, res) => {
+      // saveShoppingPreferences ignores id, userId and createdAt; the owner always comes from the session
+      const result = insertShoppingPreferencesSchema.partial().safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ message: "Invalid shopping preferences", errors: result.error.errors });
+      }
+
+      const preferences = await storage.saveShoppingPreferences(req.user!.id, result.data as Partial<ShoppingPreferences>);
+      res.json(preferences);
+    })
+  );
+
+  // Stores the optimizer may pick from: the user's preferred stores, or every store if none are set
+  const getCandidateStores = async (userId: number) => {
+    const [allStores, preferences] = await Promise.all([
+      storage.getStores(),
+      storage.getShoppingPreferences(userId),
+    ]);
+    const preferredIds = resolvePreferredStoreIds(preferences?.preferredStores);
+    const preferred = allStores.filter(store => preferredIds.includes(store.id));
+    return preferred.length > 0 ? preferred : allStores;
+  };
+
+  app.post(
+    "/api/shopping/optimize",
+    isAuthenticated,
+    asyncHandler(async (req, res) => {
+      const { items, preferences = {} } = req.body;
+      if (!Array.isArray(items) || items.some(item => typeof item?.name !== "string")) {
+        return res.status(400).json({ message: "items must be an array of { name, quantity }" });
+      }
+
+      const candidateStores = await getCandidateStores(req.user!.id);
+      const history = await storage.getPriceHistory(candidateStores.map(store => store.id));
+      const result = optimizeShoppingList(items, candidateStores, history, {
+        maxStores: Number(preferences.maxStores) || 3,
+      });
+      res.json(result);
+    })
+  );
+
+  app.post(
+    "/api/shopping/compare-prices",
+    isAuthenticated,
+    asyncHandler(async (req, res) => {
+      const { items } = req.body;
+      if (!Array.isArray(items) || items.some(item => typeof item !== "string")) {
+        return res.status(400).json({ message: "items must be an array of product names" });
+      }
+
+      const candidateStores = await getCandidateStores(req.user!.id);
+      const history = await storage.getPriceHistory(candidateStores.map(store => store.id));
+      res.json(comparePrices(items, candidateStores, history));
+    })
+  );
+
+  // ----------------- Dietary Restrictions Routes -----------------
+  // Allergens and diets enforced on recipe filters and generated meal plans
+  app.get(
+    "/api/dietary-restrictions",
+    isAuthenticated,
+    asyncHandler(async (req, res) => {
+      res.json(await getDietaryRestrictions(req.user!.id));
+    })
+  );
+
+  app.put(
+    "/api/dietary-restrictions",
+    isAuthenticated,
+    asyncHandler(async (req, res) => {
+      const result = dietaryRestrictionsSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ message: "Invalid dietary restrictions", errors: result.error.errors });
+      }
+
+      const user = await storage.getUser(req.user!.id);
+      const preferences = (user?.preferences ?? {}) as { dietaryPreferences?: unknown };
+      // Free-text preferences that aren't restrictions ("low sodium") are kept as they are
+      const saved = Array.isArray(preferences.dietaryPreferences) ? preferences.dietaryPreferences : [];
+      const soft = saved.filter(entry => {
+        const parsed = parseDietaryPreferences([entry]);
+        return parsed.allergens.length === 0 && parsed.diets.length === 0;
+      });
+      const restrictions = { diets: result.data.diets!, allergens: result.data.allergens! };
+      await storage.updateUser(req.user!.id, {
+        preferences: { ...preferences, dietaryPreferences: [...soft, ...restrictions.diets, ...restrictions.allergens] },
+      });
+      res.json(restrictions);
+    })
+  );
+
   // ----------------- Pantry Items Routes -----------------
   app.get(
     "/api/pantry",
@@ -408,7 +1143,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(401).json({ message: "Unauthorized" });
       }
       const items = await storage.getPantryItemsByUser(req.user.id);
-      res.json(items);
+      res.json(items.map(item => ({ ...item, dietTags: tagIngredients([{ name: item.name }]) })));
     })
   );
 
@@ -439,6 +1174,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
     isAuthenticated,
     asyncHandler(async (req, res) => {
       const itemId = parseInt(req.params.id);
+      if (req.body.quantity !== undefined) {
+        const quantity = insertPantryItemSchema.shape.quantity.safeParse(req.body.quantity);
+        if (!quantity.success) {
+          return res.status(400).json({ message: "Invalid quantity", errors: quantity.error.errors });
+        }
+      }
       const data = {
         ...req.body,
         expiryDate: req.body.expiryDate ? new Date(req.body.expiryDate) : null,
@@ -598,310 +1339,1315 @@ export async function registerRoutes(app: Express): Promise<Server> {
         entry => entry.recipeId === parseInt(req.params.recipeId)
       );
 
-      res.json(recipeEntries);
+      res.json(recipeEntries);
+    })
+  );
+
+  app.get(
+    "/api/mood-journal/:recipeId/insights",
+    isAuthenticated,
+    asyncHandler(async (req, res) => {
+      if (!req.user?.id) {
+        return res.status(401).json({ message: "Unauthorized" });
+      }
+      
+      const user = await storage.getUser(req.user.id);
+      if (!user) return res.sendStatus(404);
+
+      const recipeEntries = ((user.moodJournal || []) as MoodEntry[]).filter(
+        entry => entry.recipeId === parseInt(req.params.recipeId)
+      );
+
+      if (recipeEntries.length === 0) {
+        return res.json({
+          summary: "Not enough entries to generate insights yet.",
+          patterns: [],
+          recommendations: {
+            title: "Get Started",
+            items: [{
+              focus: "First Entry",
+              suggestion: "Add your first cooking experience to begin tracking your journey."
+            }]
+          }
+        });
+      }
+
+      const insights = await generateMoodInsights(recipeEntries);
+      res.json(insights);
+    })
+  );
+
+  app.delete(
+    "/api/mood-journal/:recipeId/:timestamp",
+    isAuthenticated,
+    asyncHandler(async (req, res) => {
+      if (!req.user?.id) {
+        return res.status(401).json({ message: "Unauthorized" });
+      }
+      
+      const user = await storage.getUser(req.user.id);
+      if (!user) return res.sendStatus(404);
+
+      const timestamp = decodeURIComponent(req.params.timestamp);
+      const moodJournal = (user.moodJournal || []) as MoodEntry[];
+      const updatedJournal = moodJournal.filter(entry => 
+        entry.recipeId !== parseInt(req.params.recipeId) || entry.timestamp !== timestamp
+      );
+
+      await storage.updateUser(user.id, {
+        ...user,
+        moodJournal: updatedJournal,
+      });
+
+      res.json({ message: "Entry deleted successfully" });
+    })
+  );
+
+  // ----------------- Nutrition Goals Routes -----------------
+  app.get(
+    "/api/nutrition-goals/current",
+    isAuthenticated,
+    asyncHandler(async (req, res) => {
+      if (!req.user) {
+        return res.status(401).json({ message: "Unauthorized" });
+      }
+      const goal = await storage.getCurrentNutritionGoal(req.user.id);
+      res.json(goal);
+    })
+  );
+
+  app.post(
+    "/api/nutrition-goals",
+    isAuthenticated,
+    asyncHandler(async (req, res) => {
+      const user = req.user;
+      if (!user) {
+        return res.status(401).json({ message: "Unauthorized" });
+      }
+
+      // Date coercion is now handled by the schema
+      const validated = insertNutritionGoalSchema.parse({
+        ...req.body,
+        userId: user.id
+      });
+      
+      // Deactivate any existing active goals
+      await storage.deactivateNutritionGoals(user.id);
+      
+      // Create new goal; numbers entered by hand stay fixed
+      const goal = await storage.createNutritionGoal({ ...validated, adaptive: false });
+      res.status(201).json(goal);
+    })
+  );
+
+  // Switches to targets calculated from the body profile, keeping micronutrient targets and the meal split
+  app.post(
+    "/api/nutrition-goals/adaptive",
+    isAuthenticated,
+    asyncHandler(async (req, res) => {
+      const targets = await getBodyTargets(req.user!.id);
+      if (!targets) {
+        return res.status(400).json({ message: "Set up your body profile and log your weight first" });
+      }
+
+      const currentGoal = await storage.getCurrentNutritionGoal(req.user!.id);
+      const goal = await saveAdaptiveGoal(req.user!.id, targets, currentGoal);
+      res.status(201).json(goal);
+    })
+  );
+
+  app.get(
+    "/api/nutrition-goals/progress/today",
+    isAuthenticated,
+    asyncHandler(async (req, res) => {
+      if (!req.user) {
+        return res.status(401).json({ message: "Unauthorized" });
+      }
+
+      const currentGoal = await storage.getCurrentNutritionGoal(req.user.id);
+      if (!currentGoal) {
+        return res.status(404).json({ message: "No active nutrition goal" });
+      }
+
+      const today = toDateKey(new Date());
+      const totals = await storage.getDailyNutritionTotals(req.user.id, today, today);
+      const [todayProgress] = buildDailyProgress(totals, today, today, currentGoal);
+      res.json(todayProgress);
+    })
+  );
+
+  // Each meal's share of the goal and what's still left of it for the day
+  app.get(
+    "/api/nutrition-goals/meal-budgets",
+    isAuthenticated,
+    asyncHandler(async (req, res) => {
+      const currentGoal = await storage.getCurrentNutritionGoal(req.user!.id);
+      if (!currentGoal) {
+        return res.status(404).json({ message: "No active nutrition goal" });
+      }
+
+      const date = dateKeySchema.safeParse(req.query.date);
+      const day = date.success ? date.data : toDateKey(new Date());
+      res.json({ date: day, ...(await getMealBudgets(req.user!.id, currentGoal, day)) });
+    })
+  );
+
+  app.get(
+    "/api/nutrition-goals/insights",
+    isAuthenticated,
+    asyncHandler(async (req, res) => {
+      if (!req.user) {
+        return res.status(401).json({ message: "Unauthorized" });
+      }
+
+      // Get current goal and progress
+      const currentGoal = await storage.getCurrentNutritionGoal(req.user.id);
+      if (!currentGoal) {
+        return res.status(404).json({ message: "No active nutrition goal" });
+      }
+
+      // Get user preferences - fixed to use correct method name
+      const user = await storage.getUser(req.user.id);
+      const preferences = user?.preferences?.dietaryPreferences || [];
+
+      // The last 30 days of the nutrition log, skipping days nothing was logged
+      const { from, to } = parseDateRange({}, 30);
+      const totals = await storage.getDailyNutritionTotals(req.user.id, from, to);
+      const progress = buildDailyProgress(totals, from, to, currentGoal).filter(day => day.calories > 0);
+
+      // Get AI recommendations
+      const recommendations = await getNutritionRecommendations(
+        {
+          calories: currentGoal.dailyCalories,
+          protein: currentGoal.dailyProtein,
+          carbs: currentGoal.dailyCarbs,
+          fat: currentGoal.dailyFat,
+        },
+        progress,
+        preferences
+      );
+
+      res.json(recommendations);
+    })
+  );
+
+  // ----------------- Nutrition Log Routes -----------------
+  // Daily totals for charts and goal tracking, one entry per date in the range
+  app.get(
+    "/api/nutrition-log/daily",
+    isAuthenticated,
+    asyncHandler(async (req, res) => {
+      const { from, to } = parseDateRange(req.query, 7);
+      const days = daysBetweenKeys(from, to) + 1;
+      if (days < 1 || days > MAX_PROGRESS_DAYS) {
+        return res.status(400).json({ message: `Choose a range of 1 to ${MAX_PROGRESS_DAYS} days` });
+      }
+
+      const currentGoal = await storage.getCurrentNutritionGoal(req.user!.id);
+      const totals = await storage.getDailyNutritionTotals(req.user!.id, from, to);
+      res.json(buildDailyProgress(totals, from, to, currentGoal));
+    })
+  );
+
+  // Day and week aggregates with adherence and trends; ?format=csv or pdf downloads it
+  app.get(
+    "/api/nutrition-reports",
+    isAuthenticated,
+    asyncHandler(async (req, res) => {
+      const { from, to } = parseDateRange(req.query, 7);
+      const days = daysBetweenKeys(from, to) + 1;
+      if (days < 1 || days > MAX_PROGRESS_DAYS) {
+        return res.status(400).json({ message: `Choose a range of 1 to ${MAX_PROGRESS_DAYS} days` });
+      }
+
+      const [currentGoal, totals, entries] = await Promise.all([
+        storage.getCurrentNutritionGoal(req.user!.id),
+        storage.getDailyNutritionTotals(req.user!.id, from, to),
+        storage.getNutritionLogEntries(req.user!.id, from, to),
+      ]);
+      const report = buildNutritionReport(totals, entries, from, to, currentGoal);
+
+      const filename = `nutrition-report-${from}-to-${to}`;
+      if (req.query.format === "csv") {
+        res.setHeader("Content-Type", "text/csv; charset=utf-8");
+        res.setHeader("Content-Disposition", `attachment; filename="${filename}.csv"`);
+        return res.send(reportToCsv(report));
+      }
+      if (req.query.format === "pdf") {
+        res.setHeader("Content-Type", "application/pdf");
+        res.setHeader("Content-Disposition", `attachment; filename="${filename}.pdf"`);
+        return res.send(renderReportPdf(report));
+      }
+      res.json(report);
+    })
+  );
+
+  app.get(
+    "/api/nutrition-log",
+    isAuthenticated,
+    asyncHandler(async (req, res) => {
+      const { from, to } = parseDateRange(req.query, 1);
+      const entries = await storage.getNutritionLogEntries(req.user!.id, from, to);
+      res.json(entries);
+    })
+  );
+
+  app.post(
+    "/api/nutrition-log",
+    isAuthenticated,
+    asyncHandler(async (req, res) => {
+      const result = insertNutritionLogEntrySchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ message: "Invalid nutrition entry", errors: result.error.errors });
+      }
+
+      const { date, mealType, description, calories, protein, carbs, fat, micronutrients } = result.data;
+      const entry = await storage.addNutritionLogEntry({
+        userId: req.user!.id,
+        date,
+        source: "manual",
+        consumptionId: null,
+        mealPlanLogId: null,
+        pantryItemId: null,
+        mealType,
+        description,
+        quantity: null,
+        calories,
+        protein,
+        carbs,
+        fat,
+        micronutrients: cleanMicronutrients(micronutrients),
+      });
+      res.status(201).json(entry);
+    })
+  );
+
+  // A food from the bundled nutrient database, e.g. { food: "banana", amount: "1" }
+  app.post(
+    "/api/nutrition-log/food",
+    isAuthenticated,
+    asyncHandler(async (req, res) => {
+      const result = logDatabaseFoodSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ message: "Invalid food entry", errors: result.error.errors });
+      }
+
+      const { date, mealType, food, amount } = result.data;
+      const resolved = resolveIngredient(`${amount} ${food}`);
+      if ("reason" in resolved) {
+        return res.status(400).json({ message: resolved.message });
+      }
+
+      const { nutrition } = resolved;
+      const entry = await storage.addNutritionLogEntry({
+        userId: req.user!.id,
+        date,
+        source: "food",
+        consumptionId: null,
+        mealPlanLogId: null,
+        pantryItemId: null,
+        mealType,
+        description: resolved.food,
+        quantity: `${amount.trim()} (${resolved.grams} g)`,
+        calories: nutrition.calories,
+        protein: nutrition.protein,
+        carbs: nutrition.carbs,
+        fat: nutrition.fat,
+        micronutrients: nutrition.micronutrients ?? {},
+      });
+      res.status(201).json(entry);
+    })
+  );
+
+  // Servings of a pantry item, using the nutrition saved on the item
+  app.post(
+    "/api/nutrition-log/pantry",
+    isAuthenticated,
+    asyncHandler(async (req, res) => {
+      const result = logPantryFoodSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ message: "Invalid pantry entry", errors: result.error.errors });
+      }
+
+      const { date, mealType, pantryItemId, servings } = result.data;
+      const item = await storage.getPantryItem(pantryItemId, req.user!.id);
+      if (!item) {
+        return res.status(404).json({ message: "Pantry item not found" });
+      }
+
+      const nutrition = scaleNutrition(pantryNutrition(item), servings);
+      const entry = await storage.addNutritionLogEntry({
+        userId: req.user!.id,
+        date,
+        source: "pantry",
+        consumptionId: null,
+        mealPlanLogId: null,
+        pantryItemId: item.id,
+        mealType,
+        description: item.name,
+        quantity: formatServings(servings),
+        calories: nutrition.calories,
+        protein: nutrition.protein,
+        carbs: nutrition.carbs,
+        fat: nutrition.fat,
+        micronutrients: nutrition.micronutrients ?? {},
+      });
+      res.status(201).json(entry);
+    })
+  );
+
+  app.delete(
+    "/api/nutrition-log/:id",
+    isAuthenticated,
+    asyncHandler(async (req, res) => {
+      const entry = await storage.getNutritionLogEntry(parseInt(req.params.id), req.user!.id);
+      if (!entry) {
+        return res.status(404).json({ message: "Nutrition entry not found" });
+      }
+      if (entry.consumptionId || entry.mealPlanLogId) {
+        return res.status(409).json({
+          message: "Entry belongs to a logged meal",
+          details: "Remove the meal from your consumption history or meal plan instead."
+        });
+      }
+
+      await storage.deleteNutritionLogEntry(entry.id, req.user!.id);
+      res.sendStatus(204);
+    })
+  );
+
+  // ----------------- Body Profile & Weight Routes -----------------
+  app.get(
+    "/api/body-profile",
+    isAuthenticated,
+    asyncHandler(async (req, res) => {
+      const [profile, latestWeight, targets] = await Promise.all([
+        storage.getBodyProfile(req.user!.id),
+        storage.getLatestWeight(req.user!.id),
+        getBodyTargets(req.user!.id),
+      ]);
+      res.json({ profile: profile ?? null, latestWeight: latestWeight ?? null, targets });
+    })
+  );
+
+  // Saving the profile with a weight also logs that weight for today
+  app.put(
+    "/api/body-profile",
+    isAuthenticated,
+    asyncHandler(async (req, res) => {
+      const result = bodyProfileSchema
+        .extend({ weightKg: weightEntrySchema.shape.weightKg.optional() })
+        .safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ message: "Invalid body profile", errors: result.error.errors });
+      }
+
+      const { heightCm, dateOfBirth, sex, activityLevel, goal, weightKg } = result.data;
+      const userId = req.user!.id;
+      if (weightKg === undefined && !(await storage.getLatestWeight(userId))) {
+        return res.status(400).json({ message: "Enter your current weight" });
+      }
+
+      if (weightKg !== undefined) await storage.logWeight(userId, toDateKey(new Date()), weightKg);
+      const profile = await storage.saveBodyProfile(userId, { heightCm, dateOfBirth, sex, activityLevel, goal });
+      const nutritionGoal = await refreshAdaptiveGoal(userId);
+      res.json({
+        profile,
+        latestWeight: await storage.getLatestWeight(userId),
+        targets: await getBodyTargets(userId),
+        goal: nutritionGoal,
+      });
+    })
+  );
+
+  app.get(
+    "/api/weight-log",
+    isAuthenticated,
+    asyncHandler(async (req, res) => {
+      const { from, to } = parseDateRange(req.query, 90);
+      const days = daysBetweenKeys(from, to) + 1;
+      if (days < 1 || days > MAX_PROGRESS_DAYS) {
+        return res.status(400).json({ message: `Choose a range of 1 to ${MAX_PROGRESS_DAYS} days` });
+      }
+
+      const entries = await storage.getWeightLogEntries(req.user!.id, from, to);
+      res.json(entries);
+    })
+  );
+
+  app.post(
+    "/api/weight-log",
+    isAuthenticated,
+    asyncHandler(async (req, res) => {
+      const result = weightEntrySchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ message: "Invalid weight entry", errors: result.error.errors });
+      }
+
+      const entry = await storage.logWeight(req.user!.id, result.data.date, result.data.weightKg);
+      const goal = await refreshAdaptiveGoal(req.user!.id);
+      res.status(201).json({ entry, goal });
+    })
+  );
+
+  app.delete(
+    "/api/weight-log/:id",
+    isAuthenticated,
+    asyncHandler(async (req, res) => {
+      const deleted = await storage.deleteWeightLogEntry(parseInt(req.params.id), req.user!.id);
+      if (!deleted) {
+        return res.status(404).json({ message: "Weight entry not found" });
+      }
+
+      await refreshAdaptiveGoal(req.user!.id);
+      res.sendStatus(204);
+    })
+  );
+
+  // ----------------- Meal Plan Routes -----------------
+  app.get(
+    "/api/meal-plans",
+    isAuthenticated,
+    asyncHandler(async (req, res) => {
+      if (!req.user) {
+        return res.status(401).json({ message: "Unauthorized" });
+      }
+      const plans = await storage.getMealPlansByUser(req.user.id);
+      const hydrated = await Promise.all(plans.map(async plan => {
+        const days = plan.meals as MealPlanDay[];
+        const overrides = plan.overrides as MealPlanOverrides;
+        const { recipesById, culturalById } = await loadLinkedRecipes([...days, ...overrideDays(overrides)]);
+        return {
+          ...plan,
+          meals: hydrateMealPlan(days, recipesById, culturalById),
+          overrides: hydrateOverrides(overrides, recipesById, culturalById),
+        };
+      }));
+      res.json(hydrated);
+    })
+  );
+
+  app.post(
+    "/api/meal-plans",
+    isAuthenticated,
+    asyncHandler(async (req, res) => {
+      if (!req.user) {
+        return res.status(401).json({ message: "Unauthorized" });
+      }
+
+      const { title, startDate, endDate, preferences, dietaryRestrictions, calorieTarget } = req.body;
+      const rotationDays = req.body.rotationDays ?? null;
+      const daysResult = mealPlanDaysSchema.safeParse(req.body.days);
+      if (!daysResult.success) {
+        return res.status(400).json({ message: "Invalid number of days", errors: daysResult.error.errors });
+      }
+
+      if (isNaN(Date.parse(startDate)) || isNaN(Date.parse(endDate))) {
+        return res.status(400).json({ message: "Valid start and end dates are required" });
+      }
+      const planLength = getPlanLength({ startDate, endDate });
+      if (planLength < 1 || planLength > MAX_MEAL_PLAN_DAYS) {
+        return res.status(400).json({
+          message: `Meal plan must end on or after its start date and cannot exceed ${MAX_MEAL_PLAN_DAYS} days`
+        });
+      }
+      if (rotationDays !== null && !ROTATION_LENGTHS.includes(rotationDays)) {
+        return res.status(400).json({ message: "Rotations repeat every 7 or 14 days" });
+      }
+      if (daysResult.data !== undefined && daysResult.data > planLength) {
+        return res.status(400).json({ message: `Number of days can't exceed the plan's ${planLength} days` });
+      }
+      // A rotation only needs its template days
+      const generatedDays = rotationDays ?? daysResult.data ?? planLength;
+      if (generatedDays > MAX_GENERATED_PLAN_DAYS) {
+        return res.status(400).json({
+          message: `Plans longer than ${MAX_GENERATED_PLAN_DAYS} days need a weekly or two-week rotation`
+        });
+      }
+
+      // The user's saved restrictions always apply, on top of any given for this plan
+      const requestedRestrictions: string[] = Array.isArray(dietaryRestrictions) ? dietaryRestrictions : [];
+      const restrictions = await getDietaryRestrictions(req.user.id, requestedRestrictions);
+
+      // Generate AI meal plan; each chunk is checked as it arrives and meals that break a restriction are regenerated
+      const restrictionsText = Array.from(new Set([...requestedRestrictions, ...describeDietaryRestrictions(restrictions)]));
+      let generatedPlan: MealPlanDay[];
+      try {
+        generatedPlan = (await generateAIMealPlan(
+          preferences,
+          generatedDays,
+          restrictionsText,
+          calorieTarget,
+          async week => {
+            const checked = await replaceMealPlanDietProblems(
+              week as MealPlanDay[],
+              restrictions,
+              async problem => (await generateAIMealSlot(
+                problem.mealType,
+                preferences,
+                restrictionsText,
+                problem.problems,
+                calorieTarget
+              )) as MealSlot
+            );
+            if (checked.problems.length > 0) throw new MealPlanDietError(checked.problems);
+            return checked.days as MealPlan[];
+          }
+        )) as MealPlanDay[];
+      } catch (error) {
+        if (!(error instanceof MealPlanDietError)) throw error;
+        const [first] = error.problems;
+        return res.status(409).json({
+          message: `The generated plan broke your dietary restrictions (day ${first.day} ${first.mealType}, ${first.title}: ${first.problems.join("; ")}), so it wasn't saved. Please try again.`,
+          details: error.problems,
+        });
+      }
+
+      // Point each slot at a library recipe, creating recipes for new dishes; recipes that break a restriction aren't reused
+      const userId = req.user.id;
+      const library = (await storage.getRecipesByCreator(userId)).filter(recipe => recipeFitsRestrictions(recipe, restrictions));
+      const meals = await linkMealPlanToRecipes(
+        generatedPlan,
+        userId,
+        library,
+        recipe => storage.createRecipe(recipe)
+      );
+
+      // Create meal plan in database
+      const plan = await storage.createMealPlan({
+        userId,
+        title,
+        startDate: new Date(startDate),
+        endDate: new Date(endDate),
+        preferences,
+        meals,
+        rotationDays,
+        overrides: {},
+        createdAt: new Date(),
+        isActive: true
+      });
+
+      // Meals that might break a restriction are saved, but flagged for the user to check
+      const dietWarnings = findMealPlanDietWarnings(generatedPlan, restrictions);
+      res.status(201).json({ ...plan, dietWarnings });
+    })
+  );
+
+  // Creates the plan's grocery list, or regenerates it if one already exists
+  app.post(
+    "/api/meal-plans/:id/grocery-list",
+    isAuthenticated,
+    asyncHandler(async (req, res) => {
+      const plan = await storage.getMealPlan(parseInt(req.params.id), req.user!.id);
+      if (!plan) {
+        return res.status(404).json({ message: "Meal plan not found" });
+      }
+
+      // Every date of the plan, with rotations repeated and overrides applied
+      const scheduled = listPlanDays(plan).map(({ dayNumber, day }) => ({ ...day, day: dayNumber }));
+      const { recipesById } = await loadLinkedRecipes(scheduled);
+      const { ingredients, slotsWithoutIngredients } = collectMealPlanIngredients(scheduled, recipesById);
+      const pantry = await storage.getPantryItemsByUser(req.user!.id);
+      const existing = await storage.getGroceryListForMealPlan(plan.id, req.user!.id);
+      const items = buildGroceryItems(ingredients, pantry, (existing?.items as GroceryItem[]) ?? []);
+
+      if (existing) {
+        const list = await storage.updateGroceryList(existing.id, { items, completed: false });
+        return res.json({ list, slotsWithoutIngredients });
+      }
+
+      const list = await storage.createGroceryList({
+        userId: req.user!.id,
+        title: `Groceries for ${plan.title}`,
+        mealPlanId: plan.id,
+        items,
+        completed: false,
+        expiryDates: null,
+        smartSubstitutions: null,
+      });
+      res.status(201).json({ list, slotsWithoutIngredients });
+    })
+  );
+
+  // Puts a recipe or cultural recipe into one slot of the plan
+  app.put(
+    "/api/meal-plans/:id/slots",
+    isAuthenticated,
+    asyncHandler(async (req, res) => {
+      const result = updateMealSlotSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ message: "Invalid slot data", errors: result.error.errors });
+      }
+      const { day, date, mealType, snackIndex, recipeId, culturalRecipeId, servings, nutrition } = result.data;
+      if (!recipeId === !culturalRecipeId) {
+        return res.status(400).json({ message: "Provide either recipeId or culturalRecipeId" });
+      }
+      if (!day === !date) {
+        return res.status(400).json({ message: "Provide either day or date" });
+      }
+
+      const plan = await storage.getMealPlan(parseInt(req.params.id), req.user!.id);
+      if (!plan) {
+        return res.status(404).json({ message: "Meal plan not found" });
+      }
+
+      let slot;
+      if (recipeId) {
+        const recipe = await storage.getRecipe(recipeId);
+        if (!recipe) {
+          return res.status(404).json({ message: "Recipe not found" });
+        }
+        slot = slotFromRecipe(recipe, servings);
+      } else {
+        const [culturalRecipe] = await storage.getCulturalRecipesByIds([culturalRecipeId!]);
+        if (!culturalRecipe) {
+          return res.status(404).json({ message: "Cultural recipe not found" });
+        }
+        slot = slotFromCulturalRecipe(culturalRecipe, servings, nutrition);
+      }
+
+      // A single date becomes an override, leaving the rest of the rotation untouched
+      if (date) {
+        const scheduled = resolvePlanDay(plan, date);
+        if (!scheduled) {
+          return res.status(404).json({ message: "Date is not part of this meal plan" });
+        }
+        const [changed] = setMealPlanSlot(
+          [scheduled.day],
+          { day: scheduled.day.day, type: mealType, index: snackIndex },
+          slot
+        ) ?? [];
+        if (!changed) {
+          return res.status(404).json({ message: "Meal slot not found" });
+        }
+        const overrides = { ...(plan.overrides as MealPlanOverrides), [date]: changed.meals };
+        const updated = await storage.updateMealPlan(plan.id, { overrides });
+        return res.json(updated);
+      }
+
+      const meals = setMealPlanSlot(
+        plan.meals as MealPlanDay[],
+        { day: day!, type: mealType, index: snackIndex },
+        slot
+      );
+      if (!meals) {
+        return res.status(404).json({ message: "Meal slot not found" });
+      }
+
+      const updated = await storage.updateMealPlan(plan.id, { meals });
+      res.json(updated);
+    })
+  );
+
+  // Replaces everything planned for one date without changing the rotation
+  app.put(
+    "/api/meal-plans/:id/overrides/:date",
+    isAuthenticated,
+    asyncHandler(async (req, res) => {
+      const dateResult = dateKeySchema.safeParse(req.params.date);
+      const mealsResult = mealPlanDaySchema.shape.meals.safeParse(req.body.meals);
+      if (!dateResult.success || !mealsResult.success) {
+        const errors = [
+          ...(dateResult.success ? [] : dateResult.error.errors),
+          ...(mealsResult.success ? [] : mealsResult.error.errors),
+        ];
+        return res.status(400).json({ message: "Invalid override", errors });
+      }
+
+      const plan = await storage.getMealPlan(parseInt(req.params.id), req.user!.id);
+      if (!plan) {
+        return res.status(404).json({ message: "Meal plan not found" });
+      }
+      if (!isDateInPlan(plan, dateResult.data)) {
+        return res.status(400).json({ message: "Date is not part of this meal plan" });
+      }
+
+      const overrides = { ...(plan.overrides as MealPlanOverrides), [dateResult.data]: mealsResult.data };
+      const updated = await storage.updateMealPlan(plan.id, { overrides });
+      res.json(updated);
+    })
+  );
+
+  // Puts a date back on the rotation
+  app.delete(
+    "/api/meal-plans/:id/overrides/:date",
+    isAuthenticated,
+    asyncHandler(async (req, res) => {
+      const plan = await storage.getMealPlan(parseInt(req.params.id), req.user!.id);
+      if (!plan) {
+        return res.status(404).json({ message: "Meal plan not found" });
+      }
+
+      const { [req.params.date]: removed, ...overrides } = plan.overrides as MealPlanOverrides;
+      if (!removed) {
+        return res.status(404).json({ message: "Override not found" });
+      }
+
+      const updated = await storage.updateMealPlan(plan.id, { overrides });
+      res.json(updated);
+    })
+  );
+
+  // Marks a planned meal as eaten, skipped or swapped for something else
+  app.post(
+    "/api/meal-plans/:id/log",
+    isAuthenticated,
+    asyncHandler(async (req, res) => {
+      const result = logMealSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ message: "Invalid meal log", errors: result.error.errors });
+      }
+      const { date, mealType, status, recipeId, servings } = result.data;
+      const snackIndex = mealType === "snack" ? result.data.snackIndex : 0;
+      const userId = req.user!.id;
+
+      const plan = await storage.getMealPlan(parseInt(req.params.id), userId);
+      if (!plan) {
+        return res.status(404).json({ message: "Meal plan not found" });
+      }
+      const scheduled = resolvePlanDay(plan, date);
+      const planned = scheduled && listMealSlots(scheduled.day)
+        .find(ref => ref.type === mealType && ref.index === snackIndex);
+      if (!planned) {
+        return res.status(404).json({ message: "Meal slot not found" });
+      }
+
+      let recipe: Recipe | undefined;
+      if (status === "swapped" && recipeId) {
+        recipe = await storage.getRecipe(recipeId);
+        if (!recipe) {
+          return res.status(404).json({ message: "Recipe not found" });
+        }
+      } else if (status === "eaten" && planned.slot.recipeId) {
+        recipe = await storage.getRecipe(planned.slot.recipeId);
+      }
+
+      // Logging the slot again replaces what was recorded before
+      const previous = await storage.getMealPlanLogForSlot(plan.id, date, mealType, snackIndex);
+      if (previous && !(await reverseMealLog(userId, previous))) {
+        return res.status(409).json({
+          message: "Undo the pantry deduction first",
+          details: "This meal already took stock out of your pantry. Undo that before changing how it was logged."
+        });
+      }
+
+      const consumedAt = date === toDateKey(new Date()) ? new Date() : new Date(`${date}T12:00:00Z`);
+      let consumption = null;
+      let pantry = null;
+      let nutrition: SlotNutrition | null = null;
+      if (recipe) {
+        const servingCount = status === "eaten" ? planned.slot.servings ?? 1 : servings;
+        ({ consumption, pantry, nutrition } = await consumeRecipe(userId, recipe, servingCount, mealType, consumedAt));
+      } else if (status === "eaten") {
+        nutrition = getSlotNutrition(planned.slot);
+      }
+
+      const log = await storage.saveMealPlanLog({
+        userId,
+        mealPlanId: plan.id,
+        date,
+        mealType,
+        snackIndex,
+        status,
+        consumptionId: consumption?.id ?? null,
+        nutrition,
+      });
+
+      // Meals without a library recipe still count towards the day's nutrition
+      if (nutrition && !consumption) {
+        await storage.addNutritionLogEntry({
+          userId,
+          date,
+          source: "meal-plan",
+          consumptionId: null,
+          mealPlanLogId: log.id,
+          pantryItemId: null,
+          mealType,
+          description: planned.slot.title,
+          quantity: null,
+          calories: nutrition.calories,
+          protein: nutrition.protein,
+          carbs: nutrition.carbs,
+          fat: nutrition.fat,
+          micronutrients: nutrition.micronutrients ?? {},
+        });
+      }
+      res.status(201).json({ log, consumption, pantry });
+    })
+  );
+
+  app.delete(
+    "/api/meal-plans/:id/log/:logId",
+    isAuthenticated,
+    asyncHandler(async (req, res) => {
+      const userId = req.user!.id;
+      const logs = await storage.getMealPlanLogs(parseInt(req.params.id), userId);
+      const log = logs.find(entry => entry.id === parseInt(req.params.logId));
+      if (!log) {
+        return res.status(404).json({ message: "Meal log not found" });
+      }
+
+      if (!(await reverseMealLog(userId, log))) {
+        return res.status(409).json({
+          message: "Undo the pantry deduction first",
+          details: "This meal already took stock out of your pantry. Undo that before clearing the log."
+        });
+      }
+      await storage.deleteMealPlanLog(log.id, userId);
+      res.sendStatus(204);
+    })
+  );
+
+  app.get(
+    "/api/meal-plans/:id/adherence",
+    isAuthenticated,
+    asyncHandler(async (req, res) => {
+      const plan = await storage.getMealPlan(parseInt(req.params.id), req.user!.id);
+      if (!plan) {
+        return res.status(404).json({ message: "Meal plan not found" });
+      }
+
+      // The client passes its own date so "missed" follows the user's day, not the server's
+      const todayResult = dateKeySchema.safeParse(req.query.today);
+      const today = todayResult.success ? todayResult.data : toDateKey(new Date());
+      const logs = await storage.getMealPlanLogs(plan.id, req.user!.id);
+      res.json(summarizeAdherence(listPlanDays(plan), logs, today));
+    })
+  );
+
+  app.patch(
+    "/api/meal-plans/:id",
+    isAuthenticated,
+    asyncHandler(async (req, res) => {
+      const plan = await storage.updateMealPlan(parseInt(req.params.id), req.body);
+      res.json(plan);
+    })
+  );
+
+  app.delete(
+    "/api/meal-plans/:id",
+    isAuthenticated,
+    asyncHandler(async (req, res) => {
+      if (!req.user) return res.status(401).json({ message: "Unauthorized" });
+      const planId = parseInt(req.params.id);
+      await storage.deleteMealPlan(planId);
+      res.sendStatus(204);
+    })
+  );
+
+  // Kitchen Equipment Routes
+  app.get('/api/kitchen-equipment', async (req, res) => {
+    try {
+      const equipment = await db.select().from(kitchenEquipment)
+        .where(eq(kitchenEquipment.userId, req.user.id));
+      res.json(equipment);
+    } catch (error) {
+      console.error('Error fetching kitchen equipment:', error);
+      res.status(500).json({ error: 'Failed to fetch kitchen equipment' });
+    }
+  });
+
+  app.post(
+    "/api/kitchen-equipment",
+    isAuthenticated,
+    asyncHandler(async (req, res) => {
+      const result = createKitchenEquipmentSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ message: "Invalid equipment", errors: result.error.errors });
+      }
+
+      const { name, category, condition, ...details } = result.data;
+      const [equipment] = await db
+        .insert(kitchenEquipment)
+        .values({ ...details, name, category, condition, userId: req.user!.id })
+        .returning();
+      res.status(201).json(equipment);
+    })
+  );
+
+  app.delete('/api/kitchen-equipment/:id', async (req, res) => {
+    try {
+      await db.delete(kitchenEquipment)
+        .where(and(
+          eq(kitchenEquipment.id, parseInt(req.params.id)),
+          eq(kitchenEquipment.userId, req.user.id)
+        ));
+      res.json({ success: true });
+    } catch (error) {
+      console.error('Error deleting kitchen equipment:', error);
+      res.status(500).json({ error: 'Failed to delete kitchen equipment' });
+    }
+  });
+
+  app.patch(
+    "/api/kitchen-equipment/:id",
+    isAuthenticated,
+    asyncHandler(async (req, res) => {
+      const result = updateKitchenEquipmentSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ message: "Invalid equipment update", errors: result.error.errors });
+      }
+
+      const item = await storage.getKitchenEquipmentItem(parseInt(req.params.id), req.user!.id);
+      if (!item) {
+        return res.status(404).json({ message: "Equipment not found" });
+      }
+
+      const { conditionNote, ...data } = result.data;
+      res.json(await storage.updateKitchenEquipment(item, data, conditionNote));
+    })
+  );
+
+  app.get(
+    "/api/kitchen-equipment/:id/condition-history",
+    isAuthenticated,
+    asyncHandler(async (req, res) => {
+      const item = await storage.getKitchenEquipmentItem(parseInt(req.params.id), req.user!.id);
+      if (!item) {
+        return res.status(404).json({ message: "Equipment not found" });
+      }
+
+      res.json(await storage.getConditionChanges(req.user!.id, item.id));
+    })
+  );
+
+  app.get(
+    "/api/kitchen-equipment/maintenance-schedule",
+    isAuthenticated,
+    asyncHandler(async (req, res) => {
+      const result = maintenanceScheduleQuerySchema.safeParse(req.query);
+      if (!result.success) {
+        return res.status(400).json({ message: "Invalid schedule range", errors: result.error.errors });
+      }
+
+      const userId = req.user!.id;
+      const [equipment, history] = await Promise.all([
+        storage.getKitchenEquipmentByUser(userId),
+        storage.getMaintenanceEvents(userId),
+      ]);
+      res.json(buildMaintenanceSchedule(equipment, history, toDateKey(new Date()), result.data.days));
     })
   );
 
-  app.get(
-    "/api/mood-journal/:recipeId/insights",
+  // Purchases that would unlock the user's own recipes, then AI suggestions when the service responds
+  app.post(
+    "/api/kitchen-equipment/recommendations",
     isAuthenticated,
     asyncHandler(async (req, res) => {
-      if (!req.user?.id) {
-        return res.status(401).json({ message: "Unauthorized" });
+      const result = equipmentRecommendationsSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ message: "Invalid recommendation request", errors: result.error.errors });
       }
-      
-      const user = await storage.getUser(req.user.id);
-      if (!user) return res.sendStatus(404);
-
-      const recipeEntries = ((user.moodJournal || []) as MoodEntry[]).filter(
-        entry => entry.recipeId === parseInt(req.params.recipeId)
-      );
 
-      if (recipeEntries.length === 0) {
-        return res.json({
-          summary: "Not enough entries to generate insights yet.",
-          patterns: [],
-          recommendations: {
-            title: "Get Started",
-            items: [{
-              focus: "First Entry",
-              suggestion: "Add your first cooking experience to begin tracking your journey."
-            }]
-          }
-        });
+      const userId = req.user!.id;
+      const { cookingPreferences, budget } = result.data;
+      const [equipment, recipes] = await Promise.all([
+        storage.getKitchenEquipmentByUser(userId),
+        storage.getRecipesByCreator(userId),
+      ]);
+      const fromRecipes = recommendEquipment(matchRecipesToEquipment(recipes, equipment).recommendedPurchases, budget);
+
+      let suggestions: unknown = [];
+      try {
+        suggestions = await getEquipmentRecommendations(equipment, cookingPreferences, budget);
+      } catch (error) {
+        console.error("AI equipment recommendations unavailable:", error);
       }
-
-      const insights = await generateMoodInsights(recipeEntries);
-      res.json(insights);
+      res.json(mergeRecommendations(fromRecipes, suggestions, equipment));
     })
   );
 
-  app.delete(
-    "/api/mood-journal/:recipeId/:timestamp",
+  // Which of the user's recipes their equipment can make, plus AI recipe ideas when the service responds
+  app.post(
+    "/api/kitchen-equipment/recipe-matches",
     isAuthenticated,
     asyncHandler(async (req, res) => {
-      if (!req.user?.id) {
-        return res.status(401).json({ message: "Unauthorized" });
+      const result = recipeMatchesSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ message: "Invalid recipe match request", errors: result.error.errors });
       }
-      
-      const user = await storage.getUser(req.user.id);
-      if (!user) return res.sendStatus(404);
 
-      const timestamp = decodeURIComponent(req.params.timestamp);
-      const moodJournal = (user.moodJournal || []) as MoodEntry[];
-      const updatedJournal = moodJournal.filter(entry => 
-        entry.recipeId !== parseInt(req.params.recipeId) || entry.timestamp !== timestamp
-      );
-
-      await storage.updateUser(user.id, {
-        ...user,
-        moodJournal: updatedJournal,
-      });
+      const userId = req.user!.id;
+      const [equipment, recipes] = await Promise.all([
+        storage.getKitchenEquipmentByUser(userId),
+        storage.getRecipesByCreator(userId),
+      ]);
+      const matches = matchRecipesToEquipment(recipes, equipment);
 
-      res.json({ message: "Entry deleted successfully" });
+      let ideas: unknown = null;
+      try {
+        ideas = await getRecipesByEquipment(equipment, result.data.userPreferences);
+      } catch (error) {
+        console.error("AI recipe suggestions unavailable:", error);
+      }
+      res.json({ ...matches, suggestedRecipes: toSuggestedRecipes(ideas, equipment) });
     })
   );
 
-  // ----------------- Nutrition Goals Routes -----------------
   app.get(
-    "/api/nutrition-goals/current",
+    "/api/kitchen-equipment/:id/maintenance",
     isAuthenticated,
     asyncHandler(async (req, res) => {
-      if (!req.user) {
-        return res.status(401).json({ message: "Unauthorized" });
+      const item = await storage.getKitchenEquipmentItem(parseInt(req.params.id), req.user!.id);
+      if (!item) {
+        return res.status(404).json({ message: "Equipment not found" });
       }
-      const goal = await storage.getCurrentNutritionGoal(req.user.id);
-      res.json(goal);
+
+      res.json(await storage.getMaintenanceEvents(req.user!.id, item.id));
     })
   );
 
+  // Records maintenance in the item's history rather than overwriting the last one
   app.post(
-    "/api/nutrition-goals",
+    "/api/kitchen-equipment/:id/maintenance",
     isAuthenticated,
     asyncHandler(async (req, res) => {
-      const user = req.user;
-      if (!user) {
-        return res.status(401).json({ message: "Unauthorized" });
+      const result = recordMaintenanceSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ message: "Invalid maintenance record", errors: result.error.errors });
       }
 
-      // Date coercion is now handled by the schema
-      const validated = insertNutritionGoalSchema.parse({
-        ...req.body,
-        userId: user.id
+      const item = await storage.getKitchenEquipmentItem(parseInt(req.params.id), req.user!.id);
+      if (!item) {
+        return res.status(404).json({ message: "Equipment not found" });
+      }
+
+      const today = toDateKey(new Date());
+      const { date = today, notes, condition } = result.data;
+      if (date > today) {
+        return res.status(400).json({ message: "Maintenance can't be recorded in the future" });
+      }
+
+      const recorded = await storage.recordMaintenance(item, {
+        performedAt: date,
+        notes: notes || null,
+        condition: condition ?? null,
       });
-      
-      // Deactivate any existing active goals
-      await storage.deactivateNutritionGoals(user.id);
-      
-      // Create new goal
-      const goal = await storage.createNutritionGoal(validated);
-      res.status(201).json(goal);
+      res.status(201).json(recorded);
+    })
+  );
+
+  // ----------------- Kitchen Storage Routes -----------------
+  app.get(
+    "/api/storage-locations",
+    isAuthenticated,
+    asyncHandler(async (req, res) => {
+      const locations = await storage.getStorageLocationsByUser(req.user!.id);
+      res.json(locations);
     })
   );
 
   app.post(
-    "/api/nutrition-goals/progress",
+    "/api/storage-locations",
     isAuthenticated,
     asyncHandler(async (req, res) => {
-      if (!req.user) {
-        return res.status(401).json({ message: "Unauthorized" });
+      const result = insertKitchenStorageLocationSchema.safeParse({
+        ...req.body,
+        userId: req.user!.id,
+      });
+      if (!result.success) {
+        return res.status(400).json({ message: "Invalid storage location", errors: result.error.errors });
       }
-      const { goalId, progress } = req.body;
-      const updatedGoal = await storage.updateNutritionProgress(goalId, progress);
-      res.json(updatedGoal);
+      const validated = result.data as KitchenStorageLocation;
+
+      const location = await storage.createStorageLocation(validated);
+      res.status(201).json(location);
     })
   );
 
-  app.get(
-    "/api/nutrition-goals/progress/today",
+  app.patch(
+    "/api/storage-locations/:id",
     isAuthenticated,
     asyncHandler(async (req, res) => {
-      if (!req.user) {
-        return res.status(401).json({ message: "Unauthorized" });
+      const locationId = parseInt(req.params.id);
+      const existing = await storage.getStorageLocation(locationId, req.user!.id);
+      if (!existing) {
+        return res.status(404).json({ message: "Storage location not found" });
       }
 
-      const currentGoal = await storage.getCurrentNutritionGoal(req.user.id);
-      if (!currentGoal) {
-        return res.status(404).json({ message: "No active nutrition goal" });
+      // Validate the merged row so partial updates still satisfy the insert rules
+      const result = insertKitchenStorageLocationSchema.safeParse({
+        ...existing,
+        ...req.body,
+        userId: req.user!.id,
+      });
+      if (!result.success) {
+        return res.status(400).json({ message: "Invalid storage location", errors: result.error.errors });
       }
+      const validated = result.data as KitchenStorageLocation;
 
-      const today = new Date().toISOString().split('T')[0];
-      const todayProgress = currentGoal.progress?.find((p: any) => p.date === today) || {
-        date: today,
-        calories: 0,
-        protein: 0,
-        carbs: 0,
-        fat: 0,
-        completed: false,
-      };
+      if (validated.capacity < (existing.currentItems ?? 0)) {
+        return res.status(409).json({
+          message: "Capacity is below the number of stored items",
+          details: `This location currently holds ${existing.currentItems} items. Move or remove some before lowering its capacity.`
+        });
+      }
 
-      res.json(todayProgress);
+      const location = await storage.updateStorageLocation(locationId, req.user!.id, validated);
+      res.json(location);
     })
   );
 
-  app.get(
-    "/api/nutrition-goals/insights",
+  app.delete(
+    "/api/storage-locations/:id",
     isAuthenticated,
     asyncHandler(async (req, res) => {
-      if (!req.user) {
-        return res.status(401).json({ message: "Unauthorized" });
+      const locationId = parseInt(req.params.id);
+      const existing = await storage.getStorageLocation(locationId, req.user!.id);
+      if (!existing) {
+        return res.status(404).json({ message: "Storage location not found" });
       }
 
-      // Get current goal and progress
-      const currentGoal = await storage.getCurrentNutritionGoal(req.user.id);
-      if (!currentGoal) {
-        return res.status(404).json({ message: "No active nutrition goal" });
-      }
-
-      // Get user preferences - fixed to use correct method name
-      const user = await storage.getUser(req.user.id);
-      const preferences = user?.preferences?.dietaryPreferences || [];
-
-      // Get AI recommendations
-      const recommendations = await getNutritionRecommendations(
-        {
-          calories: currentGoal.dailyCalories,
-          protein: currentGoal.dailyProtein,
-          carbs: currentGoal.dailyCarbs,
-          fat: currentGoal.dailyFat,
-        },
-        currentGoal.progress || [],
-        preferences
-      );
-
-      res.json(recommendations);
+      await storage.deleteStorageLocation(locationId, req.user!.id);
+      res.sendStatus(204);
     })
   );
 
-  // ----------------- Meal Plan Routes -----------------
   app.get(
-    "/api/meal-plans",
+    "/api/storage-items",
     isAuthenticated,
     asyncHandler(async (req, res) => {
-      if (!req.user) {
-        return res.status(401).json({ message: "Unauthorized" });
-      }
-      const plans = await storage.getMealPlansByUser(req.user.id);
-      res.json(plans);
+      const items = await storage.getStorageItemsByUser(req.user!.id);
+      res.json(items);
     })
   );
 
   app.post(
-    "/api/meal-plans",
+    "/api/storage-items",
     isAuthenticated,
     asyncHandler(async (req, res) => {
-      if (!req.user) {
-        return res.status(401).json({ message: "Unauthorized" });
+      const result = insertStorageItemSchema.safeParse({
+        ...req.body,
+        locationId: parseInt(req.body.locationId),
+        userId: req.user!.id,
+      });
+      if (!result.success) {
+        return res.status(400).json({ message: "Invalid storage item", errors: result.error.errors });
       }
+      const validated = result.data as StorageItem;
 
-      const { title, startDate, endDate, preferences, dietaryRestrictions, calorieTarget, days } = req.body;
-
-      // Generate AI meal plan
-      const generatedPlan = await generateAIMealPlan(
-        preferences,
-        days,
-        dietaryRestrictions,
-        calorieTarget
-      );
-
-      // Create meal plan in database
-      const plan = await storage.createMealPlan({
-        userId: req.user.id,
-        title,
-        startDate: new Date(startDate),
-        endDate: new Date(endDate),
-        preferences,
-        meals: generatedPlan,
-        createdAt: new Date(),
-        isActive: true
-      });
+      const location = await storage.getStorageLocation(validated.locationId, req.user!.id);
+      if (!location) {
+        return res.status(404).json({ message: "Storage location not found" });
+      }
+      if ((location.currentItems ?? 0) >= location.capacity) {
+        return res.status(409).json({
+          message: "Storage location is full",
+          details: `${location.name} is at its capacity of ${location.capacity} items.`
+        });
+      }
 
-      res.status(201).json(plan);
+      const item = await storage.createStorageItem(validated);
+      res.status(201).json(item);
     })
   );
 
   app.patch(
-    "/api/meal-plans/:id",
+    "/api/storage-items/:id",
     isAuthenticated,
     asyncHandler(async (req, res) => {
-      const plan = await storage.updateMealPlan(parseInt(req.params.id), req.body);
-      res.json(plan);
+      const itemId = parseInt(req.params.id);
+      const existing = await storage.getStorageItem(itemId, req.user!.id);
+      if (!existing) {
+        return res.status(404).json({ message: "Storage item not found" });
+      }
+
+      const result = insertStorageItemSchema.safeParse({
+        ...existing,
+        ...req.body,
+        locationId: req.body.locationId !== undefined ? parseInt(req.body.locationId) : existing.locationId,
+        userId: req.user!.id,
+      });
+      if (!result.success) {
+        return res.status(400).json({ message: "Invalid storage item", errors: result.error.errors });
+      }
+      const validated = result.data as StorageItem;
+
+      // Moving to another location needs a free slot there
+      if (validated.locationId !== existing.locationId) {
+        const target = await storage.getStorageLocation(validated.locationId, req.user!.id);
+        if (!target) {
+          return res.status(404).json({ message: "Storage location not found" });
+        }
+        if ((target.currentItems ?? 0) >= target.capacity) {
+          return res.status(409).json({
+            message: "Storage location is full",
+            details: `${target.name} is at its capacity of ${target.capacity} items.`
+          });
+        }
+      }
+
+      const item = await storage.updateStorageItem(itemId, req.user!.id, validated);
+      res.json(item);
     })
   );
 
   app.delete(
-    "/api/meal-plans/:id",
+    "/api/storage-items/:id",
     isAuthenticated,
     asyncHandler(async (req, res) => {
-      if (!req.user) return res.status(401).json({ message: "Unauthorized" });
-      const planId = parseInt(req.params.id);
-      await storage.deleteMealPlan(planId);
+      const itemId = parseInt(req.params.id);
+      const existing = await storage.getStorageItem(itemId, req.user!.id);
+      if (!existing) {
+        return res.status(404).json({ message: "Storage item not found" });
+      }
+
+      await storage.deleteStorageItem(itemId, req.user!.id);
       res.sendStatus(204);
     })
   );
 
-  // Kitchen Equipment Routes
-  app.get('/api/kitchen-equipment', async (req, res) => {
-    try {
-      const equipment = await db.select().from(kitchenEquipment)
-        .where(eq(kitchenEquipment.userId, req.user.id));
-      res.json(equipment);
-    } catch (error) {
-      console.error('Error fetching kitchen equipment:', error);
-      res.status(500).json({ error: 'Failed to fetch kitchen equipment' });
-    }
-  });
+  // Storage intelligence - the AI service falls back to rule-based results on its own
+  app.get(
+    "/api/storage/spoilage-prediction",
+    isAuthenticated,
+    asyncHandler(async (req, res) => {
+      const [locations, items] = await Promise.all([
+        storage.getStorageLocationsByUser(req.user!.id),
+        storage.getStorageItemsByUser(req.user!.id),
+      ]);
+      if (items.length === 0) {
+        return res.json([]);
+      }
 
-  app.post('/api/kitchen-equipment', async (req, res) => {
-    try {
-      const data = {
-        ...req.body,
-        userId: req.user.id,
-        createdAt: new Date(),
-        updatedAt: new Date(),
-      };
+      const predictions = await predictSpoilage(items, locations);
+      res.json(predictions);
+    })
+  );
 
-      const [equipment] = await db.insert(kitchenEquipment).values(data).returning();
-      res.json(equipment);
-    } catch (error) {
-      console.error('Error adding kitchen equipment:', error);
-      res.status(500).json({ error: 'Failed to add kitchen equipment' });
-    }
-  });
+  app.get(
+    "/api/storage/optimize-layout",
+    isAuthenticated,
+    asyncHandler(async (req, res) => {
+      const [locations, items] = await Promise.all([
+        storage.getStorageLocationsByUser(req.user!.id),
+        storage.getStorageItemsByUser(req.user!.id),
+      ]);
+      if (items.length === 0 || locations.length < 2) {
+        return res.json({ moves: [] });
+      }
 
-  app.delete('/api/kitchen-equipment/:id', async (req, res) => {
-    try {
-      await db.delete(kitchenEquipment)
-        .where(and(
-          eq(kitchenEquipment.id, parseInt(req.params.id)),
-          eq(kitchenEquipment.userId, req.user.id)
-        ));
-      res.json({ success: true });
-    } catch (error) {
-      console.error('Error deleting kitchen equipment:', error);
-      res.status(500).json({ error: 'Failed to delete kitchen equipment' });
-    }
-  });
+      const optimization = await optimizeStorageLayout(items, locations);
+      res.json(optimization);
+    })
+  );
 
-  app.post('/api/kitchen-equipment/:id/maintenance', async (req, res) => {
-    try {
-      const [equipment] = await db.update(kitchenEquipment)
-        .set({
-          lastMaintenanceDate: req.body.maintenanceDate,
-          maintenanceNotes: req.body.notes,
-          updatedAt: new Date(),
-        })
-        .where(and(
-          eq(kitchenEquipment.id, parseInt(req.params.id)),
-          eq(kitchenEquipment.userId, req.user.id)
-        ))
-        .returning();
-      res.json(equipment);
-    } catch (error) {
-      console.error('Error updating maintenance:', error);
-      res.status(500).json({ error: 'Failed to update maintenance' });
-    }
-  });
+  app.get(
+    "/api/storage/smart-shopping-list",
+    isAuthenticated,
+    asyncHandler(async (req, res) => {
+      const [locations, items] = await Promise.all([
+        storage.getStorageLocationsByUser(req.user!.id),
+        storage.getStorageItemsByUser(req.user!.id),
+      ]);
+      if (items.length === 0) {
+        return res.json([]);
+      }
+
+      const shoppingList = await generateSmartShoppingList(items, locations);
+      res.json(shoppingList);
+    })
+  );
 
   // ----------------- Cultural Cuisine Routes -----------------
   app.get('/api/cultural-cuisines', async (req, res) => {
@@ -1036,7 +2782,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       // Process the cuisine data to ensure proper structure
       const processedCuisine = {
         ...cuisine,
-        recipes: recipes || [],
+        recipes: (recipes || []).map(recipe => ({ ...recipe, dietTags: tagIngredients(recipe.authenticIngredients) })),
         techniques: techniques || [],
         keyIngredients: Array.isArray(cuisine.keyIngredients) 
           ? cuisine.keyIngredients 
@@ -1282,11 +3028,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
         description,
         cuisineId,
         difficulty,
-        authenticIngredients,
+        authenticIngredients: toRecipeIngredients(authenticIngredients),
         localSubstitutes,
         instructions,
         culturalNotes,
         servingSuggestions,
+        requiredEquipment: inferRequiredTools(name, instructions),
         imageUrl, // Add imageUrl to inserted values
         createdBy: req.user.id, // Set creator to current user
         updatedAt: new Date(),
@@ -1462,6 +3209,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.patch('/api/cultural-recipes/:id', isAuthenticated, async (req, res) => {
     try {
       const { imageUrl, ...otherUpdates } = req.body;
+      if (otherUpdates.authenticIngredients !== undefined) {
+        otherUpdates.authenticIngredients = toRecipeIngredients(otherUpdates.authenticIngredients);
+      }
       
       const [updatedRecipe] = await db.update(culturalRecipes)
         .set({
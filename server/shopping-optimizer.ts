@@ -0,0 +1,425 @@
+import type { PriceHistory, Store } from "@shared/schema";
+import { parseQuantity as parseUnitQuantity, convertQuantity, type ParsedQuantity } from "@shared/units";
+import { normalizeItemName } from "@shared/ingredients";
+
+export interface ShoppingListItem {
+  id?: string;
+  name: string;
+  quantity: string | number;
+  category?: string;
+  priority?: 'high' | 'medium' | 'low';
+}
+
+export interface PriceComparison {
+  productName: string;
+  stores: {
+    storeId: number;
+    storeName: string;
+    price: number;
+    unit: string;
+    onSale: boolean;
+  }[];
+}
+
+export interface OptimizedListItem extends ShoppingListItem {
+  unitPrice: number;
+  unit: string;
+  // How many of `unit` the line buys, e.g. 1.1 lb for "500 g"
+  purchaseQuantity: number;
+  lineTotal: number;
+  onSale: boolean;
+}
+
+export interface OptimizedList {
+  storeId: number;
+  storeName: string;
+  items: OptimizedListItem[];
+  totalCost: number;
+}
+
+export interface OptimizationResult {
+  optimizedLists: OptimizedList[];
+  // Items with no price, or only prices in units their quantity can't be converted to
+  unavailableItems: ShoppingListItem[];
+  totalCost: number;
+  reasoning: string;
+}
+
+interface CurrentPrice {
+  storeId: number;
+  price: number;
+  unit: string;
+  onSale: boolean;
+}
+
+// A store's price applied to one list item
+interface ItemOffer extends CurrentPrice {
+  units: number;
+  cost: number;
+}
+
+// Words that describe a product's size, grade or packaging rather than what it is
+const DESCRIPTOR_WORDS = new Set([
+  "organic", "fresh", "large", "medium", "small", "extra", "jumbo", "whole", "free", "range", "grade", "a", "aa",
+  "of", "the", "and", "pack", "bag", "box", "can", "canned", "bottle", "carton", "loaf", "dozen", "lb", "oz",
+  "kg", "g", "ml", "l", "gallon", "half", "family", "size", "value", "premium", "natural", "plain", "brand",
+]);
+
+// Above this many store combinations we stop enumerating and fall back to a greedy pick
+const MAX_EXACT_COMBINATIONS = 5000;
+
+/**
+ * The quantity to buy. A bare number ("2") counts in whatever unit the store
+ * prices the product by; anything with a unit ("500 g") is converted into
+ * that unit, so null stands for "count".
+ */
+function parseItemQuantity(quantity: string | number): { amount: number; quantity: ParsedQuantity | null } {
+  const text = String(quantity ?? '').trim();
+  const parsed = parseUnitQuantity(text);
+  if (!parsed) return { amount: 1, quantity: null };
+  return /[a-z]/i.test(text) ? { amount: parsed.amount, quantity: parsed } : { amount: parsed.amount, quantity: null };
+}
+
+// How many of the price's unit the item needs, or null when the units can't be converted (cups priced per lb)
+function unitsToBuy(item: { amount: number; quantity: ParsedQuantity | null }, priceUnit: string): number | null {
+  if (!item.quantity) return item.amount;
+  return convertQuantity(item.quantity, priceUnit || 'each')?.amount ?? null;
+}
+
+function itemOffers(
+  item: { amount: number; quantity: ParsedQuantity | null },
+  prices: Map<number, CurrentPrice> | undefined
+): Map<number, ItemOffer> | undefined {
+  if (!prices) return undefined;
+  const offers = new Map<number, ItemOffer>();
+  prices.forEach((price, storeId) => {
+    const units = unitsToBuy(item, price.unit);
+    if (units !== null) offers.set(storeId, { ...price, units, cost: price.price * units });
+  });
+  return offers;
+}
+
+function roundCurrency(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Latest usable price per store for every product in the history. Sale prices
+ * whose sale has already ended are ignored in favour of the next most recent entry.
+ */
+function buildCurrentPriceIndex(history: PriceHistory[], now: Date): Map<string, Map<number, CurrentPrice>> {
+  const sorted = [...history].sort((a, b) =>
+    new Date(b.recordedAt).getTime() - new Date(a.recordedAt).getTime() || b.id - a.id
+  );
+  const index = new Map<string, Map<number, CurrentPrice>>();
+
+  for (const entry of sorted) {
+    if (entry.onSale && entry.saleEndDate && new Date(entry.saleEndDate) < now) continue;
+
+    const key = normalizeItemName(entry.productName);
+    const byStore = index.get(key) ?? new Map<number, CurrentPrice>();
+    if (!byStore.has(entry.storeId)) {
+      byStore.set(entry.storeId, {
+        storeId: entry.storeId,
+        price: entry.price,
+        unit: entry.unit,
+        onSale: entry.onSale ?? false,
+      });
+    }
+    index.set(key, byStore);
+  }
+
+  return index;
+}
+
+// The words that say what a product is, e.g. "almond milk" for "Organic Almond Milk 1 gallon"
+function identityWords(name: string): string[] {
+  return normalizeItemName(name)
+    .split(' ')
+    .filter(word => word && !/^\d+$/.test(word) && !DESCRIPTOR_WORDS.has(word))
+    .sort();
+}
+
+/**
+ * Exact name match first, then a product that is the same thing up to size
+ * and packaging words ("large eggs" for "eggs"). Names are compared as
+ * whole words, so "rice" never matches "ice" and "milk" never "almond milk".
+ */
+function findPrices(
+  itemName: string,
+  index: Map<string, Map<number, CurrentPrice>>
+): Map<number, CurrentPrice> | undefined {
+  const key = normalizeItemName(itemName);
+  const exact = index.get(key);
+  if (exact) return exact;
+
+  const identity = identityWords(itemName).join(' ');
+  if (!identity) return undefined;
+  const candidates = Array.from(index.keys())
+    .filter(product => identityWords(product).join(' ') === identity)
+    .sort((a, b) => Math.abs(a.length - key.length) - Math.abs(b.length - key.length) || a.localeCompare(b));
+  return candidates.length > 0 ? index.get(candidates[0]) : undefined;
+}
+
+function combinations(ids: number[], size: number, start = 0, picked: number[] = [], out: number[][] = []): number[][] {
+  if (picked.length === size) {
+    out.push([...picked]);
+    return out;
+  }
+  for (let i = start; i < ids.length; i++) {
+    picked.push(ids[i]);
+    combinations(ids, size, i + 1, picked, out);
+    picked.pop();
+  }
+  return out;
+}
+
+function countCombinations(n: number, maxSize: number): number {
+  let total = 0;
+  for (let k = 1; k <= maxSize; k++) {
+    let c = 1;
+    for (let i = 0; i < k; i++) c = (c * (n - i)) / (i + 1);
+    total += c;
+  }
+  return total;
+}
+
+interface Assignment {
+  storeIds: number[];
+  covered: number;
+  cost: number;
+  picks: (ItemOffer | undefined)[];
+}
+
+function assign(storeIds: number[], itemPrices: (Map<number, ItemOffer> | undefined)[]): Assignment {
+  let covered = 0;
+  let cost = 0;
+  const picks = itemPrices.map(offers => {
+    let best: ItemOffer | undefined;
+    for (const storeId of storeIds) {
+      const offer = offers?.get(storeId);
+      if (offer && (!best || offer.cost < best.cost)) best = offer;
+    }
+    if (best) {
+      covered++;
+      cost += best.cost;
+    }
+    return best;
+  });
+  return { storeIds, covered, cost, picks };
+}
+
+// More items covered beats cheaper; then cheaper; then fewer stores; then lower store ids
+function isBetter(candidate: Assignment, current: Assignment | undefined): boolean {
+  if (!current) return true;
+  if (candidate.covered !== current.covered) return candidate.covered > current.covered;
+  if (Math.abs(candidate.cost - current.cost) > 0.0001) return candidate.cost < current.cost;
+  if (candidate.storeIds.length !== current.storeIds.length) return candidate.storeIds.length < current.storeIds.length;
+  return candidate.storeIds.join(',') < current.storeIds.join(',');
+}
+
+function greedyAssignment(
+  storeIds: number[],
+  maxStores: number,
+  itemPrices: (Map<number, ItemOffer> | undefined)[]
+): Assignment {
+  let chosen: number[] = [];
+  let best = assign(chosen, itemPrices);
+
+  while (chosen.length < maxStores) {
+    let nextBest: Assignment | undefined;
+    for (const storeId of storeIds) {
+      if (chosen.includes(storeId)) continue;
+      const candidate = assign([...chosen, storeId].sort((a, b) => a - b), itemPrices);
+      if (isBetter(candidate, nextBest)) nextBest = candidate;
+    }
+    if (!nextBest || !isBetter(nextBest, best)) break;
+    best = nextBest;
+    chosen = nextBest.storeIds;
+  }
+
+  return best;
+}
+
+/**
+ * Splits a shopping list across at most `maxStores` stores so that as many items
+ * as possible are priced and the total cost is as low as possible. Purely
+ * deterministic: the same list, stores and price history always give the same split.
+ */
+export function optimizeShoppingList(
+  items: ShoppingListItem[],
+  stores: Pick<Store, "id" | "name">[],
+  history: PriceHistory[],
+  options: { maxStores?: number; now?: Date } = {}
+): OptimizationResult {
+  const maxStores = Math.max(1, Math.floor(options.maxStores ?? 3));
+  const index = buildCurrentPriceIndex(history, options.now ?? new Date());
+  const storeIds = stores.map(store => store.id).sort((a, b) => a - b);
+  const storeNames = new Map(stores.map(store => [store.id, store.name]));
+
+  const matchedPrices = items.map(item => findPrices(item.name, index));
+  const itemPrices = items.map((item, i) => itemOffers(parseItemQuantity(item.quantity), matchedPrices[i]));
+
+  // Only stores that carry at least one listed item are worth visiting
+  const usefulStoreIds = storeIds.filter(storeId => itemPrices.some(prices => prices?.has(storeId)));
+  const limit = Math.min(maxStores, usefulStoreIds.length);
+
+  let best: Assignment | undefined;
+  if (limit === 0) {
+    best = assign([], itemPrices);
+  } else if (countCombinations(usefulStoreIds.length, limit) <= MAX_EXACT_COMBINATIONS) {
+    for (let size = 1; size <= limit; size++) {
+      for (const subset of combinations(usefulStoreIds, size)) {
+        const candidate = assign(subset, itemPrices);
+        if (isBetter(candidate, best)) best = candidate;
+      }
+    }
+  } else {
+    best = greedyAssignment(usefulStoreIds, limit, itemPrices);
+  }
+
+  const lists = new Map<number, OptimizedList>();
+  const unavailableItems: ShoppingListItem[] = [];
+
+  items.forEach((item, i) => {
+    const pick = best!.picks[i];
+    if (!pick) {
+      unavailableItems.push(item);
+      return;
+    }
+    const list = lists.get(pick.storeId) ?? {
+      storeId: pick.storeId,
+      storeName: storeNames.get(pick.storeId) ?? `Store ${pick.storeId}`,
+      items: [],
+      totalCost: 0,
+    };
+    const lineTotal = roundCurrency(pick.cost);
+    list.items.push({
+      ...item,
+      unitPrice: pick.price,
+      unit: pick.unit,
+      purchaseQuantity: Math.round(pick.units * 100) / 100,
+      lineTotal,
+      onSale: pick.onSale,
+    });
+    list.totalCost = roundCurrency(list.totalCost + lineTotal);
+    lists.set(pick.storeId, list);
+  });
+
+  const optimizedLists = Array.from(lists.values()).sort((a, b) => b.totalCost - a.totalCost || a.storeId - b.storeId);
+  const totalCost = roundCurrency(optimizedLists.reduce((sum, list) => sum + list.totalCost, 0));
+
+  return {
+    optimizedLists,
+    unavailableItems,
+    totalCost,
+    reasoning: describeOptimization(
+      optimizedLists,
+      unavailableItems,
+      // Priced somewhere, but never in a unit the listed quantity converts to
+      items.filter((_, i) => matchedPrices[i] && itemPrices[i]!.size === 0),
+      totalCost,
+      usefulStoreIds,
+      best.picks,
+      itemPrices,
+      storeNames
+    ),
+  };
+}
+
+function describeOptimization(
+  lists: OptimizedList[],
+  unavailableItems: ShoppingListItem[],
+  unconvertibleItems: ShoppingListItem[],
+  totalCost: number,
+  storeIds: number[],
+  picks: (ItemOffer | undefined)[],
+  itemPrices: (Map<number, ItemOffer> | undefined)[],
+  storeNames: Map<number, string>
+): string {
+  if (lists.length === 0) {
+    return "No recorded prices matched your list yet. Add prices for your stores to get an optimized split.";
+  }
+
+  const itemCount = lists.reduce((sum, list) => sum + list.items.length, 0);
+  const parts = [
+    `Split ${itemCount} item${itemCount === 1 ? '' : 's'} across ${lists.length} store${lists.length === 1 ? '' : 's'} for an estimated $${totalCost.toFixed(2)}.`,
+  ];
+
+  // Compare against the cheapest single store that stocks everything we priced
+  const covered = itemPrices.filter((_, i) => picks[i]);
+  let bestSingle: { storeId: number; cost: number } | undefined;
+  for (const storeId of storeIds) {
+    if (!covered.every(offers => offers!.has(storeId))) continue;
+    const cost = covered.reduce((sum, offers) => sum + offers!.get(storeId)!.cost, 0);
+    if (!bestSingle || cost < bestSingle.cost) bestSingle = { storeId, cost };
+  }
+  if (bestSingle && lists.length > 1) {
+    const savings = roundCurrency(bestSingle.cost - totalCost);
+    if (savings > 0) {
+      parts.push(`That saves $${savings.toFixed(2)} compared with buying everything at ${storeNames.get(bestSingle.storeId)}.`);
+    }
+  }
+
+  const unpriced = unavailableItems.filter(item => !unconvertibleItems.includes(item));
+  if (unpriced.length > 0) {
+    parts.push(`No recorded price for: ${unpriced.map(item => item.name).join(', ')}.`);
+  }
+  if (unconvertibleItems.length > 0) {
+    parts.push(`Prices for ${unconvertibleItems.map(item => item.name).join(', ')} are in units that don't match the listed amount, so they weren't priced.`);
+  }
+
+  return parts.join(' ');
+}
+
+/**
+ * Current price of each requested product at every store that has one, cheapest first.
+ * Prices in units that convert are compared per unit, so $10/kg comes before
+ * $5/lb; prices in units that don't convert follow, by price.
+ */
+export function comparePrices(
+  productNames: string[],
+  stores: Pick<Store, "id" | "name">[],
+  history: PriceHistory[],
+  now: Date = new Date()
+): PriceComparison[] {
+  const index = buildCurrentPriceIndex(history, now);
+  const storeNames = new Map(stores.map(store => [store.id, store.name]));
+
+  return productNames.map(productName => {
+    const prices = new Map(Array.from(findPrices(productName, index) ?? []).filter(([storeId]) => storeNames.has(storeId)));
+    // What one of the lowest store id's unit costs at each store whose unit converts to it
+    const referenceUnit = prices.get(Math.min(...Array.from(prices.keys())))?.unit || 'each';
+    const perUnit = itemOffers(parseItemQuantity(`1 ${referenceUnit}`), prices)!;
+
+    const rows = Array.from(prices.values())
+      .map(price => ({
+        storeId: price.storeId,
+        storeName: storeNames.get(price.storeId)!,
+        price: price.price,
+        unit: price.unit,
+        onSale: price.onSale,
+      }))
+      .sort((a, b) => {
+        const costA = perUnit.get(a.storeId)?.cost;
+        const costB = perUnit.get(b.storeId)?.cost;
+        if ((costA === undefined) !== (costB === undefined)) return costA === undefined ? 1 : -1;
+        return (costA ?? a.price) - (costB ?? b.price) || a.storeId - b.storeId;
+      });
+
+    return { productName, stores: rows };
+  });
+}
+
+/**
+ * Store ids from `shoppingPreferences.preferredStores`, which holds `{ id, name }`
+ * entries (older rows nest them one array deeper).
+ */
+export function resolvePreferredStoreIds(preferredStores: unknown): number[] {
+  if (!Array.isArray(preferredStores)) return [];
+  const ids = (preferredStores as unknown[])
+    .flat(2)
+    .map(entry => (entry && typeof entry === 'object' ? Number((entry as { id?: unknown }).id) : Number(entry)))
+    .filter(id => Number.isInteger(id) && id > 0);
+  return Array.from(new Set(ids));
+}
@@ -1,8 +1,17 @@
 import { IStorage } from "./types";
 import { User, Recipe, GroceryList, PantryItem, CommunityPost, culturalRecipes } from "@shared/schema";
-import { users, recipes, groceryLists, pantryItems, communityPosts, recipe_likes, mealPlans, nutritionGoals, type NutritionGoal, recipeConsumption, type RecipeConsumption, kitchenEquipment, kitchenStorageLocations, culturalCuisines } from "@shared/schema";
-import { db, sql, pool } from "./db";
-import { eq, and, gte, lte, desc, count } from "drizzle-orm";
+import { users, recipes, groceryLists, pantryItems, communityPosts, recipe_likes, mealPlans, nutritionGoals, type NutritionGoal, recipeConsumption, type RecipeConsumption, mealPlanLogs, type MealPlanLog, nutritionLogEntries, type NutritionLogEntry, bodyProfiles, type BodyProfile, weightLogEntries, type WeightLogEntry, kitchenEquipment, type KitchenEquipment, equipmentMaintenanceEvents, type EquipmentMaintenanceEvent, equipmentConditionChanges, type EquipmentConditionChange, passwordResetTokens, type PasswordResetToken, kitchenStorageLocations, storageItems, type KitchenStorageLocation, type StorageItem, stores, priceHistory, storeSpecificLists, smartShoppingInsights, shoppingPreferences, type Store, type PriceHistory, type StoreSpecificList, type ShoppingPreferences, culturalCuisines } from "@shared/schema";
+import { parseQuantity } from "@shared/units";
+import { toRecipeIngredients } from "@shared/ingredients";
+import { MICRONUTRIENT_KEYS, cleanMicronutrients } from "@shared/nutrients";
+import type { DailyNutritionTotal } from "./nutrition-log";
+import type { PantryDeduction } from "./pantry-deduction";
+import type { BodyProfileInput } from "@shared/body-metrics";
+import type { EquipmentCondition } from "@shared/equipment-maintenance";
+import type { KitchenEquipmentUpdate } from "@shared/equipment-lifecycle";
+import { inferRequiredTools } from "@shared/recipe-equipment";
+import { db, pool } from "./db";
+import { eq, and, gt, gte, lte, desc, count, inArray, isNull, isNotNull, sql } from "drizzle-orm";
 import session from "express-session";
 import MemoryStore from "memorystore";
 
@@ -37,7 +46,15 @@ export class DatabaseStorage implements IStorage {
     return user;
   }
 
-  async createUser(user: { username: string; password: string; preferences?: unknown }): Promise<User> {
+  async getUserByEmail(email: string): Promise<User | undefined> {
+    const [user] = await db
+      .select()
+      .from(users)
+      .where(sql`lower(${users.email}) = ${email.trim().toLowerCase()}`);
+    return user;
+  }
+
+  async createUser(user: { username: string; password: string; email?: string; preferences?: unknown; secretKeyHash?: string }): Promise<User> {
     const [newUser] = await db.insert(users).values(user).returning();
     return newUser;
   }
@@ -51,6 +68,45 @@ export class DatabaseStorage implements IStorage {
     return user;
   }
 
+  // Issuing a token retires any the user still has outstanding
+  async createPasswordResetToken(userId: number, tokenHash: string, expiresAt: Date): Promise<PasswordResetToken> {
+    await this.invalidatePasswordResetTokens(userId);
+    const [token] = await db
+      .insert(passwordResetTokens)
+      .values({ userId, tokenHash, expiresAt })
+      .returning();
+    return token;
+  }
+
+  async getPasswordResetToken(id: number): Promise<PasswordResetToken | undefined> {
+    const [token] = await db.select().from(passwordResetTokens).where(eq(passwordResetTokens.id, id));
+    return token;
+  }
+
+  // Marks the token used in one statement, so two requests with the same token can't both succeed
+  async consumePasswordResetToken(id: number): Promise<boolean> {
+    const now = new Date();
+    const updates: Partial<PasswordResetToken> = { usedAt: now };
+    const consumed = await db
+      .update(passwordResetTokens)
+      .set(updates)
+      .where(and(
+        eq(passwordResetTokens.id, id),
+        isNull(passwordResetTokens.usedAt),
+        gt(passwordResetTokens.expiresAt, now)
+      ))
+      .returning({ id: passwordResetTokens.id });
+    return consumed.length > 0;
+  }
+
+  async invalidatePasswordResetTokens(userId: number): Promise<void> {
+    const updates: Partial<PasswordResetToken> = { usedAt: new Date() };
+    await db
+      .update(passwordResetTokens)
+      .set(updates)
+      .where(and(eq(passwordResetTokens.userId, userId), isNull(passwordResetTokens.usedAt)));
+  }
+
   async deleteUser(id: number): Promise<void> {
     try {
       // Order matters - delete dependent tables first before their references
@@ -101,11 +157,26 @@ export class DatabaseStorage implements IStorage {
       await db.delete(mealPlans)
         .where(eq(mealPlans.userId, id));
       
-      // 9. Delete nutrition goals
+      // 9. Delete nutrition goals, the nutrition and weight logs and the body profile
+      await db.delete(nutritionLogEntries)
+        .where(eq(nutritionLogEntries.userId, id));
+
+      await db.delete(weightLogEntries)
+        .where(eq(weightLogEntries.userId, id));
+
+      await db.delete(bodyProfiles)
+        .where(eq(bodyProfiles.userId, id));
+
       await db.delete(nutritionGoals)
         .where(eq(nutritionGoals.userId, id));
       
-      // 10. Delete kitchen equipment
+      // 10. Delete kitchen equipment and its maintenance and condition history
+      await db.delete(equipmentMaintenanceEvents)
+        .where(eq(equipmentMaintenanceEvents.userId, id));
+
+      await db.delete(equipmentConditionChanges)
+        .where(eq(equipmentConditionChanges.userId, id));
+
       await db.delete(kitchenEquipment)
         .where(eq(kitchenEquipment.userId, id));
       
@@ -118,14 +189,28 @@ export class DatabaseStorage implements IStorage {
         console.log("Note: Skip kitchenStorageLocations if table doesn't exist");
       }
       
-      // 12. Delete cultural recipes and cuisines
+      // 12. Delete smart shopping data
+      await db.delete(storeSpecificLists)
+        .where(eq(storeSpecificLists.userId, id));
+
+      await db.delete(smartShoppingInsights)
+        .where(eq(smartShoppingInsights.userId, id));
+
+      await db.delete(shoppingPreferences)
+        .where(eq(shoppingPreferences.userId, id));
+
+      // 13. Delete cultural recipes and cuisines
       await db.delete(culturalRecipes)
         .where(eq(culturalRecipes.createdBy, id));
 
       await db.delete(culturalCuisines)
         .where(eq(culturalCuisines.createdBy, id));
 
-      // 13. Finally, delete the user account
+      // 14. Delete password reset tokens
+      await db.delete(passwordResetTokens)
+        .where(eq(passwordResetTokens.userId, id));
+
+      // 15. Finally, delete the user account
       await db.delete(users)
         .where(eq(users.id, id));
     } catch (error) {
@@ -172,6 +257,23 @@ export class DatabaseStorage implements IStorage {
     return undefined;
   }
 
+  // Plain rows without like counts, for meal plans that reference several recipes
+  async getRecipesByIds(ids: number[]): Promise<Recipe[]> {
+    if (ids.length === 0) return [];
+    return db
+      .select()
+      .from(recipes)
+      .where(inArray(recipes.id, ids));
+  }
+
+  async getRecipesByCreator(userId: number): Promise<Recipe[]> {
+    return db
+      .select()
+      .from(recipes)
+      .where(eq(recipes.createdBy, userId))
+      .orderBy(desc(recipes.createdAt));
+  }
+
   async getRecipeLikesCount(recipeId: number): Promise<number> {
     // Get count of likes for a recipe
     const result = await db
@@ -185,7 +287,11 @@ export class DatabaseStorage implements IStorage {
   async createRecipe(recipe: Omit<Recipe, "id">): Promise<Recipe> {
     const [newRecipe] = await db
       .insert(recipes)
-      .values(recipe)
+      .values({
+        ...recipe,
+        ingredients: toRecipeIngredients(recipe.ingredients),
+        requiredEquipment: recipe.requiredEquipment ?? inferRequiredTools(recipe.title, recipe.instructions),
+      })
       .returning({
         id: recipes.id,
         title: recipes.title,
@@ -194,6 +300,9 @@ export class DatabaseStorage implements IStorage {
         instructions: recipes.instructions,
         nutritionInfo: recipes.nutritionInfo,
         prepTime: recipes.prepTime,
+        servings: recipes.servings,
+        yieldDescription: recipes.yieldDescription,
+        requiredEquipment: recipes.requiredEquipment,
         imageUrl: recipes.imageUrl,
         createdBy: recipes.createdBy,
         createdAt: recipes.createdAt,
@@ -299,6 +408,9 @@ export class DatabaseStorage implements IStorage {
   async updateRecipe(id: number, data: Partial<Recipe>): Promise<Recipe> {
     // Remove likes field if it exists in data to prevent issues
     const { likes, ...updateData } = data;
+    if (updateData.ingredients !== undefined) {
+      updateData.ingredients = toRecipeIngredients(updateData.ingredients);
+    }
 
     const [recipe] = await db
       .update(recipes)
@@ -312,6 +424,9 @@ export class DatabaseStorage implements IStorage {
         instructions: recipes.instructions,
         nutritionInfo: recipes.nutritionInfo,
         prepTime: recipes.prepTime,
+        servings: recipes.servings,
+        yieldDescription: recipes.yieldDescription,
+        requiredEquipment: recipes.requiredEquipment,
         imageUrl: recipes.imageUrl,
         createdBy: recipes.createdBy,
         createdAt: recipes.createdAt,
@@ -334,7 +449,15 @@ export class DatabaseStorage implements IStorage {
     return db.select().from(groceryLists).where(eq(groceryLists.userId, userId));
   }
 
-  async createGroceryList(list: Omit<GroceryList, "id">): Promise<GroceryList> {
+  async getGroceryListForMealPlan(mealPlanId: number, userId: number): Promise<GroceryList | undefined> {
+    const [list] = await db
+      .select()
+      .from(groceryLists)
+      .where(and(eq(groceryLists.mealPlanId, mealPlanId), eq(groceryLists.userId, userId)));
+    return list;
+  }
+
+  async createGroceryList(list: Omit<GroceryList, "id" | "title" | "mealPlanId"> & Partial<Pick<GroceryList, "title" | "mealPlanId">>): Promise<GroceryList> {
     const [newList] = await db.insert(groceryLists).values(list).returning();
     return newList;
   }
@@ -352,20 +475,43 @@ export class DatabaseStorage implements IStorage {
     return db.select().from(pantryItems).where(eq(pantryItems.userId, userId));
   }
 
-  async createPantryItem(item: Omit<PantryItem, "id">): Promise<PantryItem> {
-    const [newItem] = await db.insert(pantryItems).values(item).returning();
+  async getPantryItem(id: number, userId: number): Promise<PantryItem | undefined> {
+    const [item] = await db
+      .select()
+      .from(pantryItems)
+      .where(and(eq(pantryItems.id, id), eq(pantryItems.userId, userId)));
+    return item;
+  }
+
+  async createPantryItem(item: Omit<PantryItem, "id" | "quantityAmount" | "quantityUnit" | "unitFamily">): Promise<PantryItem> {
+    const values: Omit<PantryItem, "id"> = { ...item, ...this.parsePantryQuantity(item.quantity) };
+    const [newItem] = await db.insert(pantryItems).values(values).returning();
     return newItem;
   }
 
   async updatePantryItem(id: number, data: Partial<PantryItem>): Promise<PantryItem> {
+    const { quantityAmount, quantityUnit, unitFamily, ...rest } = data;
+    const updates: Partial<PantryItem> = rest.quantity !== undefined
+      ? { ...rest, ...this.parsePantryQuantity(rest.quantity) }
+      : rest;
     const [item] = await db
       .update(pantryItems)
-      .set(data)
+      .set(updates)
       .where(eq(pantryItems.id, id))
       .returning();
     return item;
   }
 
+  // The structured columns always mirror the quantity text
+  private parsePantryQuantity(quantity: string): Pick<PantryItem, "quantityAmount" | "quantityUnit" | "unitFamily"> {
+    const parsed = parseQuantity(quantity);
+    return {
+      quantityAmount: parsed?.amount ?? null,
+      quantityUnit: parsed?.unit ?? null,
+      unitFamily: parsed?.family ?? null,
+    };
+  }
+
   async deletePantryItem(id: number): Promise<void> {
     await db.delete(pantryItems).where(eq(pantryItems.id, id));
   }
@@ -459,6 +605,14 @@ export class DatabaseStorage implements IStorage {
       .orderBy(desc(mealPlans.createdAt));
   }
 
+  async getMealPlan(id: number, userId: number) {
+    const [plan] = await db
+      .select()
+      .from(mealPlans)
+      .where(and(eq(mealPlans.id, id), eq(mealPlans.userId, userId)));
+    return plan;
+  }
+
   async createMealPlan(plan: Omit<typeof mealPlans.$inferInsert, "id">) {
     const [newPlan] = await db
       .insert(mealPlans)
@@ -513,24 +667,243 @@ export class DatabaseStorage implements IStorage {
       );
   }
 
-  async updateNutritionProgress(
-    goalId: number, 
-    progress: NutritionGoal["progress"]
-  ): Promise<NutritionGoal> {
-    const [updated] = await db
-      .update(nutritionGoals)
-      .set({ progress })
-      .where(eq(nutritionGoals.id, goalId))
+  async addNutritionLogEntry(entry: Omit<NutritionLogEntry, "id" | "createdAt">): Promise<NutritionLogEntry> {
+    const [created] = await db
+      .insert(nutritionLogEntries)
+      .values(entry)
       .returning();
-    return updated;
+    return created;
+  }
+
+  async getNutritionLogEntries(userId: number, from: string, to: string): Promise<NutritionLogEntry[]> {
+    return db
+      .select()
+      .from(nutritionLogEntries)
+      .where(and(
+        eq(nutritionLogEntries.userId, userId),
+        gte(nutritionLogEntries.date, from),
+        lte(nutritionLogEntries.date, to)
+      ))
+      .orderBy(nutritionLogEntries.date, nutritionLogEntries.createdAt);
+  }
+
+  // Summed in the database, so entries logged at the same time can't overwrite each other
+  async getDailyNutritionTotals(userId: number, from: string, to: string): Promise<DailyNutritionTotal[]> {
+    // Null when no entry that day lists the nutrient, so unknown doesn't read as zero
+    const micronutrientSums = Object.fromEntries(MICRONUTRIENT_KEYS.map(key => [
+      key,
+      sql<number | null>`sum((${nutritionLogEntries.micronutrients}->>${key})::double precision)`,
+    ]));
+
+    const rows = await db
+      .select({
+        date: nutritionLogEntries.date,
+        calories: sql<number>`coalesce(sum(${nutritionLogEntries.calories}), 0)`.mapWith(Number),
+        protein: sql<number>`coalesce(sum(${nutritionLogEntries.protein}), 0)`.mapWith(Number),
+        carbs: sql<number>`coalesce(sum(${nutritionLogEntries.carbs}), 0)`.mapWith(Number),
+        fat: sql<number>`coalesce(sum(${nutritionLogEntries.fat}), 0)`.mapWith(Number),
+        ...micronutrientSums,
+      })
+      .from(nutritionLogEntries)
+      .where(and(
+        eq(nutritionLogEntries.userId, userId),
+        gte(nutritionLogEntries.date, from),
+        lte(nutritionLogEntries.date, to)
+      ))
+      .groupBy(nutritionLogEntries.date)
+      .orderBy(nutritionLogEntries.date);
+
+    return rows.map(({ date, calories, protein, carbs, fat, ...micronutrients }) => ({
+      date,
+      calories,
+      protein,
+      carbs,
+      fat,
+      micronutrients: cleanMicronutrients(micronutrients),
+    }));
+  }
+
+  async getNutritionLogEntry(id: number, userId: number): Promise<NutritionLogEntry | undefined> {
+    const [entry] = await db
+      .select()
+      .from(nutritionLogEntries)
+      .where(and(eq(nutritionLogEntries.id, id), eq(nutritionLogEntries.userId, userId)));
+    return entry;
+  }
+
+  async deleteNutritionLogEntry(id: number, userId: number): Promise<void> {
+    await db.delete(nutritionLogEntries)
+      .where(and(eq(nutritionLogEntries.id, id), eq(nutritionLogEntries.userId, userId)));
+  }
+
+  async deleteNutritionLogEntriesForMealLog(mealPlanLogId: number): Promise<void> {
+    await db.delete(nutritionLogEntries)
+      .where(eq(nutritionLogEntries.mealPlanLogId, mealPlanLogId));
+  }
+
+  async getBodyProfile(userId: number): Promise<BodyProfile | undefined> {
+    const [profile] = await db
+      .select()
+      .from(bodyProfiles)
+      .where(eq(bodyProfiles.userId, userId));
+    return profile;
+  }
+
+  async saveBodyProfile(userId: number, profile: BodyProfileInput): Promise<BodyProfile> {
+    const updates: Partial<BodyProfile> = { ...profile, updatedAt: new Date() };
+    const [saved] = await db
+      .insert(bodyProfiles)
+      .values({ userId, ...profile })
+      .onConflictDoUpdate({ target: bodyProfiles.userId, set: updates })
+      .returning();
+    return saved;
+  }
+
+  async getWeightLogEntries(userId: number, from: string, to: string): Promise<WeightLogEntry[]> {
+    return db
+      .select()
+      .from(weightLogEntries)
+      .where(and(
+        eq(weightLogEntries.userId, userId),
+        gte(weightLogEntries.date, from),
+        lte(weightLogEntries.date, to)
+      ))
+      .orderBy(weightLogEntries.date);
+  }
+
+  async getLatestWeight(userId: number): Promise<WeightLogEntry | undefined> {
+    const [entry] = await db
+      .select()
+      .from(weightLogEntries)
+      .where(eq(weightLogEntries.userId, userId))
+      .orderBy(desc(weightLogEntries.date))
+      .limit(1);
+    return entry;
   }
 
-  async trackRecipeConsumption(data: Omit<RecipeConsumption, "id">): Promise<RecipeConsumption> {
+  // A second weigh-in on the same day replaces the first
+  async logWeight(userId: number, date: string, weightKg: number): Promise<WeightLogEntry> {
+    const updates: Partial<WeightLogEntry> = { weightKg, createdAt: new Date() };
+    const [entry] = await db
+      .insert(weightLogEntries)
+      .values({ userId, date, weightKg })
+      .onConflictDoUpdate({ target: [weightLogEntries.userId, weightLogEntries.date], set: updates })
+      .returning();
+    return entry;
+  }
+
+  async deleteWeightLogEntry(id: number, userId: number): Promise<WeightLogEntry | undefined> {
+    const [deleted] = await db
+      .delete(weightLogEntries)
+      .where(and(eq(weightLogEntries.id, id), eq(weightLogEntries.userId, userId)))
+      .returning();
+    return deleted;
+  }
+
+  // The meal, its nutrition log entry and the pantry stock it used are written together or not at all
+  async recordRecipeConsumption(
+    data: Omit<RecipeConsumption, "id" | "pantryDeductions">,
+    entry: Omit<NutritionLogEntry, "id" | "createdAt" | "consumptionId">,
+    deductions: PantryDeduction[]
+  ): Promise<RecipeConsumption> {
+    return db.transaction(async (tx) => {
+      const values: Omit<RecipeConsumption, "id"> = { ...data, pantryDeductions: deductions.length > 0 ? deductions : null };
+      const [consumption] = await tx.insert(recipeConsumption).values(values).returning();
+      const logEntry: Omit<NutritionLogEntry, "id" | "createdAt"> = { ...entry, consumptionId: consumption.id };
+      await tx.insert(nutritionLogEntries).values(logEntry);
+
+      for (const deduction of deductions) {
+        if (deduction.removed) {
+          await tx.delete(pantryItems).where(eq(pantryItems.id, deduction.pantryItemId));
+        } else {
+          const updates: Partial<PantryItem> = {
+            quantity: deduction.remainingQuantity,
+            ...this.parsePantryQuantity(deduction.remainingQuantity)
+          };
+          await tx.update(pantryItems).set(updates).where(eq(pantryItems.id, deduction.pantryItemId));
+        }
+      }
+      return consumption;
+    });
+  }
+
+  async getRecipeConsumption(id: number, userId: number): Promise<RecipeConsumption | undefined> {
     const [consumption] = await db
-      .insert(recipeConsumption)
+      .select()
+      .from(recipeConsumption)
+      .where(and(eq(recipeConsumption.id, id), eq(recipeConsumption.userId, userId)));
+    return consumption;
+  }
+
+  // Clears the deductions only if they're still there, so two undo requests can't both restore stock
+  async claimConsumptionPantryDeductions(id: number, userId: number): Promise<boolean> {
+    const updates: Partial<RecipeConsumption> = { pantryDeductions: null };
+    const claimed = await db
+      .update(recipeConsumption)
+      .set(updates)
+      .where(and(
+        eq(recipeConsumption.id, id),
+        eq(recipeConsumption.userId, userId),
+        isNotNull(recipeConsumption.pantryDeductions)
+      ))
+      .returning({ id: recipeConsumption.id });
+    return claimed.length > 0;
+  }
+
+  async deleteConsumptionRecord(id: number, userId: number): Promise<void> {
+    await db.delete(recipeConsumption)
+      .where(and(eq(recipeConsumption.id, id), eq(recipeConsumption.userId, userId)));
+  }
+
+  async getMealPlanLogs(mealPlanId: number, userId: number): Promise<MealPlanLog[]> {
+    return db
+      .select()
+      .from(mealPlanLogs)
+      .where(and(eq(mealPlanLogs.mealPlanId, mealPlanId), eq(mealPlanLogs.userId, userId)))
+      .orderBy(mealPlanLogs.date);
+  }
+
+  async getMealPlanLogForSlot(
+    mealPlanId: number,
+    date: string,
+    mealType: MealPlanLog["mealType"],
+    snackIndex: number
+  ): Promise<MealPlanLog | undefined> {
+    const [log] = await db
+      .select()
+      .from(mealPlanLogs)
+      .where(and(
+        eq(mealPlanLogs.mealPlanId, mealPlanId),
+        eq(mealPlanLogs.date, date),
+        eq(mealPlanLogs.mealType, mealType),
+        eq(mealPlanLogs.snackIndex, snackIndex)
+      ));
+    return log;
+  }
+
+  // Logging a slot again replaces its previous log
+  async saveMealPlanLog(data: Omit<MealPlanLog, "id" | "loggedAt">): Promise<MealPlanLog> {
+    const existing = await this.getMealPlanLogForSlot(data.mealPlanId, data.date, data.mealType, data.snackIndex);
+    if (existing) {
+      const updates: Partial<MealPlanLog> = { ...data, loggedAt: new Date() };
+      const [log] = await db
+        .update(mealPlanLogs)
+        .set(updates)
+        .where(eq(mealPlanLogs.id, existing.id))
+        .returning();
+      return log;
+    }
+
+    const [log] = await db
+      .insert(mealPlanLogs)
       .values(data)
       .returning();
-    return consumption;
+    return log;
+  }
+
+  async deleteMealPlanLog(id: number, userId: number): Promise<void> {
+    await db.delete(mealPlanLogs)
+      .where(and(eq(mealPlanLogs.id, id), eq(mealPlanLogs.userId, userId)));
   }
 
   async getRecipeConsumptionHistory(
@@ -606,12 +979,410 @@ export class DatabaseStorage implements IStorage {
       .where(eq(communityPosts.id, postId));
   }
 
+  async getKitchenEquipmentByUser(userId: number): Promise<KitchenEquipment[]> {
+    return db
+      .select()
+      .from(kitchenEquipment)
+      .where(eq(kitchenEquipment.userId, userId))
+      .orderBy(kitchenEquipment.name);
+  }
+
+  async getKitchenEquipmentItem(id: number, userId: number): Promise<KitchenEquipment | undefined> {
+    const [item] = await db
+      .select()
+      .from(kitchenEquipment)
+      .where(and(eq(kitchenEquipment.id, id), eq(kitchenEquipment.userId, userId)));
+    return item;
+  }
+
+  // Logs a condition change on the item's audit trail; no-op if the condition is unchanged
+  private async logConditionChange(equipment: KitchenEquipment, toCondition: EquipmentCondition, note?: string | null): Promise<void> {
+    if (toCondition === equipment.condition) return;
+    const change: Omit<EquipmentConditionChange, "id" | "changedAt"> = {
+      equipmentId: equipment.id,
+      userId: equipment.userId,
+      fromCondition: equipment.condition,
+      toCondition,
+      note: note || null,
+    };
+    await db.insert(equipmentConditionChanges).values(change);
+  }
+
+  async updateKitchenEquipment(equipment: KitchenEquipment, data: KitchenEquipmentUpdate, conditionNote?: string): Promise<KitchenEquipment> {
+    const updates: Partial<KitchenEquipment> = { ...data, updatedAt: new Date().toISOString() };
+    const [updated] = await db
+      .update(kitchenEquipment)
+      .set(updates)
+      .where(eq(kitchenEquipment.id, equipment.id))
+      .returning();
+    if (data.condition) await this.logConditionChange(equipment, data.condition, conditionNote);
+    return updated;
+  }
+
+  // Oldest first, so the trail reads as a timeline
+  async getConditionChanges(userId: number, equipmentId: number): Promise<EquipmentConditionChange[]> {
+    return db
+      .select()
+      .from(equipmentConditionChanges)
+      .where(and(eq(equipmentConditionChanges.userId, userId), eq(equipmentConditionChanges.equipmentId, equipmentId)))
+      .orderBy(equipmentConditionChanges.changedAt, equipmentConditionChanges.id);
+  }
+
+  // Newest first; all of the user's equipment unless equipmentId is given
+  async getMaintenanceEvents(userId: number, equipmentId?: number): Promise<EquipmentMaintenanceEvent[]> {
+    return db
+      .select()
+      .from(equipmentMaintenanceEvents)
+      .where(and(
+        eq(equipmentMaintenanceEvents.userId, userId),
+        equipmentId === undefined ? undefined : eq(equipmentMaintenanceEvents.equipmentId, equipmentId)
+      ))
+      .orderBy(desc(equipmentMaintenanceEvents.performedAt), desc(equipmentMaintenanceEvents.id));
+  }
+
+  // Adds a history entry and keeps the equipment's last maintenance date, notes and condition in step
+  async recordMaintenance(
+    equipment: KitchenEquipment,
+    event: Pick<EquipmentMaintenanceEvent, "performedAt" | "notes" | "condition">
+  ): Promise<{ equipment: KitchenEquipment; event: EquipmentMaintenanceEvent }> {
+    const [saved] = await db
+      .insert(equipmentMaintenanceEvents)
+      .values({ equipmentId: equipment.id, userId: equipment.userId, ...event })
+      .returning();
+
+    // A back-dated entry doesn't roll back the last maintenance date or the current condition
+    const last = equipment.lastMaintenanceDate?.slice(0, 10);
+    const updates: Partial<KitchenEquipment> = { updatedAt: new Date().toISOString() };
+    if (!last || event.performedAt >= last) {
+      updates.lastMaintenanceDate = event.performedAt;
+      updates.maintenanceNotes = event.notes;
+      if (event.condition) updates.condition = event.condition;
+    }
+
+    const [updated] = await db
+      .update(kitchenEquipment)
+      .set(updates)
+      .where(eq(kitchenEquipment.id, equipment.id))
+      .returning();
+    if (updates.condition) await this.logConditionChange(equipment, updates.condition, event.notes ?? `Maintenance on ${event.performedAt}`);
+    return { equipment: updated, event: saved };
+  }
+
+  async getStorageLocationsByUser(userId: number): Promise<KitchenStorageLocation[]> {
+    return db
+      .select()
+      .from(kitchenStorageLocations)
+      .where(eq(kitchenStorageLocations.userId, userId))
+      .orderBy(kitchenStorageLocations.name);
+  }
+
+  async getStorageLocation(id: number, userId: number): Promise<KitchenStorageLocation | undefined> {
+    const [location] = await db
+      .select()
+      .from(kitchenStorageLocations)
+      .where(
+        and(
+          eq(kitchenStorageLocations.id, id),
+          eq(kitchenStorageLocations.userId, userId)
+        )
+      );
+    return location;
+  }
+
+  async createStorageLocation(
+    location: Omit<KitchenStorageLocation, "id" | "currentItems" | "createdAt" | "updatedAt">
+  ): Promise<KitchenStorageLocation> {
+    const now = new Date();
+    const values: Omit<KitchenStorageLocation, "id"> = {
+      ...location,
+      currentItems: 0,
+      createdAt: now,
+      updatedAt: now
+    };
+    const [newLocation] = await db
+      .insert(kitchenStorageLocations)
+      .values(values)
+      .returning();
+    return newLocation;
+  }
+
+  async updateStorageLocation(
+    id: number,
+    userId: number,
+    data: Partial<KitchenStorageLocation>
+  ): Promise<KitchenStorageLocation> {
+    // currentItems is derived from storage_items and is never written directly
+    const { id: _, userId: __, currentItems: ___, createdAt: ____, ...updateData } = data;
+    const updates: Partial<KitchenStorageLocation> = { ...updateData, updatedAt: new Date() };
+
+    const [location] = await db
+      .update(kitchenStorageLocations)
+      .set(updates)
+      .where(
+        and(
+          eq(kitchenStorageLocations.id, id),
+          eq(kitchenStorageLocations.userId, userId)
+        )
+      )
+      .returning();
+    return location;
+  }
+
+  async deleteStorageLocation(id: number, userId: number): Promise<void> {
+    // Items in the location are removed by the ON DELETE CASCADE on storage_items
+    await db
+      .delete(kitchenStorageLocations)
+      .where(
+        and(
+          eq(kitchenStorageLocations.id, id),
+          eq(kitchenStorageLocations.userId, userId)
+        )
+      );
+  }
+
+  async getStorageItemsByUser(userId: number): Promise<StorageItem[]> {
+    return db
+      .select()
+      .from(storageItems)
+      .where(eq(storageItems.userId, userId))
+      .orderBy(storageItems.name);
+  }
+
+  async getStorageItem(id: number, userId: number): Promise<StorageItem | undefined> {
+    const [item] = await db
+      .select()
+      .from(storageItems)
+      .where(
+        and(
+          eq(storageItems.id, id),
+          eq(storageItems.userId, userId)
+        )
+      );
+    return item;
+  }
+
+  async createStorageItem(item: Omit<StorageItem, "id" | "createdAt" | "updatedAt">): Promise<StorageItem> {
+    const now = new Date();
+    const values: Omit<StorageItem, "id"> = {
+      ...item,
+      createdAt: now,
+      updatedAt: now
+    };
+    const [newItem] = await db
+      .insert(storageItems)
+      .values(values)
+      .returning();
+
+    await this.syncStorageLocationItemCount(newItem.locationId);
+    return newItem;
+  }
+
+  async updateStorageItem(
+    id: number,
+    userId: number,
+    data: Partial<StorageItem>
+  ): Promise<StorageItem> {
+    const existing = await this.getStorageItem(id, userId);
+    if (!existing) {
+      throw new Error("Storage item not found");
+    }
+
+    const { id: _, userId: __, createdAt: ___, ...updateData } = data;
+    const updates: Partial<StorageItem> = { ...updateData, updatedAt: new Date() };
+
+    const [item] = await db
+      .update(storageItems)
+      .set(updates)
+      .where(
+        and(
+          eq(storageItems.id, id),
+          eq(storageItems.userId, userId)
+        )
+      )
+      .returning();
+
+    // Moving an item changes the count of both the old and the new location
+    if (item.locationId !== existing.locationId) {
+      await this.syncStorageLocationItemCount(existing.locationId);
+    }
+    await this.syncStorageLocationItemCount(item.locationId);
+
+    return item;
+  }
+
+  async deleteStorageItem(id: number, userId: number): Promise<void> {
+    const [deleted] = await db
+      .delete(storageItems)
+      .where(
+        and(
+          eq(storageItems.id, id),
+          eq(storageItems.userId, userId)
+        )
+      )
+      .returning({ locationId: storageItems.locationId });
+
+    if (deleted) {
+      await this.syncStorageLocationItemCount(deleted.locationId);
+    }
+  }
+
+  // Recount instead of incrementing so concurrent writes can't leave current_items drifting
+  private async syncStorageLocationItemCount(locationId: number): Promise<void> {
+    const [result] = await db
+      .select({ count: count() })
+      .from(storageItems)
+      .where(eq(storageItems.locationId, locationId));
+
+    const updates: Partial<KitchenStorageLocation> = {
+      currentItems: result?.count || 0,
+      updatedAt: new Date()
+    };
+    await db
+      .update(kitchenStorageLocations)
+      .set(updates)
+      .where(eq(kitchenStorageLocations.id, locationId));
+  }
+
+  async getStores(): Promise<Store[]> {
+    return db.select().from(stores).orderBy(stores.name);
+  }
+
+  async getStore(id: number): Promise<Store | undefined> {
+    const [store] = await db.select().from(stores).where(eq(stores.id, id));
+    return store;
+  }
+
+  async createStore(store: Omit<Store, "id" | "createdAt">): Promise<Store> {
+    const [newStore] = await db.insert(stores).values(store).returning();
+    return newStore;
+  }
+
+  async getPriceHistory(storeIds?: number[], productNames?: string[]): Promise<PriceHistory[]> {
+    const conditions = [];
+    if (storeIds) {
+      if (storeIds.length === 0) return [];
+      conditions.push(inArray(priceHistory.storeId, storeIds));
+    }
+    if (productNames) {
+      if (productNames.length === 0) return [];
+      conditions.push(inArray(priceHistory.productName, productNames));
+    }
+
+    return db
+      .select()
+      .from(priceHistory)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(priceHistory.recordedAt));
+  }
+
+  async recordPrice(price: Omit<PriceHistory, "id" | "recordedAt">): Promise<PriceHistory> {
+    const [entry] = await db.insert(priceHistory).values(price).returning();
+    return entry;
+  }
+
+  async getStoreListsByUser(userId: number): Promise<StoreSpecificList[]> {
+    return db
+      .select()
+      .from(storeSpecificLists)
+      .where(eq(storeSpecificLists.userId, userId))
+      .orderBy(desc(storeSpecificLists.createdAt));
+  }
+
+  async getStoreList(id: number, userId: number): Promise<StoreSpecificList | undefined> {
+    const [list] = await db
+      .select()
+      .from(storeSpecificLists)
+      .where(
+        and(
+          eq(storeSpecificLists.id, id),
+          eq(storeSpecificLists.userId, userId)
+        )
+      );
+    return list;
+  }
+
+  async createStoreList(list: Omit<StoreSpecificList, "id" | "createdAt" | "updatedAt">): Promise<StoreSpecificList> {
+    const [newList] = await db.insert(storeSpecificLists).values(list).returning();
+    return newList;
+  }
+
+  async updateStoreList(id: number, userId: number, data: Partial<StoreSpecificList>): Promise<StoreSpecificList> {
+    const { id: _, userId: __, createdAt: ___, ...updateData } = data;
+    const updates: Partial<StoreSpecificList> = { ...updateData, updatedAt: new Date() };
+
+    const [list] = await db
+      .update(storeSpecificLists)
+      .set(updates)
+      .where(
+        and(
+          eq(storeSpecificLists.id, id),
+          eq(storeSpecificLists.userId, userId)
+        )
+      )
+      .returning();
+    return list;
+  }
+
+  async deleteStoreList(id: number, userId: number): Promise<void> {
+    await db
+      .delete(storeSpecificLists)
+      .where(
+        and(
+          eq(storeSpecificLists.id, id),
+          eq(storeSpecificLists.userId, userId)
+        )
+      );
+  }
+
+  async getShoppingPreferences(userId: number): Promise<ShoppingPreferences | undefined> {
+    const [preferences] = await db
+      .select()
+      .from(shoppingPreferences)
+      .where(eq(shoppingPreferences.userId, userId));
+    return preferences;
+  }
+
+  async saveShoppingPreferences(
+    userId: number,
+    data: Partial<ShoppingPreferences>
+  ): Promise<ShoppingPreferences> {
+    const { id: _, userId: __, createdAt: ___, ...preferenceData } = data;
+    const existing = await this.getShoppingPreferences(userId);
+
+    if (existing) {
+      const updates: Partial<ShoppingPreferences> = { ...preferenceData, updatedAt: new Date() };
+      const [updated] = await db
+        .update(shoppingPreferences)
+        .set(updates)
+        .where(eq(shoppingPreferences.userId, userId))
+        .returning();
+      return updated;
+    }
+
+    const values: Partial<ShoppingPreferences> = { ...preferenceData, userId };
+    const [created] = await db
+      .insert(shoppingPreferences)
+      .values(values as Omit<ShoppingPreferences, "id">)
+      .returning();
+    return created;
+  }
+
+  async getCulturalRecipesByIds(ids: number[]): Promise<Array<typeof culturalRecipes.$inferSelect>> {
+    if (ids.length === 0) return [];
+    return db
+      .select()
+      .from(culturalRecipes)
+      .where(inArray(culturalRecipes.id, ids));
+  }
+
   async addCulturalRecipe(recipe: Omit<typeof culturalRecipes.$inferInsert, "id">): Promise<typeof culturalRecipes.$inferSelect> {
     const now = new Date();
     const [newRecipe] = await db
       .insert(culturalRecipes)
       .values({
         ...recipe,
+        authenticIngredients: toRecipeIngredients(recipe.authenticIngredients),
+        requiredEquipment: inferRequiredTools(recipe.name, recipe.instructions),
         createdAt: now,
         updatedAt: now
       })
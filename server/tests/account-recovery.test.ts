@@ -0,0 +1,87 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { mkdtemp, readdir, readFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import {
+  RESET_TOKEN_TTL_MS,
+  generateSecretKey,
+  hashSecret,
+  secretMatches,
+  createResetSecret,
+  formatResetToken,
+  parseResetToken,
+  resetTokenUsable,
+  resetLinkBaseUrl,
+} from '../account-recovery';
+import { fileTransport, sendMail, setMailTransport, type MailMessage } from '../mail';
+
+describe('Account recovery', () => {
+  it('stores secret keys as hashes and checks them against the hash', () => {
+    const key = generateSecretKey();
+    expect(key).toMatch(/^[0-9a-f]{64}$/);
+
+    const stored = hashSecret(key);
+    expect(stored).not.toContain(key);
+    expect(secretMatches(key, stored)).toBe(true);
+    expect(secretMatches(generateSecretKey(), stored)).toBe(false);
+    expect(secretMatches(key, null)).toBe(false);
+    expect(secretMatches(key, 'abc')).toBe(false);
+  });
+
+  it('builds reset tokens that carry their id and expire after the TTL', () => {
+    const now = new Date('2026-10-19T10:00:00Z');
+    const { secret, tokenHash, expiresAt } = createResetSecret(now);
+    expect(expiresAt.getTime() - now.getTime()).toBe(RESET_TOKEN_TTL_MS);
+
+    const parsed = parseResetToken(formatResetToken(42, secret));
+    expect(parsed).toEqual({ id: 42, secret });
+    expect(secretMatches(parsed!.secret, tokenHash)).toBe(true);
+
+    expect(parseResetToken('42')).toBeNull();
+    expect(parseResetToken('x.abcdefghijklmnopqrstu')).toBeNull();
+    expect(parseResetToken({ id: 42 })).toBeNull();
+  });
+
+  it('accepts a token only once and only before it expires', () => {
+    const expiresAt = new Date('2026-10-19T11:00:00Z');
+    expect(resetTokenUsable({ expiresAt, usedAt: null }, new Date('2026-10-19T10:59:00Z'))).toBe(true);
+    expect(resetTokenUsable({ expiresAt, usedAt: null }, new Date('2026-10-19T11:00:00Z'))).toBe(false);
+    expect(resetTokenUsable({ expiresAt, usedAt: new Date('2026-10-19T10:30:00Z') }, new Date('2026-10-19T10:31:00Z'))).toBe(false);
+  });
+
+  it('builds reset links from APP_URL and never from a remote request origin', () => {
+    expect(resetLinkBaseUrl('https://evil.example', { APP_URL: 'https://app.example/' })).toBe('https://app.example');
+    expect(resetLinkBaseUrl('https://evil.example', {})).toBeNull();
+    expect(resetLinkBaseUrl('https://evil.example', { NODE_ENV: 'test' })).toBeNull();
+    expect(resetLinkBaseUrl('https://evil.example', { NODE_ENV: 'development' })).toBeNull();
+    expect(resetLinkBaseUrl('http://localhost:5173', { NODE_ENV: 'development' })).toBe('http://localhost:5173');
+    expect(resetLinkBaseUrl('http://localhost:5173', { NODE_ENV: 'production' })).toBeNull();
+  });
+});
+
+describe('Mail transport', () => {
+  afterEach(() => setMailTransport(undefined));
+
+  it('delivers through whichever transport is registered', async () => {
+    const sent: MailMessage[] = [];
+    setMailTransport({ send: async message => { sent.push(message); } });
+    await sendMail({ to: 'cook@example.com', subject: 'Hello', text: 'Body' });
+    expect(sent).toEqual([{ to: 'cook@example.com', subject: 'Hello', text: 'Body' }]);
+
+    setMailTransport(null);
+    await expect(sendMail({ to: 'cook@example.com', subject: 'Hello', text: 'Body' })).rejects.toThrow('No mail transport');
+  });
+
+  it('writes messages to an outbox folder', async () => {
+    const dir = await mkdtemp(path.join(tmpdir(), 'outbox-'));
+    try {
+      await fileTransport(dir).send({ to: 'cook@example.com', subject: 'Reset', text: 'http://localhost/reset-password?token=1.abc' });
+      const [file] = await readdir(dir);
+      const contents = await readFile(path.join(dir, file), 'utf8');
+      expect(contents).toContain('To: cook@example.com');
+      expect(contents).toContain('reset-password?token=1.abc');
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,30 @@
+import { describe, it, expect } from 'vitest';
+import { ageOn, calculateBmr, calculateNutritionTargets, bodyProfileSchema } from '../../shared/body-metrics';
+
+describe('Body metrics', () => {
+  const profile = { heightCm: 180, dateOfBirth: '1990-06-15', sex: 'male' as const, activityLevel: 'moderate' as const, goal: 'maintain' as const };
+
+  it('works out age and resting energy with Mifflin-St Jeor', () => {
+    expect(ageOn('1990-06-15', '2025-06-14')).toBe(34);
+    expect(ageOn('1990-06-15', '2025-06-15')).toBe(35);
+    expect(calculateBmr('male', 80, 180, 34)).toBe(1760);
+    expect(calculateBmr('female', 60, 165, 34)).toBe(1300.25);
+  });
+
+  it('adjusts calories for the goal and splits them into macros', () => {
+    const maintain = calculateNutritionTargets(profile, 80, '2025-06-14');
+    expect(maintain).toEqual({ age: 34, bmr: 1760, tdee: 2728, dailyCalories: 2728, dailyProtein: 128, dailyCarbs: 383, dailyFat: 76 });
+
+    const cut = calculateNutritionTargets({ ...profile, goal: 'cut' }, 80, '2025-06-14');
+    expect(cut).toMatchObject({ dailyCalories: 2182, dailyProtein: 160, dailyFat: 61, dailyCarbs: 248 });
+
+    // Lighter body, lower targets: the goal follows logged weight
+    expect(calculateNutritionTargets(profile, 75, '2025-06-14').dailyCalories).toBeLessThan(maintain.dailyCalories);
+  });
+
+  it('never cuts below the safe minimum', () => {
+    const small = { heightCm: 155, dateOfBirth: '1995-01-01', sex: 'female' as const, activityLevel: 'sedentary' as const, goal: 'cut' as const };
+    expect(calculateNutritionTargets(small, 50, '2025-06-14').dailyCalories).toBe(1200);
+    expect(bodyProfileSchema.safeParse({ ...small, activityLevel: 'couch' }).success).toBe(false);
+  });
+});
@@ -0,0 +1,122 @@
+import { describe, it, expect } from 'vitest';
+import type { MealPlanDay } from '../../shared/meal-plans';
+import {
+  classifyIngredient,
+  tagIngredients,
+  parseDietaryPreferences,
+  findDietViolations,
+  describeDietViolation,
+} from '../../shared/diet';
+import { findMealPlanDietProblems, findMealPlanDietWarnings, replaceMealPlanDietProblems, MAX_SLOT_REPLACEMENTS } from '../meal-plan-diet';
+
+describe('Allergen and diet classification', () => {
+  it('recognises allergens without tripping on look-alike names', () => {
+    expect(classifyIngredient('unsalted butter').allergens).toEqual(['milk']);
+    expect(classifyIngredient('peanut butter').allergens).toEqual(['peanuts']);
+    expect(classifyIngredient('soy sauce').allergens).toEqual(['wheat', 'soy']);
+    for (const name of ['coconut milk', 'eggplant', 'nutmeg', 'oyster mushrooms', 'cream of tartar', 'vegan cheese']) {
+      expect(classifyIngredient(name).allergens).toEqual([]);
+    }
+  });
+
+  it('does not report generic nut, noodle and dairy names as safe', () => {
+    for (const name of ['nuts', 'mixed nuts', 'chopped nuts', 'nut butter']) {
+      expect(classifyIngredient(name).allergens).toEqual(['tree-nuts', 'peanuts']);
+    }
+    for (const name of ['udon', 'ramen noodles', 'potato gnocchi']) {
+      expect(classifyIngredient(name).allergens).toContain('wheat');
+    }
+    expect(classifyIngredient('pistachio gelato').allergens).toEqual(['milk', 'tree-nuts']);
+    expect(classifyIngredient('basil pesto').allergens).toEqual(['milk', 'tree-nuts']);
+    expect(classifyIngredient('pine nuts').allergens).toEqual(['tree-nuts']);
+    expect(classifyIngredient('nut-free granola').allergens).toEqual([]);
+  });
+
+  it('warns about names that only partly match an allergen', () => {
+    expect(classifyIngredient('nutella')).toMatchObject({ allergens: [], possibleAllergens: ['tree-nuts'] });
+    expect(classifyIngredient('catfish fillet')).toMatchObject({ allergens: [], possibleAllergens: ['fish'] });
+    for (const name of ['nutmeg', 'eggplant', 'coconut flakes', 'butternut squash']) {
+      expect(classifyIngredient(name).possibleAllergens).toEqual([]);
+    }
+
+    const tags = tagIngredients(['2 tbsp nutella', '1 banana']);
+    expect(tags.allergens).toEqual([]);
+    const violations = findDietViolations(tags, { allergens: ['tree-nuts'], diets: [] });
+    expect(violations.map(describeDietViolation)).toEqual(['May contain tree nuts (nutella)']);
+    expect(violations[0].possible).toBe(true);
+  });
+
+  it('tags which diets a recipe fits and why the others fail', () => {
+    const tags = tagIngredients(['2 cups flour', '1 tbsp honey', '100 g butter'], { carbs: 40 });
+    expect(tags.allergens).toEqual(['milk', 'wheat']);
+    expect(tags.diets).toEqual(['vegetarian', 'halal']);
+    expect(tags.sources.vegan).toEqual(['honey', 'butter']);
+    expect(tags.sources.keto).toContain('40g carbs per serving');
+
+    const salad = tagIngredients(['1 bag spinach', '2 tbsp olive oil', '1 tbsp red wine vinegar']);
+    expect(salad.diets).toEqual(['vegan', 'vegetarian', 'gluten-free', 'keto', 'halal']);
+  });
+
+  it('reads restrictions from free-text preferences and reports violations', () => {
+    const restrictions = parseDietaryPreferences(['Vegan', 'nut-free', 'No dairy', 'low sodium']);
+    expect(restrictions).toEqual({ allergens: ['milk', 'tree-nuts', 'peanuts'], diets: ['vegan'] });
+
+    const violations = findDietViolations(tagIngredients(['2 tbsp peanut butter', '1 banana']), restrictions);
+    expect(violations.map(describeDietViolation)).toEqual(['Contains peanuts (peanut butter)']);
+  });
+
+  it('finds meals of a generated plan that break the restrictions', () => {
+    const meal = (title: string, ingredients: string[]) => ({
+      title, description: title, nutritionalInfo: '400 kcal, 20g protein, 10g carbs, 15g fat', preparationTime: '20 minutes', ingredients,
+    });
+    const plan = [
+      { day: 1, meals: { breakfast: meal('Omelette', ['3 eggs']), lunch: meal('Salad', ['2 cups lettuce']), dinner: meal('Tofu stir-fry', ['200 g tofu']) } },
+      { day: 2, meals: { breakfast: meal('Chia pudding', ['2 tbsp chia seeds']), lunch: meal('Satay', ['2 tbsp peanut butter']), dinner: meal('Soup', ['1 carrot']) } },
+    ] as MealPlanDay[];
+
+    const problems = findMealPlanDietProblems(plan, { allergens: ['peanuts'], diets: ['vegan'] });
+    expect(problems).toEqual([
+      { day: 1, mealType: 'breakfast', title: 'Omelette', problems: ['Not vegan (eggs)'] },
+      { day: 2, mealType: 'lunch', title: 'Satay', problems: ['Contains peanuts (peanut butter)'] },
+    ]);
+    expect(findMealPlanDietProblems(plan, { allergens: [], diets: [] })).toEqual([]);
+
+    const warned = [{ day: 1, meals: { breakfast: meal('Toast', ['1 slice toast', '1 tbsp nutella']) } }] as MealPlanDay[];
+    expect(findMealPlanDietProblems(warned, { allergens: ['tree-nuts'], diets: [] })).toEqual([]);
+    expect(findMealPlanDietWarnings(warned, { allergens: ['tree-nuts'], diets: [] })).toEqual([
+      { day: 1, mealType: 'breakfast', title: 'Toast', problems: ['May contain tree nuts (nutella)'] },
+    ]);
+  });
+
+  it('regenerates only the meals that break the restrictions', async () => {
+    const meal = (title: string, ingredients: string[]) => ({
+      title, description: title, nutritionalInfo: '400 kcal, 20g protein, 10g carbs, 15g fat', preparationTime: '20 minutes', ingredients,
+    });
+    const plan = [
+      { day: 8, meals: { breakfast: meal('Oats', ['1 cup rolled oats']), lunch: meal('Satay', ['2 tbsp peanut butter']), dinner: meal('Soup', ['1 carrot']), snacks: [meal('Trail mix', ['1/4 cup peanuts'])] } },
+    ] as MealPlanDay[];
+    const restrictions = { allergens: ['peanuts' as const], diets: [] };
+
+    const requested: string[] = [];
+    const fixed = await replaceMealPlanDietProblems(plan, restrictions, async problem => {
+      requested.push(`${problem.day} ${problem.mealType}`);
+      return meal('Hummus wrap', ['1 tortilla', '3 tbsp hummus']);
+    });
+    expect(requested).toEqual(['8 lunch', '8 snack']);
+    expect(fixed.problems).toEqual([]);
+    expect(fixed.days[0].meals.lunch.title).toBe('Hummus wrap');
+    expect(fixed.days[0].meals.snacks![0].title).toBe('Hummus wrap');
+    expect(fixed.days[0].meals.breakfast).toBe(plan[0].meals.breakfast);
+    expect(plan[0].meals.lunch.title).toBe('Satay');
+
+    let attempts = 0;
+    const stuck = await replaceMealPlanDietProblems(plan.map(day => ({ ...day, meals: { ...day.meals, snacks: [] } })), restrictions, async () => {
+      attempts++;
+      return meal('Satay again', ['2 tbsp peanut butter']);
+    });
+    expect(attempts).toBe(MAX_SLOT_REPLACEMENTS);
+    expect(stuck.problems).toEqual([
+      { day: 8, mealType: 'lunch', title: 'Satay again', problems: ['Contains peanuts (peanut butter)'] },
+    ]);
+  });
+});
@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest';
+import { equipmentLifecycle, createKitchenEquipmentSchema, updateKitchenEquipmentSchema } from '../../shared/equipment-lifecycle';
+
+describe('Equipment lifecycle', () => {
+  it('depreciates the purchase price in a straight line over the lifespan', () => {
+    const lifecycle = equipmentLifecycle(
+      { category: 'Appliances', condition: 'good', purchaseDate: '2024-04-19', purchasePrice: 400, expectedLifespanYears: 4 },
+      '2026-10-19'
+    );
+    expect(lifecycle.ageYears).toBe(2.5);
+    expect(lifecycle.currentValue).toBeCloseTo(150, 0);
+    expect(lifecycle.endOfLifeDate).toBe('2028-04-19');
+    expect(lifecycle.status).toBe('ok');
+    expect(lifecycle.depreciation).toEqual([
+      { date: '2024-04-19', value: 400 },
+      { date: '2025-04-19', value: 300 },
+      { date: '2026-04-19', value: 200 },
+      { date: '2027-04-19', value: 100 },
+      { date: '2028-04-19', value: 0 },
+    ]);
+  });
+
+  it('flags items nearing or past their lifespan and warranties about to run out', () => {
+    const nearing = equipmentLifecycle(
+      { category: 'Utensils', condition: 'good', purchaseDate: '2022-01-01', warrantyExpiry: '2026-11-01' },
+      '2026-10-19'
+    );
+    expect(nearing.lifespanYears).toBe(5);
+    expect(nearing.status).toBe('approaching-end-of-life');
+    expect(nearing.currentValue).toBeNull();
+    expect([nearing.warranty, nearing.warrantyDaysLeft]).toEqual(['expiring', 13]);
+
+    const past = equipmentLifecycle({ category: 'Storage', condition: 'good', purchaseDate: '2020-01-01' }, '2026-10-19');
+    expect(past.status).toBe('past-end-of-life');
+
+    const worn = equipmentLifecycle({ category: 'Cookware', condition: 'replace' }, '2026-10-19');
+    expect([worn.status, worn.ageYears, worn.warranty]).toEqual(['approaching-end-of-life', null, 'none']);
+  });
+
+  it('validates equipment updates', () => {
+    const update = updateKitchenEquipmentSchema.safeParse({ condition: 'fair', brand: ' ', warrantyExpiry: '', conditionNote: 'Handle is loose' });
+    expect(update.success && update.data).toEqual({ condition: 'fair', brand: null, warrantyExpiry: null, conditionNote: 'Handle is loose' });
+
+    expect(updateKitchenEquipmentSchema.safeParse({ conditionNote: 'nothing else' }).success).toBe(false);
+    expect(updateKitchenEquipmentSchema.safeParse({ condition: 'broken' }).success).toBe(false);
+    expect(updateKitchenEquipmentSchema.safeParse({ purchasePrice: -5 }).success).toBe(false);
+    expect(updateKitchenEquipmentSchema.safeParse({ userId: 2 }).success).toBe(false);
+  });
+
+  it('validates new equipment with the same field rules', () => {
+    const created = createKitchenEquipmentSchema.safeParse({ name: 'Stand Mixer', category: 'Appliances', condition: 'good', brand: '', lastMaintenanceDate: '', userId: 2 });
+    expect(created.success && created.data).toEqual({ name: 'Stand Mixer', category: 'Appliances', condition: 'good', brand: null, lastMaintenanceDate: null });
+
+    expect(createKitchenEquipmentSchema.safeParse({ name: 'Stand Mixer', category: 'Appliances' }).success).toBe(false);
+    expect(createKitchenEquipmentSchema.safeParse({ name: 'Kettle', category: 'Appliances', condition: 'good', warrantyExpiry: 'next year' }).success).toBe(false);
+    expect(createKitchenEquipmentSchema.safeParse({ name: 'Kettle', category: 'Appliances', condition: 'good', expectedLifespanYears: 0 }).success).toBe(false);
+  });
+});
@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildMaintenanceSchedule,
+  maintenanceIntervalDays,
+  type MaintenanceEquipment,
+} from '../../shared/equipment-maintenance';
+
+const item = (overrides: Partial<MaintenanceEquipment>): MaintenanceEquipment => ({
+  id: 1,
+  name: 'Stand Mixer',
+  category: 'Appliances',
+  condition: 'good',
+  lastMaintenanceDate: null,
+  purchaseDate: '2026-01-01',
+  maintenanceInterval: null,
+  createdAt: '2026-01-01T09:00:00.000Z',
+  ...overrides,
+});
+
+describe('Equipment maintenance schedule', () => {
+  it('picks an interval from the item, its history or its category, shortened by condition', () => {
+    expect(maintenanceIntervalDays(item({ maintenanceInterval: 45 }))).toBe(45);
+    expect(maintenanceIntervalDays(item({}), ['2026-01-01', '2026-01-21', '2026-02-10'])).toBe(20);
+    expect(maintenanceIntervalDays(item({ category: 'Cutlery' }))).toBe(30);
+    expect(maintenanceIntervalDays(item({ category: 'Cutlery', condition: 'fair' }))).toBe(15);
+    expect(maintenanceIntervalDays(item({ condition: 'needs-maintenance' }))).toBe(0);
+  });
+
+  it('splits equipment into overdue and upcoming tasks from the latest maintenance', () => {
+    const equipment = [
+      item({ id: 1, name: 'Stand Mixer', maintenanceInterval: 30 }),
+      item({ id: 2, name: "Chef's Knife", category: 'Cutlery', lastMaintenanceDate: '2026-09-20' }),
+      item({ id: 3, name: 'Dutch Oven', category: 'Cookware', purchaseDate: '2026-10-01' }),
+    ];
+    const history = [
+      { equipmentId: 1, performedAt: '2026-08-01' },
+      { equipmentId: 1, performedAt: '2026-09-01' },
+    ];
+
+    const schedule = buildMaintenanceSchedule(equipment, history, '2026-10-10', 30);
+    expect(schedule.overdue.map(task => [task.equipmentName, task.nextMaintenanceDate, task.daysUntilDue, task.priority])).toEqual([
+      ['Stand Mixer', '2026-10-01', -9, 'high'],
+    ]);
+    expect(schedule.overdue[0].lastMaintenanceDate).toBe('2026-09-01');
+    // The Dutch oven isn't due until late November, past the 30-day horizon
+    expect(schedule.upcoming.map(task => [task.equipmentName, task.nextMaintenanceDate, task.priority])).toEqual([
+      ["Chef's Knife", '2026-10-20', 'low'],
+    ]);
+    expect(schedule.upcoming[0].tasks).toContain('Sharpen the blade');
+  });
+
+  it('flags equipment that needs maintenance or replacing right away', () => {
+    const schedule = buildMaintenanceSchedule(
+      [item({ condition: 'needs-maintenance', lastMaintenanceDate: '2026-10-10' }), item({ id: 2, name: 'Toaster', condition: 'replace' })],
+      [],
+      '2026-10-10'
+    );
+    expect(schedule.upcoming.map(task => [task.equipmentName, task.daysUntilDue, task.priority])).toEqual([
+      ['Stand Mixer', 0, 'high'],
+    ]);
+    expect(schedule.overdue[0].tasks[0]).toBe('Replace or retire the Toaster');
+  });
+});
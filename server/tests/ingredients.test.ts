@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest';
+import {
+  parseRecipeIngredient,
+  toRecipeIngredients,
+  formatIngredientList,
+  ingredientLines,
+  scaleRecipeIngredients,
+} from '../../shared/ingredients';
+
+describe('Structured recipe ingredients', () => {
+  it('parses amounts, units, notes and optional marks from a line', () => {
+    expect(parseRecipeIngredient('1 1/2 cups of Plain Flour, sifted')).toEqual({
+      name: 'Plain Flour', quantity: 1.5, unit: 'cup', note: 'sifted', optional: false, section: null,
+    });
+    expect(parseRecipeIngredient('2-3 cloves garlic (optional)')).toMatchObject({ name: 'garlic', quantity: 3, unit: 'clove', optional: true });
+    expect(parseRecipeIngredient('a pinch of salt')).toMatchObject({ name: 'salt', quantity: 1, unit: 'pinch' });
+    expect(parseRecipeIngredient('3 eggs')).toMatchObject({ name: 'eggs', quantity: 3, unit: null });
+    expect(parseRecipeIngredient('Salt to taste')).toMatchObject({ name: 'Salt to taste', quantity: null, unit: null });
+    expect(parseRecipeIngredient('   ')).toBeNull();
+  });
+
+  it('groups lines under section headers and formats them back', () => {
+    const lines = ['500g chicken thighs', 'For the sauce:', '2 tbsp soy sauce', '1 tsp honey (optional)'];
+    const ingredients = toRecipeIngredients(lines);
+    expect(ingredients.map(ingredient => ingredient.section)).toEqual([null, 'For the sauce', 'For the sauce']);
+    expect(formatIngredientList(ingredients)).toEqual([
+      '500 g chicken thighs', 'For the sauce:', '2 tbsp soy sauce', '1 tsp honey (optional)',
+    ]);
+    expect(toRecipeIngredients(formatIngredientList(ingredients))).toEqual(ingredients);
+    expect(ingredientLines(ingredients)).not.toContain('For the sauce:');
+  });
+
+  it('reads legacy cultural recipe objects and keeps structured entries', () => {
+    expect(toRecipeIngredients({ rice: '2 cups', saffron: 'a pinch' })).toEqual([
+      { name: 'rice', quantity: 2, unit: 'cup', note: null, optional: false, section: null },
+      { name: 'saffron', quantity: null, unit: null, note: 'a pinch', optional: false, section: null },
+    ]);
+    expect(toRecipeIngredients({ 0: '1 onion, diced' })).toMatchObject([{ name: 'onion', note: 'diced' }]);
+    const structured = [{ name: 'lime', quantity: 1, unit: null, note: null, optional: true, section: null }];
+    expect(toRecipeIngredients(structured)).toEqual(structured);
+    expect(toRecipeIngredients(null)).toEqual([]);
+  });
+
+  it('scales quantities and moves to larger units', () => {
+    const scaled = scaleRecipeIngredients(toRecipeIngredients(['2 tsp cumin', '2 cloves garlic', 'salt']), 2, 6);
+    expect(ingredientLines(scaled)).toEqual(['2 tbsp cumin', '6 cloves garlic', 'salt']);
+  });
+});
@@ -0,0 +1,26 @@
+import { describe, it, expect } from 'vitest';
+import { getItemType } from '../../ai-services/kitchen-organization-ai';
+
+describe('Rule-based item classifier', () => {
+  it('classifies items by their keywords, plurals included', () => {
+    expect(getItemType('Eggs')).toBe('dairy');
+    expect(getItemType('Olive oil')).toBe('condiment');
+    expect(getItemType('Sparkling water')).toBe('beverage');
+    expect(getItemType('Canned beans')).toBe('dry-goods');
+    expect(getItemType('Rolled oats')).toBe('dry-goods');
+    expect(getItemType('Ice cream')).toBe('frozen');
+    expect(getItemType('Cherry tomatoes')).toBe('produce');
+  });
+
+  it('matches keywords as whole words, not inside longer ones', () => {
+    expect(getItemType('Eggplant')).toBe('other');
+    expect(getItemType('Pecans')).toBe('other');
+    expect(getItemType('Aluminium foil')).toBe('other');
+    expect(getItemType('Watermelon')).toBe('other');
+  });
+
+  it('prefers a known category over the name', () => {
+    expect(getItemType('Mystery tub', 'Dairy')).toBe('dairy');
+    expect(getItemType('Eggs', 'unsorted')).toBe('dairy');
+  });
+});
@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'vitest';
+import { buildMealBudgets, maxServingsWithin, mealTypeForHour, mealSplitSchema, getMealSplit, DEFAULT_MEAL_SPLIT } from '../../shared/meal-budgets';
+
+describe('Meal budgets', () => {
+  const goal = { dailyCalories: 2000, dailyProtein: 150, dailyCarbs: 200, dailyFat: 70, mealSplit: DEFAULT_MEAL_SPLIT };
+  const lunch = { calories: 900, protein: 40, carbs: 100, fat: 30 };
+
+  it('splits the daily targets by each meal\'s share', () => {
+    const { meals, day } = buildMealBudgets(goal, {}, { calories: 0, protein: 0, carbs: 0, fat: 0 });
+    expect(meals.map(meal => meal.mealType)).toEqual(['breakfast', 'lunch', 'dinner', 'snack']);
+    expect(meals[0].budget).toEqual({ calories: 500, protein: 38, carbs: 50, fat: 18 });
+    expect(meals[0].remaining).toEqual(meals[0].budget);
+    expect(day.remaining).toEqual({ calories: 2000, protein: 150, carbs: 200, fat: 70 });
+  });
+
+  it('caps what is left of a meal by what is left of the day', () => {
+    const { meals, day } = buildMealBudgets(goal, { lunch }, lunch);
+    expect(meals[1].remaining.calories).toBe(0);
+    expect(meals[2].remaining.calories).toBe(600);
+
+    // Food logged without a meal type still uses up the day
+    const busy = buildMealBudgets(goal, { lunch }, { calories: 1700, protein: 80, carbs: 180, fat: 60 });
+    expect(busy.meals[2].remaining).toEqual({ calories: 300, protein: 45, carbs: 20, fat: 10 });
+    expect(day.eaten).toEqual(lunch);
+  });
+
+  it('counts half servings that fit, ignoring protein', () => {
+    const remaining = { calories: 600, protein: 10, carbs: 100, fat: 30 };
+    expect(maxServingsWithin({ calories: 250, protein: 50, carbs: 20, fat: 5 }, remaining)).toBe(2);
+    expect(maxServingsWithin({ calories: 300, protein: 0, carbs: 0, fat: 0 }, remaining)).toBe(2);
+    expect(maxServingsWithin({ calories: 400, protein: 0, carbs: 0, fat: 0 }, remaining)).toBe(1.5);
+    expect(maxServingsWithin({ calories: 0, protein: 0, carbs: 0, fat: 0 }, remaining)).toBe(10);
+    expect(maxServingsWithin({ calories: 250, protein: 5, carbs: 20, fat: 5 }, { ...remaining, calories: 0 })).toBe(0);
+  });
+
+  it('requires shares that add up to 100 and falls back to the default split', () => {
+    expect(mealSplitSchema.safeParse({ breakfast: 20, lunch: 40, dinner: 30, snack: 10 }).success).toBe(true);
+    expect(mealSplitSchema.safeParse({ breakfast: 25, lunch: 25, dinner: 25, snack: 20 }).success).toBe(false);
+    expect(getMealSplit(null)).toEqual(DEFAULT_MEAL_SPLIT);
+  });
+
+  it('guesses the next meal from the hour', () => {
+    expect([7, 12, 19, 22].map(mealTypeForHour)).toEqual(['breakfast', 'lunch', 'dinner', 'snack']);
+  });
+});
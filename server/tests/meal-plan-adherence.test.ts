@@ -0,0 +1,39 @@
+import { describe, it, expect } from 'vitest';
+import type { MealPlanLog } from '../../shared/schema';
+import { listPlanDays, type MealPlanDay } from '../../shared/meal-plans';
+import { summarizeAdherence } from '../meal-plan-adherence';
+
+const slot = (title: string) => ({ title, description: title, servings: 1 });
+const template: MealPlanDay[] = [1, 2].map(day => ({
+  day,
+  meals: { breakfast: slot('Oats'), lunch: slot('Soup'), dinner: slot('Curry'), snacks: [slot('Apple')] },
+}));
+const plan = { startDate: '2024-05-01', endDate: '2024-05-03', meals: [...template, { ...template[0], day: 3 }] };
+
+function log(id: number, date: string, mealType: MealPlanLog['mealType'], status: MealPlanLog['status'], snackIndex = 0): MealPlanLog {
+  return { id, userId: 1, mealPlanId: 1, date, mealType, snackIndex, status, consumptionId: null, nutrition: null, loggedAt: new Date() };
+}
+
+describe('Meal plan adherence', () => {
+  it('counts logged, missed and upcoming meals per day and for the plan', () => {
+    const logs = [
+      log(1, '2024-05-01', 'breakfast', 'eaten'),
+      log(2, '2024-05-01', 'lunch', 'eaten'),
+      log(3, '2024-05-01', 'dinner', 'swapped'),
+      log(4, '2024-05-01', 'snack', 'skipped'),
+      log(5, '2024-05-02', 'breakfast', 'eaten'),
+    ];
+
+    const summary = summarizeAdherence(listPlanDays(plan), logs, '2024-05-02');
+    const [first, second, third] = summary.days;
+
+    expect(first).toMatchObject({ eaten: 2, swapped: 1, skipped: 1, missed: 0, adherence: 50 });
+    // Today's unlogged meals are still pending, not missed
+    expect(second).toMatchObject({ eaten: 1, pending: 3, adherence: 100 });
+    expect(second.slots.find(entry => entry.mealType === 'breakfast')).toMatchObject({ status: 'eaten', logId: 5 });
+    expect(third).toMatchObject({ pending: 4, adherence: null });
+    expect(summary).toMatchObject({ eaten: 3, swapped: 1, skipped: 1, missed: 0, pending: 7, adherence: 60 });
+
+    expect(summarizeAdherence(listPlanDays(plan), [], '2024-05-04').adherence).toBe(0);
+  });
+});
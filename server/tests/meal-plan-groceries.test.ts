@@ -0,0 +1,88 @@
+import { describe, it, expect } from 'vitest';
+import type { PantryItem } from '../../shared/schema';
+import { toRecipeIngredients } from '../../shared/ingredients';
+import { collectMealPlanIngredients, buildGroceryItems } from '../meal-plan-groceries';
+
+function pantryItem(id: number, name: string, quantity: string, category: string | null = null): PantryItem {
+  return {
+    id,
+    userId: 1,
+    name,
+    quantity,
+    quantityAmount: null,
+    quantityUnit: null,
+    unitFamily: null,
+    expiryDate: null,
+    category,
+    nutritionInfo: { calories: 0, protein: 0, carbs: 0, fat: 0 },
+    sustainabilityInfo: { score: 50, packaging: 'recyclable', carbonFootprint: 'low' },
+  };
+}
+
+const meals = [
+  {
+    day: 1,
+    meals: {
+      breakfast: { title: 'Porridge', ingredients: ['1 cup rolled oats', '250 ml milk'] },
+      lunch: { title: 'Omelette', ingredients: ['3 eggs', '50 g cheddar cheese', 'salt to taste'] },
+      dinner: { title: 'Leftovers' },
+      snacks: [{ title: 'Apple', ingredients: ['1 apple'] }],
+    },
+  },
+  {
+    day: 2,
+    meals: {
+      breakfast: { title: 'Porridge', ingredients: ['1 cup rolled oats', '250 ml milk'] },
+      lunch: { title: 'Egg salad', ingredients: ['2 eggs', '1 apple'] },
+      dinner: { title: 'Pasta', ingredients: ['200 g pasta', '1 cup milk'] },
+      snacks: [],
+    },
+  },
+];
+
+describe('Meal plan grocery list', () => {
+  it('collects ingredients from every day and slot', () => {
+    const { ingredients, slotsWithoutIngredients } = collectMealPlanIngredients(meals);
+
+    expect(ingredients).toHaveLength(12);
+    expect(slotsWithoutIngredients).toEqual(['Day 1 dinner: Leftovers']);
+    expect(collectMealPlanIngredients(null)).toEqual({ ingredients: [], slotsWithoutIngredients: [] });
+  });
+
+  it('totals ingredients, subtracts the pantry and groups by category', () => {
+    const { ingredients } = collectMealPlanIngredients(meals);
+    const items = buildGroceryItems(ingredients, [
+      pantryItem(1, 'Eggs', '2'),
+      pantryItem(2, 'Milk', '1 l'),
+      pantryItem(3, 'Salt', '1 kg', 'condiment'),
+    ]);
+
+    expect(items.map(item => [item.category, item.name, item.quantity])).toEqual([
+      ['Dairy', 'cheddar cheese', '50 g'],
+      ['Dairy', 'eggs', '3 each'],
+      ['Dry Goods', 'pasta', '200 g'],
+      ['Dry Goods', 'rolled oats', '2 cups'],
+      ['Produce', 'apple', '2 each'],
+    ]);
+    expect(items.every(item => !item.completed && item.id)).toBe(true);
+  });
+
+  it('counts each pantry item once across every ingredient it matches', () => {
+    const items = buildGroceryItems(toRecipeIngredients(['400 g flour', '300 g plain flour', '2 cloves garlic, minced', '1 can chopped tomatoes']), [
+      pantryItem(1, 'Flour', '500 g'),
+      pantryItem(2, 'Garlic', '10 cloves'),
+      pantryItem(3, 'Chopped tomatoes', '3 cans'),
+    ]);
+
+    expect(items.map(item => [item.name, item.quantity])).toEqual([['plain flour', '200 g']]);
+  });
+
+  it('keeps items ticked when the list is regenerated', () => {
+    const items = buildGroceryItems(toRecipeIngredients(['200 g pasta', '1 apple']), [], [
+      { id: 'old', name: 'Pasta', quantity: '100 g', completed: true },
+    ]);
+
+    expect(items.find(item => item.name === 'pasta')?.completed).toBe(true);
+    expect(items.find(item => item.name === 'apple')?.completed).toBe(false);
+  });
+});
@@ -0,0 +1,122 @@
+import { describe, it, expect } from 'vitest';
+import type { Recipe } from '../../shared/schema';
+import { getDayNutrition, type MealPlanDay } from '../../shared/meal-plans';
+import { formatRecipeIngredient, scaleIngredientLine, scaleIngredients } from '../../shared/ingredients';
+import { linkMealPlanToRecipes, hydrateMealPlan, setMealPlanSlot, slotFromRecipe, type NewRecipe } from '../meal-plan-recipes';
+import { collectMealPlanIngredients } from '../meal-plan-groceries';
+
+function recipe(id: number, title: string, calories: number, ingredients: string[] = []): Recipe {
+  return {
+    id,
+    title,
+    description: `${title} from the library`,
+    ingredients,
+    instructions: [],
+    nutritionInfo: { calories, protein: 10, carbs: 20, fat: 5 },
+    servings: 1,
+    yieldDescription: null,
+    imageUrl: null,
+    prepTime: 20,
+    createdBy: 1,
+    forkedFrom: null,
+    sustainabilityScore: null,
+    wastageReduction: null,
+    createdAt: new Date('2024-01-01'),
+  };
+}
+
+function slot(title: string, nutritionalInfo: string, ingredients: string[] = []) {
+  return { title, description: title, servings: 1, nutritionalInfo, preparationTime: '1 hour 10 minutes', ingredients };
+}
+
+const plan: MealPlanDay[] = [
+  {
+    day: 1,
+    meals: {
+      breakfast: slot('Porridge', '300 kcal, 10g protein, 50g carbs, 6g fat'),
+      lunch: slot('Lentil Soup', '450 kcal, 25g protein, 60g carbs, 8g fat', ['200 g lentils']),
+      dinner: slot('lentil soup', '450 kcal, 25g protein, 60g carbs, 8g fat'),
+      snacks: [slot('Apple', '95 kcal, 0g protein, 25g carbs, 0g fat', ['1 apple'])],
+    },
+  },
+];
+
+describe('Meal plan recipe links', () => {
+  it('matches the library by title and creates each new dish once', async () => {
+    const created: NewRecipe[] = [];
+    const linked = await linkMealPlanToRecipes(plan, 1, [recipe(7, 'Porridge', 320)], async data => {
+      created.push(data);
+      return recipe(100 + created.length, data.title, (data.nutritionInfo as any).calories, data.ingredients as string[]);
+    });
+
+    const meals = linked[0].meals;
+    expect(meals.breakfast.recipeId).toBe(7);
+    expect(meals.breakfast.nutrition?.calories).toBe(320);
+    expect(meals.lunch.recipeId).toBe(101);
+    expect(meals.dinner.recipeId).toBe(101);
+    expect(meals.snacks?.[0].recipeId).toBe(102);
+    expect(created.map(data => [data.title, data.prepTime, data.ingredients])).toEqual([
+      ['Lentil Soup', 70, ['200 g lentils']],
+      ['Apple', 70, ['1 apple']],
+    ]);
+    expect(linked[0].totalCalories).toBe(320 + 450 + 450 + 95);
+  });
+
+  it('refreshes slots from the current recipe and scales by servings', () => {
+    const days: MealPlanDay[] = [{
+      day: 1,
+      meals: {
+        breakfast: { ...slotFromRecipe(recipe(7, 'Porridge', 300), 2) },
+        lunch: slot('Sandwich', '400 kcal, 20g protein, 40g carbs, 15g fat'),
+        dinner: { ...slotFromRecipe(recipe(8, 'Stew', 500), 1) },
+      },
+    }];
+
+    const hydrated = hydrateMealPlan(days, new Map([[7, recipe(7, 'Oat Porridge', 250)]]), new Map());
+    const { breakfast, dinner } = hydrated[0].meals;
+
+    expect(breakfast.title).toBe('Oat Porridge');
+    expect(breakfast.nutrition).toEqual({ calories: 500, protein: 20, carbs: 40, fat: 10 });
+    expect(breakfast.nutritionalInfo).toBe('500 kcal, 20g protein, 40g carbs, 10g fat');
+    // Recipe 8 is gone, so the slot keeps its last copy
+    expect(dinner.title).toBe('Stew');
+    expect(getDayNutrition(hydrated[0]).calories).toBe(1400);
+  });
+
+  it('replaces or appends a single slot', () => {
+    const replacement = slotFromRecipe(recipe(9, 'Pear', 60), 1);
+
+    const updated = setMealPlanSlot(plan, { day: 1, type: 'snack', index: 1 }, replacement);
+    expect(updated?.[0].meals.snacks?.map(snack => snack.title)).toEqual(['Apple', 'Pear']);
+    expect(setMealPlanSlot(plan, { day: 3, type: 'lunch' }, replacement)).toBeNull();
+    expect(setMealPlanSlot(plan, { day: 1, type: 'snack', index: 5 }, replacement)).toBeNull();
+  });
+
+  it('takes grocery ingredients from linked recipes', () => {
+    const days = [{
+      day: 1,
+      meals: {
+        breakfast: { ...slotFromRecipe(recipe(7, 'Porridge', 300, ['1 cup rolled oats', 'salt to taste']), 3) },
+      },
+    }];
+
+    const { ingredients } = collectMealPlanIngredients(days, new Map([[7, recipe(7, 'Porridge', 300, ['1 cup rolled oats', 'salt to taste'])]]));
+    expect(ingredients.map(formatRecipeIngredient)).toEqual(['3 cups rolled oats', 'salt to taste']);
+
+    // Ingredients are for the recipe's whole yield, so a 4-serving recipe is quartered per serving
+    const stew = { ...recipe(8, 'Stew', 400, ['2 lb beef', '4 carrots']), servings: 4 };
+    const stewDays = [{ day: 1, meals: { dinner: { ...slotFromRecipe(stew, 2) } } }];
+    expect(collectMealPlanIngredients(stewDays, new Map([[8, stew]])).ingredients.map(formatRecipeIngredient)).toEqual(['1 lb beef', '2 carrots']);
+  });
+
+  it('scales ingredient lines with units a cook would use', () => {
+    expect(scaleIngredientLine('1 1/2 cups flour, sifted', 2)).toBe('3 cups flour, sifted');
+    expect(scaleIngredientLine('2 tbsp olive oil', 2)).toBe('1/4 cup olive oil');
+    expect(scaleIngredientLine('1 cup milk', 1 / 16)).toBe('1 tbsp milk');
+    expect(scaleIngredientLine('500g chicken breast', 3)).toBe('1.5 kg chicken breast');
+    expect(scaleIngredientLine('3 eggs', 0.5)).toBe('1 1/2 eggs');
+    expect(scaleIngredientLine('2 cans chopped tomatoes', 1.5)).toBe('3 cans chopped tomatoes');
+    expect(scaleIngredientLine('salt to taste', 3)).toBe('salt to taste');
+    expect(scaleIngredients(['1 cup rice', '2 cups water'], 4, 2)).toEqual(['1/2 cup rice', '1 cup water']);
+  });
+});
@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest';
+import { resolvePlanDay, listPlanDays, getPlanLength, type MealPlanDay } from '../../shared/meal-plans';
+import { insertMealPlanSchema } from '../../shared/schema';
+
+function day(number: number, dinner: string): MealPlanDay {
+  const slot = (title: string) => ({ title, description: title, servings: 1, nutritionalInfo: '500 kcal' });
+  return { day: number, meals: { breakfast: slot('Toast'), lunch: slot('Salad'), dinner: slot(dinner) } };
+}
+
+const template = Array.from({ length: 7 }, (_, index) => day(index + 1, `Dinner ${index + 1}`));
+
+describe('Meal plan schedule', () => {
+  it('repeats a weekly rotation across a month', () => {
+    const plan = { startDate: '2024-03-01', endDate: '2024-03-31', meals: template, rotationDays: 7, overrides: {} };
+
+    expect(getPlanLength(plan)).toBe(31);
+    expect(resolvePlanDay(plan, '2024-03-01')?.day.meals.dinner.title).toBe('Dinner 1');
+    expect(resolvePlanDay(plan, '2024-03-08')?.templateDay).toBe(1);
+    expect(resolvePlanDay(plan, '2024-03-31')).toMatchObject({ dayNumber: 31, templateDay: 3 });
+    expect(resolvePlanDay(plan, '2024-04-01')).toBeNull();
+    expect(listPlanDays(plan)).toHaveLength(31);
+  });
+
+  it('overrides a single date without moving the rotation', () => {
+    const overrides = { '2024-03-09': day(2, 'Birthday dinner').meals };
+    const plan = { startDate: new Date('2024-03-01T00:00:00Z'), endDate: '2024-03-21', meals: template, rotationDays: 7, overrides };
+
+    const overridden = resolvePlanDay(plan, '2024-03-09');
+    expect(overridden).toMatchObject({ overridden: true, templateDay: 2 });
+    expect(overridden?.day.meals.dinner.title).toBe('Birthday dinner');
+    expect(overridden?.day.totalCalories).toBe(1500);
+    expect(resolvePlanDay(plan, '2024-03-10')?.day.meals.dinner.title).toBe('Dinner 3');
+    expect(listPlanDays(plan).filter(scheduled => scheduled.overridden).map(scheduled => scheduled.date)).toEqual(['2024-03-09']);
+  });
+
+  it('runs plain plans day by day and accepts more than seven days', () => {
+    const meals = Array.from({ length: 10 }, (_, index) => day(index + 1, `Dinner ${index + 1}`));
+    const plan = { startDate: '2024-03-01', endDate: '2024-03-10', meals, rotationDays: null };
+
+    expect(resolvePlanDay(plan, '2024-03-10')?.day.meals.dinner.title).toBe('Dinner 10');
+    expect(insertMealPlanSchema.safeParse({
+      userId: 1,
+      title: 'Ten days',
+      startDate: new Date('2024-03-01'),
+      endDate: new Date('2024-03-10'),
+      meals,
+    }).success).toBe(true);
+    expect(insertMealPlanSchema.safeParse({
+      userId: 1,
+      title: 'Backwards',
+      startDate: new Date('2024-03-10'),
+      endDate: new Date('2024-03-01'),
+      meals,
+    }).success).toBe(false);
+  });
+});
@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest';
+import {
+  cleanMicronutrients,
+  addMicronutrients,
+  getMicronutrientTargets,
+  getMicronutrientStatus,
+  formatMicronutrient,
+} from '../../shared/nutrients';
+import { scaleNutrition, getDayNutrition } from '../../shared/meal-plans';
+import { buildDailyProgress } from '../nutrition-log';
+import { insertRecipeSchema } from '../../shared/schema';
+
+describe('Micronutrients', () => {
+  it('keeps only known, valid nutrients so missing ones stay unknown', () => {
+    expect(cleanMicronutrients({ fiber: '4.5', sodium: 300, sugar: '', iron: -1, caffeine: 80 })).toEqual({ fiber: 4.5, sodium: 300 });
+    expect(addMicronutrients({ fiber: 4 }, { fiber: 2, sodium: 100 })).toEqual({ fiber: 6, sodium: 100 });
+  });
+
+  it('scales and sums micronutrients with the macros', () => {
+    const slot = (fiber: number) => ({
+      title: 'Meal',
+      description: 'Meal',
+      servings: 1,
+      nutrition: { calories: 400, protein: 20, carbs: 40, fat: 10, micronutrients: { fiber, sodium: 500 } },
+    });
+
+    expect(scaleNutrition(slot(5).nutrition, 2).micronutrients).toEqual({ fiber: 10, sodium: 1000 });
+    expect(getDayNutrition({ day: 1, meals: { breakfast: slot(3), lunch: slot(4), dinner: slot(5) } }))
+      .toEqual({ calories: 1200, protein: 60, carbs: 120, fat: 30, micronutrients: { fiber: 12, sodium: 1500 } });
+  });
+
+  it('flags limits such as sodium when they are exceeded', () => {
+    const targets = getMicronutrientTargets({ sodium: 1500 });
+
+    expect(targets.sodium).toBe(1500);
+    expect(targets.fiber).toBe(28);
+    expect(getMicronutrientStatus('sodium', 1600, targets.sodium)).toBe('over');
+    expect(getMicronutrientStatus('sodium', 1200, targets.sodium)).toBe('within');
+    expect(getMicronutrientStatus('fiber', 30, targets.fiber)).toBe('met');
+    expect(getMicronutrientStatus('fiber', 12, targets.fiber)).toBe('below');
+    expect(formatMicronutrient('vitaminD', 2.25)).toBe('2.3 mcg');
+  });
+
+  it('rounds daily micronutrient totals and accepts them on recipes', () => {
+    const [day] = buildDailyProgress(
+      [{ date: '2024-05-01', calories: 500, protein: 20, carbs: 60, fat: 15, micronutrients: { sodium: 812.46 } }],
+      '2024-05-01',
+      '2024-05-01'
+    );
+    expect(day.micronutrients).toEqual({ sodium: 812.5 });
+
+    const recipe = {
+      title: 'Lentil soup',
+      description: 'Soup',
+      ingredients: ['1 cup lentils'],
+      instructions: ['Simmer'],
+      nutritionInfo: { calories: 300, protein: 18, carbs: 40, fat: 4, micronutrients: { fiber: 15, sodium: 480 } },
+      prepTime: 30,
+    };
+    expect(insertRecipeSchema.safeParse(recipe).success).toBe(true);
+    expect(insertRecipeSchema.safeParse({ ...recipe, nutritionInfo: { ...recipe.nutritionInfo, micronutrients: { sodium: -5 } } }).success).toBe(false);
+  });
+});
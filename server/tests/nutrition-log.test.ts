@@ -0,0 +1,40 @@
+import { describe, it, expect } from 'vitest';
+import { buildDailyProgress } from '../nutrition-log';
+import { insertNutritionLogEntrySchema, logDatabaseFoodSchema, logPantryFoodSchema } from '../../shared/schema';
+
+describe('Nutrition log', () => {
+  it('builds one progress day per date, with zeros for days nothing was logged', () => {
+    const totals = [
+      { date: '2024-05-01', calories: 2100.04, protein: 90, carbs: 200, fat: 70 },
+      { date: '2024-05-03', calories: 950, protein: 40.26, carbs: 100, fat: 30 },
+    ];
+
+    const progress = buildDailyProgress(totals, '2024-04-30', '2024-05-03', { dailyCalories: 2000 });
+
+    expect(progress.map(day => day.date)).toEqual(['2024-04-30', '2024-05-01', '2024-05-02', '2024-05-03']);
+    expect(progress[0]).toEqual({ date: '2024-04-30', calories: 0, protein: 0, carbs: 0, fat: 0, micronutrients: {}, completed: false });
+    expect(progress[1]).toMatchObject({ calories: 2100, completed: true });
+    expect(progress[3]).toMatchObject({ protein: 40.3, completed: false });
+    expect(buildDailyProgress(totals, '2024-05-01', '2024-05-01')[0].completed).toBe(false);
+  });
+
+  it('validates manual entries', () => {
+    const entry = { date: '2024-05-01', mealType: 'breakfast', description: 'Coffee with milk', calories: 40, protein: 2, carbs: 4, fat: 2 };
+
+    expect(insertNutritionLogEntrySchema.safeParse(entry).success).toBe(true);
+    expect(insertNutritionLogEntrySchema.safeParse({ ...entry, date: '05/01/2024' }).success).toBe(false);
+    expect(insertNutritionLogEntrySchema.safeParse({ ...entry, calories: -10 }).success).toBe(false);
+    expect(insertNutritionLogEntrySchema.safeParse({ ...entry, mealType: 'brunch' }).success).toBe(false);
+    expect(insertNutritionLogEntrySchema.safeParse({ ...entry, mealType: undefined }).success).toBe(false);
+  });
+
+  it('validates database food and pantry entries', () => {
+    const food = { date: '2024-05-01', mealType: 'snack', food: 'banana', amount: '1' };
+    expect(logDatabaseFoodSchema.safeParse(food).success).toBe(true);
+    expect(logDatabaseFoodSchema.safeParse({ ...food, amount: '' }).success).toBe(false);
+
+    const pantry = logPantryFoodSchema.safeParse({ date: '2024-05-01', mealType: 'lunch', pantryItemId: 3 });
+    expect(pantry.success && pantry.data.servings).toBe(1);
+    expect(logPantryFoodSchema.safeParse({ date: '2024-05-01', mealType: 'lunch', pantryItemId: 3, servings: 0 }).success).toBe(false);
+  });
+});
@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest';
+import { buildNutritionReport, reportToCsv } from '../nutrition-report';
+import { renderReportPdf } from '../report-pdf';
+import type { NutritionLogEntry } from '../../shared/schema';
+
+function entry(date: string, calories: number, overrides: Partial<NutritionLogEntry> = {}): NutritionLogEntry {
+  return {
+    id: 1, userId: 1, date, source: 'manual', consumptionId: null, mealPlanLogId: null, pantryItemId: null,
+    mealType: 'lunch', description: 'Lunch', quantity: null, calories, protein: 100, carbs: 200, fat: 60,
+    micronutrients: {}, createdAt: new Date(), ...overrides,
+  };
+}
+
+describe('Nutrition report', () => {
+  const goal = { dailyCalories: 2000, dailyProtein: 100, dailyCarbs: 250, dailyFat: 60 };
+  // 2024-05-05 is a Sunday, so the range splits into two weeks
+  const entries = [
+    entry('2024-05-04', 1200, { source: 'recipe', description: 'Oat bowl', mealType: 'breakfast' }),
+    entry('2024-05-04', 800),
+    entry('2024-05-05', 1950, { source: 'recipe', description: 'Oat bowl', mealType: 'breakfast' }),
+    entry('2024-05-06', 2600, { source: 'recipe', description: 'Chili', mealType: 'dinner' }),
+    entry('2024-05-08', 2050),
+  ];
+  const totals = ['2024-05-04', '2024-05-05', '2024-05-06', '2024-05-08'].map(date => {
+    const day = entries.filter(item => item.date === date);
+    return {
+      date,
+      calories: day.reduce((sum, item) => sum + item.calories, 0),
+      protein: day.reduce((sum, item) => sum + item.protein, 0),
+      carbs: day.reduce((sum, item) => sum + item.carbs, 0),
+      fat: day.reduce((sum, item) => sum + item.fat, 0),
+    };
+  });
+  const report = buildNutritionReport(totals, entries, '2024-05-04', '2024-05-09', goal);
+
+  it('aggregates days and Monday-based weeks and scores adherence', () => {
+    expect(report.totalDays).toBe(6);
+    expect(report.loggedDays).toBe(4);
+    expect(report.averages.calories).toBe(2150);
+    expect(report.adherence?.calories).toBe(75);
+    expect(report.weeks.map(week => [week.weekStart, week.weekEnd, week.loggedDays])).toEqual([
+      ['2024-05-04', '2024-05-05', 2],
+      ['2024-05-06', '2024-05-09', 2],
+    ]);
+    expect(report.weeks[1].caloriesAdherence).toBe(50);
+  });
+
+  it('tracks streaks, meal types and top recipes', () => {
+    expect(report.streaks.logging).toEqual({ current: 1, longest: 3 });
+    expect(report.streaks.onTarget).toEqual({ current: 1, longest: 2 });
+    expect(report.mealTypes[0]).toMatchObject({ mealType: 'breakfast', entries: 2, calories: 3150 });
+    expect(report.topRecipes[0]).toEqual({ title: 'Oat bowl', times: 2, calories: 3150 });
+    expect(report.macroRatios.target).toEqual({ protein: 21, carbs: 52, fat: 28 });
+  });
+
+  it('exports CSV and PDF', () => {
+    const csv = reportToCsv(report);
+    expect(csv).toContain('2024-05-06,2600,100,200,60,yes,no');
+
+    const pdf = renderReportPdf(report).toString('latin1');
+    expect(pdf.startsWith('%PDF-1.4')).toBe(true);
+    expect(pdf).toContain('(Nutrition Report) Tj');
+    expect(pdf.trimEnd().endsWith('%%EOF')).toBe(true);
+  });
+});
@@ -0,0 +1,106 @@
+import { describe, it, expect } from 'vitest';
+import type { PantryItem } from '../../shared/schema';
+import { parseIngredientLine, toRecipeIngredients } from '../../shared/ingredients';
+import { planPantryDeduction, restoreQuantity } from '../pantry-deduction';
+
+function pantryItem(id: number, name: string, quantity: string, expiryDate: Date | null = null): PantryItem {
+  return {
+    id,
+    userId: 1,
+    name,
+    quantity,
+    quantityAmount: null,
+    quantityUnit: null,
+    unitFamily: null,
+    expiryDate,
+    category: 'Pantry',
+    nutritionInfo: { calories: 0, protein: 0, carbs: 0, fat: 0 },
+    sustainabilityInfo: { score: 50, packaging: 'recyclable', carbonFootprint: 'low' },
+  };
+}
+
+describe('Ingredient lines', () => {
+  it('separates amount, unit and name', () => {
+    const flour = parseIngredientLine('2 cups of Plain Flour, sifted');
+    expect(flour.name).toBe('plain flour');
+    expect(flour.quantity).toEqual({ amount: 2, unit: 'cup', family: 'volume' });
+
+    const eggs = parseIngredientLine('3 large eggs');
+    expect(eggs.name).toBe('large eggs');
+    expect(eggs.quantity).toEqual({ amount: 3, unit: 'each', family: 'count' });
+
+    expect(parseIngredientLine('Salt to taste').quantity).toBeNull();
+  });
+
+  it('reads kitchen count units such as cloves and cans', () => {
+    const garlic = parseIngredientLine('2 cloves garlic, minced');
+    expect(garlic.name).toBe('garlic');
+    expect(garlic.quantity).toEqual({ amount: 2, unit: 'clove', family: 'count' });
+
+    const tomatoes = parseIngredientLine('1 can chopped tomatoes');
+    expect(tomatoes.name).toBe('chopped tomatoes');
+    expect(tomatoes.quantity).toEqual({ amount: 1, unit: 'can', family: 'count' });
+  });
+});
+
+describe('Pantry deduction', () => {
+  it('deducts scaled amounts converted into the pantry unit', () => {
+    const plan = planPantryDeduction(toRecipeIngredients(['250 g flour', '2 eggs']), [
+      pantryItem(1, 'Flour', '1 kg'),
+      pantryItem(2, 'Eggs', '12'),
+    ], 2);
+
+    expect(plan.missing).toEqual([]);
+    expect(plan.deductions).toEqual([
+      expect.objectContaining({ pantryItemId: 1, amount: 0.5, unit: 'kg', remainingQuantity: '0.5 kg', removed: false }),
+      expect.objectContaining({ pantryItemId: 2, amount: 4, unit: 'each', remainingQuantity: '8 each', removed: false }),
+    ]);
+  });
+
+  it('deducts cloves and cans from pantry items counted in them', () => {
+    const plan = planPantryDeduction(toRecipeIngredients(['2 cloves garlic, minced', '1 can chopped tomatoes']), [
+      pantryItem(1, 'Garlic', '10 cloves'),
+      pantryItem(2, 'Chopped tomatoes', '3 cans'),
+    ], 1);
+
+    expect(plan.missing).toEqual([]);
+    expect(plan.deductions).toEqual([
+      expect.objectContaining({ pantryItemId: 1, amount: 2, unit: 'clove', remainingQuantity: '8 cloves' }),
+      expect.objectContaining({ pantryItemId: 2, amount: 1, unit: 'can', remainingQuantity: '2 cans' }),
+    ]);
+  });
+
+  it('uses the soonest-expiring entry first and removes items that run out', () => {
+    const plan = planPantryDeduction(toRecipeIngredients(['3 cups milk']), [
+      pantryItem(1, 'Milk', '1 l', new Date('2025-03-10')),
+      pantryItem(2, 'Milk', '2 cups', new Date('2025-03-02')),
+    ], 1);
+
+    expect(plan.deductions[0]).toEqual(expect.objectContaining({ pantryItemId: 2, amount: 2, removed: true }));
+    expect(plan.deductions[0].removedItem?.name).toBe('Milk');
+    expect(plan.deductions[1].pantryItemId).toBe(1);
+    expect(plan.deductions[1].amount).toBeCloseTo(0.237, 3);
+  });
+
+  it('reports missing, short and unconvertible ingredients', () => {
+    const plan = planPantryDeduction(toRecipeIngredients(['1 cup sugar', '500 g rice', '2 cups spinach']), [
+      pantryItem(1, 'Rice', '200 g'),
+      pantryItem(2, 'Spinach', '1 bag'),
+    ], 1);
+
+    expect(plan.missing).toEqual([
+      { ingredient: '1 cup sugar', reason: 'not-in-pantry' },
+      { ingredient: '500 g rice', reason: 'insufficient', shortBy: '300 g' },
+      { ingredient: '2 cups spinach', reason: 'unit-mismatch' },
+    ]);
+    expect(plan.deductions).toEqual([expect.objectContaining({ pantryItemId: 1, removed: true })]);
+  });
+
+  it('adds a deduction back onto the current quantity', () => {
+    const [deduction] = planPantryDeduction(toRecipeIngredients(['250 g flour']), [pantryItem(1, 'Flour', '1 kg')], 1).deductions;
+
+    expect(restoreQuantity('0.75 kg', deduction)).toBe('1 kg');
+    expect(restoreQuantity('750 g', deduction)).toBe('1000 g');
+    expect(restoreQuantity('3 cups', deduction)).toBeNull();
+  });
+});
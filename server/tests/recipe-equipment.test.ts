@@ -0,0 +1,103 @@
+import { describe, it, expect } from 'vitest';
+import {
+  matchRecipesToEquipment,
+  mergeRecommendations,
+  ownedTools,
+  recommendEquipment,
+  inferRequiredTools,
+  recipeTools,
+  requiredEquipmentSchema,
+  toSuggestedRecipes,
+} from '../../shared/recipe-equipment';
+
+const recipe = (id: number, title: string, instructions: string[]) => ({
+  id,
+  title,
+  description: `${title} description`,
+  instructions,
+  nutritionInfo: { calories: 400, protein: 20, carbs: 40, fat: 15 },
+});
+
+const equipment = [{ name: 'Cast Iron Skillet' }, { name: 'Large Pot' }, { name: 'Instant Pot' }];
+
+describe('Recipe equipment matching', () => {
+  it('reads the tools a recipe needs from its title and steps', () => {
+    expect(inferRequiredTools('Hummus', ['Blitz chickpeas and tahini in a food processor until smooth'])).toEqual([
+      'food-processor',
+    ]);
+    expect(inferRequiredTools('Pot Roast', ['Sear the beef, then braise in a Dutch oven at 160C'])).toEqual([
+      'oven',
+      'stovetop',
+      'dutch-oven',
+    ]);
+    expect(inferRequiredTools('Crispy Wings', ['Air-fry for 20 minutes, shaking halfway'])).toEqual(['air-fryer']);
+  });
+
+  it('prefers a saved tool list over inference', () => {
+    const hummus = recipe(1, 'Hummus', ['Blitz in a food processor']);
+    expect(recipeTools({ ...hummus, requiredEquipment: ['blender'] })).toEqual(['blender']);
+    expect(recipeTools({ ...hummus, requiredEquipment: [] })).toEqual([]);
+    expect(recipeTools({ ...hummus, requiredEquipment: null })).toEqual(['food-processor']);
+    expect(recipeTools({ name: 'Tagine', instructions: ['Simmer in a Dutch oven'] })).toEqual(['stovetop', 'dutch-oven']);
+
+    expect(requiredEquipmentSchema.parse(['skillet', 'oven', 'skillet'])).toEqual(['oven', 'skillet']);
+    expect(requiredEquipmentSchema.safeParse(['spork']).success).toBe(false);
+  });
+
+  it('recognises owned tools from equipment names', () => {
+    expect(Array.from(ownedTools(equipment)).sort()).toEqual(['pressure-cooker', 'saucepan', 'skillet']);
+  });
+
+  it('splits recipes into possible ones and purchases that would unlock more', () => {
+    const recipes = [
+      recipe(1, 'Pasta', ['Boil the pasta in a large pot', 'Toss with sauce in a skillet']),
+      recipe(2, 'Hummus', ['Blend in a food processor']),
+      recipe(3, 'Pesto', ['Pulse basil and pine nuts in a food processor']),
+      recipe(4, 'Smoothie', ['Blend everything in a blender']),
+      recipe(5, 'Layer Cake', ['Beat the butter with a stand mixer', 'Bake in two cake pans']),
+    ];
+    const matches = matchRecipesToEquipment(recipes, equipment);
+
+    expect(matches.possibleRecipes.map(match => [match.id, match.requiredEquipment])).toEqual([
+      [1, ['Stovetop', 'Saucepan', 'Skillet']],
+    ]);
+    // The cake needs both a mixer and a cake pan, so neither alone is suggested for it
+    expect(matches.recommendedPurchases).toEqual([
+      { equipment: 'Food Processor', enabledRecipes: ['Hummus', 'Pesto'] },
+      { equipment: 'Blender', enabledRecipes: ['Smoothie'] },
+    ]);
+
+    const recommendations = recommendEquipment(matches.recommendedPurchases);
+    expect(recommendations.map(rec => [rec.name, rec.priority, rec.estimatedPrice])).toEqual([
+      ['Food Processor', 'medium', '$50-200'],
+      ['Blender', 'low', '$30-150'],
+    ]);
+    expect(recommendEquipment(matches.recommendedPurchases, 40).map(rec => rec.name)).toEqual(['Blender']);
+  });
+
+  it('adds well-formed AI suggestions the user does not already have', () => {
+    const fromRecipes = recommendEquipment([{ equipment: 'Blender', enabledRecipes: ['Smoothie'] }]);
+    const merged = mergeRecommendations(
+      fromRecipes,
+      [
+        { name: 'blender', reason: 'Smoothies', priority: 'high', estimatedPrice: '$50' },
+        { name: '12-inch Skillet', reason: 'Searing', priority: 'medium', estimatedPrice: '$40' },
+        { name: 'Kitchen Scale', reason: 'Precise baking', priority: 'urgent', estimatedPrice: '$20' },
+        { reason: 'No name' },
+      ],
+      equipment
+    );
+    expect(merged.map(rec => [rec.name, rec.priority])).toEqual([
+      ['Blender', 'low'],
+      ['Kitchen Scale', 'low'],
+    ]);
+    expect(mergeRecommendations(fromRecipes, 'not a list', equipment)).toEqual(fromRecipes);
+
+    const ideas = toSuggestedRecipes(
+      { possibleRecipes: [{ title: 'Waffles', description: 'Crisp', requiredEquipment: ['Waffle Iron', 'Large Pot', 'Whisk'] }, { id: 9 }] },
+      equipment
+    );
+    expect(ideas.map(idea => [idea.title, idea.missingEquipment])).toEqual([['Waffles', ['Waffle Iron']]]);
+    expect(toSuggestedRecipes(null, equipment)).toEqual([]);
+  });
+});
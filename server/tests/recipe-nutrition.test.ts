@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest';
+import { estimateRecipeNutrition, resolveIngredient } from '../recipe-nutrition';
+import { findFood, searchFoods } from '../food-composition';
+
+describe('Recipe nutrition from ingredients', () => {
+  it('matches ingredient names to foods, preferring the most specific', () => {
+    expect(findFood('chicken stock')?.name).toBe('broth');
+    expect(findFood('smooth peanut butter')?.name).toBe('peanut butter');
+    expect(findFood('ripe bananas')?.name).toBe('banana');
+    expect(findFood('cloves garlic')?.name).toBe('garlic');
+    expect(findFood('dragon fruit')).toBeNull();
+    expect(findFood('organic whole milk')?.name).toBe('whole milk');
+    expect(searchFoods('rice').map(food => food.name)).toEqual(['brown rice', 'vinegar', 'white rice']);
+  });
+
+  it('leaves names unknown when the other words make them a different food', () => {
+    for (const name of ['almond milk', 'unsweetened almond milk', 'oat milk', 'soy milk', 'chocolate milk', 'cheese sauce']) {
+      expect(findFood(name), name).toBeNull();
+    }
+    expect(resolveIngredient('1 cup almond milk')).toMatchObject({ reason: 'unknown-food' });
+  });
+
+  it('weighs mass, volume and count quantities and divides by servings', () => {
+    const estimate = estimateRecipeNutrition(['200 g rolled oats', '2 cups whole milk', '2 bananas', '1 tbsp honey'], 2);
+
+    expect(estimate.unresolved).toEqual([]);
+    expect(estimate.resolved.map(item => [item.food, item.grams])).toEqual([
+      ['rolled oats', 200],
+      ['whole milk', 487.4],
+      ['banana', 236],
+      ['honey', 21],
+    ]);
+    // 758 + 297.3 + 210 + 63.8 kcal
+    expect(estimate.total.calories).toBe(1329);
+    expect(estimate.perServing.calories).toBe(665);
+    expect(estimate.perServing.protein).toBe(22.3);
+    expect(estimate.perServing.micronutrients?.fiber).toBe(13.2);
+  });
+
+  it('uses named portions and reports lines it cannot resolve', () => {
+    const estimate = estimateRecipeNutrition([
+      '3 cloves garlic, minced',
+      '1 (15 oz) can chickpeas, drained',
+      'salt to taste',
+      '1 cup chicken breast',
+      '2 dragon fruit',
+      '',
+    ]);
+
+    expect(estimate.resolved.map(item => [item.food, item.grams])).toEqual([['garlic', 9], ['chickpeas', 240]]);
+    expect(estimate.unresolved.map(item => item.reason)).toEqual(['no-amount', 'unknown-unit', 'unknown-food']);
+    expect(estimate.unresolved[2].message).toContain('dragon fruit');
+  });
+
+  it('resolves a single food line for the food log', () => {
+    const banana = resolveIngredient('1 banana');
+    expect(banana).toMatchObject({ food: 'banana', grams: 118, nutrition: { calories: 105 } });
+    expect(resolveIngredient('some dragon fruit')).toMatchObject({ reason: 'unknown-food' });
+  });
+});
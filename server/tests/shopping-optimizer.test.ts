@@ -0,0 +1,151 @@
+import { describe, it, expect } from 'vitest';
+import type { PriceHistory } from '../../shared/schema';
+import { optimizeShoppingList, comparePrices, resolvePreferredStoreIds } from '../shopping-optimizer';
+
+const now = new Date('2025-03-01T12:00:00Z');
+let nextId = 1;
+
+function price(storeId: number, productName: string, amount: number, extra: Partial<PriceHistory> = {}): PriceHistory {
+  return {
+    id: nextId++,
+    storeId,
+    productName,
+    price: amount,
+    unit: 'each',
+    recordedAt: new Date('2025-02-20T12:00:00Z'),
+    onSale: false,
+    saleEndDate: null,
+    priceType: 'regular',
+    competitivePricing: null,
+    priceTrend: null,
+    aiPredictedPrice: null,
+    bestTimeToBuy: null,
+    ...extra,
+  };
+}
+
+const stores = [
+  { id: 1, name: 'Corner Market' },
+  { id: 2, name: 'Big Grocer' },
+  { id: 3, name: 'Discount Depot' },
+];
+
+const history = [
+  price(1, 'Milk', 3.5),
+  price(2, 'Milk', 3.2),
+  price(3, 'Milk', 2.9),
+  price(1, 'Eggs', 4.0),
+  price(2, 'Eggs', 3.0),
+  price(1, 'Bread', 2.0),
+  price(3, 'Bread', 2.5),
+];
+
+describe('Shopping optimizer', () => {
+  it('buys every item at its cheapest store when the store limit allows it', () => {
+    const result = optimizeShoppingList(
+      [{ name: 'milk', quantity: '2' }, { name: 'Eggs', quantity: 1 }, { name: 'Bread', quantity: 1 }],
+      stores,
+      history,
+      { maxStores: 3, now }
+    );
+
+    expect(result.totalCost).toBe(10.8);
+    expect(result.optimizedLists.map(list => list.storeName).sort()).toEqual(['Big Grocer', 'Corner Market', 'Discount Depot']);
+    expect(result.unavailableItems).toEqual([]);
+  });
+
+  it('finds the cheapest combination within the maximum number of stores', () => {
+    const result = optimizeShoppingList(
+      [{ name: 'Milk', quantity: 2 }, { name: 'Eggs', quantity: 1 }, { name: 'Bread', quantity: 1 }],
+      stores,
+      history,
+      { maxStores: 1, now }
+    );
+
+    // Only Corner Market stocks all three items
+    expect(result.optimizedLists).toHaveLength(1);
+    expect(result.optimizedLists[0].storeName).toBe('Corner Market');
+    expect(result.totalCost).toBe(13);
+  });
+
+  it('ignores expired sale prices and reports items without a price', () => {
+    const result = optimizeShoppingList(
+      [{ name: 'Eggs', quantity: 1 }, { name: 'Saffron', quantity: 1 }],
+      stores,
+      [
+        ...history,
+        price(1, 'Eggs', 1.0, { onSale: true, saleEndDate: new Date('2025-02-25T00:00:00Z'), recordedAt: new Date('2025-02-24T00:00:00Z') }),
+      ],
+      { maxStores: 2, now }
+    );
+
+    expect(result.optimizedLists[0].storeName).toBe('Big Grocer');
+    expect(result.optimizedLists[0].items[0].unitPrice).toBe(3);
+    expect(result.unavailableItems.map(item => item.name)).toEqual(['Saffron']);
+    expect(result.reasoning).toContain('Saffron');
+  });
+
+  it('returns the same split for the same input', () => {
+    const items = [{ name: 'Milk', quantity: 1 }, { name: 'Bread', quantity: 3 }];
+    const first = optimizeShoppingList(items, stores, history, { maxStores: 2, now });
+    const second = optimizeShoppingList(items, [...stores].reverse(), [...history].reverse(), { maxStores: 2, now });
+
+    expect(second).toEqual(first);
+  });
+
+  it('converts the listed amount into the unit each store prices by', () => {
+    const result = optimizeShoppingList(
+      [{ name: 'Chicken', quantity: '500 g' }, { name: 'Flour', quantity: '2 cups' }],
+      stores,
+      [
+        price(1, 'Chicken', 5.0, { unit: 'lb' }),
+        price(2, 'Chicken', 10.0, { unit: 'kg' }),
+        price(1, 'Flour', 1.5, { unit: 'lb' }),
+      ],
+      { maxStores: 2, now }
+    );
+
+    // 500 g is 1.1 lb at $5 ($5.51) against 0.5 kg at $10 ($5.00)
+    expect(result.optimizedLists).toHaveLength(1);
+    expect(result.optimizedLists[0].storeName).toBe('Big Grocer');
+    expect(result.optimizedLists[0].items[0]).toMatchObject({ unit: 'kg', purchaseQuantity: 0.5, lineTotal: 5 });
+    // Cups of flour can't be priced per pound without a density
+    expect(result.unavailableItems.map(item => item.name)).toEqual(['Flour']);
+    expect(result.reasoning).toContain("units that don't match");
+  });
+
+  it('matches product names on whole words only', () => {
+    const result = optimizeShoppingList(
+      [{ name: 'Rice', quantity: 1 }, { name: 'Milk', quantity: 1 }, { name: 'Eggs', quantity: 1 }],
+      stores,
+      [price(1, 'Ice', 1.0), price(1, 'Almond Milk', 3.0), price(2, 'Large Eggs', 3.0)],
+      { maxStores: 3, now }
+    );
+
+    expect(result.optimizedLists.flatMap(list => list.items.map(item => item.name))).toEqual(['Eggs']);
+    expect(result.unavailableItems.map(item => item.name)).toEqual(['Rice', 'Milk']);
+  });
+
+  it('compares prices cheapest first', () => {
+    const [comparison] = comparePrices(['Milk'], stores, history, now);
+
+    expect(comparison.stores.map(store => store.price)).toEqual([2.9, 3.2, 3.5]);
+  });
+
+  it('compares prices per unit when the units convert', () => {
+    const [comparison] = comparePrices(['Cheeses'], stores, [
+      price(1, 'Cheese', 5.0, { unit: 'lb' }),
+      price(2, 'Cheese', 10.0, { unit: 'kg' }),
+      price(3, 'Cheese', 3.0, { unit: 'each' }),
+    ], now);
+
+    // $10/kg is $4.54/lb; a price per each can't be weighed against them and comes last
+    expect(comparison.stores.map(store => store.storeName)).toEqual(['Big Grocer', 'Corner Market', 'Discount Depot']);
+  });
+
+  it('reads preferred store ids from flat or nested preference entries', () => {
+    expect(resolvePreferredStoreIds([{ id: 2, name: 'Big Grocer' }])).toEqual([2]);
+    expect(resolvePreferredStoreIds([[{ id: 1 }, { id: 3 }]])).toEqual([1, 3]);
+    expect(resolvePreferredStoreIds(null)).toEqual([]);
+  });
+});
@@ -0,0 +1,46 @@
+import { describe, it, expect } from 'vitest';
+import { parseQuantity, convertQuantity, sumQuantities, formatQuantity, isRunningLow } from '../../shared/units';
+import { insertPantryItemSchema } from '../../shared/schema';
+
+describe('Quantity units', () => {
+  it('parses amounts, fractions and unit aliases', () => {
+    expect(parseQuantity('2 cups')).toEqual({ amount: 2, unit: 'cup', family: 'volume' });
+    expect(parseQuantity('500g')).toEqual({ amount: 500, unit: 'g', family: 'mass' });
+    expect(parseQuantity('1 1/2 Tablespoons')).toEqual({ amount: 1.5, unit: 'tbsp', family: 'volume' });
+    expect(parseQuantity('½ lb')).toEqual({ amount: 0.5, unit: 'lb', family: 'mass' });
+    expect(parseQuantity('3')).toEqual({ amount: 3, unit: 'each', family: 'count' });
+    expect(parseQuantity('2 cans of tomatoes')).toEqual({ amount: 2, unit: 'can', family: 'count' });
+  });
+
+  it('rejects text without a usable amount', () => {
+    expect(parseQuantity('some')).toBeNull();
+    expect(parseQuantity('0 g')).toBeNull();
+    expect(parseQuantity('')).toBeNull();
+  });
+
+  it('converts within a unit family but not across families', () => {
+    expect(convertQuantity({ amount: 1.5, unit: 'kg', family: 'mass' }, 'g')?.amount).toBeCloseTo(1500);
+    expect(convertQuantity({ amount: 1, unit: 'cup', family: 'volume' }, 'tbsp')?.amount).toBeCloseTo(16, 1);
+    expect(convertQuantity({ amount: 1, unit: 'cup', family: 'volume' }, 'g')).toBeNull();
+    expect(convertQuantity({ amount: 2, unit: 'can', family: 'count' }, 'each')).toBeNull();
+  });
+
+  it('totals entries of the same item in the first entry\'s unit', () => {
+    const total = sumQuantities([parseQuantity('1 kg')!, parseQuantity('250 g')!]);
+    expect(total?.unit).toBe('kg');
+    expect(total?.amount).toBeCloseTo(1.25);
+    expect(sumQuantities([parseQuantity('1 kg')!, parseQuantity('1 cup')!])).toBeNull();
+  });
+
+  it('formats and flags low stock', () => {
+    expect(formatQuantity({ amount: 2, unit: 'cup', family: 'volume' })).toBe('2 cups');
+    expect(isRunningLow(parseQuantity('50 g')!)).toBe(true);
+    expect(isRunningLow(parseQuantity('1 l')!)).toBe(false);
+    expect(isRunningLow(parseQuantity('1 can')!)).toBe(true);
+  });
+
+  it('validates pantry item quantities with the parser', () => {
+    expect(insertPantryItemSchema.shape.quantity.safeParse('2 cups').success).toBe(true);
+    expect(insertPantryItemSchema.shape.quantity.safeParse('a handful').success).toBe(false);
+  });
+});
@@ -1,5 +1,9 @@
-import { InsertUser, User, Recipe, GroceryList, PantryItem, CommunityPost, NutritionGoal, RecipeConsumption } from "@shared/schema";
+import { InsertUser, User, Recipe, GroceryList, PantryItem, CommunityPost, NutritionGoal, NutritionLogEntry, BodyProfile, WeightLogEntry, RecipeConsumption, KitchenStorageLocation, StorageItem, Store as GroceryStore, PriceHistory, StoreSpecificList, ShoppingPreferences, KitchenEquipment, EquipmentMaintenanceEvent, EquipmentConditionChange, PasswordResetToken } from "@shared/schema";
 import { Store } from "express-session";
+import type { DailyNutritionTotal } from "./nutrition-log";
+import type { PantryDeduction } from "./pantry-deduction";
+import type { BodyProfileInput } from "@shared/body-metrics";
+import type { KitchenEquipmentUpdate } from "@shared/equipment-lifecycle";
 
 export interface IStorage {
   sessionStore: Store;
@@ -7,12 +11,21 @@ export interface IStorage {
   // User operations
   getUser(id: number): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
-  createUser(user: InsertUser): Promise<User>;
+  getUserByEmail(email: string): Promise<User | undefined>;
+  createUser(user: InsertUser & { email?: string; secretKeyHash?: string }): Promise<User>;
   updateUser(id: number, data: Partial<User>): Promise<User>;
+
+  // Password reset operations
+  createPasswordResetToken(userId: number, tokenHash: string, expiresAt: Date): Promise<PasswordResetToken>;
+  getPasswordResetToken(id: number): Promise<PasswordResetToken | undefined>;
+  consumePasswordResetToken(id: number): Promise<boolean>;
+  invalidatePasswordResetTokens(userId: number): Promise<void>;
   
   // Recipe operations
   getRecipes(): Promise<Recipe[]>;
   getRecipe(id: number): Promise<Recipe | undefined>;
+  getRecipesByIds(ids: number[]): Promise<Recipe[]>;
+  getRecipesByCreator(userId: number): Promise<Recipe[]>;
   createRecipe(recipe: Omit<Recipe, "id">): Promise<Recipe>;
   likeRecipe(recipeId: number, userId: number): Promise<Recipe>;
   forkRecipe(id: number, userId: number): Promise<Recipe>;
@@ -21,14 +34,16 @@ export interface IStorage {
   
   // Grocery list operations
   getGroceryListsByUser(userId: number): Promise<GroceryList[]>;
-  createGroceryList(list: Omit<GroceryList, "id">): Promise<GroceryList>;
+  getGroceryListForMealPlan(mealPlanId: number, userId: number): Promise<GroceryList | undefined>;
+  createGroceryList(list: Omit<GroceryList, "id" | "title" | "mealPlanId"> & Partial<Pick<GroceryList, "title" | "mealPlanId">>): Promise<GroceryList>;
   updateGroceryList(id: number, data: Partial<GroceryList>): Promise<GroceryList>;
   
   // Pantry operations
   getPantryItemsByUser(userId: number): Promise<PantryItem[]>;
-  createPantryItem(item: Omit<PantryItem, "id">): Promise<PantryItem>;
+  createPantryItem(item: Omit<PantryItem, "id" | "quantityAmount" | "quantityUnit" | "unitFamily">): Promise<PantryItem>;
   deletePantryItem(id: number): Promise<void>;
   updatePantryItem(id: number, data: Partial<PantryItem>): Promise<PantryItem>;
+  getPantryItem(id: number, userId: number): Promise<PantryItem | undefined>;
   
   // Community operations
   getCommunityPosts(): Promise<CommunityPost[]>;
@@ -43,7 +58,59 @@ export interface IStorage {
   getCurrentNutritionGoal(userId: number): Promise<NutritionGoal | null>;
   createNutritionGoal(goal: Omit<NutritionGoal, "id">): Promise<NutritionGoal>;
   deactivateNutritionGoals(userId: number): Promise<void>;
-  updateNutritionProgress(goalId: number, progress: NutritionGoal["progress"]): Promise<NutritionGoal>;
-  trackRecipeConsumption(data: Omit<RecipeConsumption, "id">): Promise<RecipeConsumption>;
+  addNutritionLogEntry(entry: Omit<NutritionLogEntry, "id" | "createdAt">): Promise<NutritionLogEntry>;
+  getNutritionLogEntries(userId: number, from: string, to: string): Promise<NutritionLogEntry[]>;
+  getDailyNutritionTotals(userId: number, from: string, to: string): Promise<DailyNutritionTotal[]>;
+  getNutritionLogEntry(id: number, userId: number): Promise<NutritionLogEntry | undefined>;
+  deleteNutritionLogEntry(id: number, userId: number): Promise<void>;
+  deleteNutritionLogEntriesForMealLog(mealPlanLogId: number): Promise<void>;
+  getBodyProfile(userId: number): Promise<BodyProfile | undefined>;
+  saveBodyProfile(userId: number, profile: BodyProfileInput): Promise<BodyProfile>;
+  getWeightLogEntries(userId: number, from: string, to: string): Promise<WeightLogEntry[]>;
+  getLatestWeight(userId: number): Promise<WeightLogEntry | undefined>;
+  logWeight(userId: number, date: string, weightKg: number): Promise<WeightLogEntry>;
+  deleteWeightLogEntry(id: number, userId: number): Promise<WeightLogEntry | undefined>;
+  recordRecipeConsumption(
+    data: Omit<RecipeConsumption, "id" | "pantryDeductions">,
+    entry: Omit<NutritionLogEntry, "id" | "createdAt" | "consumptionId">,
+    deductions: PantryDeduction[]
+  ): Promise<RecipeConsumption>;
+  getRecipeConsumption(id: number, userId: number): Promise<RecipeConsumption | undefined>;
+  claimConsumptionPantryDeductions(id: number, userId: number): Promise<boolean>;
+  deleteConsumptionRecord(id: number, userId: number): Promise<void>;
   getRecipeConsumptionWithDetails(userId: number, startDate?: Date, endDate?: Date): Promise<Array<RecipeConsumption & { recipe: Recipe }>>;
+
+  // Kitchen equipment operations
+  getKitchenEquipmentByUser(userId: number): Promise<KitchenEquipment[]>;
+  getKitchenEquipmentItem(id: number, userId: number): Promise<KitchenEquipment | undefined>;
+  updateKitchenEquipment(equipment: KitchenEquipment, data: KitchenEquipmentUpdate, conditionNote?: string): Promise<KitchenEquipment>;
+  getConditionChanges(userId: number, equipmentId: number): Promise<EquipmentConditionChange[]>;
+  getMaintenanceEvents(userId: number, equipmentId?: number): Promise<EquipmentMaintenanceEvent[]>;
+  recordMaintenance(equipment: KitchenEquipment, event: Pick<EquipmentMaintenanceEvent, "performedAt" | "notes" | "condition">): Promise<{ equipment: KitchenEquipment; event: EquipmentMaintenanceEvent }>;
+
+  // Kitchen storage operations
+  getStorageLocationsByUser(userId: number): Promise<KitchenStorageLocation[]>;
+  getStorageLocation(id: number, userId: number): Promise<KitchenStorageLocation | undefined>;
+  createStorageLocation(location: Omit<KitchenStorageLocation, "id" | "currentItems" | "createdAt" | "updatedAt">): Promise<KitchenStorageLocation>;
+  updateStorageLocation(id: number, userId: number, data: Partial<KitchenStorageLocation>): Promise<KitchenStorageLocation>;
+  deleteStorageLocation(id: number, userId: number): Promise<void>;
+  getStorageItemsByUser(userId: number): Promise<StorageItem[]>;
+  getStorageItem(id: number, userId: number): Promise<StorageItem | undefined>;
+  createStorageItem(item: Omit<StorageItem, "id" | "createdAt" | "updatedAt">): Promise<StorageItem>;
+  updateStorageItem(id: number, userId: number, data: Partial<StorageItem>): Promise<StorageItem>;
+  deleteStorageItem(id: number, userId: number): Promise<void>;
+
+  // Smart shopping operations
+  getStores(): Promise<GroceryStore[]>;
+  getStore(id: number): Promise<GroceryStore | undefined>;
+  createStore(store: Omit<GroceryStore, "id" | "createdAt">): Promise<GroceryStore>;
+  getPriceHistory(storeIds?: number[], productNames?: string[]): Promise<PriceHistory[]>;
+  recordPrice(price: Omit<PriceHistory, "id" | "recordedAt">): Promise<PriceHistory>;
+  getStoreListsByUser(userId: number): Promise<StoreSpecificList[]>;
+  getStoreList(id: number, userId: number): Promise<StoreSpecificList | undefined>;
+  createStoreList(list: Omit<StoreSpecificList, "id" | "createdAt" | "updatedAt">): Promise<StoreSpecificList>;
+  updateStoreList(id: number, userId: number, data: Partial<StoreSpecificList>): Promise<StoreSpecificList>;
+  deleteStoreList(id: number, userId: number): Promise<void>;
+  getShoppingPreferences(userId: number): Promise<ShoppingPreferences | undefined>;
+  saveShoppingPreferences(userId: number, data: Partial<ShoppingPreferences>): Promise<ShoppingPreferences>;
 }
\ No newline at end of file
@@ -0,0 +1,118 @@
+import { z } from "zod";
+import { dateKeySchema } from "./meal-plans";
+
+export const SEXES = ["male", "female"] as const;
+export type Sex = typeof SEXES[number];
+
+// Multipliers on resting energy for the usual activity bands
+export const ACTIVITY_LEVELS = [
+  { key: "sedentary", label: "Sedentary (little or no exercise)", multiplier: 1.2 },
+  { key: "light", label: "Light (exercise 1-3 days a week)", multiplier: 1.375 },
+  { key: "moderate", label: "Moderate (exercise 3-5 days a week)", multiplier: 1.55 },
+  { key: "active", label: "Active (exercise 6-7 days a week)", multiplier: 1.725 },
+  { key: "very-active", label: "Very active (physical job or twice-daily training)", multiplier: 1.9 },
+] as const;
+export type ActivityLevel = typeof ACTIVITY_LEVELS[number]["key"];
+
+// Calorie change from maintenance, and protein per kg of body weight to go with it
+export const WEIGHT_GOALS = [
+  { key: "cut", label: "Lose weight", calorieAdjustment: -0.2, proteinPerKg: 2.0 },
+  { key: "maintain", label: "Maintain weight", calorieAdjustment: 0, proteinPerKg: 1.6 },
+  { key: "bulk", label: "Gain weight", calorieAdjustment: 0.1, proteinPerKg: 1.8 },
+] as const;
+export type WeightGoal = typeof WEIGHT_GOALS[number]["key"];
+
+// Share of calories from fat; carbs make up what protein and fat leave
+const FAT_CALORIE_SHARE = 0.25;
+
+// Below these a diet needs medical supervision, so a cut never goes lower
+const MINIMUM_CALORIES: Record<Sex, number> = { male: 1500, female: 1200 };
+
+// Same bounds as insertNutritionGoalSchema, so a computed goal always saves
+const GOAL_LIMITS = {
+  calories: [500, 5000],
+  protein: [10, 500],
+  carbs: [0, 500],
+  fat: [0, 200],
+} as const;
+
+export const bodyProfileSchema = z.object({
+  heightCm: z.number().min(100, "Height must be at least 100 cm").max(250, "Height cannot exceed 250 cm"),
+  dateOfBirth: dateKeySchema,
+  sex: z.enum(SEXES),
+  activityLevel: z.enum(ACTIVITY_LEVELS.map(level => level.key) as [ActivityLevel, ...ActivityLevel[]]),
+  goal: z.enum(WEIGHT_GOALS.map(goal => goal.key) as [WeightGoal, ...WeightGoal[]]),
+});
+
+export const weightEntrySchema = z.object({
+  date: dateKeySchema,
+  weightKg: z.number().min(20, "Weight must be at least 20 kg").max(400, "Weight cannot exceed 400 kg"),
+});
+
+export interface BodyProfileInput {
+  heightCm: number;
+  dateOfBirth: string;
+  sex: Sex;
+  activityLevel: ActivityLevel;
+  goal: WeightGoal;
+}
+
+export interface NutritionTargets {
+  age: number;
+  bmr: number;
+  tdee: number;
+  dailyCalories: number;
+  dailyProtein: number;
+  dailyCarbs: number;
+  dailyFat: number;
+}
+
+// Whole years between a yyyy-MM-dd birth date and another date key
+export function ageOn(dateOfBirth: string, dateKey: string): number {
+  const [birthYear, birthMonth, birthDay] = dateOfBirth.split("-").map(Number);
+  const [year, month, day] = dateKey.split("-").map(Number);
+  const hadBirthday = month > birthMonth || (month === birthMonth && day >= birthDay);
+  return year - birthYear - (hadBirthday ? 0 : 1);
+}
+
+// Mifflin-St Jeor resting energy expenditure, in kcal per day
+export function calculateBmr(sex: Sex, weightKg: number, heightCm: number, age: number): number {
+  return 10 * weightKg + 6.25 * heightCm - 5 * age + (sex === "male" ? 5 : -161);
+}
+
+function clamp(value: number, [min, max]: readonly [number, number]): number {
+  return Math.min(max, Math.max(min, value));
+}
+
+/**
+ * Daily targets for a body profile at a given weight: resting energy from
+ * Mifflin-St Jeor, scaled by activity into total expenditure, then adjusted
+ * for the goal. Protein follows body weight, fat takes a fixed share and
+ * carbs fill the rest. Called again whenever a new weight is logged, so the
+ * targets follow the user's progress.
+ */
+export function calculateNutritionTargets(profile: BodyProfileInput, weightKg: number, today: string): NutritionTargets {
+  const age = ageOn(profile.dateOfBirth, today);
+  const bmr = calculateBmr(profile.sex, weightKg, profile.heightCm, age);
+  const activity = ACTIVITY_LEVELS.find(level => level.key === profile.activityLevel) ?? ACTIVITY_LEVELS[0];
+  const tdee = bmr * activity.multiplier;
+  const goal = WEIGHT_GOALS.find(option => option.key === profile.goal) ?? WEIGHT_GOALS[1];
+
+  let calories = tdee * (1 + goal.calorieAdjustment);
+  if (goal.key === "cut") calories = Math.max(calories, Math.min(MINIMUM_CALORIES[profile.sex], tdee));
+  const dailyCalories = Math.round(clamp(calories, GOAL_LIMITS.calories));
+
+  const dailyProtein = Math.round(clamp(weightKg * goal.proteinPerKg, GOAL_LIMITS.protein));
+  const dailyFat = Math.round(clamp((dailyCalories * FAT_CALORIE_SHARE) / 9, GOAL_LIMITS.fat));
+  const dailyCarbs = Math.round(clamp((dailyCalories - dailyProtein * 4 - dailyFat * 9) / 4, GOAL_LIMITS.carbs));
+
+  return {
+    age,
+    bmr: Math.round(bmr),
+    tdee: Math.round(tdee),
+    dailyCalories,
+    dailyProtein,
+    dailyCarbs,
+    dailyFat,
+  };
+}
@@ -0,0 +1,381 @@
+import { z } from "zod";
+import { toRecipeIngredients } from "./ingredients";
+
+// The major food allergens (the US "big nine"); gluten is covered by the gluten-free diet
+export const ALLERGENS = ["milk", "eggs", "fish", "shellfish", "tree-nuts", "peanuts", "wheat", "soy", "sesame"] as const;
+export type Allergen = typeof ALLERGENS[number];
+
+export const DIETS = ["vegan", "vegetarian", "gluten-free", "keto", "halal"] as const;
+export type Diet = typeof DIETS[number];
+
+export const ALLERGEN_LABELS: Record<Allergen, string> = {
+  milk: "Milk",
+  eggs: "Eggs",
+  fish: "Fish",
+  shellfish: "Shellfish",
+  "tree-nuts": "Tree nuts",
+  peanuts: "Peanuts",
+  wheat: "Wheat",
+  soy: "Soy",
+  sesame: "Sesame",
+};
+
+export const DIET_LABELS: Record<Diet, string> = {
+  vegan: "Vegan",
+  vegetarian: "Vegetarian",
+  "gluten-free": "Gluten-free",
+  keto: "Keto",
+  halal: "Halal",
+};
+
+// A keto serving stays under this many grams of carbs
+export const KETO_MAX_CARBS_PER_SERVING = 20;
+
+// What an ingredient is, beyond allergens, that a diet can rule out
+type FoodFlag = "meat" | "pork" | "gelatin" | "honey" | "alcohol" | "gluten" | "high-carb";
+
+interface FoodRule {
+  terms: string[];
+  // Phrases that look like a term but aren't ("peanut butter" isn't dairy)
+  except?: string[];
+  // Pieces that, inside a longer unknown word ("nutella", "catfish"), mean the allergens may be there
+  partial?: string[];
+  allergens?: Allergen[];
+  flags?: FoodFlag[];
+}
+
+const FOOD_RULES: FoodRule[] = [
+  {
+    terms: [
+      "milk", "butter", "buttermilk", "cream", "cheese", "yogurt", "yoghurt", "ghee", "whey", "casein", "parmesan",
+      "mozzarella", "cheddar", "feta", "ricotta", "paneer", "mascarpone", "custard", "creme fraiche", "kefir",
+      "gelato", "ice cream", "brie", "gouda", "gruyere", "camembert", "halloumi", "quark", "half-and-half",
+      "half and half", "bechamel", "alfredo", "queso", "pesto",
+    ],
+    except: [
+      "coconut milk", "almond milk", "oat milk", "rice milk", "soy milk", "cashew milk", "coconut cream",
+      "coconut yogurt", "peanut butter", "almond butter", "cashew butter", "nut butter", "cocoa butter",
+      "butter beans", "cream of tartar",
+    ],
+    partial: ["milk", "cream", "cheese", "butter"],
+    allergens: ["milk"],
+  },
+  { terms: ["egg", "mayonnaise", "mayo", "meringue", "aioli"], partial: ["egg"], allergens: ["eggs"] },
+  {
+    terms: [
+      "fish", "salmon", "tuna", "cod", "anchovy", "anchovies", "sardine", "trout", "mackerel", "tilapia",
+      "halibut", "haddock", "snapper", "sea bass", "bonito", "worcestershire",
+    ],
+    partial: ["fish"],
+    allergens: ["fish"],
+  },
+  {
+    terms: [
+      "shellfish", "shrimp", "prawn", "crab", "lobster", "crayfish", "scallop", "clam", "mussel", "oyster",
+      "squid", "calamari", "octopus",
+    ],
+    except: ["oyster mushroom"],
+    partial: ["shrimp", "prawn", "crab", "lobster"],
+    allergens: ["shellfish"],
+  },
+  {
+    terms: [
+      "almond", "walnut", "cashew", "pecan", "pistachio", "hazelnut", "macadamia", "brazil nut", "pine nut",
+      "chestnut", "praline", "marzipan", "frangipane", "gianduja", "nougat", "tree nut", "pesto",
+    ],
+    partial: ["nut"],
+    allergens: ["tree-nuts"],
+  },
+  // Nuts without a kind, e.g. "mixed nuts" or "nut butter", may be tree nuts or peanuts
+  {
+    terms: ["nut"],
+    except: [
+      "pine nut", "brazil nut", "tree nut", "macadamia nut", "cashew nut", "pecan nut", "pistachio nut",
+      "almond nut", "ground nut", "kola nut", "betel nut", "tiger nut",
+    ],
+    allergens: ["tree-nuts", "peanuts"],
+  },
+  { terms: ["peanut", "groundnut"], partial: ["peanut"], allergens: ["peanuts"] },
+  {
+    terms: [
+      "wheat", "flour", "bread", "breadcrumb", "pasta", "spaghetti", "macaroni", "noodle", "couscous", "semolina",
+      "bulgur", "farro", "spelt", "seitan", "tortilla", "pita", "cracker", "panko", "soy sauce", "bun", "bagel",
+      "baguette", "croissant", "pastry", "dough", "udon", "ramen", "gnocchi", "orzo", "lasagna", "lasagne",
+      "fettuccine", "linguine", "penne", "ravioli", "tortellini", "dumpling", "wonton", "naan", "brioche",
+      "pretzel", "biscuit", "cake", "muffin", "pancake", "waffle", "crouton", "roux", "matzo",
+    ],
+    except: [
+      "buckwheat flour", "buckwheat", "rice flour", "almond flour", "coconut flour", "chickpea flour",
+      "corn flour", "cornflour", "oat flour", "corn tortilla", "rice noodle", "glass noodle", "rice cake",
+    ],
+    partial: ["wheat", "flour", "bread", "noodle"],
+    allergens: ["wheat"],
+    flags: ["gluten", "high-carb"],
+  },
+  { terms: ["barley", "rye", "malt", "beer"], flags: ["gluten"] },
+  { terms: ["soy", "soya", "tofu", "tempeh", "edamame", "miso", "tamari"], partial: ["soy"], allergens: ["soy"] },
+  { terms: ["sesame", "tahini"], partial: ["sesame"], allergens: ["sesame"] },
+  {
+    terms: [
+      "meat", "beef", "steak", "veal", "lamb", "mutton", "chicken", "turkey", "duck", "goose", "venison",
+      "mince", "sausage", "meatball", "bone broth",
+    ],
+    flags: ["meat"],
+  },
+  {
+    terms: ["pork", "bacon", "ham", "prosciutto", "pancetta", "lard", "chorizo", "pepperoni", "salami"],
+    flags: ["meat", "pork"],
+  },
+  { terms: ["gelatin", "gelatine"], flags: ["gelatin"] },
+  { terms: ["honey"], except: ["honeydew"], flags: ["honey", "high-carb"] },
+  {
+    terms: [
+      "wine", "beer", "rum", "vodka", "whiskey", "whisky", "brandy", "sake", "mirin", "sherry", "bourbon",
+      "liqueur", "tequila", "cognac",
+    ],
+    except: ["wine vinegar", "sherry vinegar"],
+    flags: ["alcohol"],
+  },
+  {
+    terms: [
+      "sugar", "rice", "potato", "oats", "oatmeal", "corn", "quinoa", "maple syrup", "agave", "banana",
+      "lentil", "chickpea", "beans",
+    ],
+    except: ["cauliflower rice", "sugar-free", "sugar free", "green beans", "rice vinegar", "corn starch"],
+    flags: ["high-carb"],
+  },
+];
+
+// "Vegan cheese" or "gluten-free pasta" says what it isn't
+const FREE_FROM: { pattern: RegExp; allergens: Allergen[]; flags: FoodFlag[] }[] = [
+  { pattern: /\b(?:vegan|plant[- ]based)\b/, allergens: ["milk", "eggs", "fish", "shellfish"], flags: ["meat", "pork", "gelatin", "honey"] },
+  { pattern: /\b(?:dairy|lactose)[- ]free\b/, allergens: ["milk"], flags: [] },
+  { pattern: /\begg[- ]free\b/, allergens: ["eggs"], flags: [] },
+  { pattern: /\bnut[- ]free\b/, allergens: ["tree-nuts", "peanuts"], flags: [] },
+  { pattern: /\bgluten[- ]free\b/, allergens: ["wheat"], flags: ["gluten"] },
+  { pattern: /\b(?:sugar[- ]free|keto)\b/, allergens: [], flags: ["high-carb"] },
+];
+
+const DIET_RULES: Record<Diet, { allergens: Allergen[]; flags: FoodFlag[] }> = {
+  vegan: { allergens: ["milk", "eggs", "fish", "shellfish"], flags: ["meat", "gelatin", "honey"] },
+  vegetarian: { allergens: ["fish", "shellfish"], flags: ["meat", "gelatin"] },
+  "gluten-free": { allergens: [], flags: ["gluten"] },
+  keto: { allergens: [], flags: ["high-carb"] },
+  // Pork, alcohol and gelatin are ruled out; whether meat was slaughtered halal can't be told from a name
+  halal: { allergens: [], flags: ["pork", "alcohol", "gelatin"] },
+};
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+// Whole words only, allowing a plural: "egg" matches "eggs" but not "eggplant"
+export function mentions(text: string, phrase: string): boolean {
+  return new RegExp(`\\b${escapeRegExp(phrase)}(?:s|es)?\\b`).test(text);
+}
+
+// Words that contain a partial piece but aren't that food
+const LOOKALIKE_WORDS = new Set([
+  "eggplant", "veggie", "nutmeg", "nutrition", "nutritional", "nutrient", "peanut", "coconut", "butternut",
+  "doughnut", "donut", "breadfruit", "crabapple", "buckwheat",
+]);
+
+// A piece inside a longer word, e.g. "nut" in "nutella"; whole words are left to the terms
+function mentionsWithinWord(text: string, piece: string): boolean {
+  return text.split(/[^a-z]+/).some(word =>
+    word.includes(piece) &&
+    ![piece, `${piece}s`, `${piece}es`].includes(word) &&
+    !LOOKALIKE_WORDS.has(word) &&
+    !LOOKALIKE_WORDS.has(word.replace(/s$/, ""))
+  );
+}
+
+export interface IngredientDietInfo {
+  allergens: Allergen[];
+  // Allergens the name only partly matches; not certain, but not safe either
+  possibleAllergens: Allergen[];
+  flags: FoodFlag[];
+}
+
+// Allergens and diet-relevant traits of a single ingredient, from its name
+export function classifyIngredient(name: string): IngredientDietInfo {
+  const text = name.toLowerCase().normalize("NFD").replace(/[\u0300-\u036f]/g, "").replace(/\s+/g, " ");
+  const allergens = new Set<Allergen>();
+  const possibleAllergens = new Set<Allergen>();
+  const flags = new Set<FoodFlag>();
+
+  for (const rule of FOOD_RULES) {
+    const cleaned = (rule.except ?? []).reduce((rest, phrase) => rest.replace(new RegExp(`\\b${escapeRegExp(phrase)}s?\\b`, "g"), " "), text);
+    if (rule.terms.some(term => mentions(cleaned, term))) {
+      rule.allergens?.forEach(allergen => allergens.add(allergen));
+      rule.flags?.forEach(flag => flags.add(flag));
+    } else if (rule.partial?.some(piece => mentionsWithinWord(cleaned, piece))) {
+      rule.allergens?.forEach(allergen => possibleAllergens.add(allergen));
+    }
+  }
+  for (const freeFrom of FREE_FROM) {
+    if (!freeFrom.pattern.test(text)) continue;
+    freeFrom.allergens.forEach(allergen => {
+      allergens.delete(allergen);
+      possibleAllergens.delete(allergen);
+    });
+    freeFrom.flags.forEach(flag => flags.delete(flag));
+  }
+
+  return {
+    allergens: ALLERGENS.filter(allergen => allergens.has(allergen)),
+    possibleAllergens: ALLERGENS.filter(allergen => possibleAllergens.has(allergen) && !allergens.has(allergen)),
+    flags: Array.from(flags),
+  };
+}
+
+export interface DietTags {
+  allergens: Allergen[];
+  // Diets every ingredient fits
+  diets: Diet[];
+  // Ingredients behind each allergen and each diet that isn't met, to explain a warning
+  sources: Partial<Record<Allergen | Diet, string[]>>;
+  // Ingredients that only partly match an allergen, and the diets that allergen would break
+  possible: Partial<Record<Allergen | Diet, string[]>>;
+}
+
+/**
+ * Allergens and diets for a list of ingredients in any stored shape, e.g. a
+ * recipe's ingredients or a single pantry item's name. Optional ingredients
+ * count too, since a warning that's too cautious is safer than one that's
+ * missed. With nutrition per serving, keto also needs carbs within
+ * KETO_MAX_CARBS_PER_SERVING.
+ */
+export function tagIngredients(ingredients: unknown, nutrition?: { carbs?: number } | null): DietTags {
+  const sources: DietTags["sources"] = {};
+  const possible: DietTags["possible"] = {};
+  const addTo = (map: DietTags["sources"], key: Allergen | Diet, name: string) => {
+    const names = map[key] ?? (map[key] = []);
+    if (!names.includes(name)) names.push(name);
+  };
+
+  for (const ingredient of toRecipeIngredients(ingredients)) {
+    const info = classifyIngredient(ingredient.name);
+    info.allergens.forEach(allergen => addTo(sources, allergen, ingredient.name));
+    info.possibleAllergens.forEach(allergen => addTo(possible, allergen, ingredient.name));
+    for (const diet of DIETS) {
+      const rule = DIET_RULES[diet];
+      if (rule.allergens.some(allergen => info.allergens.includes(allergen)) || rule.flags.some(flag => info.flags.includes(flag))) {
+        addTo(sources, diet, ingredient.name);
+      } else if (rule.allergens.some(allergen => info.possibleAllergens.includes(allergen))) {
+        addTo(possible, diet, ingredient.name);
+      }
+    }
+  }
+  if (typeof nutrition?.carbs === "number" && nutrition.carbs > KETO_MAX_CARBS_PER_SERVING) {
+    addTo(sources, "keto", `${Math.round(nutrition.carbs)}g carbs per serving`);
+  }
+  // A certain match already says more than a possible one
+  for (const key of Object.keys(sources) as (Allergen | Diet)[]) delete possible[key];
+
+  return {
+    allergens: ALLERGENS.filter(allergen => sources[allergen]),
+    diets: DIETS.filter(diet => !sources[diet] && !possible[diet]),
+    sources,
+    possible,
+  };
+}
+
+export interface DietaryRestrictions {
+  allergens: Allergen[];
+  diets: Diet[];
+}
+
+export const dietaryRestrictionsSchema = z.object({
+  allergens: z.array(z.enum(ALLERGENS)).default([]),
+  diets: z.array(z.enum(DIETS)).default([]),
+});
+
+// Other ways people write the restrictions this module understands
+const RESTRICTION_ALIASES: Record<string, (Allergen | Diet)[]> = {
+  dairy: ["milk"],
+  lactose: ["milk"],
+  egg: ["eggs"],
+  nut: ["tree-nuts", "peanuts"],
+  nuts: ["tree-nuts", "peanuts"],
+  "tree-nut": ["tree-nuts"],
+  peanut: ["peanuts"],
+  gluten: ["gluten-free"],
+  celiac: ["gluten-free"],
+  coeliac: ["gluten-free"],
+  "plant-based": ["vegan"],
+  ketogenic: ["keto"],
+};
+
+/**
+ * Hard restrictions from `users.preferences.dietaryPreferences`, which holds
+ * allergen and diet ids but may also contain free text such as "Nut-free"
+ * or "no dairy". Entries that aren't a known restriction are soft
+ * preferences and are ignored here.
+ */
+export function parseDietaryPreferences(preferences: unknown): DietaryRestrictions {
+  const allergens = new Set<Allergen>();
+  const diets = new Set<Diet>();
+  const entries = Array.isArray(preferences) ? preferences : [];
+
+  for (const entry of entries) {
+    if (typeof entry !== "string") continue;
+    const key = entry.trim().toLowerCase().replace(/\s+/g, "-");
+    const restriction = key === "gluten-free" ? key : key.replace(/^no-/, "").replace(/-(?:free|allergy)$/, "");
+    const ids = RESTRICTION_ALIASES[restriction] ?? [restriction];
+    for (const id of ids) {
+      if ((ALLERGENS as readonly string[]).includes(id)) allergens.add(id as Allergen);
+      if ((DIETS as readonly string[]).includes(id)) diets.add(id as Diet);
+    }
+  }
+
+  return {
+    allergens: ALLERGENS.filter(allergen => allergens.has(allergen)),
+    diets: DIETS.filter(diet => diets.has(diet)),
+  };
+}
+
+export interface DietViolation {
+  restriction: Allergen | Diet;
+  kind: "allergen" | "diet";
+  ingredients: string[];
+  // The ingredients only partly match, so this is a warning rather than a certainty
+  possible?: boolean;
+}
+
+/**
+ * Restrictions the tagged ingredients break. Possible matches are included,
+ * marked `possible`, so nothing that might break a restriction is treated
+ * as safe.
+ */
+export function findDietViolations(tags: DietTags, restrictions: DietaryRestrictions): DietViolation[] {
+  const violation = (restriction: Allergen | Diet, kind: DietViolation["kind"]): DietViolation | null => {
+    if (tags.sources[restriction]) return { restriction, kind, ingredients: tags.sources[restriction]! };
+    if (tags.possible?.[restriction]) return { restriction, kind, ingredients: tags.possible[restriction]!, possible: true };
+    // Keto can fail on carbs alone, without a listed ingredient
+    if (kind === "diet" && !tags.diets.includes(restriction as Diet)) return { restriction, kind, ingredients: [] };
+    return null;
+  };
+  return [
+    ...restrictions.allergens.map(allergen => violation(allergen, "allergen")),
+    ...restrictions.diets.map(diet => violation(diet, "diet")),
+  ].filter((found): found is DietViolation => found !== null);
+}
+
+// e.g. "Contains peanuts (peanut butter)", "Not vegan (honey, butter)" or "May contain tree nuts (nutella)"
+export function describeDietViolation(violation: DietViolation): string {
+  const allergen = ALLERGEN_LABELS[violation.restriction as Allergen]?.toLowerCase();
+  const diet = DIET_LABELS[violation.restriction as Diet]?.toLowerCase();
+  const label = violation.kind === "allergen"
+    ? `${violation.possible ? "May contain" : "Contains"} ${allergen}`
+    : `${violation.possible ? "May not be" : "Not"} ${diet}`;
+  return violation.ingredients.length > 0 ? `${label} (${violation.ingredients.join(", ")})` : label;
+}
+
+// Restrictions as plain words, for AI prompts
+export function describeDietaryRestrictions(restrictions: DietaryRestrictions): string[] {
+  return [
+    ...restrictions.diets.map(diet => DIET_LABELS[diet]),
+    ...restrictions.allergens.map(allergen => `No ${ALLERGEN_LABELS[allergen].toLowerCase()}`),
+  ];
+}
@@ -0,0 +1,167 @@
+import { z } from "zod";
+import { dateKeySchema, daysBetweenKeys } from "./meal-plans";
+import { EQUIPMENT_CONDITIONS, type EquipmentCondition } from "./equipment-maintenance";
+
+// Typical service life in years, for items without a lifespan of their own
+const CATEGORY_LIFESPAN_YEARS: Record<string, number> = {
+  Appliances: 10,
+  Cookware: 15,
+  Cutlery: 20,
+  Utensils: 5,
+  Bakeware: 10,
+  Storage: 5,
+};
+const DEFAULT_LIFESPAN_YEARS = 8;
+
+// Share of the lifespan used up before an item is flagged as nearing its end
+export const END_OF_LIFE_WARNING_SHARE = 0.8;
+
+// Warranties ending within this many days are flagged
+export const WARRANTY_WARNING_DAYS = 30;
+
+const blankToNull = (value: unknown) => (typeof value === "string" && value.trim() === "" ? null : value);
+const optionalText = (max: number) => z.preprocess(blankToNull, z.string().trim().max(max).nullable());
+
+const kitchenEquipmentFields = z.object({
+  name: z.string().trim().min(1, "Name is required").max(100, "Name cannot exceed 100 characters"),
+  category: z.string().trim().min(1, "Category is required").max(50),
+  condition: z.enum(EQUIPMENT_CONDITIONS),
+  brand: optionalText(100),
+  model: optionalText(100),
+  purchaseDate: z.preprocess(blankToNull, dateKeySchema.nullable()),
+  purchasePrice: z.number().int("Use a whole amount").min(0, "Price can't be negative").nullable(),
+  warrantyExpiry: z.preprocess(blankToNull, dateKeySchema.nullable()),
+  expectedLifespanYears: z.number().int().min(1, "Lifespan must be at least a year").max(100).nullable(),
+  maintenanceInterval: z.number().int().min(1, "Interval must be at least a day").max(3650).nullable(),
+  maintenanceNotes: optionalText(1000),
+});
+
+// A new item needs a name, category and condition; it may start with a last maintenance date
+export const createKitchenEquipmentSchema = kitchenEquipmentFields
+  .partial({
+    brand: true,
+    model: true,
+    purchaseDate: true,
+    purchasePrice: true,
+    warrantyExpiry: true,
+    expectedLifespanYears: true,
+    maintenanceInterval: true,
+    maintenanceNotes: true,
+  })
+  .extend({ lastMaintenanceDate: z.preprocess(blankToNull, dateKeySchema.nullable()).optional() });
+
+// Fields a PATCH may change; lastMaintenanceDate moves only by recording maintenance
+export const updateKitchenEquipmentSchema = kitchenEquipmentFields
+  .extend({
+    // Why the condition changed, kept with the audit entry
+    conditionNote: z.string().trim().max(500).optional(),
+  })
+  .partial()
+  .strict()
+  .refine(data => Object.keys(data).some(key => key !== "conditionNote"), "Nothing to update");
+
+export type KitchenEquipmentUpdate = Omit<z.infer<typeof updateKitchenEquipmentSchema>, "conditionNote">;
+
+export interface LifecycleEquipment {
+  category: string;
+  condition: EquipmentCondition;
+  purchaseDate?: string | null;
+  purchasePrice?: number | null;
+  warrantyExpiry?: string | null;
+  expectedLifespanYears?: number | null;
+}
+
+export type LifecycleStatus = "ok" | "approaching-end-of-life" | "past-end-of-life";
+export type WarrantyStatus = "none" | "active" | "expiring" | "expired";
+
+export interface DepreciationPoint {
+  date: string;
+  value: number;
+}
+
+export interface EquipmentLifecycle {
+  lifespanYears: number;
+  // Null without a purchase date
+  ageYears: number | null;
+  lifeUsed: number | null;
+  endOfLifeDate: string | null;
+  status: LifecycleStatus;
+  // Straight-line value today; null without a purchase date and price
+  currentValue: number | null;
+  // Value on each purchase anniversary until the end of the lifespan
+  depreciation: DepreciationPoint[];
+  warranty: WarrantyStatus;
+  warrantyDaysLeft: number | null;
+}
+
+export function lifespanYears(item: Pick<LifecycleEquipment, "category" | "expectedLifespanYears">): number {
+  return item.expectedLifespanYears && item.expectedLifespanYears > 0
+    ? item.expectedLifespanYears
+    : CATEGORY_LIFESPAN_YEARS[item.category] ?? DEFAULT_LIFESPAN_YEARS;
+}
+
+// Same day `years` later; Feb 29 becomes Mar 1 in other years
+function addYearsToKey(key: string, years: number): string {
+  const [year, month, day] = key.split("-").map(Number);
+  return new Date(Date.UTC(year + years, month - 1, day)).toISOString().slice(0, 10);
+}
+
+const roundMoney = (value: number) => Math.round(value * 100) / 100;
+
+function valueAt(price: number, lifeUsed: number): number {
+  return roundMoney(price * Math.max(0, 1 - lifeUsed));
+}
+
+/**
+ * Age, straight-line depreciation and warranty state for one item. An item
+ * is flagged once it has used END_OF_LIFE_WARNING_SHARE of its lifespan, or
+ * when its condition says it should be replaced.
+ */
+export function equipmentLifecycle(item: LifecycleEquipment, today: string): EquipmentLifecycle {
+  const years = lifespanYears(item);
+  const purchased = item.purchaseDate ? item.purchaseDate.slice(0, 10) : null;
+
+  let ageYears: number | null = null;
+  let lifeUsed: number | null = null;
+  let endOfLifeDate: string | null = null;
+  if (purchased) {
+    endOfLifeDate = addYearsToKey(purchased, years);
+    const lifespanDays = daysBetweenKeys(purchased, endOfLifeDate);
+    const ageDays = Math.max(0, daysBetweenKeys(purchased, today));
+    ageYears = Math.round((ageDays / lifespanDays) * years * 10) / 10;
+    lifeUsed = ageDays / lifespanDays;
+  }
+
+  let status: LifecycleStatus = "ok";
+  if (lifeUsed !== null && lifeUsed >= 1) status = "past-end-of-life";
+  else if (item.condition === "replace" || (lifeUsed !== null && lifeUsed >= END_OF_LIFE_WARNING_SHARE)) {
+    status = "approaching-end-of-life";
+  }
+
+  const price = item.purchasePrice ?? null;
+  const depreciation: DepreciationPoint[] = [];
+  if (purchased && price !== null) {
+    for (let year = 0; year <= years; year++) {
+      depreciation.push({ date: addYearsToKey(purchased, year), value: valueAt(price, year / years) });
+    }
+  }
+
+  let warranty: WarrantyStatus = "none";
+  let warrantyDaysLeft: number | null = null;
+  if (item.warrantyExpiry) {
+    warrantyDaysLeft = daysBetweenKeys(today, item.warrantyExpiry.slice(0, 10));
+    warranty = warrantyDaysLeft < 0 ? "expired" : warrantyDaysLeft <= WARRANTY_WARNING_DAYS ? "expiring" : "active";
+  }
+
+  return {
+    lifespanYears: years,
+    ageYears,
+    lifeUsed,
+    endOfLifeDate,
+    status,
+    currentValue: price !== null && lifeUsed !== null ? valueAt(price, lifeUsed) : null,
+    depreciation,
+    warranty,
+    warrantyDaysLeft,
+  };
+}
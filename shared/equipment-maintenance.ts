@@ -0,0 +1,195 @@
+import { z } from "zod";
+import { dateKeySchema, toDateKey, addDaysToKey, daysBetweenKeys } from "./meal-plans";
+
+export const EQUIPMENT_CONDITIONS = ["excellent", "good", "fair", "needs-maintenance", "replace"] as const;
+export type EquipmentCondition = typeof EQUIPMENT_CONDITIONS[number];
+
+export type MaintenancePriority = "high" | "medium" | "low";
+
+// Routine upkeep for items without an interval of their own, by equipment category
+const CATEGORY_INTERVAL_DAYS: Record<string, number> = {
+  Appliances: 90,
+  Cookware: 60,
+  Cutlery: 30,
+  Utensils: 120,
+  Bakeware: 120,
+  Storage: 180,
+};
+const DEFAULT_INTERVAL_DAYS = 90;
+
+// Worn equipment is looked after more often; broken equipment is due right away
+const CONDITION_INTERVAL_FACTORS: Record<EquipmentCondition, number> = {
+  excellent: 1,
+  good: 1,
+  fair: 0.5,
+  "needs-maintenance": 0,
+  replace: 0,
+};
+
+// Bounds on an interval learned from past maintenance
+const MIN_LEARNED_INTERVAL_DAYS = 7;
+const MAX_LEARNED_INTERVAL_DAYS = 365;
+
+// Tasks due within this many days are listed as upcoming
+export const DEFAULT_MAINTENANCE_HORIZON_DAYS = 30;
+export const MAX_MAINTENANCE_HORIZON_DAYS = 365;
+
+// Due this soon, a task is worth doing this week
+const SOON_DAYS = 7;
+
+export const recordMaintenanceSchema = z.object({
+  // Defaults to today
+  date: dateKeySchema.optional(),
+  notes: z.string().trim().max(1000, "Notes cannot exceed 1000 characters").optional(),
+  // Condition after the maintenance, e.g. "good" once a needs-maintenance item is fixed
+  condition: z.enum(EQUIPMENT_CONDITIONS).optional(),
+});
+
+export interface MaintenanceEquipment {
+  id: number;
+  name: string;
+  category: string;
+  condition: EquipmentCondition;
+  lastMaintenanceDate: string | null;
+  purchaseDate: string | null;
+  maintenanceInterval: number | null;
+  createdAt: string;
+}
+
+export interface MaintenanceHistoryEntry {
+  equipmentId: number;
+  performedAt: string; // yyyy-MM-dd
+}
+
+export interface MaintenanceTask {
+  equipmentId: number;
+  equipmentName: string;
+  condition: EquipmentCondition;
+  lastMaintenanceDate: string | null;
+  nextMaintenanceDate: string;
+  // Negative once the task is overdue
+  daysUntilDue: number;
+  intervalDays: number;
+  tasks: string[];
+  estimatedDuration: string;
+  priority: MaintenancePriority;
+}
+
+export interface MaintenanceScheduleResult {
+  today: string;
+  overdue: MaintenanceTask[];
+  upcoming: MaintenanceTask[];
+}
+
+// Equipment dates may be stored as "yyyy-MM-dd", ISO strings or "yyyy-MM-dd hh:mm:ss"; only the day matters
+function dayOf(value: string): string {
+  return /^\d{4}-\d{2}-\d{2}/.test(value) ? value.slice(0, 10) : toDateKey(value);
+}
+
+// Average gap between recorded maintenance, once there are at least two records
+function learnedInterval(dates: string[]): number | null {
+  if (dates.length < 2) return null;
+  const sorted = [...dates].sort();
+  const span = daysBetweenKeys(sorted[0], sorted[sorted.length - 1]);
+  const average = Math.round(span / (sorted.length - 1));
+  return Math.min(MAX_LEARNED_INTERVAL_DAYS, Math.max(MIN_LEARNED_INTERVAL_DAYS, average));
+}
+
+/**
+ * Days between maintenance for one item: its own interval if set, otherwise
+ * what its history shows, otherwise the category default; then shortened
+ * for equipment in worse condition.
+ */
+export function maintenanceIntervalDays(item: MaintenanceEquipment, historyDates: string[] = []): number {
+  const base =
+    (item.maintenanceInterval && item.maintenanceInterval > 0 ? item.maintenanceInterval : null) ??
+    learnedInterval(historyDates) ??
+    CATEGORY_INTERVAL_DAYS[item.category] ??
+    DEFAULT_INTERVAL_DAYS;
+  return Math.round(base * (CONDITION_INTERVAL_FACTORS[item.condition] ?? 1));
+}
+
+// Most recent maintenance, falling back to when the item was bought or added
+function lastServicedOn(item: MaintenanceEquipment, historyDates: string[]): { date: string; maintained: boolean } {
+  const maintained = [...historyDates, ...(item.lastMaintenanceDate ? [dayOf(item.lastMaintenanceDate)] : [])].sort();
+  if (maintained.length > 0) return { date: maintained[maintained.length - 1], maintained: true };
+  return { date: dayOf(item.purchaseDate || item.createdAt), maintained: false };
+}
+
+export function maintenanceTasksFor(item: Pick<MaintenanceEquipment, "name" | "category" | "condition">): string[] {
+  const name = item.name.toLowerCase();
+  let tasks: string[];
+  if (name.includes("processor") || name.includes("blender")) {
+    tasks = ["Clean blades and check them for chips", "Check all connections and attachments", "Test all speed settings", "Check the lid seal"];
+  } else if (name.includes("knife") || item.category === "Cutlery") {
+    tasks = ["Sharpen the blade", "Check the handle for cracks or looseness", "Clean and dry completely"];
+  } else if (name.includes("cast iron") || name.includes("skillet")) {
+    tasks = ["Re-season the cooking surface", "Check for rust spots", "Make sure the handle is secure"];
+  } else if (name.includes("mixer")) {
+    tasks = ["Clean all attachments and the bowl", "Check the power cord for damage", "Test all speed settings", "Lubricate moving parts if needed"];
+  } else if (item.category === "Appliances") {
+    tasks = [`Deep clean the ${item.name}`, "Check the power cord and plug", "Descale or clear any filters", "Test all settings"];
+  } else if (item.category === "Cookware" || item.category === "Bakeware") {
+    tasks = ["Check the coating or surface for damage", "Make sure handles are secure", "Deep clean baked-on residue"];
+  } else {
+    tasks = [`Clean the ${item.name} thoroughly`, "Inspect for wear and damage"];
+  }
+
+  if (item.condition === "needs-maintenance") tasks.unshift("Fix the reported problem before next use");
+  if (item.condition === "replace") tasks.unshift(`Replace or retire the ${item.name}`);
+  return tasks;
+}
+
+function taskPriority(condition: EquipmentCondition, daysUntilDue: number): MaintenancePriority {
+  if (condition === "needs-maintenance" || condition === "replace" || daysUntilDue < 0) return "high";
+  if (condition === "fair" || daysUntilDue <= SOON_DAYS) return "medium";
+  return "low";
+}
+
+export function scheduleMaintenance(item: MaintenanceEquipment, historyDates: string[], today: string): MaintenanceTask {
+  const intervalDays = maintenanceIntervalDays(item, historyDates);
+  const last = lastServicedOn(item, historyDates);
+  const nextMaintenanceDate = addDaysToKey(last.date, intervalDays);
+  const daysUntilDue = daysBetweenKeys(today, nextMaintenanceDate);
+  const tasks = maintenanceTasksFor(item);
+  return {
+    equipmentId: item.id,
+    equipmentName: item.name,
+    condition: item.condition,
+    lastMaintenanceDate: last.maintained ? last.date : null,
+    nextMaintenanceDate,
+    daysUntilDue,
+    intervalDays,
+    tasks,
+    estimatedDuration: `${Math.max(30, tasks.length * 15)} minutes`,
+    priority: taskPriority(item.condition, daysUntilDue),
+  };
+}
+
+/**
+ * Overdue tasks (most overdue first) and tasks due within `horizonDays`
+ * (soonest first), computed from each item's interval, condition and
+ * maintenance history. Items due later than the horizon are left out.
+ */
+export function buildMaintenanceSchedule(
+  equipment: MaintenanceEquipment[],
+  history: MaintenanceHistoryEntry[],
+  today: string,
+  horizonDays: number = DEFAULT_MAINTENANCE_HORIZON_DAYS
+): MaintenanceScheduleResult {
+  const historyByEquipment = new Map<number, string[]>();
+  for (const entry of history) {
+    const dates = historyByEquipment.get(entry.equipmentId) ?? [];
+    dates.push(dayOf(entry.performedAt));
+    historyByEquipment.set(entry.equipmentId, dates);
+  }
+
+  const tasks = equipment
+    .map(item => scheduleMaintenance(item, historyByEquipment.get(item.id) ?? [], today))
+    .sort((a, b) => a.daysUntilDue - b.daysUntilDue);
+  return {
+    today,
+    overdue: tasks.filter(task => task.daysUntilDue < 0),
+    upcoming: tasks.filter(task => task.daysUntilDue >= 0 && task.daysUntilDue <= horizonDays),
+  };
+}
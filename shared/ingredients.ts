@@ -0,0 +1,321 @@
+import { z } from "zod";
+import {
+  lookupUnit,
+  lookupIngredientUnit,
+  parseQuantity,
+  getUnitFamily,
+  simplifyQuantity,
+  formatAmount,
+  formatRecipeQuantity,
+  type ParsedQuantity,
+} from "./units";
+
+export interface ParsedIngredient {
+  // The original line, e.g. "2 cups flour, sifted"
+  text: string;
+  name: string;
+  quantity: ParsedQuantity | null;
+}
+
+const AMOUNT_PATTERN = /^(\d+\s+\d+\/\d+|\d+\/\d+|\d*\s*[¼½¾⅓⅔⅛⅜⅝⅞]|\d+(?:[.,]\d+)?|[.,]\d+)\s*/;
+
+/**
+ * Splits a free-text ingredient line into an amount, unit and name. Lines
+ * without a leading amount ("salt to taste") come back with a null quantity.
+ */
+export function parseIngredientLine(line: string): ParsedIngredient {
+  const text = line.trim();
+  // Preparation notes after a comma or in brackets aren't part of the name
+  let rest = text.replace(/\([^)]*\)/g, " ").split(",")[0].trim();
+
+  let quantity: ParsedQuantity | null = null;
+  const amountMatch = rest.match(AMOUNT_PATTERN);
+  if (amountMatch) {
+    rest = rest.slice(amountMatch[0].length);
+    const words = rest.split(/\s+/);
+    // Two-word units ("fl oz", "fluid ounces") before single words; kitchen units ("2 cloves garlic") count too
+    const twoWordUnit = words.length > 2 ? lookupUnit(words.slice(0, 2).join(" ")) : null;
+    const oneWordUnit = words.length > 1 ? lookupIngredientUnit(words[0]) : null;
+    const unitWords = twoWordUnit ? 2 : oneWordUnit ? 1 : 0;
+    quantity = parseQuantity(`${amountMatch[1]} ${words.slice(0, unitWords).join(" ")}`);
+    rest = words.slice(unitWords).join(" ").replace(/^of\s+/i, "");
+  }
+
+  return { text, name: rest.trim().toLowerCase(), quantity };
+}
+
+/**
+ * Lower-cased, singular form of an item name for matching ingredients against
+ * pantry items ("Roma Tomatoes" -> "roma tomato").
+ */
+export function normalizeItemName(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/[^a-z0-9\s]/g, " ")
+    .replace(/\s+/g, " ")
+    .trim()
+    .split(" ")
+    .map(word => word
+      .replace(/ies$/, "y")
+      // "peaches" and "tomatoes" lose "es", "cheeses" only its "s"
+      .replace(/(?<=(?:ss|x|z|ch|sh|o))es$/, "")
+      .replace(/(?<=[a-z]{2}[^s])s$/, ""))
+    .join(" ");
+}
+
+// Exact match, or one name contained in the other on word boundaries ("flour" ~ "plain flour")
+export function itemNamesMatch(a: string, b: string): boolean {
+  const left = normalizeItemName(a);
+  const right = normalizeItemName(b);
+  if (!left || !right) return false;
+  if (left === right) return true;
+  return ` ${left} `.includes(` ${right} `) || ` ${right} `.includes(` ${left} `);
+}
+
+/**
+ * Multiplies the leading amount of an ingredient line, keeping the rest of the
+ * line as written ("2 cups flour, sifted" x1.5 -> "3 cups flour, sifted").
+ * Measured amounts move to a friendlier unit when they outgrow theirs
+ * ("2 tbsp" x2 -> "1/4 cup") and are written as kitchen fractions. Lines
+ * without an amount are returned unchanged.
+ */
+export function scaleIngredientLine(line: string, factor: number): string {
+  const text = line.trim();
+  if (factor === 1) return text;
+  const amountMatch = text.match(AMOUNT_PATTERN);
+  const amount = amountMatch ? parseQuantity(amountMatch[1])?.amount : undefined;
+  if (!amountMatch || amount === undefined) return text;
+
+  const rest = text.slice(amountMatch[0].length);
+  const words = rest.split(/\s+/);
+  // Same unit lookup as parseIngredientLine, so "fl oz" wins over "fl"
+  const twoWordUnit = words.length > 2 ? lookupUnit(words.slice(0, 2).join(" ")) : null;
+  const oneWordUnit = words.length > 1 ? lookupUnit(words[0]) : null;
+  const unit = twoWordUnit ?? oneWordUnit;
+  if (!unit) return `${formatAmount(amount * factor)} ${rest}`;
+
+  const unitWords = twoWordUnit ? 2 : 1;
+  const scaled = simplifyQuantity({ amount: amount * factor, unit, family: getUnitFamily(unit) });
+  return `${formatRecipeQuantity(scaled)} ${words.slice(unitWords).join(" ")}`;
+}
+
+/**
+ * A recipe's ingredient lines for a different number of servings than it
+ * makes, e.g. halving a recipe that serves 4 to serve 2.
+ */
+export function scaleIngredients(lines: string[], fromServings: number, toServings: number): string[] {
+  const factor = fromServings > 0 ? toServings / fromServings : 1;
+  return lines.map(line => scaleIngredientLine(line, factor));
+}
+
+/**
+ * One ingredient of a recipe as stored in `recipes.ingredients` and
+ * `culturalRecipes.authenticIngredients`.
+ */
+export interface RecipeIngredient {
+  name: string;
+  quantity: number | null;
+  // Canonical unit ("cup", "g"), a kitchen unit ("clove"), or null for plain counts and "to taste"
+  unit: string | null;
+  note: string | null; // preparation, e.g. "finely chopped"
+  optional: boolean;
+  section: string | null; // e.g. "For the sauce"
+}
+
+export const recipeIngredientSchema = z.object({
+  name: z.string().trim().min(1, "Ingredient name is required"),
+  quantity: z.number().positive().nullable().default(null),
+  unit: z.string().trim().min(1).nullable().default(null),
+  note: z.string().trim().nullable().default(null),
+  optional: z.boolean().default(false),
+  section: z.string().trim().nullable().default(null),
+});
+
+const RANGE_PATTERN = /^(\d+(?:[.,]\d+)?)\s*(?:-|–|to)\s*(\d+(?:[.,]\d+)?)\s*/;
+
+function pluralizeUnit(unit: string): string {
+  return /(?:ch|sh|s|x)$/.test(unit) ? `${unit}es` : `${unit}s`;
+}
+
+// "For the sauce:", "## Dressing" or "Topping:" start a new section of the ingredient list
+function parseSectionHeader(line: string): string | null {
+  const text = line.trim();
+  if (!text || AMOUNT_PATTERN.test(text)) return null;
+  const heading = text.match(/^#+\s*(.+)$/);
+  if (heading) return heading[1].replace(/:\s*$/, "").trim();
+  if (/:\s*$/.test(text)) return text.replace(/:\s*$/, "").trim();
+  if (/^for (?:the )?\w+(?:\s\w+){0,2}$/i.test(text)) return text;
+  return null;
+}
+
+/**
+ * Reads a free-text ingredient line into its parts, tolerating the ways
+ * people write them: fractions and ranges ("2-3 cloves"), "a pinch of",
+ * preparation notes after a comma or in brackets, and "(optional)". Returns
+ * null for blank lines.
+ */
+export function parseRecipeIngredient(line: string, section: string | null = null): RecipeIngredient | null {
+  let text = line.trim().replace(/^[-*•]\s+/, "");
+  if (!text) return null;
+
+  let optional = false;
+  const notes: string[] = [];
+  text = text.replace(/^optional:?\s+/i, () => {
+    optional = true;
+    return "";
+  });
+  text = text.replace(/\(([^)]*)\)/g, (_, inner: string) => {
+    if (/^\s*optional\s*$/i.test(inner)) optional = true;
+    else if (inner.trim()) notes.push(inner.trim());
+    return " ";
+  });
+  const [main, ...details] = text.split(",");
+  for (const detail of details) {
+    const value = detail.trim();
+    if (/^optional$/i.test(value)) optional = true;
+    else if (value) notes.push(value);
+  }
+
+  let rest = main.replace(/\s+/g, " ").trim();
+  let quantity: number | null = null;
+  let unit: string | null = null;
+
+  // Ranges use the upper amount, so there's always enough
+  const range = rest.match(RANGE_PATTERN);
+  const amountMatch = range ? null : rest.match(AMOUNT_PATTERN);
+  const article = rest.match(/^an?\s+(?=\S+\s+\S)/i);
+  if (range) {
+    quantity = Number(range[2].replace(",", "."));
+    rest = rest.slice(range[0].length);
+  } else if (amountMatch) {
+    quantity = parseQuantity(amountMatch[1])?.amount ?? null;
+    rest = rest.slice(amountMatch[0].length);
+  } else if (article) {
+    // "a pinch of salt" is one pinch, but "a few leaves" isn't a quantity
+    const word = rest.slice(article[0].length).split(" ")[0];
+    if (lookupIngredientUnit(word)) {
+      quantity = 1;
+      rest = rest.slice(article[0].length);
+    }
+  }
+
+  if (quantity !== null) {
+    const words = rest.split(" ");
+    // Two-word units ("fl oz", "fluid ounces") before single words
+    const twoWordUnit = words.length > 2 ? lookupUnit(words.slice(0, 2).join(" ")) : null;
+    const oneWordUnit = words.length > 1 ? lookupIngredientUnit(words[0]) : null;
+    unit = twoWordUnit ?? oneWordUnit;
+    rest = words.slice(twoWordUnit ? 2 : oneWordUnit ? 1 : 0).join(" ").replace(/^of\s+/i, "");
+  }
+
+  const name = rest.trim();
+  if (!name) return null;
+  return { name, quantity, unit, note: notes.length > 0 ? notes.join(", ") : null, optional, section };
+}
+
+// A structured ingredient's amount for the unit helpers, e.g. { amount: 2, unit: "clove" }; null for "to taste"
+export function recipeIngredientQuantity(ingredient: RecipeIngredient): ParsedQuantity | null {
+  if (ingredient.quantity === null || ingredient.quantity === undefined || !(ingredient.quantity > 0)) return null;
+  const unit = parseQuantity(`1 ${ingredient.unit ?? ""}`.trim());
+  return unit && { ...unit, amount: ingredient.quantity };
+}
+
+// Back to a single line, e.g. "1 1/2 cups flour, sifted (optional)"
+export function formatRecipeIngredient(ingredient: RecipeIngredient): string {
+  let amount = "";
+  if (ingredient.quantity !== null && ingredient.quantity !== undefined) {
+    const unit = ingredient.unit ? lookupUnit(ingredient.unit) : null;
+    if (unit) {
+      amount = formatRecipeQuantity({ amount: ingredient.quantity, unit, family: getUnitFamily(unit) });
+    } else if (ingredient.unit) {
+      const label = ingredient.quantity > 1 ? pluralizeUnit(ingredient.unit) : ingredient.unit;
+      amount = `${formatAmount(ingredient.quantity)} ${label}`;
+    } else {
+      amount = formatAmount(ingredient.quantity);
+    }
+  }
+  const line = [amount, ingredient.name].filter(Boolean).join(" ");
+  return `${line}${ingredient.note ? `, ${ingredient.note}` : ""}${ingredient.optional ? " (optional)" : ""}`;
+}
+
+function fromLegacyEntry(key: string, value: unknown, section: string | null): RecipeIngredient | null {
+  const amount = typeof value === "string" || typeof value === "number" ? String(value).trim() : "";
+  // Lists saved as { "0": "2 cups rice", ... }
+  if (/^\d+$/.test(key)) return parseRecipeIngredient(amount, section);
+  if (!amount || AMOUNT_PATTERN.test(amount)) return parseRecipeIngredient(`${amount} ${key}`, section);
+  const parsed = parseRecipeIngredient(key, section);
+  return parsed && { ...parsed, note: [parsed.note, amount].filter(Boolean).join(", ") };
+}
+
+/**
+ * Structured ingredients from whatever a recipe has stored: structured
+ * entries, legacy strings (with section header lines), the { ingredient:
+ * amount } objects older cultural recipes use, or AI output shaped
+ * { amount, item, notes }. Anything unreadable is dropped.
+ */
+export function toRecipeIngredients(value: unknown): RecipeIngredient[] {
+  const ingredients: RecipeIngredient[] = [];
+  let section: string | null = null;
+  const add = (ingredient: RecipeIngredient | null) => {
+    if (ingredient) ingredients.push(ingredient);
+  };
+
+  if (Array.isArray(value)) {
+    for (const item of value) {
+      if (typeof item === "string") {
+        const header = parseSectionHeader(item);
+        if (header !== null) section = header;
+        else add(parseRecipeIngredient(item, section));
+      } else if (item && typeof item === "object" && typeof (item as any).item === "string") {
+        const { amount, item: name, notes } = item as { amount?: unknown; item: string; notes?: unknown };
+        const parsed = fromLegacyEntry(name, amount, section);
+        add(parsed && typeof notes === "string" && notes.trim()
+          ? { ...parsed, note: [parsed.note, notes.trim()].filter(Boolean).join(", ") }
+          : parsed);
+      } else {
+        const parsed = recipeIngredientSchema.safeParse(item);
+        if (parsed.success) add(parsed.data as RecipeIngredient);
+      }
+    }
+  } else if (value && typeof value === "object") {
+    for (const [key, amount] of Object.entries(value)) add(fromLegacyEntry(key, amount, null));
+  }
+  return ingredients;
+}
+
+// One line per ingredient, for code that works on text (pantry matching, nutrition, prompts)
+export function ingredientLines(value: unknown): string[] {
+  return toRecipeIngredients(value).map(formatRecipeIngredient);
+}
+
+// Lines for editing, with a "Section:" header line wherever the section changes
+export function formatIngredientList(ingredients: RecipeIngredient[]): string[] {
+  const lines: string[] = [];
+  let section: string | null = null;
+  for (const ingredient of ingredients) {
+    if ((ingredient.section ?? null) !== section) {
+      section = ingredient.section ?? null;
+      if (section) lines.push(`${section}:`);
+    }
+    lines.push(formatRecipeIngredient(ingredient));
+  }
+  return lines;
+}
+
+// Structured counterpart of scaleIngredients
+export function scaleRecipeIngredients(
+  ingredients: RecipeIngredient[],
+  fromServings: number,
+  toServings: number
+): RecipeIngredient[] {
+  const factor = fromServings > 0 ? toServings / fromServings : 1;
+  if (factor === 1) return ingredients;
+  return ingredients.map(ingredient => {
+    if (ingredient.quantity === null || ingredient.quantity === undefined) return ingredient;
+    const amount = ingredient.quantity * factor;
+    const unit = ingredient.unit ? lookupUnit(ingredient.unit) : null;
+    if (!unit) return { ...ingredient, quantity: Math.round(amount * 1000) / 1000 };
+    const scaled = simplifyQuantity({ amount, unit, family: getUnitFamily(unit) });
+    return { ...ingredient, quantity: Math.round(scaled.amount * 1000) / 1000, unit: scaled.unit };
+  });
+}
@@ -0,0 +1,134 @@
+import { z } from "zod";
+import { MEAL_SLOT_TYPES, type MealSlotType } from "./meal-plans";
+
+export interface MacroAmounts {
+  calories: number;
+  protein: number;
+  carbs: number;
+  fat: number;
+}
+
+// Percent of each daily target given to each meal; always adds up to 100
+export type MealSplit = Record<MealSlotType, number>;
+
+export const DEFAULT_MEAL_SPLIT: MealSplit = { breakfast: 25, lunch: 35, dinner: 30, snack: 10 };
+
+export const mealSplitSchema = z
+  .object({
+    breakfast: z.number().min(0).max(100),
+    lunch: z.number().min(0).max(100),
+    dinner: z.number().min(0).max(100),
+    snack: z.number().min(0).max(100),
+  })
+  .refine(
+    split => Math.abs(MEAL_SLOT_TYPES.reduce((sum, meal) => sum + (split[meal] ?? 0), 0) - 100) < 0.01,
+    "Meal shares must add up to 100%"
+  );
+
+// Budget fits are counted in half servings, the smallest portion the recipe UI logs
+export const BUDGET_SERVING_STEP = 0.5;
+export const MAX_BUDGET_SERVINGS = 10;
+
+type DailyTargets = { dailyCalories: number; dailyProtein: number; dailyCarbs: number; dailyFat: number };
+
+export interface MealBudgetStatus {
+  mealType: MealSlotType;
+  share: number;
+  budget: MacroAmounts;
+  eaten: MacroAmounts;
+  // What still fits in this meal without going over the meal's or the day's budget
+  remaining: MacroAmounts;
+}
+
+export interface MealBudgets {
+  meals: MealBudgetStatus[];
+  day: { budget: MacroAmounts; eaten: MacroAmounts; remaining: MacroAmounts };
+}
+
+const MACROS: (keyof MacroAmounts)[] = ["calories", "protein", "carbs", "fat"];
+
+export const EMPTY_MACROS: MacroAmounts = { calories: 0, protein: 0, carbs: 0, fat: 0 };
+
+function round(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+function mapMacros(fn: (macro: keyof MacroAmounts) => number): MacroAmounts {
+  return {
+    calories: fn("calories"),
+    protein: fn("protein"),
+    carbs: fn("carbs"),
+    fat: fn("fat"),
+  };
+}
+
+export function getMealSplit(split: Partial<MealSplit> | null | undefined): MealSplit {
+  const parsed = mealSplitSchema.safeParse(split);
+  return parsed.success ? (parsed.data as MealSplit) : DEFAULT_MEAL_SPLIT;
+}
+
+export function getMealBudget(goal: DailyTargets, share: number): MacroAmounts {
+  return {
+    calories: Math.round((goal.dailyCalories * share) / 100),
+    protein: Math.round((goal.dailyProtein * share) / 100),
+    carbs: Math.round((goal.dailyCarbs * share) / 100),
+    fat: Math.round((goal.dailyFat * share) / 100),
+  };
+}
+
+/**
+ * Each meal's share of the daily targets next to what was eaten in it. A
+ * meal's remaining budget is capped by what's left of the whole day, so an
+ * overeaten lunch shrinks dinner too. Entries without a meal type count
+ * towards the day only.
+ */
+export function buildMealBudgets(
+  goal: DailyTargets & { mealSplit?: Partial<MealSplit> | null },
+  eatenByMeal: Partial<Record<MealSlotType, MacroAmounts>>,
+  eatenToday: MacroAmounts
+): MealBudgets {
+  const split = getMealSplit(goal.mealSplit);
+  const dayBudget = getMealBudget(goal, 100);
+  const dayRemaining = mapMacros(macro => Math.max(0, round(dayBudget[macro] - eatenToday[macro])));
+
+  const meals = MEAL_SLOT_TYPES.map(mealType => {
+    const budget = getMealBudget(goal, split[mealType]);
+    const eaten = eatenByMeal[mealType] ?? EMPTY_MACROS;
+    return {
+      mealType,
+      share: split[mealType],
+      budget,
+      eaten: mapMacros(macro => round(eaten[macro])),
+      remaining: mapMacros(macro => Math.max(0, Math.min(round(budget[macro] - eaten[macro]), dayRemaining[macro]))),
+    };
+  });
+
+  return {
+    meals,
+    day: { budget: dayBudget, eaten: mapMacros(macro => round(eatenToday[macro])), remaining: dayRemaining },
+  };
+}
+
+/**
+ * Most servings of a recipe, in half-serving steps, that stay within a
+ * remaining budget, up to MAX_BUDGET_SERVINGS. Calories, carbs and fat are
+ * limits; protein isn't, since going over a protein target is rarely a reason
+ * to skip a meal.
+ */
+export function maxServingsWithin(perServing: Partial<MacroAmounts>, remaining: MacroAmounts): number {
+  let servings = MAX_BUDGET_SERVINGS;
+  for (const macro of MACROS) {
+    if (macro === "protein" || !(perServing[macro] > 0)) continue;
+    const steps = Math.floor(remaining[macro] / perServing[macro] / BUDGET_SERVING_STEP + 1e-9);
+    servings = Math.min(servings, steps * BUDGET_SERVING_STEP);
+  }
+  return Math.max(0, servings);
+}
+
+// The meal someone is most likely planning at a given local hour
+export function mealTypeForHour(hour: number): MealSlotType {
+  if (hour < 10) return "breakfast";
+  if (hour < 15) return "lunch";
+  if (hour < 21) return "dinner";
+  return "snack";
+}
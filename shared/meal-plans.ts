@@ -0,0 +1,229 @@
+import { z } from "zod";
+import type { Recipe } from "./schema";
+import { micronutrientsSchema, addMicronutrients, scaleMicronutrients, cleanMicronutrients } from "./nutrients";
+
+export const MEAL_SLOT_TYPES = ["breakfast", "lunch", "dinner", "snack"] as const;
+export type MealSlotType = typeof MEAL_SLOT_TYPES[number];
+
+export const slotNutritionSchema = z.object({
+  calories: z.number().min(0),
+  protein: z.number().min(0),
+  carbs: z.number().min(0),
+  fat: z.number().min(0),
+  micronutrients: micronutrientsSchema.optional(),
+});
+
+export type SlotNutrition = z.infer<typeof slotNutritionSchema>;
+
+// One breakfast/lunch/dinner/snack entry in `mealPlans.meals`
+export const mealSlotSchema = z.object({
+  title: z.string(),
+  description: z.string(),
+  // At most one of these is set; the linked recipe is the source of truth for title and macros
+  recipeId: z.number().int().positive().nullable().optional(),
+  culturalRecipeId: z.number().int().positive().nullable().optional(),
+  servings: z.number().positive().default(1),
+  // Macros for the whole slot, i.e. already multiplied by servings
+  nutrition: slotNutritionSchema.optional(),
+  // Free-text macros from older AI plans, e.g. "450 kcal, 20g protein, 50g carbs, 15g fat"
+  nutritionalInfo: z.string().optional(),
+  preparationTime: z.string().optional(),
+  ingredients: z.array(z.string()).optional(),
+  instructions: z.array(z.string()).optional(),
+});
+
+export type MealSlot = z.infer<typeof mealSlotSchema>;
+
+export const mealPlanDaySchema = z.object({
+  day: z.number().min(1),
+  meals: z.object({
+    breakfast: mealSlotSchema,
+    lunch: mealSlotSchema,
+    dinner: mealSlotSchema,
+    snacks: z.array(mealSlotSchema).optional(),
+  }),
+  totalCalories: z.number().optional(),
+  nutritionSummary: z.string().optional(),
+});
+
+export type MealPlanDay = z.infer<typeof mealPlanDaySchema>;
+
+export interface MealSlotRef {
+  type: MealSlotType;
+  // Position within the day's snacks; 0 for the other slot types
+  index: number;
+  slot: MealSlot;
+}
+
+const EMPTY_NUTRITION: SlotNutrition = { calories: 0, protein: 0, carbs: 0, fat: 0 };
+
+export function parseNutritionString(nutritionStr: string | undefined): SlotNutrition {
+  if (!nutritionStr) return { ...EMPTY_NUTRITION };
+  const read = (pattern: RegExp) => {
+    const match = nutritionStr.match(pattern);
+    return match ? parseFloat(match[1]) : 0;
+  };
+  return {
+    calories: read(/(\d+(?:\.\d+)?)\s*kcal/i),
+    protein: read(/(\d+(?:\.\d+)?)\s*g\s*protein/i),
+    carbs: read(/(\d+(?:\.\d+)?)\s*g\s*carbs/i),
+    fat: read(/(\d+(?:\.\d+)?)\s*g\s*fat/i),
+  };
+}
+
+export function formatNutrition(nutrition: SlotNutrition): string {
+  return `${Math.round(nutrition.calories)} kcal, ${Math.round(nutrition.protein)}g protein, ${Math.round(nutrition.carbs)}g carbs, ${Math.round(nutrition.fat)}g fat`;
+}
+
+// Macros for one serving, plus whichever micronutrients the recipe lists
+export function recipeNutrition(recipe: Recipe): SlotNutrition {
+  const info = (recipe.nutritionInfo ?? {}) as Partial<SlotNutrition>;
+  const nutrition: SlotNutrition = {
+    calories: Number(info.calories) || 0,
+    protein: Number(info.protein) || 0,
+    carbs: Number(info.carbs) || 0,
+    fat: Number(info.fat) || 0,
+  };
+  const micronutrients = cleanMicronutrients(info.micronutrients);
+  if (Object.keys(micronutrients).length > 0) nutrition.micronutrients = micronutrients;
+  return nutrition;
+}
+
+export function scaleNutrition(nutrition: SlotNutrition, factor: number): SlotNutrition {
+  const scaled: SlotNutrition = {
+    calories: nutrition.calories * factor,
+    protein: nutrition.protein * factor,
+    carbs: nutrition.carbs * factor,
+    fat: nutrition.fat * factor,
+  };
+  if (nutrition.micronutrients) scaled.micronutrients = scaleMicronutrients(nutrition.micronutrients, factor);
+  return scaled;
+}
+
+export function addNutrition(a: SlotNutrition, b: SlotNutrition): SlotNutrition {
+  const total: SlotNutrition = {
+    calories: a.calories + b.calories,
+    protein: a.protein + b.protein,
+    carbs: a.carbs + b.carbs,
+    fat: a.fat + b.fat,
+  };
+  if (a.micronutrients || b.micronutrients) total.micronutrients = addMicronutrients(a.micronutrients, b.micronutrients);
+  return total;
+}
+
+// Structured macros when the slot has them, otherwise whatever the legacy string says
+export function getSlotNutrition(slot: Partial<MealSlot> | undefined | null): SlotNutrition {
+  if (!slot) return { ...EMPTY_NUTRITION };
+  return slot.nutrition ?? parseNutritionString(slot.nutritionalInfo);
+}
+
+export function listMealSlots(day: Partial<MealPlanDay> | undefined | null): MealSlotRef[] {
+  const meals = day?.meals;
+  if (!meals) return [];
+  const refs: MealSlotRef[] = [];
+  for (const type of ["breakfast", "lunch", "dinner"] as const) {
+    if (meals[type]) refs.push({ type, index: 0, slot: meals[type] });
+  }
+  (meals.snacks ?? []).forEach((slot, index) => refs.push({ type: "snack", index, slot }));
+  return refs;
+}
+
+export function getDayNutrition(day: Partial<MealPlanDay> | undefined | null): SlotNutrition {
+  return listMealSlots(day).reduce((total, { slot }) => addNutrition(total, getSlotNutrition(slot)), { ...EMPTY_NUTRITION });
+}
+
+// Recurring plans repeat a one- or two-week template over the whole date range
+export const ROTATION_LENGTHS = [7, 14] as const;
+export type RotationLength = typeof ROTATION_LENGTHS[number];
+
+// Upper bound on a single plan, recurring or not
+export const MAX_MEAL_PLAN_DAYS = 366;
+
+// Most days generated for one plan (each week is a separate AI request); longer plans repeat a rotation
+export const MAX_GENERATED_PLAN_DAYS = 28;
+
+// Calendar dates are handled as "yyyy-MM-dd" keys so a plan's days don't shift with time zones
+export const dateKeySchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Use a yyyy-MM-dd date");
+
+// Whole-day replacements for single dates, keyed by date
+export const mealPlanOverridesSchema = z.record(dateKeySchema, mealPlanDaySchema.shape.meals);
+export type MealPlanOverrides = z.infer<typeof mealPlanOverridesSchema>;
+
+export interface MealPlanSchedule {
+  startDate: Date | string;
+  endDate: Date | string;
+  meals: unknown;
+  rotationDays?: number | null;
+  overrides?: unknown;
+}
+
+export interface ScheduledDay {
+  date: string;
+  // Position in the plan, starting at 1
+  dayNumber: number;
+  // The template day this date is based on
+  templateDay: number;
+  day: MealPlanDay;
+  overridden: boolean;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function toDateKey(date: Date | string): string {
+  if (typeof date === "string" && /^\d{4}-\d{2}-\d{2}$/.test(date)) return date;
+  return new Date(date).toISOString().slice(0, 10);
+}
+
+export function addDaysToKey(key: string, days: number): string {
+  return new Date(Date.parse(key) + days * DAY_MS).toISOString().slice(0, 10);
+}
+
+export function daysBetweenKeys(from: string, to: string): number {
+  return Math.round((Date.parse(to) - Date.parse(from)) / DAY_MS);
+}
+
+// Number of calendar days a plan covers, counting both ends
+export function getPlanLength(plan: Pick<MealPlanSchedule, "startDate" | "endDate">): number {
+  return daysBetweenKeys(toDateKey(plan.startDate), toDateKey(plan.endDate)) + 1;
+}
+
+export function isDateInPlan(plan: Pick<MealPlanSchedule, "startDate" | "endDate">, date: Date | string): boolean {
+  const offset = daysBetweenKeys(toDateKey(plan.startDate), toDateKey(date));
+  return offset >= 0 && offset < getPlanLength(plan);
+}
+
+/**
+ * What a plan has on one date: the override for that date if there is one,
+ * otherwise the template day the rotation (or the plain day sequence) lands on.
+ * Returns null outside the plan's range or when the template has no such day.
+ */
+export function resolvePlanDay(plan: MealPlanSchedule, date: Date | string): ScheduledDay | null {
+  const key = toDateKey(date);
+  if (!isDateInPlan(plan, key)) return null;
+  const offset = daysBetweenKeys(toDateKey(plan.startDate), key);
+
+  const rotationDays = plan.rotationDays ?? null;
+  const templateDay = rotationDays ? (offset % rotationDays) + 1 : offset + 1;
+  const days = Array.isArray(plan.meals) ? (plan.meals as MealPlanDay[]) : [];
+  const template = days.find(day => day.day === templateDay);
+  const override = ((plan.overrides ?? {}) as Record<string, MealPlanDay["meals"]>)[key];
+
+  if (override) {
+    const day: MealPlanDay = { day: templateDay, meals: override };
+    day.totalCalories = Math.round(getDayNutrition(day).calories);
+    return { date: key, dayNumber: offset + 1, templateDay, day, overridden: true };
+  }
+  if (!template) return null;
+  return { date: key, dayNumber: offset + 1, templateDay, day: template, overridden: false };
+}
+
+// Every date of the plan in order, with rotations expanded and overrides applied
+export function listPlanDays(plan: MealPlanSchedule): ScheduledDay[] {
+  const start = toDateKey(plan.startDate);
+  const scheduled: ScheduledDay[] = [];
+  for (let offset = 0; offset < getPlanLength(plan); offset++) {
+    const resolved = resolvePlanDay(plan, addDaysToKey(start, offset));
+    if (resolved) scheduled.push(resolved);
+  }
+  return scheduled;
+}
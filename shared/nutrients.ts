@@ -0,0 +1,110 @@
+import { z } from "zod";
+
+// "target" nutrients are ones to reach each day; "limit" nutrients are ones to stay under
+export type MicronutrientKind = "target" | "limit";
+
+export interface MicronutrientDefinition {
+  key: string;
+  label: string;
+  unit: "g" | "mg" | "mcg";
+  kind: MicronutrientKind;
+  // Daily value used when the user hasn't set their own target
+  dailyValue: number;
+}
+
+// Daily values follow the FDA reference amounts for adults
+export const MICRONUTRIENTS = [
+  { key: "fiber", label: "Fiber", unit: "g", kind: "target", dailyValue: 28 },
+  { key: "sugar", label: "Sugar", unit: "g", kind: "limit", dailyValue: 50 },
+  { key: "saturatedFat", label: "Saturated fat", unit: "g", kind: "limit", dailyValue: 20 },
+  { key: "sodium", label: "Sodium", unit: "mg", kind: "limit", dailyValue: 2300 },
+  { key: "cholesterol", label: "Cholesterol", unit: "mg", kind: "limit", dailyValue: 300 },
+  { key: "potassium", label: "Potassium", unit: "mg", kind: "target", dailyValue: 4700 },
+  { key: "calcium", label: "Calcium", unit: "mg", kind: "target", dailyValue: 1300 },
+  { key: "iron", label: "Iron", unit: "mg", kind: "target", dailyValue: 18 },
+  { key: "vitaminA", label: "Vitamin A", unit: "mcg", kind: "target", dailyValue: 900 },
+  { key: "vitaminC", label: "Vitamin C", unit: "mg", kind: "target", dailyValue: 90 },
+  { key: "vitaminD", label: "Vitamin D", unit: "mcg", kind: "target", dailyValue: 20 },
+] as const;
+
+export type MicronutrientKey = typeof MICRONUTRIENTS[number]["key"];
+
+export const MICRONUTRIENT_KEYS = MICRONUTRIENTS.map(nutrient => nutrient.key) as MicronutrientKey[];
+
+// Every nutrient is optional: a recipe or food only lists the ones it knows
+export const micronutrientsSchema = z.object(
+  Object.fromEntries(MICRONUTRIENT_KEYS.map(key => [key, z.number().min(0).optional()])) as Record<
+    MicronutrientKey,
+    z.ZodOptional<z.ZodNumber>
+  >
+);
+
+export type Micronutrients = Partial<Record<MicronutrientKey, number>>;
+
+export type MicronutrientStatus = "met" | "below" | "within" | "over";
+
+export const MICRONUTRIENT_STATUS_LABELS: Record<MicronutrientStatus, string> = {
+  met: "Met",
+  below: "Below target",
+  within: "Within limit",
+  over: "Over limit",
+};
+
+export function getMicronutrient(key: MicronutrientKey): MicronutrientDefinition {
+  return MICRONUTRIENTS.find(nutrient => nutrient.key === key)!;
+}
+
+// Known values only, so a missing nutrient stays unknown instead of reading as zero
+export function cleanMicronutrients(values: Record<string, unknown> | null | undefined): Micronutrients {
+  const cleaned: Micronutrients = {};
+  for (const key of MICRONUTRIENT_KEYS) {
+    const value = values?.[key];
+    if (value === null || value === undefined || value === "") continue;
+    const number = Number(value);
+    if (Number.isFinite(number) && number >= 0) cleaned[key] = number;
+  }
+  return cleaned;
+}
+
+export function addMicronutrients(a: Micronutrients | undefined, b: Micronutrients | undefined): Micronutrients {
+  const total: Micronutrients = { ...a };
+  for (const [key, value] of Object.entries(b ?? {}) as [MicronutrientKey, number][]) {
+    total[key] = (total[key] ?? 0) + value;
+  }
+  return total;
+}
+
+export function scaleMicronutrients(values: Micronutrients | undefined, factor: number): Micronutrients {
+  const scaled: Micronutrients = {};
+  for (const [key, value] of Object.entries(values ?? {}) as [MicronutrientKey, number][]) {
+    scaled[key] = value * factor;
+  }
+  return scaled;
+}
+
+// The user's own targets where set, the daily values otherwise
+export function getMicronutrientTargets(overrides: Micronutrients | null | undefined): Record<MicronutrientKey, number> {
+  const targets = {} as Record<MicronutrientKey, number>;
+  for (const nutrient of MICRONUTRIENTS) {
+    targets[nutrient.key] = overrides?.[nutrient.key] ?? nutrient.dailyValue;
+  }
+  return targets;
+}
+
+/**
+ * How a day's amount compares with its target. Target nutrients are "met" or
+ * "below"; limit nutrients are "within" or "over", so going past a limit such
+ * as sodium is flagged rather than celebrated.
+ */
+export function getMicronutrientStatus(key: MicronutrientKey, amount: number, target: number): MicronutrientStatus {
+  if (getMicronutrient(key).kind === "limit") {
+    return amount > target ? "over" : "within";
+  }
+  return amount >= target ? "met" : "below";
+}
+
+export function formatMicronutrient(key: MicronutrientKey, amount: number): string {
+  const { unit } = getMicronutrient(key);
+  const rounded = amount >= 10 ? Math.round(amount) : Math.round(amount * 10) / 10;
+  return `${rounded}${unit === "g" ? "g" : ` ${unit}`}`;
+}
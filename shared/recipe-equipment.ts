@@ -0,0 +1,333 @@
+import { z } from "zod";
+import type { EquipmentRecommendation, Recipe } from "./schema";
+
+export const KITCHEN_TOOLS = [
+  "oven", "stovetop", "microwave", "saucepan", "skillet", "wok", "dutch-oven", "grill-pan", "grill",
+  "baking-sheet", "baking-dish", "loaf-pan", "cake-pan", "muffin-tin", "food-processor", "blender", "mixer",
+  "slow-cooker", "pressure-cooker", "air-fryer", "waffle-iron", "thermometer", "kitchen-scale", "rolling-pin", "grater",
+] as const;
+export type KitchenTool = typeof KITCHEN_TOOLS[number];
+
+// A recipe's tool list as saved, without duplicates and in the order of KITCHEN_TOOLS
+export const requiredEquipmentSchema = z
+  .array(z.enum(KITCHEN_TOOLS))
+  .transform(tools => KITCHEN_TOOLS.filter(tool => tools.includes(tool)));
+
+interface ToolRule {
+  label: string;
+  category: string;
+  // Typical price in dollars, for purchase suggestions
+  price: [number, number];
+  terms: string[];
+  // Phrases that look like a term but aren't ("pot roast" needs no pot of its own)
+  except?: string[];
+  // Part of any kitchen, so never missing
+  builtIn?: boolean;
+}
+
+const TOOL_RULES: Record<KitchenTool, ToolRule> = {
+  oven: {
+    label: "Oven", category: "Appliances", price: [0, 0], builtIn: true,
+    terms: ["oven", "bake", "roast", "broil", "preheat"],
+    except: ["dutch oven", "toaster oven"],
+  },
+  stovetop: {
+    label: "Stovetop", category: "Appliances", price: [0, 0], builtIn: true,
+    terms: ["stove", "stovetop", "burner", "simmer", "boil", "saute", "sear", "fry"],
+    except: ["air fry"],
+  },
+  microwave: { label: "Microwave", category: "Appliances", price: [60, 200], terms: ["microwave"] },
+  saucepan: {
+    label: "Saucepan", category: "Cookware", price: [20, 80],
+    terms: ["saucepan", "sauce pan", "stockpot", "stock pot", "pot"],
+    except: ["instant pot", "crock pot", "pot roast", "pot pie"],
+  },
+  skillet: {
+    label: "Skillet", category: "Cookware", price: [25, 100],
+    terms: ["skillet", "frying pan", "fry pan", "saute pan"],
+  },
+  wok: { label: "Wok", category: "Cookware", price: [25, 80], terms: ["wok"] },
+  "dutch-oven": { label: "Dutch Oven", category: "Cookware", price: [50, 300], terms: ["dutch oven"] },
+  "grill-pan": { label: "Grill Pan", category: "Cookware", price: [25, 70], terms: ["grill pan", "griddle pan"] },
+  grill: {
+    label: "Grill", category: "Appliances", price: [100, 500],
+    terms: ["grill", "barbecue", "bbq"],
+    except: ["grill pan"],
+  },
+  "baking-sheet": {
+    label: "Baking Sheet", category: "Bakeware", price: [10, 30],
+    terms: ["baking sheet", "sheet pan", "cookie sheet", "baking tray"],
+  },
+  "baking-dish": {
+    label: "Baking Dish", category: "Bakeware", price: [15, 50],
+    terms: ["baking dish", "casserole dish", "casserole", "gratin dish", "roasting pan"],
+  },
+  "loaf-pan": { label: "Loaf Pan", category: "Bakeware", price: [10, 25], terms: ["loaf pan", "loaf tin"] },
+  "cake-pan": { label: "Cake Pan", category: "Bakeware", price: [10, 30], terms: ["cake pan", "cake tin", "springform"] },
+  "muffin-tin": {
+    label: "Muffin Tin", category: "Bakeware", price: [10, 30],
+    terms: ["muffin tin", "muffin pan", "cupcake pan", "muffin cup"],
+  },
+  "food-processor": { label: "Food Processor", category: "Appliances", price: [50, 200], terms: ["food processor"] },
+  blender: { label: "Blender", category: "Appliances", price: [30, 150], terms: ["blender"] },
+  mixer: {
+    label: "Electric Mixer", category: "Appliances", price: [30, 400],
+    terms: ["mixer", "dough hook", "paddle attachment", "whisk attachment"],
+  },
+  "slow-cooker": { label: "Slow Cooker", category: "Appliances", price: [30, 100], terms: ["slow cooker", "crock pot", "crockpot"] },
+  "pressure-cooker": {
+    label: "Pressure Cooker", category: "Appliances", price: [60, 150],
+    terms: ["pressure cooker", "instant pot", "multicooker"],
+  },
+  "air-fryer": { label: "Air Fryer", category: "Appliances", price: [50, 150], terms: ["air fryer", "air fry"] },
+  "waffle-iron": { label: "Waffle Iron", category: "Appliances", price: [25, 80], terms: ["waffle iron", "waffle maker"] },
+  thermometer: { label: "Kitchen Thermometer", category: "Utensils", price: [10, 30], terms: ["thermometer"] },
+  "kitchen-scale": { label: "Kitchen Scale", category: "Utensils", price: [15, 30], terms: ["kitchen scale", "digital scale"] },
+  "rolling-pin": { label: "Rolling Pin", category: "Utensils", price: [10, 30], terms: ["rolling pin", "roll out"] },
+  grater: { label: "Grater", category: "Utensils", price: [10, 30], terms: ["grater", "grate", "microplane", "zester"] },
+};
+
+export function toolLabel(tool: KitchenTool): string {
+  return TOOL_RULES[tool].label;
+}
+
+export function isBuiltInTool(tool: KitchenTool): boolean {
+  return TOOL_RULES[tool].builtIn === true;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+function mentions(text: string, phrase: string): boolean {
+  return new RegExp(`\\b${escapeRegExp(phrase)}(?:s|es)?\\b`).test(text);
+}
+
+// Lowercase, without accents or hyphens, so "Sauté" and "air-fry" match their terms
+function normalize(text: string): string {
+  return text
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[-_]/g, " ")
+    .replace(/\s+/g, " ");
+}
+
+function toolsMentioned(text: string): KitchenTool[] {
+  const normalized = normalize(text);
+  return KITCHEN_TOOLS.filter(tool => {
+    const rule = TOOL_RULES[tool];
+    const cleaned = (rule.except ?? []).reduce(
+      (rest, phrase) => rest.replace(new RegExp(`\\b${escapeRegExp(phrase)}s?\\b`, "g"), " "),
+      normalized
+    );
+    return rule.terms.some(term => mentions(cleaned, term));
+  });
+}
+
+// Recipe steps are stored as a list of strings, though older rows may hold a single block of text
+function instructionText(instructions: unknown): string {
+  if (typeof instructions === "string") return instructions;
+  if (!Array.isArray(instructions)) return "";
+  return instructions
+    .map(step => (typeof step === "string" ? step : typeof step?.text === "string" ? step.text : ""))
+    .join("\n");
+}
+
+// Tools a recipe calls for, read from its title and steps
+export function inferRequiredTools(title: string, instructions: unknown): KitchenTool[] {
+  return toolsMentioned(`${title}\n${instructionText(instructions)}`);
+}
+
+interface ToolRecipe {
+  title?: string;
+  name?: string;
+  instructions?: unknown;
+  requiredEquipment?: unknown;
+}
+
+/**
+ * The tools a recipe or cultural recipe needs: its saved list when it has
+ * one, otherwise inferred from its text (recipes saved before lists were
+ * recorded have none).
+ */
+export function recipeTools(recipe: ToolRecipe): KitchenTool[] {
+  if (Array.isArray(recipe.requiredEquipment)) {
+    return KITCHEN_TOOLS.filter(tool => (recipe.requiredEquipment as unknown[]).includes(tool));
+  }
+  return inferRequiredTools(recipe.title ?? recipe.name ?? "", recipe.instructions);
+}
+
+// Tools the user has, recognised from the names they gave their equipment
+export function ownedTools(equipment: { name: string }[]): Set<KitchenTool> {
+  const owned = new Set<KitchenTool>();
+  for (const item of equipment) {
+    toolsMentioned(item.name).forEach(tool => owned.add(tool));
+  }
+  return owned;
+}
+
+// Tools that would have to be bought first; built-in ones like the oven are never missing
+export function missingTools(tools: KitchenTool[], owned: Set<KitchenTool>): KitchenTool[] {
+  return tools.filter(tool => !isBuiltInTool(tool) && !owned.has(tool));
+}
+
+// Per serving, as stored on recipes
+export interface MatchNutrition {
+  calories: number;
+  protein: number;
+  carbs: number;
+  fat: number;
+}
+
+export interface RecipeEquipmentMatch {
+  id: number;
+  title: string;
+  description: string;
+  requiredEquipment: string[];
+  missingEquipment: string[];
+  nutritionInfo: MatchNutrition | null;
+}
+
+export interface EquipmentPurchase {
+  equipment: string;
+  // Titles of the recipes this one purchase would make possible
+  enabledRecipes: string[];
+}
+
+// A recipe idea from the AI service rather than the user's library, so it has no id
+export type SuggestedRecipe = Omit<RecipeEquipmentMatch, "id">;
+
+export interface RecipeEquipmentMatches {
+  possibleRecipes: RecipeEquipmentMatch[];
+  recommendedPurchases: EquipmentPurchase[];
+  // Empty when the AI service is unavailable
+  suggestedRecipes: SuggestedRecipe[];
+}
+
+/**
+ * Splits the user's recipes into those their equipment can already make and
+ * those missing exactly one tool, which become purchase suggestions (most
+ * recipes enabled first). Recipes missing two or more tools are left out.
+ */
+export function matchRecipesToEquipment(
+  recipes: Recipe[],
+  equipment: { name: string }[]
+): Omit<RecipeEquipmentMatches, "suggestedRecipes"> {
+  const owned = ownedTools(equipment);
+  const possibleRecipes: RecipeEquipmentMatch[] = [];
+  const enabledBy = new Map<KitchenTool, string[]>();
+
+  for (const recipe of recipes) {
+    const tools = recipeTools(recipe);
+    const missing = missingTools(tools, owned);
+    if (missing.length === 0) {
+      possibleRecipes.push({
+        id: recipe.id,
+        title: recipe.title,
+        description: recipe.description,
+        requiredEquipment: tools.map(toolLabel),
+        missingEquipment: [],
+        nutritionInfo: recipe.nutritionInfo,
+      });
+    } else if (missing.length === 1) {
+      const titles = enabledBy.get(missing[0]) ?? [];
+      titles.push(recipe.title);
+      enabledBy.set(missing[0], titles);
+    }
+  }
+
+  const recommendedPurchases = Array.from(enabledBy, ([tool, enabledRecipes]) => ({ equipment: toolLabel(tool), enabledRecipes }))
+    .sort((a, b) => b.enabledRecipes.length - a.enabledRecipes.length || a.equipment.localeCompare(b.equipment));
+  return { possibleRecipes, recommendedPurchases };
+}
+
+/**
+ * Recipe ideas from the AI service, keeping well-formed entries and working
+ * out which of the tools each one lists the user is known not to have.
+ */
+export function toSuggestedRecipes(aiResult: unknown, equipment: { name: string }[]): SuggestedRecipe[] {
+  const ideas = (aiResult as { possibleRecipes?: unknown } | null)?.possibleRecipes;
+  if (!Array.isArray(ideas)) return [];
+  const owned = ownedTools(equipment);
+  const ownedNames = new Set(equipment.map(item => normalize(item.name)));
+
+  return ideas
+    .filter(idea => typeof idea?.title === "string")
+    .map(idea => {
+      const requiredEquipment: string[] = Array.isArray(idea.requiredEquipment)
+        ? idea.requiredEquipment.filter((name: unknown) => typeof name === "string")
+        : [];
+      const missingEquipment = requiredEquipment.filter(name => {
+        if (ownedNames.has(normalize(name))) return false;
+        const tools = toolsMentioned(name);
+        return missingTools(tools, owned).length > 0;
+      });
+      return {
+        title: idea.title,
+        description: typeof idea.description === "string" ? idea.description : "",
+        requiredEquipment,
+        missingEquipment,
+        nutritionInfo: idea.nutritionInfo ?? null,
+      };
+    });
+}
+
+const formatPriceRange = ([low, high]: [number, number]) => `$${low}-${high}`;
+
+/**
+ * Purchase suggestions as equipment recommendations. Priority follows how
+ * many recipes an item unlocks; items whose cheapest option is over the
+ * budget are skipped.
+ */
+export function recommendEquipment(purchases: EquipmentPurchase[], budget?: number): EquipmentRecommendation[] {
+  const recommendations: EquipmentRecommendation[] = [];
+  for (const purchase of purchases) {
+    const tool = KITCHEN_TOOLS.find(key => TOOL_RULES[key].label === purchase.equipment);
+    if (!tool) continue;
+    const rule = TOOL_RULES[tool];
+    if (budget !== undefined && rule.price[0] > budget) continue;
+
+    const count = purchase.enabledRecipes.length;
+    const shown = purchase.enabledRecipes.slice(0, 3).join(", ");
+    recommendations.push({
+      name: rule.label,
+      category: rule.category,
+      reason: `Would let you make ${count} of your recipes: ${shown}${count > 3 ? " and more" : ""}`,
+      priority: count >= 3 ? "high" : count === 2 ? "medium" : "low",
+      estimatedPrice: formatPriceRange(rule.price),
+    });
+  }
+  return recommendations;
+}
+
+/**
+ * Adds AI recommendations after the ones drawn from the user's recipes,
+ * dropping malformed entries, duplicates and tools the user already owns.
+ */
+export function mergeRecommendations(
+  fromRecipes: EquipmentRecommendation[],
+  suggestions: unknown,
+  equipment: { name: string }[]
+): EquipmentRecommendation[] {
+  if (!Array.isArray(suggestions)) return fromRecipes;
+  const owned = ownedTools(equipment);
+  const seen = new Set(fromRecipes.map(recommendation => normalize(recommendation.name)));
+  const merged = [...fromRecipes];
+
+  for (const suggestion of suggestions) {
+    if (typeof suggestion?.name !== "string" || typeof suggestion.reason !== "string") continue;
+    const name = normalize(suggestion.name);
+    if (seen.has(name) || toolsMentioned(name).some(tool => owned.has(tool))) continue;
+    seen.add(name);
+    merged.push({
+      name: suggestion.name,
+      category: typeof suggestion.category === "string" ? suggestion.category : "Other",
+      reason: suggestion.reason,
+      priority: ["high", "medium", "low"].includes(suggestion.priority) ? suggestion.priority : "low",
+      estimatedPrice: typeof suggestion.estimatedPrice === "string" ? suggestion.estimatedPrice : "",
+      ...(Array.isArray(suggestion.alternativeOptions) ? { alternativeOptions: suggestion.alternativeOptions } : {}),
+    });
+  }
+  return merged;
+}
@@ -1,6 +1,14 @@
-import { pgTable, text, serial, integer, boolean, jsonb, timestamp, primaryKey, varchar, json, real, date } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, jsonb, timestamp, primaryKey, varchar, json, real, date, doublePrecision, unique } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import { parseQuantity } from "./units";
+import { recipeIngredientSchema, toRecipeIngredients } from "./ingredients";
+import { mealPlanDaySchema, mealPlanOverridesSchema, dateKeySchema, MEAL_SLOT_TYPES, MAX_MEAL_PLAN_DAYS } from "./meal-plans";
+import { micronutrientsSchema, type Micronutrients } from "./nutrients";
+import type { ActivityLevel, Sex, WeightGoal } from "./body-metrics";
+import { mealSplitSchema, DEFAULT_MEAL_SPLIT, type MealSplit } from "./meal-budgets";
+import type { EquipmentCondition } from "./equipment-maintenance";
+import { requiredEquipmentSchema } from "./recipe-equipment";
 import type { PgTableWithColumns } from "drizzle-orm/pg-core";
 
 export const users = pgTable("users", {
@@ -10,7 +18,19 @@ export const users = pgTable("users", {
   preferences: jsonb("preferences").default({}).notNull(),
   dnaProfile: jsonb("dna_profile"),
   moodJournal: jsonb("mood_journal").array(),
-  secretKey: text("secret_key").unique(),
+  // Where password reset links are sent; unique regardless of case
+  email: text("email"),
+  // SHA-256 of the secret key handed out at registration; the key itself is never stored
+  secretKeyHash: text("secret_key_hash"),
+});
+
+export const passwordResetTokens = pgTable("password_reset_tokens", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").references(() => users.id, { onDelete: "cascade" }).notNull(),
+  tokenHash: text("token_hash").notNull(),
+  expiresAt: timestamp("expires_at").notNull(),
+  usedAt: timestamp("used_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
 // Define recipes table with explicit type annotation
@@ -18,9 +38,14 @@ export const recipes: PgTableWithColumns<any> = pgTable("recipes", {
   id: serial("id").primaryKey(),
   title: text("title").notNull(),
   description: text("description").notNull(),
-  ingredients: jsonb("ingredients").notNull(),
+  ingredients: jsonb("ingredients").notNull(), // RecipeIngredient[]
   instructions: jsonb("instructions").notNull(),
-  nutritionInfo: jsonb("nutrition_info").notNull(),
+  nutritionInfo: jsonb("nutrition_info").notNull(), // per serving
+  // How many servings the ingredients make; ingredient amounts are for the whole batch
+  servings: doublePrecision("servings").default(1).notNull(),
+  yieldDescription: text("yield_description"), // e.g. "1 loaf" or "12 muffins"
+  // KitchenTool[]; null on recipes saved before tools were recorded, which are inferred from the text
+  requiredEquipment: jsonb("required_equipment"),
   imageUrl: text("image_url"),
   prepTime: integer("prep_time").notNull(),
   createdBy: integer("created_by").references(() => users.id),
@@ -33,6 +58,9 @@ export const recipes: PgTableWithColumns<any> = pgTable("recipes", {
 export const groceryLists = pgTable("grocery_lists", {
   id: serial("id").primaryKey(),
   userId: integer("user_id").references(() => users.id).notNull(),
+  title: text("title"),
+  // Set when the list was generated from a meal plan, so it can be regenerated
+  mealPlanId: integer("meal_plan_id").references(() => mealPlans.id, { onDelete: "set null" }),
   items: jsonb("items").notNull(),
   completed: boolean("completed").default(false).notNull(),
   expiryDates: jsonb("expiry_dates"),
@@ -44,6 +72,10 @@ export const pantryItems = pgTable("pantry_items", {
   userId: integer("user_id").references(() => users.id).notNull(),
   name: text("name").notNull(),
   quantity: text("quantity").notNull(),
+  // Parsed from `quantity`; null when the text has no usable amount
+  quantityAmount: doublePrecision("quantity_amount"),
+  quantityUnit: text("quantity_unit"),
+  unitFamily: text("unit_family"), // mass, volume, count
   expiryDate: timestamp("expiry_date"),
   category: text("category"),
   nutritionInfo: jsonb("nutrition_info").notNull(),
@@ -77,6 +109,9 @@ export const mealPlans = pgTable("meal_plans", {
   endDate: timestamp("end_date").notNull(),
   preferences: jsonb("preferences").notNull(),
   meals: jsonb("meals").notNull(), // Array of meals with recipes and schedules
+  // 7 or 14 when `meals` is a template repeated over the date range; null for a plain plan
+  rotationDays: integer("rotation_days"),
+  overrides: jsonb("overrides").default({}).notNull(), // Per-date replacements, keyed by yyyy-MM-dd
   createdAt: timestamp("created_at").defaultNow().notNull(),
   isActive: boolean("is_active").default(true).notNull(),
 });
@@ -88,9 +123,14 @@ export const nutritionGoals = pgTable("nutrition_goals", {
   dailyProtein: integer("daily_protein").notNull(),
   dailyCarbs: integer("daily_carbs").notNull(),
   dailyFat: integer("daily_fat").notNull(),
+  // Only the nutrients the user changed; the rest use their daily values
+  micronutrientTargets: jsonb("micronutrient_targets").$type<Micronutrients>().default({}).notNull(),
+  // Percent of the daily targets for each meal
+  mealSplit: jsonb("meal_split").$type<MealSplit>().default(DEFAULT_MEAL_SPLIT).notNull(),
+  // Calculated from the body profile and recalculated whenever a new weight is logged
+  adaptive: boolean("adaptive").default(false).notNull(),
   isActive: boolean("is_active").default(true).notNull(),
   createdAt: timestamp("created_at").defaultNow().notNull(),
-  progress: jsonb("progress").default([]).notNull(), // Array of daily progress entries
 });
 
 export const recipeConsumption = pgTable("recipe_consumption", {
@@ -98,25 +138,114 @@ export const recipeConsumption = pgTable("recipe_consumption", {
   userId: integer("user_id").references(() => users.id).notNull(),
   recipeId: integer("recipe_id").references(() => recipes.id).notNull(),
   consumedAt: timestamp("consumed_at").defaultNow().notNull(),
-  servings: integer("servings").default(1).notNull(),
+  servings: doublePrecision("servings").default(1).notNull(), // may be fractional, e.g. half a serving
   mealType: text("meal_type").notNull(), // breakfast, lunch, dinner, snack
+  pantryDeductions: jsonb("pantry_deductions"), // what was taken from the pantry; cleared on undo
+});
+
+// What actually happened to each planned meal, one row per plan slot and date
+export const mealPlanLogs = pgTable("meal_plan_logs", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").references(() => users.id).notNull(),
+  mealPlanId: integer("meal_plan_id").references(() => mealPlans.id, { onDelete: "cascade" }).notNull(),
+  date: text("date").notNull(), // yyyy-MM-dd
+  mealType: text("meal_type").$type<'breakfast' | 'lunch' | 'dinner' | 'snack'>().notNull(),
+  snackIndex: integer("snack_index").default(0).notNull(),
+  status: text("status").$type<'eaten' | 'skipped' | 'swapped'>().notNull(),
+  // Set when the meal was logged against a recipe
+  consumptionId: integer("consumption_id").references(() => recipeConsumption.id, { onDelete: "set null" }),
+  // Macros this log added to the day's nutrition
+  nutrition: jsonb("nutrition"),
+  loggedAt: timestamp("logged_at").defaultNow().notNull(),
+});
+
+// Everything a user ate, one row per item; daily progress is the sum of a day's rows
+export const nutritionLogEntries = pgTable("nutrition_log_entries", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").references(() => users.id).notNull(),
+  date: text("date").notNull(), // yyyy-MM-dd
+  source: text("source").$type<'recipe' | 'meal-plan' | 'manual' | 'food' | 'pantry' | 'imported'>().notNull(),
+  // Derived entries go away with the consumption or meal log they came from
+  consumptionId: integer("consumption_id").references(() => recipeConsumption.id, { onDelete: "cascade" }),
+  mealPlanLogId: integer("meal_plan_log_id").references(() => mealPlanLogs.id, { onDelete: "cascade" }),
+  // Kept when the pantry item is later removed; the entry still records what was eaten
+  pantryItemId: integer("pantry_item_id").references(() => pantryItems.id, { onDelete: "set null" }),
+  mealType: text("meal_type"),
+  description: text("description").notNull(),
+  quantity: text("quantity"), // how much was eaten, e.g. "150 g" or "2 servings"
+  calories: doublePrecision("calories").default(0).notNull(),
+  protein: doublePrecision("protein").default(0).notNull(),
+  carbs: doublePrecision("carbs").default(0).notNull(),
+  fat: doublePrecision("fat").default(0).notNull(),
+  micronutrients: jsonb("micronutrients").$type<Micronutrients>().default({}).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// What adaptive goals are calculated from; weight comes from the latest weight log entry
+export const bodyProfiles = pgTable("body_profiles", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").references(() => users.id).notNull().unique(),
+  heightCm: doublePrecision("height_cm").notNull(),
+  dateOfBirth: text("date_of_birth").notNull(), // yyyy-MM-dd, so age stays current
+  sex: text("sex").$type<Sex>().notNull(),
+  activityLevel: text("activity_level").$type<ActivityLevel>().notNull(),
+  goal: text("goal").$type<WeightGoal>().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
 
+// One weigh-in per user and day; logging the same day again replaces it
+export const weightLogEntries = pgTable("weight_log_entries", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").references(() => users.id).notNull(),
+  date: text("date").notNull(), // yyyy-MM-dd
+  weightKg: doublePrecision("weight_kg").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  userDate: unique("weight_log_entries_user_date").on(table.userId, table.date),
+}));
+
 export const kitchenEquipment = pgTable("kitchen_equipment", {
   id: serial("id").primaryKey(),
   userId: integer("user_id").references(() => users.id).notNull(),
   name: text("name").notNull(),
   category: text("category").notNull(),
-  condition: text("condition").$type<'excellent' | 'good' | 'fair' | 'needs-maintenance' | 'replace'>().notNull(),
+  condition: text("condition").$type<EquipmentCondition>().notNull(),
   lastMaintenanceDate: text("last_maintenance_date"),
   purchaseDate: text("purchase_date"),
   maintenanceInterval: integer("maintenance_interval"),
   maintenanceNotes: text("maintenance_notes"),
   purchasePrice: integer("purchase_price"),
+  brand: text("brand"),
+  model: text("model"),
+  warrantyExpiry: text("warranty_expiry"), // yyyy-MM-dd
+  expectedLifespanYears: integer("expected_lifespan_years"),
   createdAt: text("created_at").notNull().$defaultFn(() => new Date().toISOString()),
   updatedAt: text("updated_at").notNull().$defaultFn(() => new Date().toISOString()),
 });
 
+// Every maintenance done on a piece of equipment; lastMaintenanceDate mirrors the latest one
+export const equipmentMaintenanceEvents = pgTable("equipment_maintenance_events", {
+  id: serial("id").primaryKey(),
+  equipmentId: integer("equipment_id").references(() => kitchenEquipment.id, { onDelete: "cascade" }).notNull(),
+  userId: integer("user_id").references(() => users.id).notNull(),
+  performedAt: text("performed_at").notNull(), // yyyy-MM-dd
+  notes: text("notes"),
+  // Condition recorded with the maintenance, if it changed
+  condition: text("condition").$type<EquipmentCondition>(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Audit trail of condition changes, from edits and from recorded maintenance
+export const equipmentConditionChanges = pgTable("equipment_condition_changes", {
+  id: serial("id").primaryKey(),
+  equipmentId: integer("equipment_id").references(() => kitchenEquipment.id, { onDelete: "cascade" }).notNull(),
+  userId: integer("user_id").references(() => users.id).notNull(),
+  fromCondition: text("from_condition").$type<EquipmentCondition>().notNull(),
+  toCondition: text("to_condition").$type<EquipmentCondition>().notNull(),
+  note: text("note"),
+  changedAt: timestamp("changed_at").defaultNow().notNull(),
+});
+
 export const culturalCuisines = pgTable("cultural_cuisines", {
   id: serial("id").primaryKey(),
   name: text("name").notNull(),
@@ -147,12 +276,13 @@ export const culturalRecipes = pgTable("cultural_recipes", {
   localName: text("local_name"),
   description: text("description").notNull(),
   difficulty: text("difficulty").$type<'beginner' | 'intermediate' | 'advanced'>().notNull(),
-  authenticIngredients: jsonb("authentic_ingredients").notNull(),
+  authenticIngredients: jsonb("authentic_ingredients").notNull(), // RecipeIngredient[]
   localSubstitutes: jsonb("local_substitutes"), // Mapping of authentic ingredients to local alternatives
   instructions: jsonb("instructions").notNull(),
   culturalNotes: jsonb("cultural_notes").notNull(), // Significance, occasions, history
   servingSuggestions: jsonb("serving_suggestions").notNull(),
   complementaryDishes: jsonb("complementary_dishes"),
+  requiredEquipment: jsonb("required_equipment"), // KitchenTool[], as on recipes
   image_url: text("image_url"),
   createdBy: integer("created_by").references(() => users.id),
   hiddenFor: jsonb("hidden_for").default([]),
@@ -201,6 +331,77 @@ export const storageItems = pgTable("storage_items", {
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+export const stores = pgTable("stores", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),
+  location: jsonb("location").notNull(), // { lat, lng } or an address object
+  businessHours: jsonb("business_hours"),
+  popularTimes: jsonb("popular_times"),
+  currentCrowdLevel: text("crowd_level"), // low, medium, high
+  storeLayout: jsonb("store_layout"),
+  specialFeatures: jsonb("special_features"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const priceHistory = pgTable("price_history", {
+  id: serial("id").primaryKey(),
+  storeId: integer("store_id").references(() => stores.id).notNull(),
+  productName: text("product_name").notNull(),
+  price: doublePrecision("price").notNull(),
+  unit: text("unit").notNull(),
+  recordedAt: timestamp("recorded_at").defaultNow().notNull(),
+  onSale: boolean("on_sale").default(false),
+  saleEndDate: timestamp("sale_end_date"),
+  priceType: text("price_type"), // regular, sale, member
+  competitivePricing: jsonb("competitive_pricing"),
+  priceTrend: jsonb("price_trend"),
+  aiPredictedPrice: doublePrecision("ai_predicted_price"),
+  bestTimeToBuy: timestamp("best_time_to_buy"),
+});
+
+export const storeSpecificLists = pgTable("store_specific_lists", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").references(() => users.id).notNull(),
+  storeId: integer("store_id").references(() => stores.id).notNull(),
+  name: text("name").notNull(),
+  items: jsonb("items").notNull(),
+  totalEstimatedCost: doublePrecision("total_estimated_cost"),
+  optimizedRoute: jsonb("optimized_route"),
+  nutritionAlignment: jsonb("nutrition_alignment"),
+  sustainabilityScore: integer("sustainability_score"),
+  budgetOptimization: jsonb("budget_optimization"),
+  alternativeItems: jsonb("alternative_items"),
+  mealPlanAlignment: jsonb("meal_plan_alignment"),
+  aiSuggestions: jsonb("ai_suggestions"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at"),
+});
+
+export const smartShoppingInsights = pgTable("smart_shopping_insights", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").references(() => users.id).notNull(),
+  insights: jsonb("insights").notNull(),
+  shoppingPatterns: jsonb("shopping_patterns").notNull(),
+  recommendedStores: jsonb("recommended_stores").notNull(),
+  personalizedDeals: jsonb("personalized_deals").notNull(),
+  budgetAnalysis: jsonb("budget_analysis").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at"),
+});
+
+export const shoppingPreferences = pgTable("shopping_preferences", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").references(() => users.id).notNull().unique(),
+  preferredStores: jsonb("preferred_stores").array(),
+  budgetLimits: jsonb("budget_limits"),
+  dietaryRestrictions: jsonb("dietary_restrictions"),
+  sustainabilityPreferences: jsonb("sustainability_preferences"),
+  shoppingSchedule: jsonb("shopping_schedule"),
+  aiPersonalization: jsonb("ai_personalization"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at"),
+});
+
 // Schema definitions - ordering matters!
 export const nutritionProgressSchema = z.object({
   date: z.string(),
@@ -208,6 +409,7 @@ export const nutritionProgressSchema = z.object({
   protein: z.number(),
   carbs: z.number(),
   fat: z.number(),
+  micronutrients: micronutrientsSchema.optional(),
   completed: z.boolean(),
 });
 
@@ -227,19 +429,29 @@ export const insertUserSchema = createInsertSchema(users)
       .max(100, "Password cannot exceed 100 characters"),
   });
 
+export const MAX_RECIPE_SERVINGS = 100;
+
 export const insertRecipeSchema = createInsertSchema(recipes)
   .extend({
     title: z.string().min(1, "Title is required"),
     description: z.string().min(1, "Description is required"),
-    ingredients: z.array(z.string()).min(1, "At least one ingredient is required"),
+    // Free-text lines (with "Section:" headers) are accepted and parsed into structured ingredients
+    ingredients: z.array(z.union([z.string(), recipeIngredientSchema]))
+      .transform(toRecipeIngredients)
+      .refine(ingredients => ingredients.length > 0, "At least one ingredient is required"),
     instructions: z.array(z.string()).min(1, "At least one instruction step is required"),
     nutritionInfo: z.object({
       calories: z.number().min(0, "Calories must be positive").max(5000, "Calories cannot exceed 5000"),
       protein: z.number().min(0, "Protein must be positive").max(500, "Protein cannot exceed 500g"),
       carbs: z.number().min(0, "Carbs must be positive").max(500, "Carbs cannot exceed 500g"),
-      fat: z.number().min(0, "Fat must be positive").max(200, "Fat cannot exceed 200g")
+      fat: z.number().min(0, "Fat must be positive").max(200, "Fat cannot exceed 200g"),
+      micronutrients: micronutrientsSchema.optional()
     }),
     prepTime: z.number().min(1, "Preparation time must be at least 1 minute"),
+    servings: z.number().positive("Servings must be positive").max(MAX_RECIPE_SERVINGS, `A recipe can make at most ${MAX_RECIPE_SERVINGS} servings`).default(1),
+    yieldDescription: z.string().max(100).nullable().optional(),
+    // Inferred from the instructions when left out
+    requiredEquipment: requiredEquipmentSchema.optional(),
     imageUrl: z.string().url("Please enter a valid image URL").optional().or(z.literal("")),
     sustainabilityScore: z.number().min(0).max(100).optional(),
   });
@@ -248,14 +460,17 @@ export const insertGroceryListSchema = createInsertSchema(groceryLists);
 export const insertPantryItemSchema = createInsertSchema(pantryItems)
   .extend({
     name: z.string().min(1, "Name is required"),
-    quantity: z.string().min(1, "Quantity is required"),
+    quantity: z.string()
+      .min(1, "Quantity is required")
+      .refine(value => parseQuantity(value) !== null, "Enter an amount and unit, e.g. 2 cups, 500 g or 3"),
     category: z.string().min(1, "Category is required"),
     expiryDate: z.date().optional(),
     nutritionInfo: z.object({
       calories: z.number().min(0, "Calories must be positive"),
       protein: z.number().min(0, "Protein must be positive"),
       carbs: z.number().min(0, "Carbs must be positive"),
-      fat: z.number().min(0, "Fat must be positive")
+      fat: z.number().min(0, "Fat must be positive"),
+      micronutrients: micronutrientsSchema.optional()
     }),
     sustainabilityInfo: z.object({
       score: z.number().min(0).max(100),
@@ -271,16 +486,38 @@ export const insertNutritionGoalSchema = createInsertSchema(nutritionGoals)
     dailyProtein: z.number().min(10, "Daily protein must be at least 10g").max(500, "Daily protein cannot exceed 500g"),
     dailyCarbs: z.number().min(0, "Daily carbs must be non-negative").max(500, "Daily carbs cannot exceed 500g"),
     dailyFat: z.number().min(0, "Daily fat must be non-negative").max(200, "Daily fat cannot exceed 200g"),
-    progress: z.array(z.object({
-      date: z.string(),
-      calories: z.number(),
-      protein: z.number(),
-      carbs: z.number(),
-      fat: z.number(),
-      completed: z.boolean()
-    })).default([])
+    micronutrientTargets: micronutrientsSchema.default({}),
+    mealSplit: mealSplitSchema.default(DEFAULT_MEAL_SPLIT),
   });
 
+// Food logged by hand; recipe and meal plan entries are created by the server
+export const insertNutritionLogEntrySchema = z.object({
+  date: dateKeySchema,
+  description: z.string().min(1, "Describe what you ate"),
+  mealType: z.enum(MEAL_SLOT_TYPES),
+  calories: z.number().min(0),
+  protein: z.number().min(0).default(0),
+  carbs: z.number().min(0).default(0),
+  fat: z.number().min(0).default(0),
+  micronutrients: micronutrientsSchema.default({}),
+});
+
+// A food from the bundled nutrient database, weighed by `amount` ("150 g", "1 cup", "2")
+export const logDatabaseFoodSchema = z.object({
+  date: dateKeySchema,
+  mealType: z.enum(MEAL_SLOT_TYPES),
+  food: z.string().min(1, "Choose a food"),
+  amount: z.string().min(1, "Enter how much you ate"),
+});
+
+// Servings of a pantry item, using the nutrition stored on the item
+export const logPantryFoodSchema = z.object({
+  date: dateKeySchema,
+  mealType: z.enum(MEAL_SLOT_TYPES),
+  pantryItemId: z.number().int().positive(),
+  servings: z.number().positive("Servings must be positive").default(1),
+});
+
 export const insertKitchenEquipmentSchema = createInsertSchema(kitchenEquipment);
 export const insertCulturalCuisineSchema = createInsertSchema(culturalCuisines);
 export const insertCulturalRecipeSchema = createInsertSchema(culturalRecipes);
@@ -318,40 +555,45 @@ export const insertStorageItemSchema = createInsertSchema(storageItems)
     path: ["quantity"]
   });
 
+export const insertStoreSchema = createInsertSchema(stores)
+  .extend({
+    name: z.string().min(1, "Store name is required"),
+    location: z.union([
+      z.object({ lat: z.number(), lng: z.number() }),
+      z.record(z.any())
+    ]),
+  });
+
+export const insertPriceHistorySchema = createInsertSchema(priceHistory)
+  .extend({
+    productName: z.string().min(1, "Product name is required"),
+    price: z.number().min(0, "Price must be non-negative"),
+    unit: z.string().min(1, "Unit is required"),
+  });
+
+export const insertStoreSpecificListSchema = createInsertSchema(storeSpecificLists)
+  .extend({
+    name: z.string().min(1, "List name is required"),
+    items: z.array(z.object({
+      name: z.string().min(1),
+      quantity: z.union([z.string(), z.number()]),
+    }).passthrough()),
+    totalEstimatedCost: z.number().min(0).optional().nullable(),
+  });
+
+export const insertShoppingPreferencesSchema = createInsertSchema(shoppingPreferences);
+
 export const insertMealPlanSchema = createInsertSchema(mealPlans)
   .extend({
     title: z.string().min(1, "Title is required"),
     startDate: z.date(),
     endDate: z.date(),
     preferences: z.array(z.string()).optional(),
-    meals: z.array(z.object({
-      day: z.number().min(1).max(7, "Meal plan cannot exceed 7 days"),
-      meals: z.object({
-        breakfast: z.object({
-          title: z.string(),
-          description: z.string(),
-          nutritionalInfo: z.string(),
-          preparationTime: z.string().optional()
-        }),
-        lunch: z.object({
-          title: z.string(),
-          description: z.string(),
-          nutritionalInfo: z.string(),
-          preparationTime: z.string().optional()
-        }),
-        dinner: z.object({
-          title: z.string(),
-          description: z.string(),
-          nutritionalInfo: z.string(),
-          preparationTime: z.string().optional()
-        }),
-        snacks: z.array(z.object({
-          title: z.string(),
-          description: z.string(),
-          nutritionalInfo: z.string()
-        })).optional()
-      })
-    }))
+    meals: z.array(mealPlanDaySchema.extend({
+      day: z.number().min(1).max(MAX_MEAL_PLAN_DAYS, `Meal plan cannot exceed ${MAX_MEAL_PLAN_DAYS} days`),
+    })),
+    rotationDays: z.union([z.literal(7), z.literal(14)]).nullable().optional(),
+    overrides: mealPlanOverridesSchema.optional(),
   })
   .refine(
     (data) => {
@@ -359,12 +601,12 @@ export const insertMealPlanSchema = createInsertSchema(mealPlans)
         const start = new Date(data.startDate);
         const end = new Date(data.endDate);
         const diffDays = Math.ceil((end.getTime() - start.getTime()) / (1000 * 60 * 60 * 24));
-        return diffDays <= 7;
+        return diffDays >= 0 && diffDays < MAX_MEAL_PLAN_DAYS;
       }
       return true;
     },
     {
-      message: "Meal plan duration cannot exceed 7 days",
+      message: `Meal plan must end on or after its start date and cannot exceed ${MAX_MEAL_PLAN_DAYS} days`,
       path: ["endDate"],
     }
   );
@@ -409,18 +651,32 @@ export interface MaintenanceSchedule {
 // Type exports
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
+export type PasswordResetToken = typeof passwordResetTokens.$inferSelect;
 export type Recipe = typeof recipes.$inferSelect;
 export type GroceryList = typeof groceryLists.$inferSelect;
 export type PantryItem = typeof pantryItems.$inferSelect;
 export type CommunityPost = typeof communityPosts.$inferSelect;
 export type RecipeLike = typeof recipe_likes.$inferSelect;
 export type NutritionGoal = typeof nutritionGoals.$inferSelect;
+export type MealPlan = typeof mealPlans.$inferSelect;
 export type RecipeConsumption = typeof recipeConsumption.$inferSelect;
+export type MealPlanLog = typeof mealPlanLogs.$inferSelect;
+export type NutritionLogEntry = typeof nutritionLogEntries.$inferSelect;
+export type InsertNutritionLogEntry = z.infer<typeof insertNutritionLogEntrySchema>;
+export type BodyProfile = typeof bodyProfiles.$inferSelect;
+export type WeightLogEntry = typeof weightLogEntries.$inferSelect;
 export type KitchenEquipment = typeof kitchenEquipment.$inferSelect;
+export type EquipmentMaintenanceEvent = typeof equipmentMaintenanceEvents.$inferSelect;
+export type EquipmentConditionChange = typeof equipmentConditionChanges.$inferSelect;
 export type CulturalCuisine = typeof culturalCuisines.$inferSelect;
 export type CulturalRecipe = typeof culturalRecipes.$inferSelect;
 export type CulturalTechnique = typeof culturalTechniques.$inferSelect;
 export type KitchenStorageLocation = typeof kitchenStorageLocations.$inferSelect;
 export type InsertKitchenStorageLocation = typeof kitchenStorageLocations.$inferInsert;
 export type StorageItem = typeof storageItems.$inferSelect;
-export type InsertStorageItem = typeof storageItems.$inferInsert;
\ No newline at end of file
+export type InsertStorageItem = typeof storageItems.$inferInsert;
+export type Store = typeof stores.$inferSelect;
+export type PriceHistory = typeof priceHistory.$inferSelect;
+export type StoreSpecificList = typeof storeSpecificLists.$inferSelect;
+export type SmartShoppingInsight = typeof smartShoppingInsights.$inferSelect;
+export type ShoppingPreferences = typeof shoppingPreferences.$inferSelect;
\ No newline at end of file
@@ -0,0 +1,248 @@
+export type UnitFamily = "mass" | "volume" | "count";
+
+export interface ParsedQuantity {
+  amount: number;
+  unit: string;
+  family: UnitFamily;
+}
+
+interface UnitDefinition {
+  unit: string;
+  plural: string;
+  family: UnitFamily;
+  // Units only convert between each other when they share a base
+  base: string;
+  toBase: number;
+  aliases: string[];
+}
+
+const UNIT_DEFINITIONS: UnitDefinition[] = [
+  // Mass, base grams
+  { unit: "mg", plural: "mg", family: "mass", base: "g", toBase: 0.001, aliases: ["milligram", "milligrams"] },
+  { unit: "g", plural: "g", family: "mass", base: "g", toBase: 1, aliases: ["gram", "grams", "gr", "grm"] },
+  { unit: "kg", plural: "kg", family: "mass", base: "g", toBase: 1000, aliases: ["kilogram", "kilograms", "kilo", "kilos", "kgs"] },
+  { unit: "oz", plural: "oz", family: "mass", base: "g", toBase: 28.3495, aliases: ["ounce", "ounces"] },
+  { unit: "lb", plural: "lb", family: "mass", base: "g", toBase: 453.592, aliases: ["lbs", "pound", "pounds"] },
+
+  // Volume, base millilitres
+  { unit: "ml", plural: "ml", family: "volume", base: "ml", toBase: 1, aliases: ["milliliter", "milliliters", "millilitre", "millilitres", "mls"] },
+  { unit: "l", plural: "l", family: "volume", base: "ml", toBase: 1000, aliases: ["liter", "liters", "litre", "litres", "ltr"] },
+  { unit: "tsp", plural: "tsp", family: "volume", base: "ml", toBase: 4.92892, aliases: ["teaspoon", "teaspoons", "tsps"] },
+  { unit: "tbsp", plural: "tbsp", family: "volume", base: "ml", toBase: 14.7868, aliases: ["tablespoon", "tablespoons", "tbsps", "tbs", "tbl"] },
+  { unit: "fl oz", plural: "fl oz", family: "volume", base: "ml", toBase: 29.5735, aliases: ["fluid ounce", "fluid ounces", "floz"] },
+  { unit: "cup", plural: "cups", family: "volume", base: "ml", toBase: 236.588, aliases: ["cups", "c"] },
+  { unit: "pint", plural: "pints", family: "volume", base: "ml", toBase: 473.176, aliases: ["pints", "pt"] },
+  { unit: "quart", plural: "quarts", family: "volume", base: "ml", toBase: 946.353, aliases: ["quarts", "qt"] },
+  { unit: "gallon", plural: "gallons", family: "volume", base: "ml", toBase: 3785.41, aliases: ["gallons", "gal"] },
+
+  // Counts, base single items
+  { unit: "each", plural: "each", family: "count", base: "each", toBase: 1, aliases: ["ea", "pc", "pcs", "piece", "pieces", "item", "items", "unit", "units", "whole"] },
+  { unit: "dozen", plural: "dozen", family: "count", base: "each", toBase: 12, aliases: ["dozens", "doz"] },
+];
+
+// Count-style units cooks write that aren't weights or volumes ("2 cloves garlic"); each counts on its own
+const KITCHEN_UNITS = [
+  "can", "clove", "slice", "pinch", "dash", "bunch", "head", "sprig", "stalk", "stick",
+  "packet", "package", "jar", "bottle", "handful", "piece", "fillet", "sheet",
+];
+
+const UNIT_LOOKUP = new Map<string, UnitDefinition>();
+for (const definition of UNIT_DEFINITIONS) {
+  UNIT_LOOKUP.set(definition.unit, definition);
+  for (const alias of definition.aliases) UNIT_LOOKUP.set(alias, definition);
+}
+
+const UNICODE_FRACTIONS: Record<string, number> = {
+  "¼": 0.25, "½": 0.5, "¾": 0.75, "⅓": 1 / 3, "⅔": 2 / 3, "⅛": 0.125, "⅜": 0.375, "⅝": 0.625, "⅞": 0.875,
+};
+
+// Fractions cooks measure with; anything else is written as a decimal
+const KITCHEN_FRACTIONS: [number, string][] = [
+  [1 / 8, "1/8"], [1 / 4, "1/4"], [1 / 3, "1/3"], [1 / 2, "1/2"], [2 / 3, "2/3"], [3 / 4, "3/4"],
+];
+
+/**
+ * Friendlier units to move a scaled amount into, smallest first, each used
+ * from `min` of itself. Only units that convert exactly and that people
+ * actually measure with are listed; metric stays metric and US stays US.
+ */
+const UNIT_LADDERS: { unit: string; min: number }[][] = [
+  [{ unit: "tsp", min: 0 }, { unit: "tbsp", min: 1 }, { unit: "cup", min: 0.25 }],
+  [{ unit: "g", min: 0 }, { unit: "kg", min: 1 }],
+  [{ unit: "ml", min: 0 }, { unit: "l", min: 1 }],
+  [{ unit: "oz", min: 0 }, { unit: "lb", min: 1 }],
+];
+
+// Below these amounts (in the base unit) an item counts as running low
+const LOW_STOCK_THRESHOLDS: Record<string, number> = {
+  g: 100,
+  ml: 250,
+  each: 1,
+};
+
+function singularize(word: string): string {
+  if (word.endsWith("ies") && word.length > 4) return `${word.slice(0, -3)}y`;
+  if (/(?:ch|sh|x|z|ss)es$/.test(word)) return word.slice(0, -2);
+  if (word.endsWith("s") && !word.endsWith("ss") && word.length > 2) return word.slice(0, -1);
+  return word;
+}
+
+// Anything we don't recognise (cans, bunches, heads...) is its own countable unit
+function resolveUnit(rawUnit: string): UnitDefinition {
+  const cleaned = rawUnit.toLowerCase().replace(/\./g, "").replace(/\s+/g, " ").trim();
+  if (!cleaned) return UNIT_LOOKUP.get("each")!;
+
+  const known = UNIT_LOOKUP.get(cleaned) ?? UNIT_LOOKUP.get(singularize(cleaned));
+  if (known) return known;
+
+  // "2 cans of tomatoes" is measured in cans
+  const firstWord = cleaned.split(" ")[0];
+  if (firstWord !== cleaned) return resolveUnit(firstWord);
+
+  const unit = singularize(cleaned);
+  const plural = /(?:ch|sh|s|x)$/.test(unit) ? `${unit}es` : `${unit}s`;
+  return { unit, plural, family: "count", base: unit, toBase: 1, aliases: [] };
+}
+
+function parseAmount(text: string): number | null {
+  const value = text.trim();
+  const mixed = value.match(/^(\d+)\s+(\d+)\/(\d+)$/);
+  if (mixed) return Number(mixed[1]) + Number(mixed[2]) / Number(mixed[3]);
+
+  const fraction = value.match(/^(\d+)\/(\d+)$/);
+  if (fraction) return Number(fraction[1]) / Number(fraction[2]);
+
+  const unicode = value.match(/^(\d*)\s*([¼½¾⅓⅔⅛⅜⅝⅞])$/);
+  if (unicode) return Number(unicode[1] || 0) + UNICODE_FRACTIONS[unicode[2]];
+
+  const decimal = Number(value.replace(",", "."));
+  return Number.isFinite(decimal) ? decimal : null;
+}
+
+/**
+ * Parses free-text quantities such as "2 cups", "1 1/2 tbsp", "500g", "½ lb" or
+ * "3 cans". A bare number is a count. Returns null when there is no usable amount.
+ */
+export function parseQuantity(text: string | null | undefined): ParsedQuantity | null {
+  if (!text) return null;
+  const match = text
+    .trim()
+    .match(/^(\d+\s+\d+\/\d+|\d+\/\d+|\d*\s*[¼½¾⅓⅔⅛⅜⅝⅞]|\d+(?:[.,]\d+)?|[.,]\d+)\s*([a-zA-Z][a-zA-Z .]*)?$/);
+  if (!match) return null;
+
+  const amount = parseAmount(match[1]);
+  if (amount === null || amount <= 0) return null;
+
+  const definition = resolveUnit(match[2] ?? "");
+  return { amount, unit: definition.unit, family: definition.family };
+}
+
+// Canonical name of a recognised unit ("Tablespoons" -> "tbsp"), or null
+export function lookupUnit(text: string): string | null {
+  const cleaned = text.toLowerCase().replace(/\./g, "").replace(/\s+/g, " ").trim();
+  return (UNIT_LOOKUP.get(cleaned) ?? UNIT_LOOKUP.get(singularize(cleaned)))?.unit ?? null;
+}
+
+/**
+ * The unit a word of an ingredient line names: a measure ("Tablespoons" ->
+ * "tbsp") or a kitchen count unit ("cloves" -> "clove", which parseQuantity
+ * counts in its own right). Null for words that aren't units, like "large"
+ * in "3 large eggs".
+ */
+export function lookupIngredientUnit(text: string): string | null {
+  const known = lookupUnit(text);
+  if (known) return known;
+  const cleaned = text.toLowerCase().replace(/\./g, "").trim();
+  return [cleaned, singularize(cleaned)].find(candidate => KITCHEN_UNITS.includes(candidate)) ?? null;
+}
+
+export function getUnitFamily(unit: string): UnitFamily {
+  return resolveUnit(unit).family;
+}
+
+export function canConvert(fromUnit: string, toUnit: string): boolean {
+  return resolveUnit(fromUnit).base === resolveUnit(toUnit).base;
+}
+
+/**
+ * Converts a quantity into another unit of the same kind. Returns null for
+ * conversions that need a density or item weight (cups to grams, cans to ml).
+ */
+export function convertQuantity(quantity: ParsedQuantity, toUnit: string): ParsedQuantity | null {
+  const from = resolveUnit(quantity.unit);
+  const to = resolveUnit(toUnit);
+  if (from.base !== to.base) return null;
+  return { amount: (quantity.amount * from.toBase) / to.toBase, unit: to.unit, family: to.family };
+}
+
+/**
+ * Sums quantities in the unit of the first one, or returns null if any of them
+ * can't be converted into it.
+ */
+export function sumQuantities(quantities: ParsedQuantity[]): ParsedQuantity | null {
+  if (quantities.length === 0) return null;
+  let total = 0;
+  for (const quantity of quantities) {
+    const converted = convertQuantity(quantity, quantities[0].unit);
+    if (!converted) return null;
+    total += converted.amount;
+  }
+  return { ...quantities[0], amount: total };
+}
+
+export function formatQuantity(quantity: ParsedQuantity): string {
+  const definition = resolveUnit(quantity.unit);
+  const amount = Math.round(quantity.amount * 100) / 100;
+  return `${amount} ${amount === 1 ? definition.unit : definition.plural}`;
+}
+
+export function isRunningLow(quantity: ParsedQuantity): boolean {
+  const definition = resolveUnit(quantity.unit);
+  const threshold = LOW_STOCK_THRESHOLDS[definition.base] ?? LOW_STOCK_THRESHOLDS.each;
+  return quantity.amount * definition.toBase <= threshold;
+}
+
+/**
+ * Moves a quantity into the most readable unit of its measuring system, so
+ * scaled amounts read the way a cook would write them (6 tsp -> 2 tbsp,
+ * 1500 g -> 1.5 kg, 1/16 cup -> 1 tbsp). Other units are left as they are.
+ */
+export function simplifyQuantity(quantity: ParsedQuantity): ParsedQuantity {
+  const unit = resolveUnit(quantity.unit).unit;
+  const ladder = UNIT_LADDERS.find(steps => steps.some(step => step.unit === unit));
+  if (!ladder) return quantity;
+
+  // The largest unit the amount still fills its minimum of
+  for (let index = ladder.length - 1; index >= 0; index--) {
+    const converted = convertQuantity(quantity, ladder[index].unit);
+    // A little slack, since the US units are only nearly exact multiples of each other
+    if (converted && (index === 0 || converted.amount >= ladder[index].min * 0.98)) return converted;
+  }
+  return quantity;
+}
+
+/**
+ * Writes an amount the way a recipe would: whole numbers and common
+ * fractions ("1 1/2", "2/3") when close enough, otherwise up to two decimals.
+ * Metric units always get decimals.
+ */
+export function formatAmount(amount: number, unit?: string): string {
+  const metric = unit ? ["g", "kg", "mg", "ml", "l"].includes(resolveUnit(unit).unit) : false;
+  if (!metric) {
+    const whole = Math.floor(amount + 0.02);
+    const part = amount - whole;
+    if (Math.abs(part) < 0.02) return String(whole);
+    const fraction = KITCHEN_FRACTIONS.find(([value]) => Math.abs(part - value) < 0.02);
+    if (fraction) return whole > 0 ? `${whole} ${fraction[1]}` : fraction[1];
+  }
+  // Grams and millilitres don't need more precision than a kitchen scale
+  const precision = metric && amount >= 10 ? 1 : 100;
+  return String(Math.round(amount * precision) / precision);
+}
+
+// "1 1/2 cups", "2 tbsp", "750 g": an amount and unit as written in a recipe
+export function formatRecipeQuantity(quantity: ParsedQuantity): string {
+  const definition = resolveUnit(quantity.unit);
+  const amount = formatAmount(quantity.amount, definition.unit);
+  return `${amount} ${quantity.amount > 1 + 1e-9 ? definition.plural : definition.unit}`;
+}
@@ -0,0 +1,19 @@
+import { defineConfig } from "vitest/config";
+import path, { dirname } from "path";
+import { fileURLToPath } from "url";
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+export default defineConfig({
+  resolve: {
+    alias: {
+      "@shared": path.resolve(__dirname, "./shared"),
+      "@ai-services": path.resolve(__dirname, "ai-services"),
+    },
+  },
+  test: {
+    environment: "node",
+    include: ["server/tests/**/*.test.ts"],
+  },
+});